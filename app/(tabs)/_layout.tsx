@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react";
 import { Tabs } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
@@ -5,12 +6,22 @@ import { HapticTab } from "@/components/haptic-tab";
 import { IconSymbol } from "@/components/ui/icon-symbol";
 import { Platform } from "react-native";
 import { useColors } from "@/hooks/use-colors";
+import { TVHomeShell } from "@/components/tv-home-shell";
+import { deviceModeManager, type DeviceMode } from "@/lib/device-mode";
 
 export default function TabLayout() {
   const colors = useColors();
   const insets = useSafeAreaInsets();
   const bottomPadding = Platform.OS === "web" ? 12 : Math.max(insets.bottom, 8);
   const tabBarHeight = 56 + bottomPadding;
+  const [deviceMode, setDeviceMode] = useState<DeviceMode>(deviceModeManager.getMode());
+
+  useEffect(() => deviceModeManager.subscribe(setDeviceMode), []);
+
+  // 電視模式不顯示標籤欄，改用側邊欄與遙控器焦點導航
+  if (deviceMode === "tv") {
+    return <TVHomeShell />;
+  }
 
   return (
     <Tabs
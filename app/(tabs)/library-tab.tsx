@@ -3,6 +3,7 @@ import { ScreenContainer } from "@/components/screen-container";
 import { useColors } from "@/hooks/use-colors";
 import { useLocalVideoScanner } from "@/hooks/use-local-video-scanner";
 import { IconSymbol } from "@/components/ui/icon-symbol";
+import { formatVideoLayout } from "@/lib/video-layout";
 import { useEffect } from "react";
 
 export default function LibraryTabScreen() {
@@ -39,7 +40,7 @@ export default function LibraryTabScreen() {
               {video.filename}
             </Text>
             <View className="flex-row gap-2 mt-1">
-              <Text className="text-xs text-primary font-semibold">{video.type}</Text>
+              <Text className="text-xs text-primary font-semibold">{formatVideoLayout(video.layout)}</Text>
               <Text className="text-xs text-muted">{formatSize(video.size)}</Text>
             </View>
           </View>
@@ -19,6 +19,9 @@ import type { EdgeInsets, Metrics, Rect } from "react-native-safe-area-context";
 
 import { trpc, createTRPCClient } from "@/lib/trpc";
 import { initManusRuntime, subscribeSafeAreaInsets } from "@/lib/_core/manus-runtime";
+import { loadAppSettings } from "@/hooks/use-app-settings";
+import { useInputSources } from "@/hooks/use-input-actions";
+import { restoreTelegramSession } from "@/hooks/use-telegram";
 
 const DEFAULT_WEB_INSETS: EdgeInsets = { top: 0, right: 0, bottom: 0, left: 0 };
 const DEFAULT_WEB_FRAME: Rect = { x: 0, y: 0, width: 0, height: 0 };
@@ -40,11 +43,18 @@ export default function RootLayout() {
   const [frame, setFrame] = useState<Rect>(initialFrame);
   const [appIsReady, setAppIsReady] = useState(false);
 
+  // 遙控器、鍵盤與藍牙遙控器統一轉為輸入動作
+  useInputSources();
+
   // Initialize Manus runtime for cookie injection from parent container
   useEffect(() => {
     async function prepare() {
       try {
         initManusRuntime();
+        // 套用使用者指定的設備類型等全域設置
+        await loadAppSettings().catch((err) => console.error("加載設置失敗:", err));
+        // 還原 Telegram 登入並在背景繼續中斷的下載，不延後啟動
+        restoreTelegramSession();
         // 模擬初始化延遲
         await new Promise((resolve) => setTimeout(resolve, 300));
         setAppIsReady(true);
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, Alert } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { controllerManager } from "@/lib/bluetooth-controller";
+import { ControllerLearningSession, type LearningState } from "@/lib/controller-learning";
+
+/**
+ * 遙控器按鍵學習精靈
+ * 依序提示按下每個按鍵，完成後保存為新型號，同型號遙控器下次連接時自動套用
+ */
+export default function ControllerLearningScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const { deviceId = "" } = useLocalSearchParams<{ deviceId?: string }>();
+  const [session] = useState(() => new ControllerLearningSession(controllerManager, deviceId));
+  const [state, setState] = useState<LearningState>(() => session.getState());
+
+  const controller = controllerManager
+    .getConnectedControllers()
+    .find((c) => c.deviceId === deviceId);
+
+  useEffect(() => {
+    const unsubscribe = session.subscribe(setState);
+    session.start();
+    return () => {
+      unsubscribe();
+      session.cancel();
+    };
+  }, [session]);
+
+  const close = () => {
+    session.cancel();
+    if (router.canGoBack()) router.back();
+  };
+
+  const save = async () => {
+    try {
+      const model = await session.save();
+      Alert.alert("設定完成", `已保存「${model.name}」的 ${model.buttons.length} 個按鍵`);
+      if (router.canGoBack()) router.back();
+    } catch (err) {
+      Alert.alert("保存失敗", err instanceof Error ? err.message : "請稍後再試");
+    }
+  };
+
+  return (
+    <ScreenContainer className="p-6 justify-center gap-6">
+      <View className="items-center gap-2">
+        <Text className="text-2xl font-bold text-foreground">設定遙控器按鍵</Text>
+        <Text className="text-sm text-muted">
+          {controller?.deviceName ?? "遙控器未連接"}
+        </Text>
+      </View>
+
+      <View className="bg-surface rounded-lg p-6 items-center gap-3">
+        {state.step ? (
+          <>
+            <Text className="text-sm text-muted">
+              {state.stepIndex + 1} / {state.totalSteps}
+            </Text>
+            <Text className="text-xl font-semibold text-foreground text-center">
+              請按下遙控器上的「{state.step.name}」
+            </Text>
+            {state.error && (
+              <Text className="text-sm text-center" style={{ color: colors.error }}>
+                {state.error}
+              </Text>
+            )}
+          </>
+        ) : (
+          <Text className="text-xl font-semibold text-foreground">
+            {state.status === "completed" ? "全部按鍵已設定" : "已取消"}
+          </Text>
+        )}
+        <Text className="text-xs text-muted">已學會 {state.learned.length} 個按鍵</Text>
+      </View>
+
+      {state.status === "waiting" ? (
+        <View className="flex-row gap-3">
+          <TouchableOpacity
+            onPress={() => session.back()}
+            disabled={state.stepIndex === 0}
+            className="flex-1 py-3 rounded-lg items-center bg-surface"
+          >
+            <Text className="font-semibold text-foreground">上一步</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => session.skip()}
+            className="flex-1 py-3 rounded-lg items-center bg-surface"
+          >
+            <Text className="font-semibold text-foreground">沒有這個按鍵</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={close}
+            className="flex-1 py-3 rounded-lg items-center bg-surface"
+          >
+            <Text className="font-semibold" style={{ color: colors.error }}>
+              取消
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View className="flex-row gap-3">
+          {state.status === "completed" && (
+            <TouchableOpacity
+              onPress={save}
+              className="flex-1 py-3 rounded-lg items-center"
+              style={{ backgroundColor: colors.primary }}
+            >
+              <Text className="font-semibold" style={{ color: colors.background }}>
+                保存
+              </Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={close}
+            className="flex-1 py-3 rounded-lg items-center bg-surface"
+          >
+            <Text className="font-semibold text-foreground">關閉</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, StatusBar } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAppSettings } from '@/hooks/use-app-settings';
+import { useScreenGeometry, useStereoScreenLayout } from '@/hooks/use-screen-geometry';
+import { useInputActions } from '@/hooks/use-input-actions';
+import { findViewerProfile } from '@/lib/viewer-profile';
+import { isValidPupilDistance } from '@/lib/video-processing';
+import {
+  CALIBRATION_CARD_HEIGHT_MM,
+  CALIBRATION_CARD_WIDTH_MM,
+  type EyeLayout,
+} from '@/lib/screen-geometry';
+
+const STEP = 0.5;
+/** 螢幕尺寸校正每次調整的比例 */
+const SCALE_STEP = 0.01;
+const TARGET_SIZE = 48;
+
+type CalibrationStep = 'screen' | 'pupil';
+
+/**
+ * 瞳距校正
+ * 1. 螢幕尺寸：系統無法提供實體 DPI，先將實體卡片貼在螢幕上，調整外框直到與卡片同寬，
+ *    得到實際的版面像素 / 毫米，否則鏡片位置與瞳距換算都會依估算密度偏移
+ * 2. 瞳距：戴上眼鏡後，左右眼各顯示一個對準標記；調整瞳距直到兩個標記融合成一個
+ * 兩者一併存入設定
+ */
+export default function IPDCalibrationScreen() {
+  const router = useRouter();
+  const { settings, updateSettings } = useAppSettings();
+  const [step, setStep] = useState<CalibrationStep>('screen');
+  const [pupilDistance, setPupilDistance] = useState(settings.defaultPupilDistance);
+  const { width, height, pixelsPerMillimeter: savedPixelsPerMillimeter } = useScreenGeometry(
+    settings.screenPixelsPerMillimeter
+  );
+  const [pixelsPerMillimeter, setPixelsPerMillimeter] = useState(savedPixelsPerMillimeter);
+
+  const viewerProfile = findViewerProfile(
+    settings.selectedViewerProfileId,
+    settings.customViewerProfiles
+  );
+  const layout = useStereoScreenLayout(viewerProfile, pupilDistance, pixelsPerMillimeter);
+
+  useEffect(() => {
+    setPupilDistance(settings.defaultPupilDistance);
+  }, [settings.defaultPupilDistance]);
+
+  useEffect(() => {
+    setPixelsPerMillimeter(savedPixelsPerMillimeter);
+  }, [savedPixelsPerMillimeter]);
+
+  const adjust = (direction: 1 | -1) => {
+    if (step === 'screen') {
+      setPixelsPerMillimeter((prev) => prev * (1 + direction * SCALE_STEP));
+      return;
+    }
+    setPupilDistance((prev) => {
+      const next = Math.round((prev + direction * STEP) * 10) / 10;
+      return isValidPupilDistance(next) ? next : prev;
+    });
+  };
+
+  const confirm = async () => {
+    if (step === 'screen') {
+      setStep('pupil');
+      return;
+    }
+    await updateSettings({
+      defaultPupilDistance: pupilDistance,
+      screenPixelsPerMillimeter: pixelsPerMillimeter,
+    });
+    router.back();
+  };
+
+  useInputActions('calibration', (event) => {
+    switch (event.action) {
+      case 'pupil-distance-increase':
+        adjust(1);
+        break;
+      case 'pupil-distance-decrease':
+        adjust(-1);
+        break;
+      case 'select':
+        confirm();
+        break;
+      case 'back':
+        router.back();
+        break;
+    }
+  });
+
+  const AlignmentTarget = ({ eye }: { eye: EyeLayout }) => (
+    <View
+      style={[
+        styles.eye,
+        {
+          left: eye.viewport.x,
+          top: eye.viewport.y,
+          width: eye.viewport.width,
+          height: eye.viewport.height,
+        },
+      ]}
+    >
+      <View
+        style={[
+          styles.target,
+          {
+            left: eye.viewport.width / 2 + eye.imageShift - TARGET_SIZE / 2,
+            top: eye.lensCenter.y - eye.viewport.y - TARGET_SIZE / 2,
+          },
+        ]}
+      >
+        <View style={styles.crossHorizontal} />
+        <View style={styles.crossVertical} />
+      </View>
+    </View>
+  );
+
+  const cardWidth = CALIBRATION_CARD_WIDTH_MM * pixelsPerMillimeter;
+  const cardHeight = CALIBRATION_CARD_HEIGHT_MM * pixelsPerMillimeter;
+
+  return (
+    <View style={styles.container}>
+      <StatusBar hidden />
+      {step === 'screen' ? (
+        <View
+          style={[
+            styles.card,
+            {
+              left: (width - cardWidth) / 2,
+              top: (height - cardHeight) / 2,
+              width: cardWidth,
+              height: cardHeight,
+            },
+          ]}
+        />
+      ) : (
+        <>
+          <AlignmentTarget eye={layout.left} />
+          <AlignmentTarget eye={layout.right} />
+        </>
+      )}
+
+      <View style={styles.panel}>
+        <Text style={styles.hint}>
+          {step === 'screen'
+            ? '將信用卡或身分證貼在螢幕上，調整外框直到與卡片同寬'
+            : '調整瞳距直到左右兩個標記融合成一個'}
+        </Text>
+        <Text style={styles.value}>
+          {step === 'screen'
+            ? `${pixelsPerMillimeter.toFixed(2)} px/mm`
+            : `${pupilDistance.toFixed(1)} mm • ${viewerProfile.name}`}
+        </Text>
+        <View style={styles.buttons}>
+          <TouchableOpacity onPress={() => adjust(-1)} style={styles.button}>
+            <Text style={styles.buttonText}>－</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => adjust(1)} style={styles.button}>
+            <Text style={styles.buttonText}>＋</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={confirm} style={styles.button}>
+            <Text style={styles.buttonText}>{step === 'screen' ? '下一步' : '儲存'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.back()} style={styles.button}>
+            <Text style={styles.buttonText}>取消</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  eye: {
+    position: 'absolute',
+    overflow: 'hidden',
+    borderColor: '#222',
+    borderWidth: 1,
+  },
+  card: {
+    position: 'absolute',
+    borderColor: '#0ff',
+    borderWidth: 2,
+    borderRadius: 8,
+  },
+  target: {
+    position: 'absolute',
+    width: TARGET_SIZE,
+    height: TARGET_SIZE,
+    borderRadius: TARGET_SIZE / 2,
+    borderColor: '#0ff',
+    borderWidth: 2,
+  },
+  crossHorizontal: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: TARGET_SIZE / 2 - 2,
+    height: 2,
+    backgroundColor: '#0ff',
+  },
+  crossVertical: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: TARGET_SIZE / 2 - 2,
+    width: 2,
+    backgroundColor: '#0ff',
+  },
+  panel: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    padding: 10,
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+  },
+  hint: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  value: {
+    color: '#0ff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  buttons: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginHorizontal: 5,
+    backgroundColor: '#333',
+    borderRadius: 5,
+  },
+  buttonText: {
+    color: '#0ff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
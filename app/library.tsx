@@ -13,6 +13,10 @@ import { useColors } from "@/hooks/use-colors";
 import { useRouter } from "expo-router";
 import { useVideoLibrary, type VideoFile } from "@/hooks/use-video-library";
 import { IconSymbol } from "@/components/ui/icon-symbol";
+import { formatVideoLayout } from "@/lib/video-layout";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import { useConversionQueue } from "@/hooks/use-conversion-queue";
+import { ConversionQueuePanel } from "@/components/conversion-queue-panel";
 
 type SortBy = "name" | "date" | "size" | "duration";
 type FilterType = "all" | "2D" | "3D" | "360°";
@@ -32,6 +36,8 @@ export default function LibraryScreen() {
     getTotalDuration,
     formatSize,
   } = useVideoLibrary();
+  const { settings } = useAppSettings();
+  const { enqueue } = useConversionQueue();
 
   const [searchQuery, setSearchQuery] = useState("");
   const [filterType, setFilterType] = useState<FilterType>("all");
@@ -111,9 +117,35 @@ export default function LibraryScreen() {
     );
   };
 
+  // 將選中的 2D 影片加入背景轉檔佇列
+  const convertSelected = async () => {
+    const videos = library.videos.filter(
+      (v) => selectedVideos.has(v.id) && v.layout.stereo === "mono" && v.layout.projection === "flat"
+    );
+    if (videos.length === 0) {
+      Alert.alert("無法轉換", "請選擇 2D 影片");
+      return;
+    }
+
+    const added = await enqueue(
+      videos.map((v) => ({
+        sourceUri: v.path,
+        title: v.filename,
+        params: {
+          pupilDistance: settings.defaultPupilDistance,
+          convergenceDistance: 1000,
+          layout: "sbs" as const,
+        },
+      }))
+    );
+    setSelectedVideos(new Set());
+    setIsSelectionMode(false);
+    Alert.alert("已加入轉檔佇列", `${added.length} 個影片將在背景轉換為 3D`);
+  };
+
   // 播放影片
   const playVideo = (video: VideoFile) => {
-    alert(`播放: ${video.filename}\n類型: ${video.type}`);
+    alert(`播放: ${video.filename}\n類型: ${formatVideoLayout(video.layout)}`);
   };
 
   // 影片卡片
@@ -184,7 +216,7 @@ export default function LibraryScreen() {
                 color: isSelected ? colors.background : colors.muted,
               }}
             >
-              {video.type}
+              {formatVideoLayout(video.layout)}
             </Text>
             <Text
               className="text-xs"
@@ -381,6 +413,9 @@ export default function LibraryScreen() {
         </View>
       </View>
 
+      {/* 背景轉檔進度 */}
+      <ConversionQueuePanel />
+
       {/* 影片列表 */}
       {isLoading ? (
         <View className="flex-1 items-center justify-center">
@@ -429,6 +464,18 @@ export default function LibraryScreen() {
             </Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            onPress={convertSelected}
+            className="flex-1 py-2 rounded-lg items-center justify-center"
+            style={{
+              backgroundColor: colors.primary,
+            }}
+          >
+            <Text className="text-sm font-semibold text-background">
+              轉 3D ({selectedVideos.size})
+            </Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             onPress={deleteSelected}
             className="flex-1 py-2 rounded-lg items-center justify-center"
@@ -1,12 +1,18 @@
 import { useState, useRef, useEffect } from 'react';
-import { View, Text, ScrollView, Pressable, Alert, ActivityIndicator } from 'react-native';
+import { View, Text, ScrollView, Pressable, Alert, ActivityIndicator, Modal } from 'react-native';
 import { useRouter } from 'expo-router';
 import { VideoView, useVideoPlayer } from 'expo-video';
 import { ScreenContainer } from '@/components/screen-container';
+import { PlaybackOptionsPanel } from '@/components/playback-options-panel';
 import { useVideoPicker } from '@/hooks/use-video-picker';
 import { useColors } from '@/hooks/use-colors';
 import { useSBSConverter } from '@/hooks/use-sbs-converter';
 import { useVideoFrameProcessor } from '@/hooks/use-video-frame-processor';
+import { useStreamManifest } from '@/hooks/use-stream-manifest';
+import { useHlsDownloads } from '@/hooks/use-hls-downloads';
+import { STREAM_QUALITY_LABELS, type StreamQuality } from '@/lib/stream-manifest';
+import type { HlsDownloadRecord } from '@/lib/hls-download';
+import { DEFAULT_VIDEO_LAYOUT, formatVideoLayout, isSameLayout } from '@/lib/video-layout';
 import { cn } from '@/lib/utils';
 
 // 示例影片數據
@@ -32,8 +38,35 @@ const SAMPLE_VIDEOS = [
     type: '2D',
     duration: '15:02',
   },
+  {
+    id: '4',
+    name: '示例 HLS 自適應串流',
+    uri: 'https://devstreaming-cdn.apple.com/videos/streaming/examples/img_bipbop_adv_example_fmp4/master.m3u8',
+    type: '2D',
+    duration: '--:--',
+  },
 ];
 
+/**
+ * 離線下載按鈕的狀態文字
+ */
+function getOfflineStatus(record: HlsDownloadRecord | undefined): string | undefined {
+  switch (record?.status) {
+    case 'downloading':
+      return record.totalFiles > 0
+        ? `⏸ 下載中 ${Math.round((record.downloadedFiles / record.totalFiles) * 100)}%`
+        : '⏸ 準備下載...';
+    case 'paused':
+      return '▶ 繼續下載';
+    case 'failed':
+      return `下載失敗：${record.error ?? '未知錯誤'}（點擊重試）`;
+    case 'completed':
+      return '✓ 已下載，可在影片庫離線觀看';
+    default:
+      return undefined;
+  }
+}
+
 export default function PlayerScreen() {
   const router = useRouter();
   const colors = useColors();
@@ -46,13 +79,22 @@ export default function PlayerScreen() {
   const [pupilDistance, setPupilDistance] = useState(65); // 瞳距 (mm)
   const [isConverting, setIsConverting] = useState(false);
   const [conversionProgress, setConversionProgress] = useState(0);
+  const [showOptions, setShowOptions] = useState(false);
 
   const { selectedVideo, pickVideoFromFiles, pickVideoFromGallery, error } = useVideoPicker();
   const { convertToSBS, progress: sbsProgress, isConverting: sbsConverting } = useSBSConverter();
   const { convertFrameToSBS, getBufferStats } = useVideoFrameProcessor();
   
-  const player = useVideoPlayer(currentVideo.uri);
+  const stream = useStreamManifest(currentVideo.uri);
+  const { download: downloadStream, pause: pauseStream, getDownload: getStreamDownload } = useHlsDownloads();
+  const player = useVideoPlayer(stream.source);
   const conversionTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  // 切換畫質會重新建立播放器，記住播放位置與是否正在播放
+  const resumeRef = useRef<{ position: number; playing: boolean } | null>(null);
+
+  const offlineDownload = getStreamDownload(currentVideo.uri);
+  const canDownloadOffline = stream.format === 'hls' && !!stream.manifest && !stream.manifest.isLive;
+  const streamLayout = stream.manifest?.layout;
 
   // 當選擇新影片時更新
   useEffect(() => {
@@ -68,6 +110,19 @@ export default function PlayerScreen() {
     }
   }, [selectedVideo]);
 
+  // 切換畫質後從原本的位置繼續
+  useEffect(() => {
+    const resume = resumeRef.current;
+    if (!resume) return;
+    resumeRef.current = null;
+    try {
+      player.currentTime = resume.position;
+      if (resume.playing) player.play();
+    } catch (err) {
+      console.error('恢復播放位置失敗:', err);
+    }
+  }, [player]);
+
   // 監聽轉換進度
   useEffect(() => {
     setConversionProgress(sbsProgress);
@@ -87,6 +142,30 @@ export default function PlayerScreen() {
     }
   };
 
+  const handleQualityChange = (quality: StreamQuality) => {
+    if (quality === stream.quality) return;
+    resumeRef.current = { position: player.currentTime, playing: isPlaying };
+    stream.setQuality(quality);
+  };
+
+  const handleDownloadOffline = async () => {
+    if (offlineDownload?.status === 'downloading') {
+      pauseStream(offlineDownload.id);
+      return;
+    }
+    if (offlineDownload?.status === 'completed') return;
+
+    const completed = await downloadStream(
+      currentVideo.uri,
+      currentVideo.name,
+      stream.quality,
+      streamLayout
+    );
+    if (completed) {
+      Alert.alert('下載完成', `「${currentVideo.name}」已加入影片庫，可離線觀看`);
+    }
+  };
+
   const handleSelectSampleVideo = (video: typeof SAMPLE_VIDEOS[0]) => {
     setCurrentVideo(video);
     setIsPlaying(false);
@@ -102,7 +181,7 @@ export default function PlayerScreen() {
       setConversionProgress(0);
 
       try {
-        // 模擬轉換過程
+        // 轉檔（相同瞳距會沿用已轉換的檔案）
         const result = await convertToSBS(currentVideo.uri, {
           enabled: true,
           pupilDistance,
@@ -182,10 +261,21 @@ export default function PlayerScreen() {
                 {currentVideo.type}
               </Text>
             </View>
+            {streamLayout && !isSameLayout(streamLayout, DEFAULT_VIDEO_LAYOUT) && (
+              <View className="bg-surface px-3 py-1 rounded-full">
+                <Text className="text-xs font-semibold text-foreground">
+                  {formatVideoLayout(streamLayout)}
+                </Text>
+              </View>
+            )}
             <Text className="text-sm text-muted">
               時長: {currentVideo.duration}
             </Text>
           </View>
+          {stream.isLoading && (
+            <Text className="text-xs text-muted">正在讀取串流清單...</Text>
+          )}
+          {stream.error && <Text className="text-xs text-error">{stream.error}</Text>}
         </View>
 
         {/* 播放控制 */}
@@ -207,6 +297,24 @@ export default function PlayerScreen() {
             </Text>
           </Pressable>
 
+          {/* 播放選項（畫質、字幕、音軌） */}
+          <Pressable
+            onPress={() => setShowOptions(true)}
+            style={({ pressed }) => [
+              {
+                backgroundColor: colors.surface,
+                opacity: pressed ? 0.8 : 1,
+              },
+            ]}
+            className="py-3 rounded-lg items-center"
+          >
+            <Text className="text-foreground font-semibold">
+              ⚙️ 播放選項
+              {stream.qualityOptions.length > 0 &&
+                ` • ${STREAM_QUALITY_LABELS[stream.quality]}`}
+            </Text>
+          </Pressable>
+
           {/* 播放模式選擇 */}
           <View className="gap-2">
             <Text className="text-sm font-semibold text-foreground">播放模式</Text>
@@ -461,6 +569,28 @@ export default function PlayerScreen() {
           </Pressable>
         </View>
       </ScrollView>
+
+      <Modal
+        visible={showOptions}
+        animationType="slide"
+        onRequestClose={() => setShowOptions(false)}
+      >
+        <PlaybackOptionsPanel
+          playbackSpeed={playbackSpeed}
+          onPlaybackSpeedChange={setPlaybackSpeed}
+          subtitles={[]}
+          onSubtitleChange={() => {}}
+          audioTracks={[]}
+          selectedAudioTrackId=""
+          onAudioTrackChange={() => {}}
+          qualityOptions={stream.qualityOptions}
+          selectedQuality={stream.quality}
+          onQualityChange={handleQualityChange}
+          onDownloadOffline={canDownloadOffline ? handleDownloadOffline : undefined}
+          offlineStatus={getOfflineStatus(offlineDownload)}
+          onClose={() => setShowOptions(false)}
+        />
+      </Modal>
     </ScreenContainer>
   );
 }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   View,
   Text,
@@ -6,12 +6,40 @@ import {
   ScrollView,
   Switch,
   Alert,
+  Share,
 } from "react-native";
 import { ScreenContainer } from "@/components/screen-container";
 import { useColors } from "@/hooks/use-colors";
-import { useRouter } from "expo-router";
+import { useFocusEffect, useRouter } from "expo-router";
 import { useAppSettings } from "@/hooks/use-app-settings";
 import { IconSymbol } from "@/components/ui/icon-symbol";
+import { formatVideoLayout, PLAYBACK_LAYOUT_PRESETS } from "@/lib/video-layout";
+import { ViewerProfileImport } from "@/components/viewer-profile-import";
+import { ControllerMappingPanel } from "@/components/controller-mapping-panel";
+import {
+  DEFAULT_VIEWER_PROFILE_ID,
+  exportViewerProfileToUri,
+  findViewerProfile,
+  getAllViewerProfiles,
+  importViewerProfileFromUri,
+  validateViewerProfile,
+} from "@/lib/viewer-profile";
+import { deviceModeManager, type DeviceMode } from "@/lib/device-mode";
+import type { ResponseCurve } from "@/lib/analog-input";
+
+const DEVICE_MODE_LABELS: Record<DeviceMode, string> = {
+  phone: "手機",
+  tablet: "平板",
+  tv: "電視",
+};
+
+const RESPONSE_CURVE_LABELS: Record<ResponseCurve, string> = {
+  linear: "線性",
+  quadratic: "平滑",
+  cubic: "精細",
+};
+
+const ANALOG_DEAD_ZONES = [0.05, 0.1, 0.15, 0.2, 0.25];
 
 export default function SettingsScreen() {
   const colors = useColors();
@@ -22,10 +50,76 @@ export default function SettingsScreen() {
     updateSettings,
     resetToDefaults,
     getPlaybackDefaults,
+    reload,
   } = useAppSettings();
 
+  // 從瞳距校正返回時重新讀取設置
+  useFocusEffect(
+    useCallback(() => {
+      reload();
+    }, [reload])
+  );
+
   const [expandedSection, setExpandedSection] = useState<string | null>(null);
 
+  const viewerProfiles = getAllViewerProfiles(settings.customViewerProfiles);
+  const selectedViewerProfile = findViewerProfile(
+    settings.selectedViewerProfileId,
+    settings.customViewerProfiles
+  );
+
+  const selectViewerProfile = (profileId: string) => {
+    const profile = findViewerProfile(profileId, settings.customViewerProfiles);
+    updateSettings({
+      selectedViewerProfileId: profile.id,
+      defaultPupilDistance: profile.interLensDistance,
+    });
+  };
+
+  const importViewerProfile = async (uri: string): Promise<string | null> => {
+    try {
+      const profile = importViewerProfileFromUri(uri);
+      const validation = validateViewerProfile(profile);
+      if (!validation.valid) {
+        return validation.errors.join("\n");
+      }
+      await updateSettings({
+        customViewerProfiles: [...settings.customViewerProfiles, profile],
+        selectedViewerProfileId: profile.id,
+        defaultPupilDistance: profile.interLensDistance,
+      });
+      Alert.alert("匯入成功", `已新增眼鏡「${profile.name}」`);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : "匯入失敗";
+    }
+  };
+
+  const exportViewerProfile = async () => {
+    try {
+      await Share.share({ message: exportViewerProfileToUri(selectedViewerProfile) });
+    } catch (err) {
+      console.error("匯出眼鏡參數失敗:", err);
+    }
+  };
+
+  const deleteViewerProfile = () => {
+    Alert.alert("刪除自訂眼鏡", `確定要刪除「${selectedViewerProfile.name}」嗎？`, [
+      { text: "取消", style: "cancel" },
+      {
+        text: "刪除",
+        style: "destructive",
+        onPress: () =>
+          updateSettings({
+            customViewerProfiles: settings.customViewerProfiles.filter(
+              (profile) => profile.id !== selectedViewerProfile.id
+            ),
+            selectedViewerProfileId: DEFAULT_VIEWER_PROFILE_ID,
+          }),
+      },
+    ]);
+  };
+
   const SettingSection = ({
     title,
     sectionId,
@@ -126,23 +220,14 @@ export default function SettingsScreen() {
         <SettingSection title="▶️ 播放器設置" sectionId="playback">
           <SettingRow
             label="預設播放模式"
-            value={settings.defaultPlaybackMode}
+            value={formatVideoLayout(settings.defaultPlaybackMode)}
             onPress={() => {
               Alert.alert("選擇播放模式", "", [
-                {
-                  text: "2D",
-                  onPress: () => updateSetting("defaultPlaybackMode", "2D"),
-                },
-                {
-                  text: "3D",
-                  onPress: () => updateSetting("defaultPlaybackMode", "3D"),
-                },
-                {
-                  text: "360°",
-                  onPress: () =>
-                    updateSetting("defaultPlaybackMode", "360°"),
-                },
-                { text: "取消", style: "cancel" },
+                ...PLAYBACK_LAYOUT_PRESETS.map((preset) => ({
+                  text: preset.label,
+                  onPress: () => updateSetting("defaultPlaybackMode", preset.layout),
+                })),
+                { text: "取消", style: "cancel" as const },
               ]);
             }}
           />
@@ -182,33 +267,32 @@ export default function SettingsScreen() {
           <SettingRow
             label="預設瞳距"
             value={`${settings.defaultPupilDistance}mm`}
+            onPress={() => router.push("/ipd-calibration")}
           />
           <SettingRow
             label="VR 設備"
-            value={settings.selectedVRDevice}
+            value={selectedViewerProfile.name}
             onPress={() => {
               Alert.alert("選擇 VR 設備", "", [
-                {
-                  text: "標準 VR",
-                  onPress: () => updateSetting("selectedVRDevice", "標準 VR"),
-                },
-                {
-                  text: "大朋 VR",
-                  onPress: () => updateSetting("selectedVRDevice", "大朋 VR"),
-                },
-                {
-                  text: "小米 VR",
-                  onPress: () => updateSetting("selectedVRDevice", "小米 VR"),
-                },
-                {
-                  text: "魔風暴鏡",
-                  onPress: () =>
-                    updateSetting("selectedVRDevice", "魔風暴鏡"),
-                },
-                { text: "取消", style: "cancel" },
+                ...viewerProfiles.map((profile) => ({
+                  text: profile.name,
+                  onPress: () => selectViewerProfile(profile.id),
+                })),
+                { text: "取消", style: "cancel" as const },
               ]);
             }}
           />
+          <SettingRow
+            label="鏡片參數"
+            value={`${selectedViewerProfile.interLensDistance}mm • ${
+              selectedViewerProfile.fieldOfView.outer + selectedViewerProfile.fieldOfView.inner
+            }°`}
+          />
+          <SettingRow label="匯出 Cardboard 網址" value="分享" onPress={exportViewerProfile} />
+          {!selectedViewerProfile.builtIn && (
+            <SettingRow label="刪除自訂眼鏡" value="刪除" onPress={deleteViewerProfile} />
+          )}
+          <ViewerProfileImport onImport={importViewerProfile} />
         </SettingSection>
 
         {/* 界面設置 */}
@@ -257,6 +341,27 @@ export default function SettingsScreen() {
               ]);
             }}
           />
+          <SettingRow
+            label="裝置類型"
+            value={
+              settings.deviceModeOverride === "auto"
+                ? `自動（${DEVICE_MODE_LABELS[deviceModeManager.getDetectedMode()]}）`
+                : DEVICE_MODE_LABELS[settings.deviceModeOverride]
+            }
+            onPress={() => {
+              Alert.alert("選擇裝置類型", "介面布局依裝置類型調整", [
+                {
+                  text: "自動",
+                  onPress: () => updateSetting("deviceModeOverride", "auto"),
+                },
+                ...(Object.keys(DEVICE_MODE_LABELS) as DeviceMode[]).map((mode) => ({
+                  text: DEVICE_MODE_LABELS[mode],
+                  onPress: () => updateSetting("deviceModeOverride", mode),
+                })),
+                { text: "取消", style: "cancel" as const },
+              ]);
+            }}
+          />
           <ToggleSetting
             label="啟動時顯示控制條"
             value={settings.showControlsOnStart}
@@ -284,6 +389,32 @@ export default function SettingsScreen() {
               updateSetting("enableBluetoothControl", value)
             }
           />
+          <SettingRow
+            label="搖桿死區"
+            value={`${Math.round(settings.analogDeadZone * 100)}%`}
+            onPress={() => {
+              Alert.alert("搖桿死區", "搖桿靜止時仍會漂移請調高", [
+                ...ANALOG_DEAD_ZONES.map((deadZone) => ({
+                  text: `${Math.round(deadZone * 100)}%`,
+                  onPress: () => updateSetting("analogDeadZone", deadZone),
+                })),
+                { text: "取消", style: "cancel" as const },
+              ]);
+            }}
+          />
+          <SettingRow
+            label="搖桿響應曲線"
+            value={RESPONSE_CURVE_LABELS[settings.analogResponseCurve]}
+            onPress={() => {
+              Alert.alert("搖桿響應曲線", "越精細則小幅推動時轉動越慢", [
+                ...(Object.keys(RESPONSE_CURVE_LABELS) as ResponseCurve[]).map((curve) => ({
+                  text: RESPONSE_CURVE_LABELS[curve],
+                  onPress: () => updateSetting("analogResponseCurve", curve),
+                })),
+                { text: "取消", style: "cancel" as const },
+              ]);
+            }}
+          />
           <ToggleSetting
             label="陀螺儀"
             description="用於 360° 全景影片的頭部追蹤"
@@ -300,6 +431,11 @@ export default function SettingsScreen() {
           />
         </SettingSection>
 
+        {/* 遙控器按鍵 */}
+        <SettingSection title="🎮 遙控器按鍵" sectionId="controller">
+          <ControllerMappingPanel />
+        </SettingSection>
+
         {/* 存儲設置 */}
         <SettingSection title="💾 存儲設置" sectionId="storage">
           <ToggleSetting
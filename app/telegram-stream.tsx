@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   View,
   Text,
@@ -6,151 +6,399 @@ import {
   FlatList,
   TextInput,
   ActivityIndicator,
+  Alert,
 } from "react-native";
 import { ScreenContainer } from "@/components/screen-container";
 import { useColors } from "@/hooks/use-colors";
 import { useRouter } from "expo-router";
 import { IconSymbol } from "@/components/ui/icon-symbol";
+import { useTelegram } from "@/hooks/use-telegram";
+import { useTelegramDownloads } from "@/hooks/use-telegram-downloads";
+import type { DownloadRecord } from "@/lib/telegram-download";
+import {
+  TelegramStreamPlayer,
+  type TelegramChannel,
+  type TelegramMessage,
+} from "@/lib/telegram-integration";
+import type { TelegramAccount } from "@/lib/telegram-session-store";
+import {
+  canStreamTelegramVideo,
+  getTelegramMediaFile,
+  groupTelegramVideos,
+  type TelegramVideoItem,
+} from "@/lib/telegram-media";
+import { DEFAULT_VIDEO_LAYOUT, formatVideoLayout, isSameLayout } from "@/lib/video-layout";
+
+type LoginMethod = "bot" | "account";
+/** 使用者帳號登入步驟 */
+type LoginStep = "phone" | "code" | "password";
+
+const VIDEO_PAGE_SIZE = 30;
+
+/**
+ * 影片標題：說明文字第一行（分割檔可能在任何一部分），其次為檔名
+ */
+function getVideoTitle(item: TelegramVideoItem): string {
+  const caption = item.parts
+    .map((part) => (part.caption ?? part.text)?.split("\n")[0].trim())
+    .find(Boolean);
+  return caption || item.fileName;
+}
+
+/**
+ * 影片資訊：時長、分割檔、ZIP 與排列
+ */
+function getVideoDetails(item: TelegramVideoItem): string[] {
+  const details: string[] = [];
+  if (item.message.video) details.push(`時長: ${formatDuration(item.message.video.duration)}`);
+  if (item.parts.length > 1) details.push(`分割檔 ${item.parts.length} 部分`);
+  if (item.isArchive) details.push("ZIP");
+  if (!isSameLayout(item.layout, DEFAULT_VIDEO_LAYOUT)) details.push(formatVideoLayout(item.layout));
+  if (item.fileSize > 0) details.push(`${(item.fileSize / 1024 / 1024).toFixed(1)} MB`);
+  return details;
+}
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  const mm = String(m).padStart(h > 0 ? 2 : 1, "0");
+  const ss = String(s).padStart(2, "0");
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+}
 
-interface TelegramChannel {
-  id: string;
-  title: string;
-  username?: string;
-  memberCount?: number;
+function getAccountLabel(account: TelegramAccount): string {
+  const kind = account.mode === "bot" ? "機器人" : "帳號";
+  return account.username ? `${account.name}（@${account.username}，${kind}）` : `${account.name}（${kind}）`;
 }
 
-interface TelegramVideo {
-  id: string;
-  title: string;
-  duration: string;
-  channelId: string;
-  channelTitle: string;
+function getDownloadLabel(record?: DownloadRecord): string {
+  if (!record) return "下載";
+  switch (record.status) {
+    case "downloading":
+      return record.totalBytes > 0
+        ? `${Math.floor((record.downloadedBytes / record.totalBytes) * 100)}%`
+        : "下載中";
+    case "paused":
+      return "繼續";
+    case "failed":
+      return "重試";
+    default:
+      return "已下載";
+  }
 }
 
 export default function TelegramStreamScreen() {
   const colors = useColors();
   const router = useRouter();
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const {
+    manager,
+    mode,
+    isLoggedIn,
+    isRestoring,
+    accounts,
+    activeAccountId,
+    canUseAccount,
+    connectBot,
+    sendCode,
+    verifyCode,
+    verifyPassword,
+    switchAccount,
+    addAccount,
+    removeAccount,
+    logout,
+  } = useTelegram();
+  const [loginMethod, setLoginMethod] = useState<LoginMethod>("bot");
+  const [botToken, setBotToken] = useState("");
   const [phoneNumber, setPhoneNumber] = useState("");
   const [verificationCode, setVerificationCode] = useState("");
-  const [showCodeInput, setShowCodeInput] = useState(false);
+  const [password, setPassword] = useState("");
+  const [loginStep, setLoginStep] = useState<LoginStep>("phone");
   const [channels, setChannels] = useState<TelegramChannel[]>([]);
-  const [videos, setVideos] = useState<TelegramVideo[]>([]);
+  const [videos, setVideos] = useState<TelegramMessage[]>([]);
   const [selectedChannel, setSelectedChannel] = useState<TelegramChannel | null>(
     null
   );
   const [searchQuery, setSearchQuery] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const { download, pause, getDownload } = useTelegramDownloads(manager);
+  // 連續發佈的分割檔合併為一項
+  const videoItems = useMemo(() => groupTelegramVideos(videos), [videos]);
+
+  // 加載用戶頻道（機器人模式為已收到貼文的頻道）
+  const loadUserChannels = useCallback(async () => {
+    if (!manager?.isLoggedIn()) return;
+    setIsLoading(true);
+    try {
+      setChannels(await manager.getUserChannels());
+    } catch (err) {
+      Alert.alert("載入頻道失敗", err instanceof Error ? err.message : "請稍後再試");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [manager]);
+
+  useEffect(() => {
+    if (isLoggedIn) loadUserChannels();
+  }, [isLoggedIn, loadUserChannels]);
 
-  // 模擬登入流程
+  // 以 Bot Token 連接
+  const handleConnectBot = async () => {
+    if (!botToken) return;
+    setIsLoading(true);
+    try {
+      const ok = await connectBot(botToken);
+      if (ok) {
+        setBotToken("");
+      } else {
+        Alert.alert("連接失敗", "請確認 Bot Token 是否正確");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 發送驗證碼
   const handleLogin = async () => {
     if (!phoneNumber) return;
     setIsLoading(true);
-    // 模擬發送驗證碼
-    setTimeout(() => {
-      setShowCodeInput(true);
+    try {
+      if (await sendCode(phoneNumber)) {
+        setLoginStep("code");
+      } else {
+        Alert.alert("發送失敗", "請確認電話號碼是否正確");
+      }
+    } catch (err) {
+      Alert.alert("發送失敗", err instanceof Error ? err.message : "請稍後再試");
+    } finally {
       setIsLoading(false);
-    }, 1000);
+    }
+  };
+
+  const resetLoginForm = () => {
+    setLoginStep("phone");
+    setPhoneNumber("");
+    setVerificationCode("");
+    setPassword("");
   };
 
-  // 模擬驗證碼驗證
+  // 驗證碼驗證（帳號啟用兩步驟驗證時接著輸入密碼）
   const handleVerifyCode = async () => {
     if (!verificationCode) return;
     setIsLoading(true);
-    // 模擬驗證
-    setTimeout(() => {
-      setIsLoggedIn(true);
-      setShowCodeInput(false);
-      setPhoneNumber("");
-      setVerificationCode("");
-      // 加載用戶的頻道
-      loadUserChannels();
+    try {
+      const status = await verifyCode(phoneNumber, verificationCode);
+      if (status === "authenticated") {
+        resetLoginForm();
+      } else if (status === "password-required") {
+        setLoginStep("password");
+      } else {
+        Alert.alert("驗證失敗", "驗證碼錯誤或已過期");
+      }
+    } catch (err) {
+      Alert.alert("驗證失敗", err instanceof Error ? err.message : "請稍後再試");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 兩步驟驗證密碼
+  const handleVerifyPassword = async () => {
+    if (!password) return;
+    setIsLoading(true);
+    try {
+      if ((await verifyPassword(phoneNumber, password)) === "authenticated") {
+        resetLoginForm();
+      } else {
+        setPassword("");
+        Alert.alert("驗證失敗", "密碼錯誤");
+      }
+    } catch (err) {
+      Alert.alert("驗證失敗", err instanceof Error ? err.message : "請稍後再試");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetChannelState = () => {
+    setChannels([]);
+    setVideos([]);
+    setSelectedChannel(null);
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      resetChannelState();
+    } catch (err) {
+      Alert.alert("登出失敗", err instanceof Error ? err.message : "請稍後再試");
+    }
+  };
+
+  // 切換到保存的帳號
+  const handleSwitchAccount = async (accountId: string) => {
+    setIsLoading(true);
+    try {
+      if (await switchAccount(accountId)) {
+        resetChannelState();
+      } else {
+        Alert.alert("登入已失效", "請重新登入此帳號");
+      }
+    } catch (err) {
+      Alert.alert("切換失敗", err instanceof Error ? err.message : "請稍後再試");
+    } finally {
       setIsLoading(false);
-    }, 1000);
+    }
+  };
+
+  const handleAddAccount = async () => {
+    try {
+      await addAccount();
+      resetChannelState();
+    } catch (err) {
+      Alert.alert("新增帳號失敗", err instanceof Error ? err.message : "請稍後再試");
+    }
   };
 
-  // 模擬加載用戶頻道
-  const loadUserChannels = () => {
-    const mockChannels: TelegramChannel[] = [
-      {
-        id: "1",
-        title: "VR 影片分享",
-        username: "vr_videos",
-        memberCount: 15000,
-      },
-      {
-        id: "2",
-        title: "3D 電影預告",
-        username: "3d_movies",
-        memberCount: 8000,
-      },
-      {
-        id: "3",
-        title: "360° 全景視頻",
-        username: "panoramic_videos",
-        memberCount: 5000,
-      },
-    ];
-    setChannels(mockChannels);
+  const handleRemoveAccount = (accountId: string, name: string) => {
+    const remove = async () => {
+      try {
+        await removeAccount(accountId);
+      } catch (err) {
+        Alert.alert("移除失敗", err instanceof Error ? err.message : "請稍後再試");
+      }
+    };
+    Alert.alert("移除帳號", `確定要移除「${name}」的登入資訊？`, [
+      { text: "取消", style: "cancel" },
+      { text: "移除", style: "destructive", onPress: remove },
+    ]);
   };
 
-  // 模擬搜尋頻道
+  // 帳號選單
+  const handleShowAccounts = () => {
+    Alert.alert("切換帳號", undefined, [
+      ...accounts
+        .filter((account) => account.id !== activeAccountId)
+        .map((account) => ({
+          text: getAccountLabel(account),
+          onPress: () => handleSwitchAccount(account.id),
+        })),
+      { text: "新增帳號", onPress: handleAddAccount },
+      { text: "登出", style: "destructive" as const, onPress: handleLogout },
+      { text: "取消", style: "cancel" as const },
+    ]);
+  };
+
+  // 搜尋頻道
   const handleSearchChannels = async () => {
-    if (!searchQuery) return;
+    if (!searchQuery || !manager) return;
     setIsLoading(true);
-    // 模擬搜尋
-    setTimeout(() => {
-      const mockResults: TelegramChannel[] = [
-        {
-          id: "4",
-          title: `搜尋結果: ${searchQuery}`,
-          username: searchQuery,
-          memberCount: 3000,
-        },
-      ];
-      setChannels(mockResults);
+    try {
+      setChannels(await manager.searchChannels(searchQuery));
+    } catch (err) {
+      Alert.alert("搜尋失敗", err instanceof Error ? err.message : "請稍後再試");
+    } finally {
       setIsLoading(false);
-    }, 1000);
+    }
+  };
+
+  // 加載頻道影片第一頁（會先同步比快取更新的影片）
+  const loadFirstPage = async (channel: TelegramChannel) => {
+    if (!manager) return;
+    setIsLoading(true);
+    try {
+      const page = await manager.getChannelVideos(channel.id, VIDEO_PAGE_SIZE);
+      setVideos(page.messages);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      Alert.alert("載入影片失敗", err instanceof Error ? err.message : "請稍後再試");
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  // 模擬加載頻道影片
   const handleSelectChannel = (channel: TelegramChannel) => {
     setSelectedChannel(channel);
+    setVideos([]);
+    setNextCursor(null);
+    loadFirstPage(channel);
+  };
+
+  // 捲動到底時載入更舊的影片
+  const handleLoadMore = async () => {
+    if (!manager || !selectedChannel || nextCursor === null || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await manager.getChannelVideos(selectedChannel.id, VIDEO_PAGE_SIZE, nextCursor);
+      setVideos((current) => [
+        ...current,
+        ...page.messages.filter((m) => !current.some((c) => c.id === m.id)),
+      ]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      Alert.alert("載入影片失敗", err instanceof Error ? err.message : "請稍後再試");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // 下載影片（下載中再按一次為暫停）
+  const handleDownload = (item: TelegramVideoItem) => {
+    if (getDownload(item.id)?.status === "downloading") {
+      pause(item.id);
+    } else {
+      download(item);
+    }
+  };
+
+  // 播放影片（分割檔與 ZIP 需先下載）
+  const handlePlayVideo = async (item: TelegramVideoItem) => {
+    if (!manager) return;
+    if (!canStreamTelegramVideo(item) && !manager.getDownloadedPath(item.id)) {
+      if (!item.isComplete) {
+        Alert.alert("無法播放", "分割檔尚未取得所有部分，請繼續往下捲動載入較舊的貼文");
+      } else {
+        Alert.alert("需先下載", item.isArchive ? "ZIP 中的影片需下載後播放" : "分割檔需下載合併後播放", [
+          { text: "取消", style: "cancel" },
+          { text: "下載", onPress: () => handleDownload(item) },
+        ]);
+      }
+      return;
+    }
+
     setIsLoading(true);
-    // 模擬加載影片
-    setTimeout(() => {
-      const mockVideos: TelegramVideo[] = [
-        {
-          id: "v1",
-          title: "VR 風景探索",
-          duration: "20:15",
-          channelId: channel.id,
-          channelTitle: channel.title,
-        },
-        {
-          id: "v2",
-          title: "3D 電影預告片",
-          duration: "02:30",
-          channelId: channel.id,
-          channelTitle: channel.title,
+    try {
+      const uri = await new TelegramStreamPlayer(manager).playItem(item);
+      router.push({
+        pathname: "/vr-player",
+        params: {
+          videos: JSON.stringify([
+            {
+              uri,
+              name: getVideoTitle(item),
+              type: getTelegramMediaFile(item.message)?.mimeType,
+              layout: item.layout,
+            },
+          ]),
         },
-        {
-          id: "v3",
-          title: "360° 全景旅遊",
-          duration: "15:45",
-          channelId: channel.id,
-          channelTitle: channel.title,
-        },
-      ];
-      setVideos(mockVideos);
+      });
+    } catch (err) {
+      Alert.alert("無法播放", err instanceof Error ? err.message : "請稍後再試");
+    } finally {
       setIsLoading(false);
-    }, 1000);
+    }
   };
 
-  // 播放影片
-  const handlePlayVideo = (video: TelegramVideo) => {
-    alert(`播放: ${video.title}\n來自: ${video.channelTitle}`);
-  };
+  // 還原上次登入的帳號
+  if (!isLoggedIn && isRestoring) {
+    return (
+      <ScreenContainer className="p-6 justify-center items-center">
+        <ActivityIndicator color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
 
   // 登入頁面
   if (!isLoggedIn) {
@@ -166,7 +414,82 @@ export default function TelegramStreamScreen() {
             </Text>
           </View>
 
-          {!showCodeInput ? (
+          {/* 登入方式 */}
+          <View className="flex-row gap-2">
+            {(["bot", "account"] as LoginMethod[]).map((method) => {
+              const isSelected = loginMethod === method;
+              const disabled = method === "account" && !canUseAccount;
+              return (
+                <TouchableOpacity
+                  key={method}
+                  onPress={() => {
+                    setLoginMethod(method);
+                    setLoginStep("phone");
+                  }}
+                  disabled={disabled || isLoading}
+                  className="flex-1 py-2 rounded-lg items-center"
+                  style={{
+                    backgroundColor: isSelected ? colors.primary : colors.surface,
+                    borderColor: colors.border,
+                    borderWidth: 1,
+                  }}
+                >
+                  <Text
+                    className="text-sm font-semibold"
+                    style={{
+                      color: isSelected ? colors.background : disabled ? colors.muted : colors.foreground,
+                    }}
+                  >
+                    {method === "bot" ? "機器人" : "使用者帳號"}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {loginMethod === "bot" ? (
+            <>
+              <View className="gap-3">
+                <Text className="text-sm font-semibold text-foreground">
+                  Bot Token
+                </Text>
+                <TextInput
+                  placeholder="123456:ABC-DEF..."
+                  placeholderTextColor={colors.muted}
+                  value={botToken}
+                  onChangeText={setBotToken}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  secureTextEntry
+                  className="px-4 py-3 rounded-lg text-foreground"
+                  style={{
+                    backgroundColor: colors.surface,
+                    borderColor: colors.border,
+                    borderWidth: 1,
+                  }}
+                  editable={!isLoading}
+                />
+                <Text className="text-xs text-muted">
+                  將機器人加入頻道並設為管理員，之後發佈的影片會出現在這裡（檔案上限 20MB）
+                </Text>
+              </View>
+
+              <TouchableOpacity
+                onPress={handleConnectBot}
+                disabled={!botToken || isLoading}
+                className="py-3 rounded-lg items-center justify-center"
+                style={{
+                  backgroundColor: botToken && !isLoading ? colors.primary : colors.border,
+                }}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color={colors.background} />
+                ) : (
+                  <Text className="font-semibold text-background">連接</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          ) : loginStep === "phone" ? (
             <>
               <View className="gap-3">
                 <Text className="text-sm font-semibold text-foreground">
@@ -204,7 +527,7 @@ export default function TelegramStreamScreen() {
                 )}
               </TouchableOpacity>
             </>
-          ) : (
+          ) : loginStep === "code" ? (
             <>
               <View className="gap-3">
                 <Text className="text-sm font-semibold text-foreground">
@@ -241,12 +564,87 @@ export default function TelegramStreamScreen() {
                 )}
               </TouchableOpacity>
 
-              <TouchableOpacity onPress={() => setShowCodeInput(false)}>
+              <TouchableOpacity onPress={() => setLoginStep("phone")}>
                 <Text className="text-sm text-primary text-center">
                   返回
                 </Text>
               </TouchableOpacity>
             </>
+          ) : (
+            <>
+              <View className="gap-3">
+                <Text className="text-sm font-semibold text-foreground">
+                  兩步驟驗證密碼
+                </Text>
+                <TextInput
+                  placeholder="輸入密碼"
+                  placeholderTextColor={colors.muted}
+                  value={password}
+                  onChangeText={setPassword}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  secureTextEntry
+                  className="px-4 py-3 rounded-lg text-foreground"
+                  style={{
+                    backgroundColor: colors.surface,
+                    borderColor: colors.border,
+                    borderWidth: 1,
+                  }}
+                  editable={!isLoading}
+                />
+                <Text className="text-xs text-muted">
+                  此帳號已啟用兩步驟驗證
+                </Text>
+              </View>
+
+              <TouchableOpacity
+                onPress={handleVerifyPassword}
+                disabled={!password || isLoading}
+                className="py-3 rounded-lg items-center justify-center"
+                style={{
+                  backgroundColor: password && !isLoading ? colors.primary : colors.border,
+                }}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color={colors.background} />
+                ) : (
+                  <Text className="font-semibold text-background">登入</Text>
+                )}
+              </TouchableOpacity>
+
+              <TouchableOpacity onPress={resetLoginForm}>
+                <Text className="text-sm text-primary text-center">
+                  返回
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {/* 已保存的帳號 */}
+          {accounts.length > 0 && (
+            <View className="gap-3">
+              <Text className="text-sm font-semibold text-foreground">
+                已保存的帳號
+              </Text>
+              {accounts.map((account) => (
+                <TouchableOpacity
+                  key={account.id}
+                  onPress={() => handleSwitchAccount(account.id)}
+                  onLongPress={() => handleRemoveAccount(account.id, account.name)}
+                  disabled={isLoading}
+                  className="px-4 py-3 rounded-lg flex-row items-center justify-between"
+                  style={{
+                    backgroundColor: colors.surface,
+                    borderColor: colors.border,
+                    borderWidth: 1,
+                  }}
+                >
+                  <Text className="text-foreground">{getAccountLabel(account)}</Text>
+                  <IconSymbol name="chevron.right" size={16} color={colors.muted} />
+                </TouchableOpacity>
+              ))}
+              <Text className="text-xs text-muted">長按可移除帳號</Text>
+            </View>
           )}
         </View>
       </ScreenContainer>
@@ -263,16 +661,16 @@ export default function TelegramStreamScreen() {
         >
           <View className="flex-row items-center justify-between mb-4">
             <Text className="text-2xl font-bold text-foreground">
-              我的頻道
+              {mode === "bot" ? "機器人頻道" : "我的頻道"}
             </Text>
-            <TouchableOpacity
-              onPress={() => {
-                setIsLoggedIn(false);
-                setChannels([]);
-              }}
-            >
-              <Text className="text-primary font-semibold">登出</Text>
-            </TouchableOpacity>
+            <View className="flex-row gap-4">
+              <TouchableOpacity onPress={loadUserChannels} disabled={isLoading}>
+                <Text className="text-primary font-semibold">重新整理</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleShowAccounts}>
+                <Text className="text-primary font-semibold">帳號</Text>
+              </TouchableOpacity>
+            </View>
           </View>
 
           {/* 搜尋框 */}
@@ -336,8 +734,16 @@ export default function TelegramStreamScreen() {
           )}
           contentContainerStyle={{ paddingBottom: 20 }}
           ListEmptyComponent={
-            <View className="flex-1 items-center justify-center py-20">
-              <Text className="text-muted">沒有找到頻道</Text>
+            <View className="flex-1 items-center justify-center py-20 px-6">
+              {isLoading ? (
+                <ActivityIndicator color={colors.primary} />
+              ) : (
+                <Text className="text-muted text-center">
+                  {mode === "bot"
+                    ? "尚未收到任何頻道貼文，可輸入 @頻道名稱 搜尋公開頻道"
+                    : "沒有找到頻道"}
+                </Text>
+              )}
             </View>
           }
         />
@@ -364,11 +770,19 @@ export default function TelegramStreamScreen() {
 
       {/* 影片列表 */}
       <FlatList
-        data={videos}
+        data={videoItems}
         keyExtractor={(item) => item.id}
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        refreshing={isLoading && videos.length > 0}
+        onRefresh={() => loadFirstPage(selectedChannel)}
+        ListFooterComponent={
+          isLoadingMore ? <ActivityIndicator color={colors.primary} className="py-4" /> : null
+        }
         renderItem={({ item }) => (
           <TouchableOpacity
             onPress={() => handlePlayVideo(item)}
+            disabled={isLoading}
             className="mx-6 mb-3 p-4 rounded-lg"
             style={{
               backgroundColor: colors.surface,
@@ -385,19 +799,45 @@ export default function TelegramStreamScreen() {
               </View>
               <View className="flex-1">
                 <Text className="font-semibold text-foreground">
-                  {item.title}
-                </Text>
-                <Text className="text-xs text-muted mt-1">
-                  時長: {item.duration}
+                  {getVideoTitle(item)}
                 </Text>
+                {getVideoDetails(item).length > 0 && (
+                  <Text className="text-xs text-muted mt-1">
+                    {getVideoDetails(item).join(" · ")}
+                  </Text>
+                )}
+                {!item.isComplete && (
+                  <Text className="text-xs mt-1" style={{ color: colors.warning }}>
+                    尚未取得所有部分
+                  </Text>
+                )}
+                {getDownload(item.id)?.status === "failed" && (
+                  <Text className="text-xs mt-1" style={{ color: colors.error }}>
+                    {getDownload(item.id)?.error}
+                  </Text>
+                )}
               </View>
+              <TouchableOpacity
+                onPress={() => handleDownload(item)}
+                disabled={getDownload(item.id)?.status === "completed" || !item.isComplete}
+                className="px-3 py-2 rounded-lg"
+                style={{ backgroundColor: colors.background }}
+              >
+                <Text className="text-sm font-semibold text-primary">
+                  {getDownloadLabel(getDownload(item.id))}
+                </Text>
+              </TouchableOpacity>
             </View>
           </TouchableOpacity>
         )}
         contentContainerStyle={{ paddingBottom: 20 }}
         ListEmptyComponent={
           <View className="flex-1 items-center justify-center py-20">
-            <Text className="text-muted">沒有找到影片</Text>
+            {isLoading ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text className="text-muted">沒有找到影片</Text>
+            )}
           </View>
         }
       />
@@ -1,10 +1,31 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { StyleSheet, View, Text, TouchableOpacity, StatusBar, Platform, ToastAndroid, ScrollView, type ViewStyle } from 'react-native';
+import { StyleSheet, View, Text, TouchableOpacity, StatusBar, Platform, ToastAndroid, ScrollView, useWindowDimensions, type ViewStyle } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
 import * as MediaLibrary from 'expo-media-library';
-import { useSafeTVEventHandler } from '@/hooks/use-tv-event-handler';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useInputActions } from '@/hooks/use-input-actions';
+import { useAnalogInput } from '@/hooks/use-analog-input';
+import { gyroscopeTracker, type ViewportTransform } from '@/lib/gyroscope-tracker';
+import { getViewCenterUV } from '@/lib/equirect-reprojection';
 import { ScreenContainer } from '@/components/screen-container';
 import { useColors } from '@/hooks/use-colors';
+import { useAppSettings } from '@/hooks/use-app-settings';
+import { useStereoScreenLayout } from '@/hooks/use-screen-geometry';
+import { findViewerProfile } from '@/lib/viewer-profile';
+import { isValidPupilDistance } from '@/lib/video-processing';
+import {
+  detectVideoLayout,
+  getEyeFrameRect,
+  getEyeRegion,
+  isImmersiveProjection,
+  isSameLayout,
+  isStereoLayout,
+  DEFAULT_VIDEO_LAYOUT,
+  STEREO_LAYOUT_LABELS,
+  type Eye,
+  type StereoLayout,
+  type VideoLayout,
+} from '@/lib/video-layout';
 
 // 動態導入 expo-video（替代 expo-av）
 const Video = require('expo-video').Video || (() => null);
@@ -14,67 +35,209 @@ interface VideoAsset {
   uri: string;
   name: string;
   type?: string;
+  /** 來源已知的排列（例如由 Telegram 說明文字推斷），優先於文件名偵測 */
+  layout?: VideoLayout;
+}
+
+const STEREO_LAYOUT_ORDER: StereoLayout[] = ['mono', 'sbs', 'half-sbs', 'tb', 'half-tb'];
+
+// 360° 模式方向鍵每次旋轉的角度
+const PAN_STEP_DEGREES = 5;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * 計算單眼影片元素的樣式
+ * 將影片放大並平移，使該眼在影格中的區域以還原後的比例置中於眼睛視窗（影片以拉伸方式繪製）
+ */
+function getEyeVideoStyle(
+  stereo: StereoLayout,
+  eye: Eye,
+  viewport: Size,
+  frame: Size | null,
+  shift: number = 0
+): ViewStyle {
+  const rect = getEyeFrameRect(stereo, eye, viewport, frame);
+
+  return {
+    position: 'absolute',
+    left: rect.x,
+    top: rect.y,
+    width: rect.width,
+    height: rect.height,
+    transform: [{ translateX: shift }],
+  };
+}
+
+/**
+ * 計算 360° 模式單眼影片元素的樣式
+ * 原生影片元件無法逐像素重投影，僅依眼鏡視角放大影格，並平移使視線中心（getViewCenterUV）位於眼睛視窗中央
+ */
+function getPanoramaVideoStyle(layout: VideoLayout, eye: Eye, transform: ViewportTransform): ViewStyle {
+  const region = getEyeRegion(layout.stereo, eye);
+  const coverage = layout.projection === 'equirect-180' ? 180 : 360;
+  const { u, v } = getViewCenterUV(transform, coverage);
+
+  // 影格整體相對眼睛視窗的大小（百分比）
+  const width = (coverage / transform.horizontalFOV / region.width) * 100;
+  const height = (180 / transform.verticalFOV / region.height) * 100;
+
+  return {
+    position: 'absolute',
+    width: `${width}%`,
+    height: `${height}%`,
+    left: `${50 - (region.x + u * region.width) * width}%`,
+    top: `${50 - (region.y + v * region.height) * height}%`,
+  };
+}
+
+/**
+ * 解析路由參數中的影片清單
+ */
+function parseVideoParams(value?: string): VideoAsset[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((v) => typeof v?.uri === 'string') : [];
+  } catch (err) {
+    console.error('解析影片參數失敗:', err);
+    return [];
+  }
 }
 
 export default function VRPlayerScreen() {
   const colors = useColors();
+  const router = useRouter();
+  const { settings } = useAppSettings();
+  // 從其他畫面（例如電視主畫面）指定要播放的影片，JSON 格式的 VideoAsset 陣列
+  const params = useLocalSearchParams<{ videos?: string }>();
   const leftVideoRef = useRef<any>(null);
   const rightVideoRef = useRef<any>(null);
   
-  const [playlist, setPlaylist] = useState<VideoAsset[]>([]);
+  const [playlist, setPlaylist] = useState<VideoAsset[]>(() => parseVideoParams(params.videos));
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [viewMode, setViewMode] = useState<'2D' | 'SBS' | '360'>('SBS'); 
-  const [ipdOffset, setIpdOffset] = useState(0);
+  const [pupilDistance, setPupilDistance] = useState(settings.defaultPupilDistance);
   const [playbackSpeed, setPlaybackSpeed] = useState(1.0);
   const [showControls, setShowControls] = useState(true);
-  const [panX, setPanX] = useState(0);
-  const [panY, setPanY] = useState(0);
+  const [viewTransform, setViewTransform] = useState<ViewportTransform | null>(null);
   const [lastEvent, setLastEvent] = useState('等待訊號...');
+  const [layoutOverride, setLayoutOverride] = useState<VideoLayout | null>(null);
+  const [frameSize, setFrameSize] = useState<Size | null>(null);
+  const dimensions = useWindowDimensions();
+
+  const viewerProfile = findViewerProfile(
+    settings.selectedViewerProfileId,
+    settings.customViewerProfiles
+  );
+  const stereoLayout = useStereoScreenLayout(
+    viewerProfile,
+    pupilDistance,
+    settings.screenPixelsPerMillimeter
+  );
+  const { outer, inner, top, bottom } = viewerProfile.fieldOfView;
+  const panoramaTransform =
+    viewTransform ?? gyroscopeTracker.calculateViewportTransform(outer + inner, top + bottom);
+
+  // 設置載入後使用校正過的瞳距
+  useEffect(() => {
+    setPupilDistance(settings.defaultPupilDistance);
+  }, [settings.defaultPupilDistance]);
+
+  // 當前影片的排列：手動指定 > 來源指定 > 文件名偵測 > 預設播放模式
+  const detectedLayout = playlist[currentIndex]
+    ? playlist[currentIndex].layout ?? detectVideoLayout(playlist[currentIndex].name)
+    : DEFAULT_VIDEO_LAYOUT;
+  const currentLayout =
+    layoutOverride ??
+    (isSameLayout(detectedLayout, DEFAULT_VIDEO_LAYOUT)
+      ? settings.defaultPlaybackMode
+      : detectedLayout);
+
+  // 切換影片時依排列選擇顯示模式
+  useEffect(() => {
+    setLayoutOverride(null);
+    setFrameSize(null);
+  }, [currentIndex, playlist.length]);
+
+  useEffect(() => {
+    if (isImmersiveProjection(currentLayout.projection)) {
+      setViewMode('360');
+    } else if (isStereoLayout(currentLayout.stereo)) {
+      setViewMode('SBS');
+    }
+    resetView();
+  }, [currentLayout.stereo, currentLayout.projection]);
+
+  // 360° 視角：方向鍵、搖桿與陀螺儀共用同一個方向，視角依眼鏡設定
+  useEffect(() => {
+    const update = () =>
+      setViewTransform(gyroscopeTracker.calculateViewportTransform(outer + inner, top + bottom));
+    update();
+    return gyroscopeTracker.subscribe(update);
+  }, [outer, inner, top, bottom]);
+
+  // 手把搖桿：360° 模式旋轉視角，2D/SBS 模式變速拖曳
+  useAnalogInput(viewMode === '360' ? 'player-360' : 'player-2d', (event) => {
+    if (event.type === 'look') {
+      gyroscopeTracker.rotateBy(event.yaw, event.pitch);
+    } else {
+      seekVideo(event.seconds);
+    }
+  });
 
-  // TV 事件處理器
-  useSafeTVEventHandler((evt) => {
-    if (!evt) return;
-    
-    setLastEvent(evt.eventType);
+  // 遙控器、鍵盤與藍牙遙控器的動作
+  useInputActions(viewMode === '360' ? 'player-360' : 'player-2d', (event) => {
+    setLastEvent(event.action);
     setShowControls(true);
 
-    switch (evt.eventType) {
-      case 'select':
-      case 'center':
-      case 'playPause':
+    switch (event.action) {
+      case 'play-pause':
         togglePlay();
         break;
-        
-      case 'right':
-        if (viewMode === '360') handleDirection('RIGHT');
-        else seekVideo(10);
+      case 'seek-forward':
+        seekVideo(10);
         break;
-        
-      case 'left':
-        if (viewMode === '360') handleDirection('LEFT');
-        else seekVideo(-10);
+      case 'seek-backward':
+        seekVideo(-10);
         break;
-        
-      case 'up':
-        if (viewMode === '360') handleDirection('UP');
-        else adjustIPD(5);
+      case 'pupil-distance-increase':
+        adjustIPD(1);
         break;
-        
-      case 'down':
-        if (viewMode === '360') handleDirection('DOWN');
-        else adjustIPD(-5);
+      case 'pupil-distance-decrease':
+        adjustIPD(-1);
+        break;
+      case 'pan-up':
+        handleDirection('UP');
+        break;
+      case 'pan-down':
+        handleDirection('DOWN');
+        break;
+      case 'pan-left':
+        handleDirection('LEFT');
+        break;
+      case 'pan-right':
+        handleDirection('RIGHT');
+        break;
+      case 'recenter':
+        gyroscopeTracker.recenter();
+        break;
+      case 'mode-switch':
+        cycleViewMode();
         break;
-        
-      case 'fastForward':
       case 'next':
         playNext();
         break;
-
-      case 'rewind':
       case 'previous':
         playPrev();
         break;
+      case 'back':
+        if (router.canGoBack()) router.back();
+        break;
     }
   });
 
@@ -194,11 +357,10 @@ export default function VRPlayerScreen() {
     }
   }
   const handleDirection = (dir: 'UP' | 'DOWN' | 'LEFT' | 'RIGHT') => {
-    const step = 20;
-    if (dir === 'UP') setPanY(p => p + step);
-    if (dir === 'DOWN') setPanY(p => p - step);
-    if (dir === 'LEFT') setPanX(p => p + step);
-    if (dir === 'RIGHT') setPanX(p => p - step);
+    if (dir === 'UP') gyroscopeTracker.rotateBy(0, PAN_STEP_DEGREES);
+    if (dir === 'DOWN') gyroscopeTracker.rotateBy(0, -PAN_STEP_DEGREES);
+    if (dir === 'LEFT') gyroscopeTracker.rotateBy(PAN_STEP_DEGREES, 0);
+    if (dir === 'RIGHT') gyroscopeTracker.rotateBy(-PAN_STEP_DEGREES, 0);
   };
 
   // 快進/快退
@@ -242,11 +404,54 @@ export default function VRPlayerScreen() {
     }
   };
 
-  // 調整瞳距
+  // 切換立體排列（偵測錯誤時手動修正）
+  const cycleStereoLayout = () => {
+    const next =
+      STEREO_LAYOUT_ORDER[(STEREO_LAYOUT_ORDER.indexOf(currentLayout.stereo) + 1) % STEREO_LAYOUT_ORDER.length];
+    setLayoutOverride({ ...currentLayout, stereo: next });
+  };
+
+  // 切換顯示模式
+  const cycleViewMode = () => {
+    const modes: ('2D' | 'SBS' | '360')[] = ['2D', 'SBS', '360'];
+    setViewMode(modes[(modes.indexOf(viewMode) + 1) % 3]);
+    resetView();
+    setPupilDistance(settings.defaultPupilDistance);
+  };
+
+  // 視角回到正前方
+  const resetView = () => {
+    gyroscopeTracker.reset();
+    setViewTransform(null);
+  };
+
+  // 調整瞳距（毫米）
   const adjustIPD = (n: number) => {
     if (viewMode !== '2D') {
-      setIpdOffset(prev => Math.max(-50, Math.min(50, prev + n)));
+      setPupilDistance(prev => (isValidPupilDistance(prev + n) ? prev + n : prev));
+    }
+  };
+
+  // 單眼影片顯示的視窗大小：2D 為整個畫面，SBS 為鏡片下方的視窗
+  const getEyeViewport = (eye: Eye): Size =>
+    viewMode === 'SBS' ? stereoLayout[eye].viewport : { width: dimensions.width, height: dimensions.height };
+
+  // SBS 模式下每隻眼睛的視窗置中於鏡片下方
+  const getEyeContainerStyle = (eye: Eye): ViewStyle => {
+    if (viewMode === '2D') {
+      return eye === 'left' ? { width: '100%' } : { width: 0, opacity: 0 };
     }
+    if (viewMode === '360') {
+      return { width: '50%' };
+    }
+    const { viewport } = stereoLayout[eye];
+    return {
+      position: 'absolute',
+      left: viewport.x,
+      top: viewport.y,
+      width: viewport.width,
+      height: viewport.height,
+    };
   };
 
   // 顯示提示
@@ -291,7 +496,7 @@ export default function VRPlayerScreen() {
         </View>
 
         <Text className="text-xs text-muted text-center mt-4">
-          鍵盤控制：↑↓←→ 方向 | Enter 播放 | N/P 上/下一首
+          鍵盤控制：↑↓←→ 方向 | Enter 播放 | N/P 下一首/上一首
         </Text>
       </ScreenContainer>
     );
@@ -305,52 +510,51 @@ export default function VRPlayerScreen() {
       <StatusBar hidden />
       
       {/* 左眼 */}
-      <View 
-        style={[
-          styles.eye, 
-          viewMode === '2D' ? { width: '100%' } : { width: '50%' },
-          {
-            transform: [
-              { translateX: viewMode === '360' ? panX : -ipdOffset },
-              { translateY: viewMode === '360' ? panY : 0 },
-              { scale: viewMode === '360' ? 2.5 : 1 }
-            ]
-          }
-        ]}
-      >
+      <View style={[styles.eye, getEyeContainerStyle('left')]}>
         <Video 
           ref={leftVideoRef} 
-          style={styles.vid} 
+          style={
+            viewMode === '360'
+              ? getPanoramaVideoStyle(currentLayout, 'left', panoramaTransform)
+              : getEyeVideoStyle(
+                  currentLayout.stereo,
+                  'left',
+                  getEyeViewport('left'),
+                  frameSize,
+                  viewMode === 'SBS' ? stereoLayout.left.imageShift : 0
+                )
+          } 
           source={{ uri: currentVideo.uri }}
-          resizeMode={viewMode === '360' ? ResizeMode.COVER : ResizeMode.CONTAIN}
+          resizeMode={ResizeMode.STRETCH}
           shouldPlay={true}
           rate={playbackSpeed}
           isLooping={false}
           onPlaybackStatusUpdate={(s: any) => {
             if (s?.didJustFinish) playNext();
           }}
+          onReadyForDisplay={(e: any) => {
+            if (e?.naturalSize) setFrameSize({ width: e.naturalSize.width, height: e.naturalSize.height });
+          }}
         />
       </View>
 
       {/* 右眼 */}
-      <View 
-        style={[
-          styles.eye, 
-          viewMode === '2D' ? { width: 0, opacity: 0 } : { width: '50%' },
-          {
-            transform: [
-              { translateX: viewMode === '360' ? panX : ipdOffset },
-              { translateY: viewMode === '360' ? panY : 0 },
-              { scale: viewMode === '360' ? 2.5 : 1 }
-            ]
-          }
-        ]}
-      >
+      <View style={[styles.eye, getEyeContainerStyle('right')]}>
         <Video 
           ref={rightVideoRef} 
-          style={styles.vid} 
+          style={
+            viewMode === '360'
+              ? getPanoramaVideoStyle(currentLayout, 'right', panoramaTransform)
+              : getEyeVideoStyle(
+                  currentLayout.stereo,
+                  'right',
+                  getEyeViewport('right'),
+                  frameSize,
+                  viewMode === 'SBS' ? stereoLayout.right.imageShift : 0
+                )
+          } 
           source={{ uri: currentVideo.uri }}
-          resizeMode={viewMode === '360' ? ResizeMode.COVER : ResizeMode.CONTAIN}
+          resizeMode={ResizeMode.STRETCH}
           shouldPlay={true}
           rate={playbackSpeed}
           isLooping={false}
@@ -385,17 +589,14 @@ export default function VRPlayerScreen() {
               <Text style={styles.btnTxt}>⏭️</Text>
             </TouchableOpacity>
             <TouchableOpacity 
-              onPress={() => {
-                const modes: ('2D' | 'SBS' | '360')[] = ['2D', 'SBS', '360'];
-                setViewMode(modes[(modes.indexOf(viewMode) + 1) % 3]);
-                setPanX(0);
-                setPanY(0);
-                setIpdOffset(0);
-              }} 
+              onPress={cycleViewMode} 
               style={styles.sBtn}
             >
               <Text style={styles.btnTxt}>{viewMode}</Text>
             </TouchableOpacity>
+            <TouchableOpacity onPress={cycleStereoLayout} style={styles.sBtn}>
+              <Text style={styles.btnTxt}>{STEREO_LAYOUT_LABELS[currentLayout.stereo]}</Text>
+            </TouchableOpacity>
             <TouchableOpacity onPress={changeSpeed} style={styles.sBtn}>
               <Text style={styles.btnTxt}>{playbackSpeed}x</Text>
             </TouchableOpacity>
@@ -432,10 +633,6 @@ const styles = StyleSheet.create({
     overflow: 'hidden', 
     backgroundColor: '#000' 
   },
-  vid: { 
-    width: '100%', 
-    height: '100%' 
-  },
   overlay: { 
     position: 'absolute', 
     width: '100%', 
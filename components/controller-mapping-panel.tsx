@@ -0,0 +1,280 @@
+import React, { useEffect, useRef, useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, Alert, Share } from "react-native";
+import { useRouter } from "expo-router";
+import { useColors } from "@/hooks/use-colors";
+import { useControllerMappings } from "@/hooks/use-controller-mappings";
+import {
+  CONTROLLER_ACTION_LABELS,
+  type ControllerButtonAction,
+} from "@/lib/bluetooth-controller";
+
+const ACTIONS = Object.keys(CONTROLLER_ACTION_LABELS) as ControllerButtonAction[];
+
+/**
+ * 遙控器按鍵設定
+ * 選擇動作後按下遙控器上的按鍵即可綁定；每個遙控器分別保存，可匯出分享給同型號使用者
+ */
+export function ControllerMappingPanel() {
+  const colors = useColors();
+  const router = useRouter();
+  const {
+    devices,
+    getMapping,
+    getConflicts,
+    getButtons,
+    bindAction,
+    resetMappings,
+    exportMappings,
+    importMappings,
+  } = useControllerMappings();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [bindingAction, setBindingAction] = useState<ControllerButtonAction | null>(null);
+  const [importJson, setImportJson] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const device = devices.find((d) => d.deviceId === selectedId) ?? devices[0];
+
+  // 離開畫面時取消等待中的綁定
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  if (!device) {
+    return (
+      <Text className="text-sm text-muted py-2">
+        尚未連接藍牙遙控器，連接後按下任一按鍵即會出現在這裡
+      </Text>
+    );
+  }
+
+  const mapping = getMapping(device.deviceId);
+  const conflicts = getConflicts(device.deviceId);
+  const buttons = getButtons(device.deviceId);
+
+  const keyName = (keyCode: number) =>
+    buttons.find((button) => button.keyCode === keyCode)?.name ?? `按鍵 ${keyCode}`;
+
+  const keysFor = (action: ControllerButtonAction) =>
+    Object.entries(mapping)
+      .filter(([, mapped]) => mapped === action)
+      .map(([keyCode]) => keyName(Number(keyCode)));
+
+  const startBinding = async (action: ControllerButtonAction) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBindingAction(action);
+    try {
+      await bindAction(device.deviceId, action, controller.signal);
+    } catch {
+      // 已取消
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setBindingAction(null);
+      }
+    }
+  };
+
+  const cancelBinding = () => {
+    abortRef.current?.abort();
+  };
+
+  const confirmReset = () => {
+    Alert.alert("還原預設", `確定要清除「${device.deviceName}」的自訂按鍵嗎？`, [
+      { text: "取消", style: "cancel" },
+      {
+        text: "還原",
+        style: "destructive",
+        onPress: () => resetMappings(device.deviceId),
+      },
+    ]);
+  };
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ message: exportMappings(device.deviceId) });
+    } catch (err) {
+      console.error("匯出遙控器映射失敗:", err);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      await importMappings(device.deviceId, importJson);
+      setImportJson("");
+      setImportError(null);
+      Alert.alert("匯入成功", `已套用到「${device.deviceName}」`);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "匯入失敗");
+    }
+  };
+
+  return (
+    <View className="gap-3">
+      {/* 遙控器選擇 */}
+      <View className="flex-row flex-wrap gap-2">
+        {devices.map((d) => {
+          const isSelected = d.deviceId === device.deviceId;
+          return (
+            <TouchableOpacity
+              key={d.deviceId}
+              onPress={() => setSelectedId(d.deviceId)}
+              className="px-3 py-2 rounded-lg"
+              style={{
+                backgroundColor: isSelected ? colors.primary : colors.background,
+                borderColor: colors.border,
+                borderWidth: 1,
+              }}
+            >
+              <Text
+                className="text-sm"
+                style={{ color: isSelected ? colors.background : colors.foreground }}
+              >
+                {d.deviceName || d.deviceId}
+                {d.isConnected ? "" : "（未連接）"}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {bindingAction && (
+        <View
+          className="flex-row items-center justify-between p-3 rounded-lg"
+          style={{ backgroundColor: colors.background }}
+        >
+          <Text className="text-sm text-foreground flex-1">
+            請按下遙控器上要用於「{CONTROLLER_ACTION_LABELS[bindingAction]}」的按鍵…
+          </Text>
+          <TouchableOpacity onPress={cancelBinding} className="px-3 py-1">
+            <Text className="text-primary font-semibold">取消</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* 動作列表 */}
+      {ACTIONS.map((action) => {
+        const keys = keysFor(action);
+        const hasConflict = conflicts.some((conflict) => conflict.action === action);
+        return (
+          <View
+            key={action}
+            className="flex-row items-center justify-between py-2"
+            style={{ borderBottomColor: colors.border, borderBottomWidth: 1 }}
+          >
+            <View className="flex-1">
+              <Text className="text-sm text-foreground">{CONTROLLER_ACTION_LABELS[action]}</Text>
+              <Text
+                className="text-xs"
+                style={{ color: hasConflict ? colors.error : colors.muted }}
+              >
+                {keys.length > 0 ? keys.join("、") : "未綁定"}
+                {hasConflict ? "（多個按鍵）" : ""}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => startBinding(action)}
+              disabled={!device.isConnected}
+              className="px-3 py-1 rounded-lg"
+              style={{
+                backgroundColor:
+                  bindingAction === action
+                    ? colors.primary
+                    : device.isConnected
+                      ? colors.background
+                      : colors.border,
+              }}
+            >
+              <Text
+                className="text-sm font-semibold"
+                style={{ color: bindingAction === action ? colors.background : colors.primary }}
+              >
+                綁定
+              </Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      {conflicts.length > 0 && (
+        <Text className="text-xs" style={{ color: colors.error }}>
+          有動作被多個按鍵綁定，請重新綁定其中一個按鍵
+        </Text>
+      )}
+
+      <View className="flex-row gap-2">
+        <TouchableOpacity
+          onPress={confirmReset}
+          className="flex-1 py-2 rounded-lg items-center"
+          style={{ backgroundColor: colors.background }}
+        >
+          <Text className="text-sm font-semibold" style={{ color: colors.error }}>
+            還原預設
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() =>
+            router.push({
+              pathname: "/controller-learning",
+              params: { deviceId: device.deviceId },
+            })
+          }
+          disabled={!device.isConnected}
+          className="flex-1 py-2 rounded-lg items-center"
+          style={{ backgroundColor: colors.background }}
+        >
+          <Text
+            className="text-sm font-semibold"
+            style={{ color: device.isConnected ? colors.primary : colors.muted }}
+          >
+            學習按鍵
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={handleExport}
+          className="flex-1 py-2 rounded-lg items-center"
+          style={{ backgroundColor: colors.background }}
+        >
+          <Text className="text-sm font-semibold text-primary">匯出</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* 匯入 */}
+      <View className="gap-2">
+        <Text className="text-sm text-foreground">匯入按鍵設定</Text>
+        <View className="flex-row gap-2">
+          <TextInput
+            placeholder='{"version":1,"mappings":{...}}'
+            placeholderTextColor={colors.muted}
+            value={importJson}
+            onChangeText={setImportJson}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+            className="flex-1 px-3 py-2 rounded-lg text-foreground"
+            style={{
+              backgroundColor: colors.background,
+              borderColor: colors.border,
+              borderWidth: 1,
+            }}
+          />
+          <TouchableOpacity
+            onPress={handleImport}
+            disabled={!importJson.trim()}
+            className="px-4 py-2 rounded-lg justify-center"
+            style={{ backgroundColor: importJson.trim() ? colors.primary : colors.border }}
+          >
+            <Text className="font-semibold" style={{ color: colors.background }}>
+              匯入
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {importError && (
+          <Text className="text-xs" style={{ color: colors.error }}>
+            {importError}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,121 @@
+import React from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import { useColors } from "@/hooks/use-colors";
+import { useConversionQueue } from "@/hooks/use-conversion-queue";
+import type { ConversionJob, ConversionJobStatus } from "@/lib/conversion-queue";
+
+const STATUS_LABELS: Record<ConversionJobStatus, string> = {
+  queued: "等待中",
+  running: "轉換中",
+  paused: "已暫停",
+  completed: "已完成",
+  failed: "失敗",
+  cancelled: "已取消",
+};
+
+function ActionButton({ label, onPress }: { label: string; onPress: () => void }) {
+  const colors = useColors();
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      className="px-3 py-1 rounded-md"
+      style={{ borderColor: colors.border, borderWidth: 1 }}
+    >
+      <Text className="text-xs font-semibold text-foreground">{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+interface JobRowProps {
+  job: ConversionJob;
+  actions: Record<"pause" | "resume" | "cancel" | "retry" | "remove", (jobId: string) => void>;
+}
+
+/**
+ * 單一轉檔工作列
+ * 只顯示目前狀態可執行的操作：取消僅適用於等待中、轉換中與已暫停的工作
+ */
+function JobRow({ job, actions }: JobRowProps) {
+  const colors = useColors();
+  const { pause, resume, cancel, retry, remove } = actions;
+
+  return (
+    <View className="py-2 gap-1">
+      <View className="flex-row items-center justify-between gap-2">
+        <Text numberOfLines={1} className="flex-1 text-sm text-foreground">
+          {job.title}
+        </Text>
+        <Text
+          className="text-xs"
+          style={{ color: job.status === "failed" ? colors.error : colors.muted }}
+        >
+          {job.status === "running"
+            ? `${Math.round(job.progress)}%`
+            : STATUS_LABELS[job.status]}
+        </Text>
+      </View>
+
+      {(job.status === "running" || job.status === "paused") && (
+        <View className="h-1 rounded-full overflow-hidden" style={{ backgroundColor: colors.border }}>
+          <View
+            className="h-full"
+            style={{ width: `${job.progress}%`, backgroundColor: colors.primary }}
+          />
+        </View>
+      )}
+
+      {job.error && (
+        <Text numberOfLines={1} className="text-xs" style={{ color: colors.error }}>
+          {job.error}
+        </Text>
+      )}
+
+      <View className="flex-row gap-2">
+        {(job.status === "queued" || job.status === "running") && (
+          <ActionButton label="暫停" onPress={() => pause(job.id)} />
+        )}
+        {job.status === "paused" && <ActionButton label="繼續" onPress={() => resume(job.id)} />}
+        {(job.status === "failed" || job.status === "cancelled") && (
+          <ActionButton label="重試" onPress={() => retry(job.id)} />
+        )}
+        {(job.status === "queued" || job.status === "running" || job.status === "paused") && (
+          <ActionButton label="取消" onPress={() => cancel(job.id)} />
+        )}
+        {job.status !== "running" && <ActionButton label="移除" onPress={() => remove(job.id)} />}
+      </View>
+    </View>
+  );
+}
+
+/**
+ * 背景轉檔佇列面板
+ * 顯示每個工作的進度，並提供暫停、繼續、取消與重試
+ */
+export function ConversionQueuePanel() {
+  const colors = useColors();
+  const { jobs, activeCount, pause, resume, cancel, retry, remove, clearFinished } =
+    useConversionQueue();
+  const actions = { pause, resume, cancel, retry, remove };
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <View
+      className="mx-4 mt-3 p-4 rounded-lg"
+      style={{ backgroundColor: colors.surface, borderColor: colors.border, borderWidth: 1 }}
+    >
+      <View className="flex-row items-center justify-between mb-1">
+        <Text className="font-semibold text-foreground">
+          3D 轉檔佇列{activeCount > 0 ? `（${activeCount} 個進行中）` : ""}
+        </Text>
+        <TouchableOpacity onPress={clearFinished}>
+          <Text className="text-xs text-primary">清除已完成</Text>
+        </TouchableOpacity>
+      </View>
+      {jobs.map((job) => (
+        <JobRow key={job.id} job={job} actions={actions} />
+      ))}
+    </View>
+  );
+}
@@ -8,6 +8,7 @@ import {
 } from "react-native";
 import { useColors } from "@/hooks/use-colors";
 import { PLAYBACK_SPEEDS } from "@/lib/video-processing";
+import type { StreamQuality } from "@/lib/stream-manifest";
 
 export interface Subtitle {
   id: string;
@@ -23,6 +24,11 @@ export interface AudioTrack {
   codec: string;
 }
 
+export interface QualityOption {
+  quality: StreamQuality;
+  label: string;
+}
+
 interface PlaybackOptionsPanelProps {
   playbackSpeed: number;
   onPlaybackSpeedChange: (speed: number) => void;
@@ -32,6 +38,14 @@ interface PlaybackOptionsPanelProps {
   audioTracks: AudioTrack[];
   selectedAudioTrackId: string;
   onAudioTrackChange: (trackId: string) => void;
+  /** 自適應串流的畫質選項；沒有選項也沒有離線下載時不顯示畫質區塊 */
+  qualityOptions?: QualityOption[];
+  selectedQuality?: StreamQuality;
+  onQualityChange?: (quality: StreamQuality) => void;
+  /** 下載目前畫質供離線觀看（僅 HLS） */
+  onDownloadOffline?: () => void;
+  /** 離線下載狀態文字（例如「下載中 35%」） */
+  offlineStatus?: string;
   onClose: () => void;
 }
 
@@ -44,6 +58,11 @@ export function PlaybackOptionsPanel({
   audioTracks,
   selectedAudioTrackId,
   onAudioTrackChange,
+  qualityOptions,
+  selectedQuality = "auto",
+  onQualityChange,
+  onDownloadOffline,
+  offlineStatus,
   onClose,
 }: PlaybackOptionsPanelProps) {
   const colors = useColors();
@@ -169,6 +188,31 @@ export function PlaybackOptionsPanel({
           </View>
         </OptionSection>
 
+        {/* 畫質選擇（自適應串流） */}
+        {(qualityOptions?.length || onDownloadOffline) && (
+          <OptionSection title="📶 畫質" sectionId="quality">
+            {qualityOptions?.map((option) => (
+              <OptionButton
+                key={option.quality}
+                label={option.label}
+                isSelected={selectedQuality === option.quality}
+                onPress={() => onQualityChange?.(option.quality)}
+              />
+            ))}
+            {onDownloadOffline && (
+              <TouchableOpacity
+                onPress={onDownloadOffline}
+                className="py-3 px-4 rounded-lg items-center mt-2"
+                style={{ backgroundColor: colors.surface, borderColor: colors.primary, borderWidth: 1 }}
+              >
+                <Text className="text-sm font-semibold text-primary">
+                  {offlineStatus ?? "⬇ 下載離線觀看"}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </OptionSection>
+        )}
+
         {/* 字幕選擇 */}
         <OptionSection title="📝 字幕" sectionId="subtitles">
           <OptionButton
@@ -10,8 +10,8 @@ import {
   BRIGHTNESS_PRESETS,
   CONTRAST_PRESETS,
   PLAYBACK_SPEEDS,
-  VR_DEVICE_PUPIL_DISTANCES,
 } from "@/lib/video-processing";
+import type { ViewerProfile } from "@/lib/viewer-profile";
 
 interface PlaybackSettingsPanelProps {
   brightness: number;
@@ -24,8 +24,9 @@ interface PlaybackSettingsPanelProps {
   onPlaybackSpeedChange: (value: number) => void;
   pupilDistance: number;
   onPupilDistanceChange: (value: number) => void;
-  selectedVRDevice: string;
-  onVRDeviceChange: (device: string) => void;
+  viewerProfiles: ViewerProfile[];
+  selectedViewerProfileId: string;
+  onViewerProfileChange: (profileId: string) => void;
   onClose: () => void;
 }
 
@@ -40,8 +41,9 @@ export function PlaybackSettingsPanel({
   onPlaybackSpeedChange,
   pupilDistance,
   onPupilDistanceChange,
-  selectedVRDevice,
-  onVRDeviceChange,
+  viewerProfiles,
+  selectedViewerProfileId,
+  onViewerProfileChange,
   onClose,
 }: PlaybackSettingsPanelProps) {
   const colors = useColors();
@@ -272,20 +274,18 @@ export function PlaybackSettingsPanel({
         {/* VR 設備選擇 */}
         <SettingSection title="🥽 VR 設備" sectionId="vr-device">
           <View className="gap-2">
-            {Object.entries(VR_DEVICE_PUPIL_DISTANCES).map(
-              ([device, distance]) => (
+            {viewerProfiles.map((profile) => {
+              const isSelected = selectedViewerProfileId === profile.id;
+              return (
                 <TouchableOpacity
-                  key={device}
+                  key={profile.id}
                   onPress={() => {
-                    onVRDeviceChange(device);
-                    onPupilDistanceChange(distance);
+                    onViewerProfileChange(profile.id);
+                    onPupilDistanceChange(profile.interLensDistance);
                   }}
                   className="p-3 rounded-lg flex-row items-center justify-between"
                   style={{
-                    backgroundColor:
-                      selectedVRDevice === device
-                        ? colors.primary
-                        : colors.background,
+                    backgroundColor: isSelected ? colors.primary : colors.background,
                     borderColor: colors.border,
                     borderWidth: 1,
                   }}
@@ -294,32 +294,25 @@ export function PlaybackSettingsPanel({
                     <Text
                       className="font-semibold"
                       style={{
-                        color:
-                          selectedVRDevice === device
-                            ? colors.background
-                            : colors.foreground,
+                        color: isSelected ? colors.background : colors.foreground,
                       }}
                     >
-                      {device}
+                      {profile.name}
                     </Text>
                     <Text
                       className="text-xs mt-1"
                       style={{
-                        color:
-                          selectedVRDevice === device
-                            ? colors.background
-                            : colors.muted,
+                        color: isSelected ? colors.background : colors.muted,
                       }}
                     >
-                      瞳距: {distance}mm
+                      瞳距: {profile.interLensDistance}mm • 視角:{" "}
+                      {profile.fieldOfView.outer + profile.fieldOfView.inner}°
                     </Text>
                   </View>
-                  {selectedVRDevice === device && (
-                    <Text className="text-lg">✓</Text>
-                  )}
+                  {isSelected && <Text className="text-lg">✓</Text>}
                 </TouchableOpacity>
-              )
-            )}
+              );
+            })}
           </View>
         </SettingSection>
 
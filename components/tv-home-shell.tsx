@@ -0,0 +1,259 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { View, Text, ScrollView } from "react-native";
+import { useFocusEffect, useRouter } from "expo-router";
+import { useColors } from "@/hooks/use-colors";
+import { useFocusGraph } from "@/hooks/use-focus-graph";
+import { usePlaylist } from "@/hooks/use-playlist";
+import { useVideoLibrary, type VideoFile } from "@/hooks/use-video-library";
+import { deviceModeManager } from "@/lib/device-mode";
+import { FocusGraph, buildLeanbackFocusNodes, type LeanbackRow } from "@/lib/focus-graph";
+import { formatVideoLayout } from "@/lib/video-layout";
+
+interface SidebarItem {
+  id: string;
+  label: string;
+  icon: string;
+  route?: "/library" | "/vr-player" | "/telegram-stream" | "/settings";
+}
+
+const SIDEBAR_ITEMS: SidebarItem[] = [
+  { id: "sidebar:home", label: "首頁", icon: "🏠" },
+  { id: "sidebar:library", label: "影片庫", icon: "🎞️", route: "/library" },
+  { id: "sidebar:player", label: "VR 播放器", icon: "🥽", route: "/vr-player" },
+  { id: "sidebar:telegram", label: "Telegram", icon: "✈️", route: "/telegram-stream" },
+  { id: "sidebar:settings", label: "設置", icon: "⚙️", route: "/settings" },
+];
+
+interface ContentCard {
+  id: string;
+  title: string;
+  subtitle: string;
+  videos: VideoFile[];
+}
+
+interface ContentRow {
+  id: string;
+  title: string;
+  cards: ContentCard[];
+}
+
+/**
+ * 焦點圖以模組層級保存：從播放器返回時畫面重新掛載，焦點仍停在原本的項目
+ */
+const tvFocusGraph = new FocusGraph();
+
+/**
+ * 電視模式主畫面（Leanback 風格）
+ * 左側為焦點導航側邊欄，右側為水平捲動的內容列，全部以遙控器方向鍵操作
+ */
+export function TVHomeShell() {
+  const colors = useColors();
+  const router = useRouter();
+  const { library, getRecentVideos, filterByType, reload } = useVideoLibrary();
+  const { playlists, loadPlaylists } = usePlaylist();
+  const [recentVideos, setRecentVideos] = useState<VideoFile[]>([]);
+  const navigationConfig = deviceModeManager.getNavigationConfig();
+  const uiConfig = deviceModeManager.getUIConfig();
+
+  // 返回主畫面時重新讀取（播放後最近播放可能改變）
+  useFocusEffect(
+    useCallback(() => {
+      reload();
+      loadPlaylists();
+    }, [reload, loadPlaylists])
+  );
+
+  useEffect(() => {
+    getRecentVideos(20).then(setRecentVideos);
+  }, [getRecentVideos]);
+
+  const rows = useMemo<ContentRow[]>(() => {
+    const toCard = (prefix: string) => (video: VideoFile): ContentCard => ({
+      id: `${prefix}:${video.id}`,
+      title: video.filename,
+      subtitle: formatVideoLayout(video.layout),
+      videos: [video],
+    });
+
+    return [
+      { id: "recent", title: "最近播放", cards: recentVideos.map(toCard("recent")) },
+      {
+        id: "playlists",
+        title: "播放列表",
+        cards: playlists
+          .map((playlist) => ({
+            id: `playlist:${playlist.id}`,
+            title: playlist.name,
+            subtitle: `${playlist.videoIds.length} 個影片`,
+            videos: playlist.videoIds
+              .map((id) => library.videos.find((video) => video.id === id))
+              .filter((video): video is VideoFile => !!video),
+          }))
+          .filter((card) => card.videos.length > 0),
+      },
+      { id: "3d", title: "3D 影片", cards: filterByType("3D").map(toCard("3d")) },
+      { id: "360", title: "360° 全景", cards: filterByType("360°").map(toCard("360")) },
+    ];
+  }, [recentVideos, playlists, library.videos, filterByType]);
+
+  const focusNodes = useMemo(() => {
+    const leanbackRows: LeanbackRow[] = rows.map((row) => ({
+      id: row.id,
+      itemIds: row.cards.map((card) => card.id),
+    }));
+    return buildLeanbackFocusNodes(
+      SIDEBAR_ITEMS.map((item) => item.id),
+      leanbackRows
+    );
+  }, [rows]);
+
+  const handleSelect = useCallback(
+    (id: string) => {
+      const sidebarItem = SIDEBAR_ITEMS.find((item) => item.id === id);
+      if (sidebarItem) {
+        if (sidebarItem.route) router.push(sidebarItem.route);
+        else tvFocusGraph.move("right");
+        return;
+      }
+
+      const card = rows.flatMap((row) => row.cards).find((c) => c.id === id);
+      if (!card) return;
+      router.push({
+        pathname: "/vr-player",
+        params: {
+          videos: JSON.stringify(
+            card.videos.map((video) => ({
+              uri: video.path,
+              name: video.filename,
+              layout: video.layout,
+            }))
+          ),
+        },
+      });
+    },
+    [rows, router]
+  );
+
+  const { focusedId } = useFocusGraph(tvFocusGraph, focusNodes, handleSelect);
+  const visibleRows = rows.filter((row) => row.cards.length > 0);
+
+  return (
+    <View className="flex-1 flex-row" style={{ backgroundColor: colors.background }}>
+      {/* 側邊欄 */}
+      <View
+        className="py-8 px-4 gap-2"
+        style={{
+          width: navigationConfig.sidebar.width,
+          backgroundColor: colors.surface,
+          borderRightColor: colors.border,
+          borderRightWidth: 1,
+        }}
+      >
+        {SIDEBAR_ITEMS.map((item) => {
+          const isFocused = focusedId === item.id;
+          return (
+            <View
+              key={item.id}
+              className="flex-row items-center gap-4 px-4 rounded-lg"
+              style={{
+                height: navigationConfig.sidebar.itemHeight,
+                backgroundColor: isFocused ? colors.primary : "transparent",
+              }}
+            >
+              <Text style={{ fontSize: uiConfig.fontSize.subtitle }}>{item.icon}</Text>
+              <Text
+                className="font-semibold"
+                style={{
+                  fontSize: uiConfig.fontSize.subtitle,
+                  color: isFocused ? colors.background : colors.foreground,
+                }}
+              >
+                {item.label}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+
+      {/* 內容列 */}
+      <ScrollView className="flex-1" contentContainerStyle={{ paddingVertical: 32 }}>
+        {visibleRows.length === 0 ? (
+          <Text className="text-muted px-8" style={{ fontSize: uiConfig.fontSize.body }}>
+            影片庫是空的，請先從影片庫加入影片
+          </Text>
+        ) : (
+          visibleRows.map((row) => (
+            <TVContentRow key={row.id} row={row} focusedId={focusedId} />
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+/**
+ * 水平捲動的內容列，焦點移動時自動捲動讓聚焦的卡片保持可見
+ */
+function TVContentRow({ row, focusedId }: { row: ContentRow; focusedId: string | null }) {
+  const colors = useColors();
+  const scrollRef = useRef<ScrollView>(null);
+  const uiConfig = deviceModeManager.getUIConfig();
+  const cardHeight = uiConfig.list.itemHeight;
+  const cardWidth = Math.round(cardHeight * 1.6);
+  const spacing = uiConfig.list.itemSpacing;
+  const focusedIndex = row.cards.findIndex((card) => card.id === focusedId);
+
+  useEffect(() => {
+    if (focusedIndex < 0) return;
+    scrollRef.current?.scrollTo({
+      x: Math.max(0, (focusedIndex - 1) * (cardWidth + spacing)),
+      animated: true,
+    });
+  }, [focusedIndex, cardWidth, spacing]);
+
+  return (
+    <View className="mb-8">
+      <Text
+        className="font-bold text-foreground px-8 mb-3"
+        style={{ fontSize: uiConfig.fontSize.subtitle }}
+      >
+        {row.title}
+      </Text>
+      <ScrollView
+        ref={scrollRef}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={{ paddingHorizontal: 32, gap: spacing }}
+      >
+        {row.cards.map((card) => {
+          const isFocused = card.id === focusedId;
+          return (
+            <View
+              key={card.id}
+              className="rounded-lg p-3 justify-end"
+              style={{
+                width: cardWidth,
+                height: cardHeight,
+                backgroundColor: colors.surface,
+                borderColor: isFocused ? colors.primary : colors.border,
+                borderWidth: isFocused ? 3 : 1,
+                transform: [{ scale: isFocused ? 1.08 : 1 }],
+              }}
+            >
+              <Text
+                numberOfLines={2}
+                className="font-semibold text-foreground"
+                style={{ fontSize: uiConfig.fontSize.body }}
+              >
+                {card.title}
+              </Text>
+              <Text className="text-primary" style={{ fontSize: uiConfig.fontSize.small }}>
+                {card.subtitle}
+              </Text>
+            </View>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
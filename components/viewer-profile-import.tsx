@@ -0,0 +1,61 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, TouchableOpacity } from "react-native";
+import { useColors } from "@/hooks/use-colors";
+
+interface ViewerProfileImportProps {
+  /** 匯入 Cardboard 設定網址，失敗時回傳錯誤訊息 */
+  onImport: (uri: string) => Promise<string | null>;
+}
+
+/**
+ * Cardboard QR Code 網址匯入欄位
+ * 將眼鏡盒上 QR Code 掃描得到的網址貼上即可建立自訂眼鏡
+ */
+export function ViewerProfileImport({ onImport }: ViewerProfileImportProps) {
+  const colors = useColors();
+  const [uri, setUri] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async () => {
+    const message = await onImport(uri);
+    setError(message);
+    if (!message) setUri("");
+  };
+
+  return (
+    <View className="gap-2">
+      <Text className="text-sm text-foreground">匯入 Cardboard 眼鏡</Text>
+      <View className="flex-row gap-2">
+        <TextInput
+          placeholder="https://google.com/cardboard/cfg?p=..."
+          placeholderTextColor={colors.muted}
+          value={uri}
+          onChangeText={setUri}
+          autoCapitalize="none"
+          autoCorrect={false}
+          className="flex-1 px-3 py-2 rounded-lg text-foreground"
+          style={{
+            backgroundColor: colors.background,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        />
+        <TouchableOpacity
+          onPress={handleImport}
+          disabled={!uri.trim()}
+          className="px-4 py-2 rounded-lg justify-center"
+          style={{ backgroundColor: uri.trim() ? colors.primary : colors.border }}
+        >
+          <Text className="font-semibold" style={{ color: colors.background }}>
+            匯入
+          </Text>
+        </TouchableOpacity>
+      </View>
+      {error && (
+        <Text className="text-xs" style={{ color: colors.error }}>
+          {error}
+        </Text>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,68 @@
+import { useCallback, useRef } from 'react';
+import { useFocusEffect } from 'expo-router';
+import {
+  analogInputManager,
+  readGamepadAxes,
+  type AnalogInputEvent,
+} from '@/lib/analog-input';
+import { inputRouter, type InputContext } from '@/lib/input-router';
+
+// 上次輪詢時連接的 Web 手把
+const polledGamepads = new Set<string>();
+
+/**
+ * 讀取 Web Gamepad API（網頁與模擬器測試）
+ * 已中斷的手把移除軸值，避免停留的搖桿值持續旋轉或拖曳
+ */
+function pollGamepads() {
+  if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') return;
+  const connected = new Set<string>();
+  for (const gamepad of navigator.getGamepads()) {
+    if (!gamepad) continue;
+    const deviceId = `gamepad:${gamepad.index}`;
+    connected.add(deviceId);
+    analogInputManager.setAxes(deviceId, readGamepadAxes(gamepad));
+  }
+  polledGamepads.forEach((deviceId) => {
+    if (!connected.has(deviceId)) analogInputManager.removeDevice(deviceId);
+  });
+  polledGamepads.clear();
+  connected.forEach((deviceId) => polledGamepads.add(deviceId));
+}
+
+/**
+ * 訂閱類比輸入（搖桿、扳機）
+ * 畫面取得焦點時每個畫面積分一次搖桿輸入，只在此情境位於最上層時收到事件
+ *
+ * @param context 輸入情境
+ * @param handler 事件處理函數
+ */
+export function useAnalogInput(
+  context: InputContext,
+  handler: (event: AnalogInputEvent) => void
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useFocusEffect(
+    useCallback(() => {
+      const unsubscribe = analogInputManager.subscribe((event) => {
+        if (event.context === context) handlerRef.current(event);
+      });
+
+      let frame: number | null = null;
+      const tick = (timestamp: number) => {
+        pollGamepads();
+        analogInputManager.update(inputRouter.getContext(), timestamp);
+        frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+
+      return () => {
+        if (frame !== null) cancelAnimationFrame(frame);
+        unsubscribe();
+        analogInputManager.reset();
+      };
+    }, [context])
+  );
+}
@@ -1,25 +1,47 @@
 import { useState, useCallback, useEffect } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  DEFAULT_VIDEO_LAYOUT,
+  videoTypeToLayout,
+  type VideoLayout,
+  type VideoType,
+} from "@/lib/video-layout";
+import {
+  DEFAULT_VIEWER_PROFILE_ID,
+  getViewerProfileIdByName,
+  type ViewerProfile,
+} from "@/lib/viewer-profile";
+import { deviceModeManager, type DeviceMode } from "@/lib/device-mode";
+import {
+  analogInputManager,
+  DEFAULT_ANALOG_OPTIONS,
+  type ResponseCurve,
+} from "@/lib/analog-input";
 
 export interface AppSettings {
   // 播放器設置
-  defaultPlaybackMode: "2D" | "3D" | "360°";
+  defaultPlaybackMode: VideoLayout; // 無法從文件名判斷排列時使用
   defaultBrightness: number;
   defaultContrast: number;
   defaultSaturation: number;
   defaultPlaybackSpeed: number;
   defaultPupilDistance: number;
-  selectedVRDevice: string;
+  screenPixelsPerMillimeter: number | null; // 以實物校正的螢幕密度，null 代表依平台估算
+  selectedViewerProfileId: string;
+  customViewerProfiles: ViewerProfile[];
 
   // 界面設置
   language: "zh-TW" | "zh-CN" | "en";
   theme: "light" | "dark" | "auto";
   showControlsOnStart: boolean;
   controlsAutoHideDelay: number; // 毫秒
+  deviceModeOverride: DeviceMode | "auto"; // 自動偵測或手動指定設備類型
 
   // 功能設置
   enableGestureControl: boolean;
   enableBluetoothControl: boolean;
+  analogDeadZone: number; // 手把搖桿死區 (0-1)
+  analogResponseCurve: ResponseCurve;
   enableGyroscope: boolean;
   enableHeadTracking: boolean;
 
@@ -34,21 +56,26 @@ export interface AppSettings {
 const STORAGE_KEY = "vr_app_settings";
 
 const DEFAULT_SETTINGS: AppSettings = {
-  defaultPlaybackMode: "2D",
+  defaultPlaybackMode: DEFAULT_VIDEO_LAYOUT,
   defaultBrightness: 1.0,
   defaultContrast: 1.0,
   defaultSaturation: 1.0,
   defaultPlaybackSpeed: 1.0,
   defaultPupilDistance: 65,
-  selectedVRDevice: "標準 VR",
+  screenPixelsPerMillimeter: null,
+  selectedViewerProfileId: DEFAULT_VIEWER_PROFILE_ID,
+  customViewerProfiles: [],
 
   language: "zh-TW",
   theme: "auto",
   showControlsOnStart: true,
   controlsAutoHideDelay: 3000,
+  deviceModeOverride: "auto",
 
   enableGestureControl: true,
   enableBluetoothControl: true,
+  analogDeadZone: DEFAULT_ANALOG_OPTIONS.stickDeadZone,
+  analogResponseCurve: DEFAULT_ANALOG_OPTIONS.responseCurve,
   enableGyroscope: true,
   enableHeadTracking: false,
 
@@ -58,6 +85,55 @@ const DEFAULT_SETTINGS: AppSettings = {
   lastUpdated: 0,
 };
 
+/**
+ * 合併預設值並轉換舊版格式
+ */
+function normalizeSettings(
+  stored: Partial<AppSettings> & { selectedVRDevice?: string },
+  base: AppSettings
+): AppSettings {
+  const { selectedVRDevice, ...rest } = stored;
+  const merged = { ...base, ...rest };
+
+  // 舊版以設備名稱 selectedVRDevice 記錄 VR 眼鏡
+  if (selectedVRDevice && !rest.selectedViewerProfileId) {
+    merged.selectedViewerProfileId = getViewerProfileIdByName(selectedVRDevice);
+  }
+
+  // 舊版 defaultPlaybackMode 為 "2D" | "3D" | "360°" 字串
+  const playbackMode = merged.defaultPlaybackMode as VideoLayout | VideoType;
+  if (typeof playbackMode === "string") {
+    merged.defaultPlaybackMode = videoTypeToLayout(playbackMode);
+  }
+
+  return merged;
+}
+
+/**
+ * 套用需要全域生效的設置
+ */
+function applySettings(settings: AppSettings): void {
+  deviceModeManager.setOverride(
+    settings.deviceModeOverride === "auto" ? null : settings.deviceModeOverride
+  );
+  analogInputManager.setOptions({
+    stickDeadZone: settings.analogDeadZone,
+    responseCurve: settings.analogResponseCurve,
+  });
+}
+
+/**
+ * 從存儲讀取設置並套用（應用啟動時使用，無需掛載 Hook）
+ */
+export async function loadAppSettings(): Promise<AppSettings> {
+  const data = await AsyncStorage.getItem(STORAGE_KEY);
+  const settings = data
+    ? normalizeSettings(JSON.parse(data) as Partial<AppSettings>, DEFAULT_SETTINGS)
+    : DEFAULT_SETTINGS;
+  applySettings(settings);
+  return settings;
+}
+
 /**
  * 應用設置管理 Hook
  */
@@ -76,11 +152,7 @@ export function useAppSettings() {
   const loadSettings = useCallback(async () => {
     try {
       setIsLoading(true);
-      const data = await AsyncStorage.getItem(STORAGE_KEY);
-      if (data) {
-        const parsed = JSON.parse(data) as AppSettings;
-        setSettings({ ...DEFAULT_SETTINGS, ...parsed });
-      }
+      setSettings(await loadAppSettings());
     } catch (err) {
       console.error("加載設置失敗:", err);
       setSettings(DEFAULT_SETTINGS);
@@ -100,6 +172,7 @@ export function useAppSettings() {
       };
       await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(toSave));
       setSettings(toSave);
+      applySettings(toSave);
     } catch (err) {
       console.error("保存設置失敗:", err);
     }
@@ -145,7 +218,7 @@ export function useAppSettings() {
       playbackSpeed: settings.defaultPlaybackSpeed,
       pupilDistance: settings.defaultPupilDistance,
       playbackMode: settings.defaultPlaybackMode,
-      vrDevice: settings.selectedVRDevice,
+      viewerProfileId: settings.selectedViewerProfileId,
     };
   }, [settings]);
 
@@ -187,7 +260,7 @@ export function useAppSettings() {
     async (jsonString: string) => {
       try {
         const imported = JSON.parse(jsonString) as Partial<AppSettings>;
-        const merged = { ...settings, ...imported };
+        const merged = normalizeSettings(imported, settings);
         await saveSettings(merged);
         return true;
       } catch (err) {
@@ -0,0 +1,99 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  controllerManager,
+  type ControllerButtonAction,
+  type ControllerMappingProfile,
+  type MappingConflict,
+} from '@/lib/bluetooth-controller';
+
+export interface ControllerDevice {
+  deviceId: string;
+  deviceName: string;
+  isConnected: boolean;
+}
+
+/**
+ * 列出已連接或保存過自訂映射的遙控器
+ */
+function listDevices(): ControllerDevice[] {
+  const devices = new Map<string, ControllerDevice>();
+  controllerManager.getMappingProfiles().forEach((profile: ControllerMappingProfile) => {
+    devices.set(profile.deviceId, {
+      deviceId: profile.deviceId,
+      deviceName: profile.deviceName,
+      isConnected: false,
+    });
+  });
+  controllerManager.getConnectedControllers().forEach((controller) => {
+    devices.set(controller.deviceId, {
+      deviceId: controller.deviceId,
+      deviceName: controller.deviceName,
+      isConnected: true,
+    });
+  });
+  return Array.from(devices.values());
+}
+
+/**
+ * 遙控器按鍵映射 Hook
+ */
+export function useControllerMappings() {
+  const [devices, setDevices] = useState<ControllerDevice[]>(listDevices);
+
+  useEffect(() => {
+    // 映射變化時重新列出裝置，同時讓依映射計算的畫面重新渲染
+    const unsubscribe = controllerManager.subscribeMappings(() => setDevices(listDevices()));
+    controllerManager.load().then(() => setDevices(listDevices()));
+    return unsubscribe;
+  }, []);
+
+  const getMapping = useCallback(
+    (deviceId: string) => controllerManager.getEffectiveMapping(deviceId),
+    []
+  );
+
+  const getConflicts = useCallback(
+    (deviceId: string): MappingConflict[] => controllerManager.getMappingConflicts(deviceId),
+    []
+  );
+
+  /**
+   * 等待使用者按下遙控器按鍵並綁定到動作
+   *
+   * @returns 綁定的按鍵代碼
+   */
+  const bindAction = useCallback(
+    async (deviceId: string, action: ControllerButtonAction, signal?: AbortSignal) => {
+      const keyCode = await controllerManager.captureNextKey(deviceId, signal);
+      await controllerManager.setCustomMapping(deviceId, keyCode, action);
+      return keyCode;
+    },
+    []
+  );
+
+  const resetMappings = useCallback(
+    (deviceId: string) => controllerManager.resetMappings(deviceId),
+    []
+  );
+
+  const exportMappings = useCallback(
+    (deviceId: string) => controllerManager.exportMappings(deviceId),
+    []
+  );
+
+  const importMappings = useCallback(
+    (deviceId: string, json: string) => controllerManager.importMappings(deviceId, json),
+    []
+  );
+
+  return {
+    devices,
+    getMapping,
+    getConflicts,
+    getButtons: (deviceId: string) => controllerManager.getControllerButtons(deviceId),
+    bindAction,
+    resetMappings,
+    exportMappings,
+    importMappings,
+  };
+}
@@ -0,0 +1,106 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  ConversionQueue,
+  type ConversionJob,
+  type ConversionJobRequest,
+} from '@/lib/conversion-queue';
+import { getDefaultTranscoder } from './use-sbs-converter';
+
+let defaultQueue: ConversionQueue | null = null;
+
+/**
+ * 獲取全域轉檔佇列（所有畫面共用，離開畫面後仍繼續轉檔）
+ */
+export function getConversionQueue(): ConversionQueue {
+  if (!defaultQueue) {
+    const AsyncStorage = require('@react-native-async-storage/async-storage').default;
+    defaultQueue = new ConversionQueue(getDefaultTranscoder(), AsyncStorage);
+  }
+  return defaultQueue;
+}
+
+/**
+ * 背景轉檔佇列 Hook
+ *
+ * @param queue 轉檔佇列；未指定時使用全域佇列
+ */
+export function useConversionQueue(queue?: ConversionQueue) {
+  const target = queue ?? getConversionQueue();
+  const [jobs, setJobs] = useState<ConversionJob[]>(() => target.getJobs());
+
+  useEffect(() => {
+    const unsubscribe = target.subscribe(setJobs);
+    target.load().catch((err) => console.error('載入轉檔佇列失敗:', err));
+    setJobs(target.getJobs());
+    return unsubscribe;
+  }, [target]);
+
+  const runAction = useCallback(
+    async (action: () => Promise<void>) => {
+      try {
+        await action();
+      } catch (err) {
+        console.error('轉檔佇列操作失敗:', err);
+      }
+    },
+    []
+  );
+
+  /**
+   * 加入多個轉檔工作
+   */
+  const enqueue = useCallback(
+    async (requests: ConversionJobRequest[]): Promise<ConversionJob[]> => {
+      try {
+        return await target.enqueue(requests);
+      } catch (err) {
+        console.error('加入轉檔工作失敗:', err);
+        return [];
+      }
+    },
+    [target]
+  );
+
+  const pause = useCallback((jobId: string) => runAction(() => target.pause(jobId)), [target, runAction]);
+  const resume = useCallback((jobId: string) => runAction(() => target.resume(jobId)), [target, runAction]);
+  const cancel = useCallback((jobId: string) => runAction(() => target.cancel(jobId)), [target, runAction]);
+  const retry = useCallback((jobId: string) => runAction(() => target.retry(jobId)), [target, runAction]);
+  const remove = useCallback((jobId: string) => runAction(() => target.remove(jobId)), [target, runAction]);
+  const clearFinished = useCallback(() => runAction(() => target.clearFinished()), [target, runAction]);
+
+  /**
+   * 獲取某個來源影片最新的工作
+   */
+  const getJobForSource = useCallback(
+    (sourceUri: string): ConversionJob | undefined => {
+      return [...jobs].reverse().find((job) => job.sourceUri === sourceUri);
+    },
+    [jobs]
+  );
+
+  /**
+   * 設定同時執行的工作數
+   */
+  const setConcurrency = useCallback(
+    (concurrency: number) => target.setConcurrency(concurrency),
+    [target]
+  );
+
+  const activeCount = jobs.filter(
+    (job) => job.status === 'queued' || job.status === 'running'
+  ).length;
+
+  return {
+    jobs,
+    activeCount,
+    enqueue,
+    pause,
+    resume,
+    cancel,
+    retry,
+    remove,
+    clearFinished,
+    getJobForSource,
+    setConcurrency,
+  };
+}
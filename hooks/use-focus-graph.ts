@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { useInputActions } from '@/hooks/use-input-actions';
+import type { FocusDirection, FocusGraph, FocusNode } from '@/lib/focus-graph';
+import type { InputAction, InputActionEvent } from '@/lib/input-router';
+
+const NAVIGATION_DIRECTIONS: Partial<Record<InputAction, FocusDirection>> = {
+  'navigate-up': 'up',
+  'navigate-down': 'down',
+  'navigate-left': 'left',
+  'navigate-right': 'right',
+};
+
+/**
+ * 焦點導航 Hook
+ * 將影片庫情境的導航動作對應到焦點圖；輸入動作只送到最上層的畫面，
+ * 開啟播放器後底下的畫面不會移動焦點
+ *
+ * @param graph 焦點圖（以模組層級保存，返回畫面時可還原焦點）
+ * @param nodes 目前的焦點節點
+ * @param onSelect 按下確認鍵時呼叫
+ */
+export function useFocusGraph(
+  graph: FocusGraph,
+  nodes: FocusNode[],
+  onSelect: (id: string) => void
+) {
+  const [focusedId, setFocusedId] = useState<string | null>(() => graph.getFocused());
+
+  useEffect(() => {
+    graph.setNodes(nodes);
+    setFocusedId(graph.getFocused());
+  }, [graph, nodes]);
+
+  useEffect(() => graph.subscribe(setFocusedId), [graph]);
+
+  useInputActions('library', (event: InputActionEvent) => {
+    const direction = NAVIGATION_DIRECTIONS[event.action];
+    if (direction) {
+      graph.move(direction);
+    } else if (event.action === 'select') {
+      const focused = graph.getFocused();
+      if (focused) onSelect(focused);
+    }
+  });
+
+  return {
+    focusedId,
+    focus: (id: string) => graph.focus(id),
+  };
+}
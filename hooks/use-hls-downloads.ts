@@ -0,0 +1,109 @@
+import { useState, useCallback, useEffect } from 'react';
+import { HlsDownloader, getHlsDownloadId, type HlsDownloadRecord } from '@/lib/hls-download';
+import type { StreamQuality } from '@/lib/stream-manifest';
+import { layoutToVideoType, type VideoLayout } from '@/lib/video-layout';
+import { addVideoToStoredLibrary } from './use-video-library';
+
+let defaultDownloader: HlsDownloader | null = null;
+
+/**
+ * 獲取全域 HLS 下載管理器（離開畫面後仍繼續下載）
+ */
+export function getHlsDownloader(): HlsDownloader {
+  if (!defaultDownloader) {
+    const AsyncStorage = require('@react-native-async-storage/async-storage').default;
+    const { expoDownloadFileSystem } = require('@/lib/native-download-file-system');
+    defaultDownloader = new HlsDownloader(expoDownloadFileSystem, AsyncStorage);
+  }
+  return defaultDownloader;
+}
+
+/**
+ * 將下載完成的串流加入本地影片庫（以本地主播放清單播放）
+ */
+async function addToLibrary(record: HlsDownloadRecord): Promise<void> {
+  const safeTitle = record.title.replace(/[\\/:*?"<>|]/g, '_');
+  try {
+    await addVideoToStoredLibrary({
+      filename: `${safeTitle}.m3u8`,
+      path: record.playlistPath,
+      type: layoutToVideoType(record.layout),
+      layout: record.layout,
+      duration: Math.round(record.duration),
+      size: record.downloadedBytes,
+      addedDate: Date.now(),
+    });
+  } catch (err) {
+    console.error('加入影片庫失敗:', err);
+  }
+}
+
+/**
+ * HLS 串流離線下載 Hook
+ * 下載完成後自動加入影片庫
+ */
+export function useHlsDownloads() {
+  const downloader = getHlsDownloader();
+  const [downloads, setDownloads] = useState<HlsDownloadRecord[]>(() => downloader.getDownloads());
+
+  useEffect(() => {
+    const unsubscribe = downloader.subscribe(setDownloads);
+    downloader.load().then(() => setDownloads(downloader.getDownloads()));
+    return unsubscribe;
+  }, [downloader]);
+
+  /**
+   * 下載串流（已暫停的下載會從中斷處繼續）
+   *
+   * @returns 是否下載完成
+   */
+  const download = useCallback(
+    async (url: string, title: string, quality: StreamQuality, layout?: VideoLayout) => {
+      const { HLS_DOWNLOAD_DIRECTORY } = require('@/lib/native-download-file-system');
+      try {
+        const record = await downloader.download({
+          url,
+          title,
+          directory: `${HLS_DOWNLOAD_DIRECTORY}${getHlsDownloadId(url)}/`,
+          quality,
+          layout,
+        });
+        await addToLibrary(record);
+        return true;
+      } catch (err) {
+        console.error('下載串流失敗:', err);
+        return false;
+      }
+    },
+    [downloader]
+  );
+
+  const pause = useCallback((id: string) => downloader.pause(id), [downloader]);
+
+  const remove = useCallback(
+    async (id: string) => {
+      try {
+        await downloader.remove(id);
+      } catch (err) {
+        console.error('移除下載失敗:', err);
+      }
+    },
+    [downloader]
+  );
+
+  /**
+   * 網址對應的下載紀錄
+   */
+  const getDownload = useCallback(
+    (url: string) => downloads.find((record) => record.id === getHlsDownloadId(url)),
+    [downloads]
+  );
+
+  return {
+    downloads,
+    download,
+    pause,
+    remove,
+    getDownload,
+  };
+}
@@ -0,0 +1,218 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { Alert, DeviceEventEmitter } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { analogInputManager, axisFromMotionAxis } from '@/lib/analog-input';
+import { controllerManager } from '@/lib/bluetooth-controller';
+import {
+  buttonFromKey,
+  buttonFromKeyCode,
+  buttonFromTVEvent,
+  inputRouter,
+  type InputActionEvent,
+  type InputContext,
+} from '@/lib/input-router';
+
+interface NativeTVEvent {
+  eventType: string;
+  /** 0 = 按下, 1 = 放開；不支援時為 -1 或未定義 */
+  eventKeyAction?: number;
+}
+
+interface NativeControllerConnectEvent {
+  deviceId: string;
+  deviceName: string;
+  vendorId?: number;
+  productId?: number;
+}
+
+interface NativeControllerKeyEvent extends NativeControllerConnectEvent {
+  keyCode: number;
+  /** 0 = 按下, 1 = 放開；未提供時視為按下後立即放開 */
+  keyAction?: number;
+}
+
+interface NativeControllerAxisEvent {
+  deviceId: string;
+  /** Android MotionEvent 軸代碼 */
+  axis: number;
+  value: number;
+}
+
+interface NativeControllerDisconnectEvent {
+  deviceId: string;
+}
+
+/**
+ * 連接未知型號的遙控器時詢問是否學習按鍵
+ */
+function promptControllerLearning(deviceId: string, deviceName: string) {
+  Alert.alert('偵測到新的遙控器', `無法辨識「${deviceName}」的型號，要現在設定按鍵嗎？`, [
+    { text: '稍後', style: 'cancel' },
+    {
+      text: '設定按鍵',
+      onPress: () => router.push({ pathname: '/controller-learning', params: { deviceId } }),
+    },
+  ]);
+}
+
+/**
+ * 按鍵事件是否來自可輸入文字的元素（網頁）
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  if (!element || typeof element.tagName !== 'string') return false;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) || element.isContentEditable;
+}
+
+// react-native-tvos 才有 useTVEventHandler；一般 react-native 為 undefined
+const nativeUseTVEventHandler: ((callback: (evt: NativeTVEvent) => void) => void) | undefined =
+  require('react-native').useTVEventHandler;
+const useNativeTVEventHandler = nativeUseTVEventHandler ?? (() => {});
+
+/**
+ * 將所有輸入來源接到全局輸入路由器
+ * 只需在根布局掛載一次
+ */
+export function useInputSources() {
+  const handleTVEvent = useCallback((evt: NativeTVEvent) => {
+    const button = evt && buttonFromTVEvent(evt.eventType);
+    if (!button) return;
+
+    if (evt.eventKeyAction === 0) inputRouter.buttonDown(button, 'tv-remote');
+    else if (evt.eventKeyAction === 1) inputRouter.buttonUp(button);
+    else inputRouter.press(button, 'tv-remote');
+  }, []);
+
+  useNativeTVEventHandler(handleTVEvent);
+
+  // 鍵盤（網頁與模擬器測試）
+  useEffect(() => {
+    if (typeof window === 'undefined' || typeof window.addEventListener !== 'function') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // 輸入框中的按鍵留給輸入框
+      if (isEditableTarget(event.target)) return;
+      const button = buttonFromKey(event.key);
+      if (!button || !inputRouter.hasBinding(button)) return;
+      event.preventDefault();
+      inputRouter.buttonDown(button, 'keyboard');
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const button = buttonFromKey(event.key);
+      if (button) inputRouter.buttonUp(button);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  // 藍牙遙控器：原生模組連接時以 ControllerConnectEvent 回報裝置，以 ControllerKeyEvent 回報按鍵代碼
+  // 裝置型號、學習到的與自訂的映射優先，直接送出動作；裝置沒有映射的標準按鍵與電視遙控器相同，依情境轉為動作
+  useEffect(() => {
+    const loaded = controllerManager.setStorage(AsyncStorage);
+    const unsubscribe = controllerManager.subscribe((action) =>
+      inputRouter.dispatchAction(action, 'bluetooth')
+    );
+    const isConnected = (deviceId: string) =>
+      controllerManager.getConnectedControllers().some((controller) => controller.deviceId === deviceId);
+    // 載入保存的映射後才辨識，才能判斷是否已自訂過按鍵
+    const identify = (event: NativeControllerConnectEvent) =>
+      loaded.then(() => {
+        if (isConnected(event.deviceId)) return;
+
+        const { model } = controllerManager.addController(
+          event.deviceName,
+          event.deviceId,
+          undefined,
+          { vendorId: event.vendorId, productId: event.productId }
+        );
+        const hasCustomMappings = controllerManager
+          .getMappingProfiles()
+          .some((profile) => profile.deviceId === event.deviceId);
+        if (!model && !hasCustomMappings) {
+          promptControllerLearning(event.deviceId, event.deviceName);
+        }
+      });
+    const handleKey = (event: NativeControllerKeyEvent) => {
+      const button = buttonFromKeyCode(event.keyCode);
+      if (event.keyAction === 1) {
+        if (button) inputRouter.buttonUp(button);
+        return;
+      }
+      if (!button || controllerManager.interceptsKey(event.deviceId, event.keyCode)) {
+        controllerManager.handleKeyEvent(event.deviceId, event.keyCode);
+        return;
+      }
+      if (event.keyAction === 0) inputRouter.buttonDown(button, 'bluetooth');
+      else inputRouter.press(button, 'bluetooth');
+    };
+    const connectSubscription = DeviceEventEmitter.addListener('ControllerConnectEvent', identify);
+    const subscription = DeviceEventEmitter.addListener(
+      'ControllerKeyEvent',
+      (event: NativeControllerKeyEvent) => {
+        if (isConnected(event.deviceId)) {
+          handleKey(event);
+          return;
+        }
+        // App 啟動前就已連接的遙控器不會收到連接事件，改在第一次按鍵時辨識，辨識後照常處理這個按鍵
+        identify(event).then(() => handleKey(event));
+      }
+    );
+    // 搖桿與扳機只更新軸值，由播放器畫面依時間積分
+    const axisSubscription = DeviceEventEmitter.addListener(
+      'ControllerAxisEvent',
+      (event: NativeControllerAxisEvent) => {
+        const axis = axisFromMotionAxis(event.axis);
+        if (axis) analogInputManager.setAxis(event.deviceId, axis, event.value);
+      }
+    );
+    // 斷線時移除軸值，避免停留的搖桿值持續旋轉或拖曳
+    const disconnectSubscription = DeviceEventEmitter.addListener(
+      'ControllerDisconnectEvent',
+      (event: NativeControllerDisconnectEvent) => {
+        analogInputManager.removeDevice(event.deviceId);
+        controllerManager.removeController(event.deviceId);
+      }
+    );
+    return () => {
+      unsubscribe();
+      connectSubscription.remove();
+      subscription.remove();
+      axisSubscription.remove();
+      disconnectSubscription.remove();
+    };
+  }, []);
+}
+
+/**
+ * 訂閱輸入動作
+ * 畫面取得焦點時進入指定情境，只在此情境位於最上層時收到動作
+ *
+ * @param context 輸入情境
+ * @param handler 動作處理函數
+ */
+export function useInputActions(
+  context: InputContext,
+  handler: (event: InputActionEvent) => void
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useFocusEffect(
+    useCallback(() => {
+      const leaveContext = inputRouter.pushContext(context);
+      const unsubscribe = inputRouter.subscribe((event) => {
+        if (event.context === context) handlerRef.current(event);
+      });
+      return () => {
+        unsubscribe();
+        leaveContext();
+      };
+    }, [context])
+  );
+}
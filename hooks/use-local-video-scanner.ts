@@ -1,6 +1,12 @@
 import { useState, useCallback, useEffect } from "react";
 import * as FileSystem from "expo-file-system/legacy";
 import * as MediaLibrary from "expo-media-library";
+import {
+  detectVideoLayout,
+  layoutToVideoType,
+  type VideoLayout,
+  type VideoType,
+} from "@/lib/video-layout";
 
 export interface LocalVideo {
   id: string;
@@ -8,7 +14,8 @@ export interface LocalVideo {
   filename: string;
   size: number;
   duration?: number;
-  type: "2D" | "3D" | "360°";
+  type: VideoType;
+  layout: VideoLayout;
   createdAt: number;
   modifiedAt: number;
 }
@@ -22,32 +29,14 @@ const SUPPORTED_VIDEO_EXTENSIONS = [
   ".wmv",
   ".webm",
   ".m3u8",
+  ".mpd",
 ];
 
-const VIDEO_TYPE_KEYWORDS = {
-  "3D": ["3d", "sbs", "side-by-side", "half-sbs"],
-  "360°": ["360", "panorama", "vr", "equirectangular"],
-};
-
 /**
  * 根據文件名檢測影片類型
  */
-function detectVideoType(filename: string): "2D" | "3D" | "360°" {
-  const lowerName = filename.toLowerCase();
-
-  for (const keyword of VIDEO_TYPE_KEYWORDS["360°"]) {
-    if (lowerName.includes(keyword)) {
-      return "360°";
-    }
-  }
-
-  for (const keyword of VIDEO_TYPE_KEYWORDS["3D"]) {
-    if (lowerName.includes(keyword)) {
-      return "3D";
-    }
-  }
-
-  return "2D";
+function detectVideoType(filename: string): VideoType {
+  return layoutToVideoType(detectVideoLayout(filename));
 }
 
 /**
@@ -101,6 +90,7 @@ export function useLocalVideoScanner() {
             size: (assetInfo as any).size || 0,
             duration: asset.duration,
             type: detectVideoType(asset.filename || ""),
+            layout: detectVideoLayout(asset.filename || ""),
             createdAt: asset.creationTime,
             modifiedAt: asset.modificationTime || asset.creationTime,
           };
@@ -145,6 +135,7 @@ export function useLocalVideoScanner() {
                   filename: file,
                   size: fileInfo.size || 0,
                   type: detectVideoType(file),
+                  layout: detectVideoLayout(file),
                   createdAt: fileInfo.modificationTime
                     ? fileInfo.modificationTime * 1000
                     : Date.now(),
@@ -213,6 +204,7 @@ export function useLocalVideoScanner() {
                     filename: file,
                     size: fileInfo.size || 0,
                     type: detectVideoType(file),
+                    layout: detectVideoLayout(file),
                     createdAt: fileInfo.modificationTime
                       ? fileInfo.modificationTime * 1000
                       : Date.now(),
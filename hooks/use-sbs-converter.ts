@@ -1,19 +1,20 @@
-import { useState, useCallback, useRef } from 'react';
-import { Image } from 'react-native';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { SBSTranscoder, type SBSOutputLayout } from '@/lib/sbs-transcoder';
 
 /**
  * 2D 轉 3D (SBS - Side-by-Side) 轉換 Hook
  * 
  * 功能：
- * - 將 2D 影片轉換為 SBS 3D 格式
- * - 支援實時轉換和緩存
- * - 優化大型檔案的處理
+ * - 將 2D 影片轉換為 SBS / TB 3D 影片檔
+ * - 轉檔結果保存在裝置上，重新啟動後仍可沿用
+ * - 相同瞳距與聚焦距離直接使用已轉換的檔案
  */
 
 export interface SBSConverterOptions {
   enabled: boolean;
   pupilDistance: number; // 瞳距 (mm)，默認 65mm
   convergenceDistance: number; // 聚焦距離 (mm)，默認 1000mm
+  layout?: SBSOutputLayout; // 輸出排列，默認 sbs
 }
 
 export interface SBSConverterState {
@@ -23,18 +24,49 @@ export interface SBSConverterState {
   convertedUri: string | null;
 }
 
-// 緩存已轉換的影片
-const conversionCache = new Map<string, string>();
+let defaultTranscoder: SBSTranscoder | null = null;
 
-export function useSBSConverter() {
+/**
+ * 獲取預設轉檔管理器（原生編碼器 + 文件目錄 + AsyncStorage）
+ * 延遲載入，避免在非 React Native 環境（例如單元測試）引入原生模組
+ */
+export function getDefaultTranscoder(): SBSTranscoder {
+  if (!defaultTranscoder) {
+    const { NativeSBSEncoder, expoConversionFileSystem } = require('@/lib/native-sbs-encoder');
+    const AsyncStorage = require('@react-native-async-storage/async-storage').default;
+    defaultTranscoder = new SBSTranscoder(new NativeSBSEncoder(), expoConversionFileSystem, AsyncStorage);
+  }
+  return defaultTranscoder;
+}
+
+/**
+ * @param transcoder 轉檔管理器；未指定時使用原生編碼器
+ */
+export function useSBSConverter(transcoder?: SBSTranscoder) {
   const [state, setState] = useState<SBSConverterState>({
     isConverting: false,
     progress: 0,
     error: null,
     convertedUri: null,
   });
+  const [cacheSize, setCacheSize] = useState(0);
 
   const conversionRef = useRef<AbortController | null>(null);
+  const transcoderRef = useRef(transcoder);
+  transcoderRef.current = transcoder;
+
+  const getTranscoder = useCallback((): SBSTranscoder => {
+    return transcoderRef.current ?? getDefaultTranscoder();
+  }, []);
+
+  const refreshCacheSize = useCallback(async () => {
+    const records = await getTranscoder().getRecords();
+    setCacheSize(records.length);
+  }, [getTranscoder]);
+
+  useEffect(() => {
+    refreshCacheSize().catch((err) => console.error('載入轉檔紀錄失敗:', err));
+  }, [refreshCacheSize]);
 
   /**
    * 轉換 2D 影片為 SBS 3D 格式
@@ -50,19 +82,6 @@ export function useSBSConverter() {
       videoUri: string,
       options: SBSConverterOptions
     ): Promise<string | null> => {
-      // 檢查緩存
-      const cacheKey = `${videoUri}_${options.pupilDistance}_${options.convergenceDistance}`;
-      if (conversionCache.has(cacheKey)) {
-        setState((prev) => ({
-          ...prev,
-          convertedUri: conversionCache.get(cacheKey) || null,
-          isConverting: false,
-          progress: 100,
-        }));
-        return conversionCache.get(cacheKey) || null;
-      }
-
-      // 開始轉換
       setState((prev) => ({
         ...prev,
         isConverting: true,
@@ -74,42 +93,35 @@ export function useSBSConverter() {
         // 創建新的 AbortController
         conversionRef.current = new AbortController();
 
-        // 模擬轉換進度
-        for (let i = 0; i <= 100; i += 10) {
-          if (conversionRef.current?.signal.aborted) {
-            throw new Error('轉換已取消');
+        // 已有相同參數的轉檔結果時直接沿用
+        const record = await getTranscoder().convert(
+          videoUri,
+          {
+            pupilDistance: options.pupilDistance,
+            convergenceDistance: options.convergenceDistance,
+            layout: options.layout ?? 'sbs',
+          },
+          {
+            signal: conversionRef.current.signal,
+            onProgress: (progress) => {
+              setState((prev) => ({
+                ...prev,
+                progress,
+              }));
+            },
           }
-
-          setState((prev) => ({
-            ...prev,
-            progress: i,
-          }));
-
-          // 模擬處理時間
-          await new Promise((resolve) => setTimeout(resolve, 200));
-        }
-
-        // 計算位移量（基於瞳距和聚焦距離）
-        const disparityShift = calculateDisparityShift(
-          options.pupilDistance,
-          options.convergenceDistance
         );
 
-        // 生成轉換後的 URI（實際應用中這裡會調用原生模塊進行真實轉換）
-        const convertedUri = generateSBSUri(videoUri, disparityShift);
-
-        // 緩存結果
-        conversionCache.set(cacheKey, convertedUri);
-
         setState((prev) => ({
           ...prev,
           isConverting: false,
           progress: 100,
-          convertedUri,
+          convertedUri: record.outputUri,
           error: null,
         }));
+        await refreshCacheSize();
 
-        return convertedUri;
+        return record.outputUri;
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : '轉換失敗';
         setState((prev) => ({
@@ -121,43 +133,9 @@ export function useSBSConverter() {
         return null;
       }
     },
-    []
+    [getTranscoder, refreshCacheSize]
   );
 
-  /**
-   * 計算視差位移量
-   * 
-   * 公式：
-   * disparityShift = (pupilDistance / convergenceDistance) * screenWidth
-   * 
-   * 其中：
-   * - pupilDistance: 瞳距 (mm)
-   * - convergenceDistance: 聚焦距離 (mm)
-   * - screenWidth: 屏幕寬度 (px)
-   */
-  const calculateDisparityShift = (
-    pupilDistance: number,
-    convergenceDistance: number
-  ): number => {
-    // 標準瞳距 65mm，標準聚焦距離 1000mm
-    const baseShift = (pupilDistance / convergenceDistance) * 100;
-    
-    // 限制位移範圍 (-10% 到 10%)
-    return Math.max(-10, Math.min(10, baseShift));
-  };
-
-  /**
-   * 生成 SBS 轉換後的 URI
-   * 
-   * 注意：這是一個簡化的實現
-   * 實際應用中應該使用原生模塊（如 FFmpeg）進行真實轉換
-   */
-  const generateSBSUri = (videoUri: string, disparityShift: number): string => {
-    // 添加轉換參數到 URI
-    const separator = videoUri.includes('?') ? '&' : '?';
-    return `${videoUri}${separator}sbs=true&shift=${disparityShift}`;
-  };
-
   /**
    * 取消轉換
    */
@@ -174,26 +152,31 @@ export function useSBSConverter() {
   }, []);
 
   /**
-   * 清除緩存
+   * 清除緩存（刪除所有已轉換的檔案）
    */
-  const clearCache = useCallback(() => {
-    conversionCache.clear();
-    setState((prev) => ({
-      ...prev,
-      convertedUri: null,
-    }));
-  }, []);
+  const clearCache = useCallback(async () => {
+    try {
+      await getTranscoder().clear();
+      setCacheSize(0);
+      setState((prev) => ({
+        ...prev,
+        convertedUri: null,
+      }));
+    } catch (err) {
+      console.error('清除轉檔結果失敗:', err);
+    }
+  }, [getTranscoder]);
 
   /**
    * 獲取轉換統計信息
    */
   const getStats = useCallback(() => {
     return {
-      cacheSize: conversionCache.size,
+      cacheSize,
       isConverting: state.isConverting,
       progress: state.progress,
     };
-  }, [state.isConverting, state.progress]);
+  }, [cacheSize, state.isConverting, state.progress]);
 
   return {
     ...state,
@@ -0,0 +1,50 @@
+import { useMemo } from 'react';
+import { PixelRatio, Platform, useWindowDimensions } from 'react-native';
+import {
+  calculateStereoScreenLayout,
+  getLayoutPixelsPerMillimeter,
+  type StereoScreenLayout,
+} from '@/lib/screen-geometry';
+import type { ViewerProfile } from '@/lib/viewer-profile';
+
+/**
+ * 螢幕尺寸與實體密度 Hook
+ * 有實物校正值時使用校正值，否則依平台與螢幕倍率 (PixelRatio) 估算實體密度
+ *
+ * @param calibratedPixelsPerMillimeter 實物校正的密度（設定中的 screenPixelsPerMillimeter）
+ */
+export function useScreenGeometry(calibratedPixelsPerMillimeter?: number | null) {
+  const { width, height } = useWindowDimensions();
+
+  const pixelsPerMillimeter = useMemo(
+    () =>
+      getLayoutPixelsPerMillimeter({
+        platform: Platform.OS,
+        pixelRatio: PixelRatio.get(),
+        calibratedPixelsPerMillimeter,
+      }),
+    [calibratedPixelsPerMillimeter]
+  );
+
+  return { width, height, pixelsPerMillimeter };
+}
+
+/**
+ * 雙眼畫面配置 Hook
+ *
+ * @param profile 眼鏡參數
+ * @param pupilDistance 瞳距 (毫米)
+ * @param calibratedPixelsPerMillimeter 實物校正的密度，未校正時省略
+ */
+export function useStereoScreenLayout(
+  profile: ViewerProfile,
+  pupilDistance: number,
+  calibratedPixelsPerMillimeter?: number | null
+): StereoScreenLayout {
+  const { width, height, pixelsPerMillimeter } = useScreenGeometry(calibratedPixelsPerMillimeter);
+
+  return useMemo(
+    () => calculateStereoScreenLayout(width, height, profile, pupilDistance, pixelsPerMillimeter),
+    [width, height, profile, pupilDistance, pixelsPerMillimeter]
+  );
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import * as FileSystem from 'expo-file-system/legacy';
+import type { VideoSource } from 'expo-video';
+import {
+  STREAM_QUALITY_LABELS,
+  createDashVariantManifest,
+  createHlsMasterPlaylist,
+  detectStreamFormat,
+  formatStreamVariant,
+  getAvailableStreamQualities,
+  parseStreamManifest,
+  selectStreamVariant,
+  type StreamManifest,
+  type StreamQuality,
+} from '@/lib/stream-manifest';
+import { getHlsDownloadId } from '@/lib/hls-download';
+import { STREAM_CACHE_DIRECTORY } from '@/lib/native-download-file-system';
+
+const MANIFEST_TIMEOUT = 15000;
+
+export interface StreamQualityOption {
+  quality: StreamQuality;
+  label: string;
+}
+
+/**
+ * 自適應串流 Hook
+ * 讀取 HLS/DASH 清單以取得畫質版本與排列資訊，並依選擇的畫質提供播放來源：
+ * - 自動：原本的清單，由播放器的自適應位元率（ABR）依實際頻寬切換，不使用 selectStreamVariant 的頻寬估計
+ * - 1080p/4K：只包含選定版本的清單（HLS 沒有替代音軌時直接使用該版本的媒體播放清單）
+ *
+ * @param uri 影片網址；不是 HLS/DASH 時直接作為播放來源
+ */
+export function useStreamManifest(uri: string) {
+  const format = useMemo(() => detectStreamFormat(uri), [uri]);
+  const [manifest, setManifest] = useState<StreamManifest | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [quality, setQuality] = useState<StreamQuality>('auto');
+  const [source, setSource] = useState<VideoSource>(uri);
+  const manifestTextRef = useRef('');
+
+  useEffect(() => {
+    setManifest(null);
+    setError(null);
+    setQuality('auto');
+    setSource(format ? { uri, contentType: format } : uri);
+    if (!format) return;
+
+    let cancelled = false;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), MANIFEST_TIMEOUT);
+    setIsLoading(true);
+
+    (async () => {
+      try {
+        const response = await fetch(uri, { signal: controller.signal });
+        if (!response.ok) {
+          throw new Error(`讀取串流清單失敗 (HTTP ${response.status})`);
+        }
+        const text = await response.text();
+        if (cancelled) return;
+        manifestTextRef.current = text;
+        setManifest(parseStreamManifest(text, uri, detectStreamFormat(uri, response.headers.get('Content-Type')) ?? format));
+      } catch (err) {
+        if (cancelled) return;
+        console.error('讀取串流清單失敗:', err);
+        setError(err instanceof Error ? err.message : '讀取串流清單失敗');
+      } finally {
+        clearTimeout(timer);
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [uri, format]);
+
+  useEffect(() => {
+    if (!manifest || quality === 'auto') {
+      setSource(format ? { uri, contentType: format } : uri);
+      return;
+    }
+    const variant = selectStreamVariant(manifest.variants, quality);
+    if (!variant) return;
+
+    if (manifest.format === 'hls' && !variant.audioGroup && !variant.subtitlesGroup) {
+      setSource({ uri: variant.uri, contentType: 'hls' });
+      return;
+    }
+
+    // 清單需包含替代音軌或其他 Representation 的設定，另存只有選定版本的清單
+    let cancelled = false;
+    const extension = manifest.format === 'hls' ? 'm3u8' : 'mpd';
+    const path = `${STREAM_CACHE_DIRECTORY}${getHlsDownloadId(manifest.url)}_${variant.id}.${extension}`;
+    const content =
+      manifest.format === 'hls'
+        ? createHlsMasterPlaylist(variant, manifest.renditions)
+        : createDashVariantManifest(manifestTextRef.current, variant);
+
+    (async () => {
+      try {
+        await FileSystem.makeDirectoryAsync(STREAM_CACHE_DIRECTORY, { intermediates: true });
+        await FileSystem.writeAsStringAsync(path, content);
+        if (!cancelled) setSource({ uri: path, contentType: manifest.format });
+      } catch (err) {
+        console.error('切換畫質失敗:', err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uri, format, manifest, quality]);
+
+  /**
+   * 可選的畫質與對應的版本（例如「1080p（1080p · 5.2 Mbps）」）
+   */
+  const qualityOptions = useMemo<StreamQualityOption[]>(() => {
+    if (!manifest || manifest.variants.length <= 1) return [];
+    return getAvailableStreamQualities(manifest.variants).map((option) => {
+      const variant = option === 'auto' ? null : selectStreamVariant(manifest.variants, option);
+      return {
+        quality: option,
+        label: variant
+          ? `${STREAM_QUALITY_LABELS[option]}（${formatStreamVariant(variant)}）`
+          : STREAM_QUALITY_LABELS[option],
+      };
+    });
+  }, [manifest]);
+
+  return {
+    format,
+    manifest,
+    isLoading,
+    error,
+    quality,
+    setQuality,
+    qualityOptions,
+    source,
+  };
+}
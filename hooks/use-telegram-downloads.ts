@@ -0,0 +1,115 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { TelegramIntegrationManager } from '@/lib/telegram-integration';
+import type { TelegramVideoItem } from '@/lib/telegram-media';
+import { TelegramDownloader, type DownloadRecord } from '@/lib/telegram-download';
+import { layoutToVideoType } from '@/lib/video-layout';
+import { addVideoToStoredLibrary } from './use-video-library';
+
+let defaultDownloader: TelegramDownloader | null = null;
+
+/**
+ * 獲取全域下載管理器（離開畫面後仍繼續下載）
+ */
+export function getTelegramDownloader(): TelegramDownloader {
+  if (!defaultDownloader) {
+    const AsyncStorage = require('@react-native-async-storage/async-storage').default;
+    const { expoDownloadFileSystem } = require('@/lib/native-download-file-system');
+    defaultDownloader = new TelegramDownloader(expoDownloadFileSystem, AsyncStorage);
+  }
+  return defaultDownloader;
+}
+
+/**
+ * 下載檔案的保存路徑（以第一部分的訊息 ID 區分同名檔案）
+ */
+function getSavePath(item: TelegramVideoItem): string {
+  const { TELEGRAM_DOWNLOAD_DIRECTORY } = require('@/lib/native-download-file-system');
+  const safeName = item.fileName.replace(/[\\/:*?"<>|]/g, '_');
+  return `${TELEGRAM_DOWNLOAD_DIRECTORY}${item.channelId}_${item.message.messageId}_${safeName}`;
+}
+
+/**
+ * 將下載完成的影片加入本地影片庫
+ */
+async function addToLibrary(item: TelegramVideoItem, savePath: string, size: number): Promise<void> {
+  const { layout } = item;
+  try {
+    await addVideoToStoredLibrary({
+      // ZIP 下載後為其中的影片，檔名以保存路徑為準
+      filename: item.isArchive ? savePath.split('/').pop()! : item.fileName,
+      path: savePath,
+      type: layoutToVideoType(layout),
+      layout,
+      duration: item.message.video?.duration ?? 0,
+      size,
+      addedDate: Date.now(),
+    });
+  } catch (err) {
+    console.error('加入影片庫失敗:', err);
+  }
+}
+
+/**
+ * 讓連線管理器在登入後繼續上次中斷的下載，並將下載完成的影片加入影片庫
+ * 建立管理器時呼叫一次，不依賴畫面是否掛載
+ */
+export function attachTelegramDownloads(manager: TelegramIntegrationManager): void {
+  manager.subscribe((event, data) => {
+    if (event === 'authenticated') {
+      manager.resumeDownloads().catch((err) => console.error('繼續下載失敗:', err));
+    } else if (event === 'download-completed') {
+      addToLibrary(data.item, data.savePath, data.record.totalBytes);
+    }
+  });
+}
+
+/**
+ * Telegram 影片下載 Hook
+ */
+export function useTelegramDownloads(manager: TelegramIntegrationManager | null) {
+  const downloader = getTelegramDownloader();
+  const [downloads, setDownloads] = useState<DownloadRecord[]>(() => downloader.getDownloads());
+
+  useEffect(() => {
+    const unsubscribe = downloader.subscribe(setDownloads);
+    downloader.load().then(() => setDownloads(downloader.getDownloads()));
+    return unsubscribe;
+  }, [downloader]);
+
+  /**
+   * 下載影片（已暫停的下載會從中斷處繼續；分割檔合併為一個檔案）
+   */
+  const download = useCallback(
+    (item: TelegramVideoItem) => {
+      if (!manager) return Promise.resolve(false);
+      return manager.downloadItem(item, getSavePath(item));
+    },
+    [manager]
+  );
+
+  const pause = useCallback((id: string) => downloader.pause(id), [downloader]);
+
+  const remove = useCallback(
+    async (id: string) => {
+      try {
+        await downloader.remove(id);
+      } catch (err) {
+        console.error('移除下載失敗:', err);
+      }
+    },
+    [downloader]
+  );
+
+  const getDownload = useCallback(
+    (id: string) => downloads.find((record) => record.id === id),
+    [downloads]
+  );
+
+  return {
+    downloads,
+    download,
+    pause,
+    remove,
+    getDownload,
+  };
+}
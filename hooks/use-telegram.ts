@@ -0,0 +1,311 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createTelegramIntegration,
+  type TelegramIntegrationManager,
+  type TelegramMode,
+  type TelegramSignInStatus,
+} from '@/lib/telegram-integration';
+import { HttpTelegramGateway } from '@/lib/telegram-gateway';
+import {
+  TelegramSessionStore,
+  getTelegramAccountId,
+  type SecureKeyValueStore,
+  type TelegramAccount,
+} from '@/lib/telegram-session-store';
+import { attachTelegramDownloads, getTelegramDownloader } from './use-telegram-downloads';
+
+/** 使用者帳號模式的 MTProto 代理網址（未設定時只能使用機器人模式） */
+export const TELEGRAM_GATEWAY_URL = process.env.EXPO_PUBLIC_TELEGRAM_GATEWAY_URL ?? '';
+
+// 網頁版沒有 SecureStore，與 lib/_core/auth.ts 相同改用 localStorage
+const webSecureStore: SecureKeyValueStore = {
+  getItemAsync: async (key) => window.localStorage.getItem(key),
+  setItemAsync: async (key, value) => window.localStorage.setItem(key, value),
+  deleteItemAsync: async (key) => window.localStorage.removeItem(key),
+};
+
+const sessionStore = new TelegramSessionStore(Platform.OS === 'web' ? webSecureStore : SecureStore);
+
+// 離開畫面後保留登入狀態與已收到的貼文
+let sharedManager: TelegramIntegrationManager | null = null;
+// 多個畫面同時掛載時只還原一次
+let restorePromise: Promise<TelegramIntegrationManager | null> | null = null;
+
+function createManager(mode: TelegramMode, botToken: string, gatewayUrl?: string) {
+  const manager = createTelegramIntegration(botToken, {
+    gateway: mode === 'user' ? new HttpTelegramGateway(gatewayUrl || TELEGRAM_GATEWAY_URL) : undefined,
+    downloader: getTelegramDownloader(),
+    storage: AsyncStorage,
+  });
+  attachTelegramDownloads(manager);
+  return manager;
+}
+
+/**
+ * 以保存的憑證還原帳號
+ * 憑證失效時移除帳號；網路錯誤時拋出錯誤並保留帳號，下次再試
+ */
+async function restoreAccount(account: TelegramAccount): Promise<TelegramIntegrationManager | null> {
+  const secret = await sessionStore.getSecret(account.id);
+  if (!secret) {
+    await sessionStore.removeAccount(account.id);
+    return null;
+  }
+
+  const manager =
+    account.mode === 'bot' ? createManager('bot', secret) : createManager('user', '', account.gatewayUrl);
+  const valid = await manager.restoreSession(account.mode === 'user' ? secret : undefined);
+  if (!valid) {
+    await sessionStore.removeAccount(account.id);
+    return null;
+  }
+  await sessionStore.setActiveAccount(account.id);
+  return manager;
+}
+
+/**
+ * 登入成功後保存帳號與憑證
+ */
+async function saveSession(manager: TelegramIntegrationManager): Promise<void> {
+  const user = manager.getCurrentUser();
+  const secret = manager.getSession();
+  if (!user || !secret) return;
+
+  const mode = manager.getMode();
+  try {
+    await sessionStore.saveAccount(
+      {
+        id: getTelegramAccountId(mode, user.id),
+        mode,
+        name: user.firstName,
+        username: user.username,
+        gatewayUrl: mode === 'user' ? TELEGRAM_GATEWAY_URL : undefined,
+      },
+      secret
+    );
+  } catch (err) {
+    console.error('保存 Telegram 登入狀態失敗:', err);
+  }
+}
+
+/**
+ * 還原上次使用的帳號（App 啟動時呼叫，登入後會繼續中斷的下載）
+ * 多次呼叫共用同一次還原；已登入時直接回傳目前的連線
+ */
+export function restoreTelegramSession(): Promise<TelegramIntegrationManager | null> {
+  if (sharedManager) return Promise.resolve(sharedManager);
+  if (!restorePromise) {
+    restorePromise = sessionStore
+      .getActiveAccount()
+      .then((account) => (account ? restoreAccount(account) : null))
+      .catch((err) => {
+        console.error('還原 Telegram 登入失敗:', err);
+        return null;
+      })
+      .then((restored) => {
+        restorePromise = null;
+        if (restored && !sharedManager) sharedManager = restored;
+        return sharedManager;
+      });
+  }
+  return restorePromise;
+}
+
+/**
+ * Telegram 連線 Hook
+ * 登入憑證保存在安全儲存，App 重新啟動時自動還原上次使用的帳號
+ */
+export function useTelegram() {
+  const [manager, setManager] = useState<TelegramIntegrationManager | null>(sharedManager);
+  const [isLoggedIn, setIsLoggedIn] = useState(() => sharedManager?.isLoggedIn() ?? false);
+  const [mode, setMode] = useState<TelegramMode | null>(() => sharedManager?.getMode() ?? null);
+  const [isRestoring, setIsRestoring] = useState(!sharedManager);
+  const [accounts, setAccounts] = useState<TelegramAccount[]>([]);
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null);
+
+  const refreshAccounts = useCallback(async () => {
+    setAccounts(await sessionStore.listAccounts());
+    setActiveAccountId((await sessionStore.getActiveAccount())?.id ?? null);
+  }, []);
+
+  const adopt = useCallback((next: TelegramIntegrationManager | null) => {
+    sharedManager = next;
+    setManager(next);
+    setMode(next?.getMode() ?? null);
+    setIsLoggedIn(next?.isLoggedIn() ?? false);
+    return next;
+  }, []);
+
+  // 啟動時還原上次使用的帳號
+  useEffect(() => {
+    if (sharedManager) {
+      refreshAccounts();
+      return;
+    }
+
+    let cancelled = false;
+    restoreTelegramSession().then((restored) => {
+      if (cancelled) return;
+      if (restored) adopt(restored);
+      setIsRestoring(false);
+      refreshAccounts();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [adopt, refreshAccounts]);
+
+  useEffect(() => {
+    if (!manager) return;
+    return manager.subscribe((event) => {
+      if (event === 'authenticated' || event === 'logged-out') {
+        setIsLoggedIn(manager.isLoggedIn());
+      }
+    });
+  }, [manager]);
+
+  /**
+   * 以 Bot Token 連接
+   */
+  const connectBot = useCallback(
+    async (botToken: string) => {
+      const next = createManager('bot', botToken.trim());
+      const ok = await next.connectBot();
+      if (ok) {
+        adopt(next);
+        await saveSession(next);
+        await refreshAccounts();
+      }
+      return ok;
+    },
+    [adopt, refreshAccounts]
+  );
+
+  /**
+   * 發送手機驗證碼（使用者帳號模式）
+   */
+  const sendCode = useCallback(
+    async (phoneNumber: string) => {
+      if (!TELEGRAM_GATEWAY_URL) {
+        throw new Error('未設定 Telegram 閘道');
+      }
+      const next =
+        manager?.getMode() === 'user' && !manager.isLoggedIn() ? manager : adopt(createManager('user', ''))!;
+      return next.authenticate(phoneNumber);
+    },
+    [manager, adopt]
+  );
+
+  const completeSignIn = useCallback(
+    async (status: TelegramSignInStatus) => {
+      if (status === 'authenticated' && manager) {
+        setIsLoggedIn(true);
+        await saveSession(manager);
+        await refreshAccounts();
+      }
+      return status;
+    },
+    [manager, refreshAccounts]
+  );
+
+  const verifyCode = useCallback(
+    async (phoneNumber: string, code: string): Promise<TelegramSignInStatus> => {
+      if (!manager) return 'failed';
+      return completeSignIn(await manager.verifyCode(phoneNumber, code));
+    },
+    [manager, completeSignIn]
+  );
+
+  /**
+   * 驗證兩步驟驗證密碼
+   */
+  const verifyPassword = useCallback(
+    async (phoneNumber: string, password: string): Promise<TelegramSignInStatus> => {
+      if (!manager) return 'failed';
+      return completeSignIn(await manager.verifyPassword(phoneNumber, password));
+    },
+    [manager, completeSignIn]
+  );
+
+  /**
+   * 切換到已保存的帳號
+   *
+   * @returns 是否切換成功；憑證已失效時帳號會被移除
+   * @throws 網路錯誤
+   */
+  const switchAccount = useCallback(
+    async (accountId: string) => {
+      const account = accounts.find((a) => a.id === accountId);
+      if (!account) return false;
+
+      try {
+        const next = await restoreAccount(account);
+        if (!next) return false;
+        adopt(next);
+        return true;
+      } finally {
+        await refreshAccounts();
+      }
+    },
+    [accounts, adopt, refreshAccounts]
+  );
+
+  /**
+   * 回到登入頁新增帳號，已保存的帳號保留
+   */
+  const addAccount = useCallback(async () => {
+    adopt(null);
+    await sessionStore.setActiveAccount(null);
+    await refreshAccounts();
+  }, [adopt, refreshAccounts]);
+
+  /**
+   * 移除保存的帳號；移除的是目前登入的帳號時一併登出
+   */
+  const removeAccount = useCallback(
+    async (accountId: string) => {
+      await sessionStore.removeAccount(accountId);
+      const user = manager?.getCurrentUser();
+      if (manager && user && getTelegramAccountId(manager.getMode(), user.id) === accountId) {
+        manager.logout();
+        adopt(null);
+      }
+      await refreshAccounts();
+    },
+    [manager, adopt, refreshAccounts]
+  );
+
+  /**
+   * 登出目前帳號並刪除保存的憑證
+   */
+  const logout = useCallback(async () => {
+    const user = manager?.getCurrentUser();
+    if (manager && user) {
+      await sessionStore.removeAccount(getTelegramAccountId(manager.getMode(), user.id));
+    }
+    manager?.logout();
+    adopt(null);
+    await refreshAccounts();
+  }, [manager, adopt, refreshAccounts]);
+
+  return {
+    manager,
+    mode,
+    isLoggedIn,
+    isRestoring,
+    accounts,
+    activeAccountId,
+    canUseAccount: !!TELEGRAM_GATEWAY_URL,
+    connectBot,
+    sendCode,
+    verifyCode,
+    verifyPassword,
+    switchAccount,
+    addAccount,
+    removeAccount,
+    logout,
+  };
+}
@@ -1,4 +1,16 @@
 import { useState, useCallback, useRef } from 'react';
+import type { FramePixelFormat, FrameSource, VideoStreamInfo } from '@/lib/frame-source';
+import {
+  convertYUVFrameToSBS,
+  DEFAULT_YUV_COLOR_SPACE,
+  yuvToRGBA,
+  type YUVColorSpace,
+} from '@/lib/yuv-frame';
+import {
+  TemporalDisparitySession,
+  type TemporalSmoothingOptions,
+} from '@/lib/temporal-disparity';
+import type { PixelBuffer, SBSConversionOptions } from '@/lib/video-processing';
 
 /**
  * 影片幀處理 Hook
@@ -13,7 +25,7 @@ import { useState, useCallback, useRef } from 'react';
 export interface FrameProcessorOptions {
   width: number;
   height: number;
-  format: 'rgba' | 'yuv';
+  format: FramePixelFormat;
 }
 
 export interface FrameProcessorState {
@@ -22,26 +34,93 @@ export interface FrameProcessorState {
   totalFrames: number;
   progress: number;
   error: string | null;
+  streamInfo: VideoStreamInfo | null;
 }
 
 export interface ProcessedFrame {
   data: Uint8Array;
   width: number;
   height: number;
+  format: FramePixelFormat;
   timestamp: number;
+  /** YUV 格式的色彩空間 */
+  colorSpace?: YUVColorSpace;
 }
 
-export function useVideoFrameProcessor() {
+/**
+ * 批量處理時的 2D 轉 3D 設定
+ */
+export interface BatchConversionOptions {
+  sbs: SBSConversionOptions;
+  /** 跨幀深度平滑與場景切換偵測 */
+  temporal?: Partial<TemporalSmoothingOptions>;
+}
+
+let defaultFrameSource: FrameSource | null = null;
+
+/**
+ * 獲取預設幀來源（原生解碼器）
+ * 延遲載入，避免在非 React Native 環境（例如單元測試）引入原生模組
+ */
+function getDefaultFrameSource(): FrameSource {
+  if (!defaultFrameSource) {
+    const { NativeFrameSource } = require('@/lib/native-frame-source');
+    defaultFrameSource = new NativeFrameSource() as FrameSource;
+  }
+  return defaultFrameSource;
+}
+
+/**
+ * @param frameSource 幀來源；未指定時使用原生解碼器
+ */
+export function useVideoFrameProcessor(frameSource?: FrameSource) {
   const [state, setState] = useState<FrameProcessorState>({
     isProcessing: false,
     currentFrame: 0,
     totalFrames: 0,
     progress: 0,
     error: null,
+    streamInfo: null,
   });
 
   const processorRef = useRef<AbortController | null>(null);
-  const frameBufferRef = useRef<Map<number, ProcessedFrame>>(new Map());
+  const frameBufferRef = useRef<Map<string, ProcessedFrame>>(new Map());
+  const sourceRef = useRef(frameSource);
+  const sessionRef = useRef<{
+    videoUri: string;
+    nextFrame: number;
+    session: TemporalDisparitySession;
+  } | null>(null);
+  sourceRef.current = frameSource;
+
+  const getSource = useCallback((): FrameSource => {
+    return sourceRef.current ?? getDefaultFrameSource();
+  }, []);
+
+  /**
+   * 讀取影片串流資訊（尺寸、幀率、總幀數）
+   */
+  const getStreamInfo = useCallback(
+    async (videoUri: string): Promise<VideoStreamInfo | null> => {
+      try {
+        const info = await getSource().open(videoUri);
+        setState((prev) => ({
+          ...prev,
+          streamInfo: info,
+          totalFrames: info.frameCount,
+        }));
+        return info;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : '讀取影片資訊失敗';
+        setState((prev) => ({
+          ...prev,
+          error: errorMessage,
+        }));
+        return null;
+      }
+    },
+    [getSource]
+  );
 
   /**
    * 提取影片幀
@@ -52,10 +131,11 @@ export function useVideoFrameProcessor() {
       frameIndex: number,
       options: FrameProcessorOptions
     ): Promise<ProcessedFrame | null> => {
+      const cacheKey = `${videoUri}#${frameIndex}#${options.format}#${options.width}x${options.height}`;
       try {
         // 檢查緩存
-        if (frameBufferRef.current.has(frameIndex)) {
-          return frameBufferRef.current.get(frameIndex) || null;
+        if (frameBufferRef.current.has(cacheKey)) {
+          return frameBufferRef.current.get(cacheKey) || null;
         }
 
         setState((prev) => ({
@@ -64,19 +144,15 @@ export function useVideoFrameProcessor() {
           currentFrame: frameIndex,
         }));
 
-        // 模擬幀提取（實際應用中使用原生模塊）
-        const frame = await simulateFrameExtraction(
-          videoUri,
-          frameIndex,
-          options
-        );
+        // 從幀來源解碼（時間戳依容器幀率計算）
+        const frame = await getSource().readFrame(videoUri, frameIndex, options);
 
         // 緩存幀
-        frameBufferRef.current.set(frameIndex, frame);
+        frameBufferRef.current.set(cacheKey, frame);
 
         // 限制緩存大小（最多保存 100 幀）
         if (frameBufferRef.current.size > 100) {
-          const firstKey = frameBufferRef.current.keys().next().value as number | undefined;
+          const firstKey = frameBufferRef.current.keys().next().value as string | undefined;
           if (firstKey !== undefined) {
             frameBufferRef.current.delete(firstKey);
           }
@@ -98,38 +174,9 @@ export function useVideoFrameProcessor() {
         return null;
       }
     },
-    []
+    [getSource]
   );
 
-  /**
-   * 模擬幀提取
-   */
-  const simulateFrameExtraction = async (
-    videoUri: string,
-    frameIndex: number,
-    options: FrameProcessorOptions
-  ): Promise<ProcessedFrame> => {
-    // 模擬處理延遲
-    await new Promise((resolve) => setTimeout(resolve, 50));
-
-    // 創建模擬幀數據
-    const pixelCount = options.width * options.height;
-    const bytesPerPixel = options.format === 'rgba' ? 4 : 3;
-    const frameData = new Uint8Array(pixelCount * bytesPerPixel);
-
-    // 填充模擬數據
-    for (let i = 0; i < frameData.length; i++) {
-      frameData[i] = Math.random() * 255;
-    }
-
-    return {
-      data: frameData,
-      width: options.width,
-      height: options.height,
-      timestamp: frameIndex * (1000 / 30), // 假設 30fps
-    };
-  };
-
   /**
    * 將 2D 幀轉換為 SBS 3D
    * 
@@ -137,6 +184,8 @@ export function useVideoFrameProcessor() {
    * 1. 將原始幀分為左右兩部分
    * 2. 左部分保持不變（左眼視角）
    * 3. 右部分進行水平位移（右眼視角）
+   *
+   * YUV 幀直接在平面上位移，輸出與輸入格式相同，不經過 RGBA
    */
   const convertFrameToSBS = useCallback(
     (
@@ -144,6 +193,29 @@ export function useVideoFrameProcessor() {
       disparityShift: number
     ): ProcessedFrame => {
       const { data, width, height } = frame;
+      const shiftPixels = Math.round((disparityShift / 100) * width);
+
+      if (frame.format !== 'rgba') {
+        const sbs = convertYUVFrameToSBS(
+          {
+            format: frame.format,
+            width,
+            height,
+            data,
+            colorSpace: frame.colorSpace ?? DEFAULT_YUV_COLOR_SPACE,
+          },
+          shiftPixels
+        );
+        return {
+          data: sbs.data,
+          width: sbs.width,
+          height,
+          format: frame.format,
+          timestamp: frame.timestamp,
+          colorSpace: sbs.colorSpace,
+        };
+      }
+
       const bytesPerPixel = 4; // RGBA
 
       // 創建新的 SBS 幀（寬度翻倍）
@@ -163,7 +235,6 @@ export function useVideoFrameProcessor() {
       }
 
       // 複製右眼視角（應用位移）
-      const shiftPixels = Math.round((disparityShift / 100) * width);
       for (let y = 0; y < height; y++) {
         for (let x = 0; x < width; x++) {
           const srcX = Math.max(0, Math.min(width - 1, x + shiftPixels));
@@ -181,6 +252,7 @@ export function useVideoFrameProcessor() {
         data: sbsData,
         width: width * 2,
         height,
+        format: 'rgba',
         timestamp: frame.timestamp,
       };
     },
@@ -196,21 +268,50 @@ export function useVideoFrameProcessor() {
       startFrame: number,
       endFrame: number,
       options: FrameProcessorOptions,
-      onProgress?: (progress: number) => void
+      onProgress?: (progress: number) => void,
+      conversion?: BatchConversionOptions
     ): Promise<ProcessedFrame[]> => {
       const frames: ProcessedFrame[] = [];
       processorRef.current = new AbortController();
 
+      // 延續同一影片的連續幀時沿用深度狀態，跳轉或換片時重新開始
+      let session: TemporalDisparitySession | null = null;
+      if (conversion) {
+        const current = sessionRef.current;
+        if (current && current.videoUri === videoUri && current.nextFrame === startFrame) {
+          session = current.session;
+          if (conversion.temporal) session.setOptions(conversion.temporal);
+        } else {
+          session = new TemporalDisparitySession(conversion.temporal);
+          sessionRef.current = { videoUri, nextFrame: startFrame, session };
+        }
+      }
+
       try {
-        const totalFrames = endFrame - startFrame;
+        // 不超出影片實際幀數
+        const info = await getSource().open(videoUri);
+        const lastFrame = Math.min(endFrame, info.frameCount);
+        const totalFrames = lastFrame - startFrame;
 
-        for (let i = startFrame; i < endFrame; i++) {
+        for (let i = startFrame; i < lastFrame; i++) {
           if (processorRef.current?.signal.aborted) {
             throw new Error('處理已取消');
           }
 
           const frame = await extractFrame(videoUri, i, options);
-          if (frame) {
+          if (frame && session && conversion) {
+            const result = session.processFrame(toPixelBuffer(frame), conversion.sbs);
+            frames.push({
+              data: new Uint8Array(result.frame.data.buffer),
+              width: result.frame.width,
+              height: result.frame.height,
+              format: 'rgba',
+              timestamp: frame.timestamp,
+            });
+            if (sessionRef.current?.session === session) {
+              sessionRef.current.nextFrame = i + 1;
+            }
+          } else if (frame) {
             frames.push(frame);
           }
 
@@ -234,9 +335,16 @@ export function useVideoFrameProcessor() {
         return frames;
       }
     },
-    [extractFrame]
+    [extractFrame, getSource]
   );
 
+  /**
+   * 清除跨幀的 2D 轉 3D 狀態（下次批量處理從新場景開始）
+   */
+  const resetConversionSession = useCallback(() => {
+    sessionRef.current = null;
+  }, []);
+
   /**
    * 取消處理
    */
@@ -267,23 +375,47 @@ export function useVideoFrameProcessor() {
    * 獲取緩存統計
    */
   const getBufferStats = useCallback(() => {
+    let memory = 0;
+    frameBufferRef.current.forEach((frame) => {
+      memory += frame.data.byteLength;
+    });
     return {
       cachedFrames: frameBufferRef.current.size,
-      estimatedMemory: frameBufferRef.current.size * (1920 * 1080 * 4), // 估算內存使用
+      estimatedMemory: memory, // 實際緩存位元組數
     };
   }, []);
 
   return {
     ...state,
+    getStreamInfo,
     extractFrame,
     convertFrameToSBS,
     processBatch,
+    resetConversionSession,
     cancelProcessing,
     clearFrameBuffer,
     getBufferStats,
   };
 }
 
+/**
+ * 將幀轉為 RGBA 像素緩衝區（YUV 幀先做色彩轉換）
+ */
+function toPixelBuffer(frame: ProcessedFrame): PixelBuffer {
+  if (frame.format !== 'rgba') {
+    return yuvToRGBA({
+      format: frame.format,
+      width: frame.width,
+      height: frame.height,
+      data: frame.data,
+      colorSpace: frame.colorSpace ?? DEFAULT_YUV_COLOR_SPACE,
+    });
+  }
+  const { buffer, byteOffset, byteLength } = frame.data;
+  const data = buffer.slice(byteOffset, byteOffset + byteLength) as ArrayBuffer;
+  return { data: new Uint8ClampedArray(data), width: frame.width, height: frame.height };
+}
+
 /**
  * 優化大型影片的幀提取
  */
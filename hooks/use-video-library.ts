@@ -1,11 +1,13 @@
 import { useState, useCallback, useEffect } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { videoTypeToLayout, type VideoLayout, type VideoType } from "@/lib/video-layout";
 
 export interface VideoFile {
   id: string;
   filename: string;
   path: string;
-  type: "2D" | "3D" | "360°";
+  type: VideoType;
+  layout: VideoLayout; // 投影與立體排列
   duration: number; // 秒
   size: number; // 字節
   addedDate: number; // 時間戳
@@ -23,6 +25,65 @@ export interface VideoLibrary {
 const STORAGE_KEY = "vr_video_library";
 const RECENT_VIDEOS_KEY = "vr_recent_videos";
 
+const EMPTY_LIBRARY: VideoLibrary = { videos: [], totalSize: 0, lastUpdated: 0 };
+
+// 已掛載的 Hook 與背景下載共用同一份存儲，寫入後通知所有 Hook 更新
+const libraryListeners = new Set<(library: VideoLibrary) => void>();
+// 依序執行讀取、修改、寫入，避免同時修改時互相覆蓋
+let libraryWrite: Promise<unknown> = Promise.resolve();
+
+async function readStoredLibrary(): Promise<VideoLibrary> {
+  const data = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!data) return EMPTY_LIBRARY;
+  const parsed = JSON.parse(data) as VideoLibrary;
+  // 舊版資料沒有 layout，依分類補上
+  return {
+    ...parsed,
+    videos: parsed.videos.map((v) => ({ ...v, layout: v.layout ?? videoTypeToLayout(v.type) })),
+  };
+}
+
+/**
+ * 以存儲中最新的影片庫為基礎修改並保存
+ *
+ * @param update 回傳 null 時不寫入
+ */
+function updateStoredLibrary(
+  update: (library: VideoLibrary) => VideoLibrary | null
+): Promise<VideoLibrary | null> {
+  const result = libraryWrite.then(async () => {
+    const next = update(await readStoredLibrary());
+    if (!next) return null;
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    libraryListeners.forEach((listener) => listener(next));
+    return next;
+  });
+  libraryWrite = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * 直接寫入存儲的影片庫（供背景下載完成時使用，不依賴畫面上的 Hook 狀態）
+ * 相同路徑的影片已存在時不重複加入；已掛載的 Hook 會收到更新
+ *
+ * @returns 加入的影片；已存在時為 null
+ */
+export async function addVideoToStoredLibrary(
+  video: Omit<VideoFile, "id">
+): Promise<VideoFile | null> {
+  const newVideo: VideoFile = { ...video, id: `video_${Date.now()}_${Math.random()}` };
+  const saved = await updateStoredLibrary((library) =>
+    library.videos.some((v) => v.path === video.path)
+      ? null
+      : {
+          videos: [...library.videos, newVideo],
+          totalSize: library.totalSize + video.size,
+          lastUpdated: Date.now(),
+        }
+  );
+  return saved ? newVideo : null;
+}
+
 /**
  * 本地影片庫管理 Hook
  */
@@ -35,9 +96,13 @@ export function useVideoLibrary() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // 初始化影片庫
+  // 初始化影片庫，之後跟隨其他畫面或背景下載的寫入
   useEffect(() => {
+    libraryListeners.add(setLibrary);
     loadLibrary();
+    return () => {
+      libraryListeners.delete(setLibrary);
+    };
   }, []);
 
   /**
@@ -46,11 +111,7 @@ export function useVideoLibrary() {
   const loadLibrary = useCallback(async () => {
     try {
       setIsLoading(true);
-      const data = await AsyncStorage.getItem(STORAGE_KEY);
-      if (data) {
-        const parsed = JSON.parse(data) as VideoLibrary;
-        setLibrary(parsed);
-      }
+      setLibrary(await readStoredLibrary());
       setError(null);
     } catch (err) {
       setError(`加載影片庫失敗: ${err}`);
@@ -60,16 +121,18 @@ export function useVideoLibrary() {
   }, []);
 
   /**
-   * 保存影片庫到存儲
+   * 修改並保存影片庫（以存儲中的最新內容為基礎，不使用畫面上可能過時的狀態）
    */
-  const saveLibrary = useCallback(async (newLibrary: VideoLibrary) => {
-    try {
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(newLibrary));
-      setLibrary(newLibrary);
-    } catch (err) {
-      setError(`保存影片庫失敗: ${err}`);
-    }
-  }, []);
+  const saveLibrary = useCallback(
+    async (update: (library: VideoLibrary) => VideoLibrary | null) => {
+      try {
+        await updateStoredLibrary(update);
+      } catch (err) {
+        setError(`保存影片庫失敗: ${err}`);
+      }
+    },
+    []
+  );
 
   /**
    * 添加影片到庫
@@ -78,15 +141,14 @@ export function useVideoLibrary() {
     async (video: Omit<VideoFile, "id">) => {
       const id = `video_${Date.now()}_${Math.random()}`;
       const newVideo: VideoFile = { ...video, id };
-      const newLibrary: VideoLibrary = {
-        videos: [...library.videos, newVideo],
-        totalSize: library.totalSize + video.size,
+      await saveLibrary((current) => ({
+        videos: [...current.videos, newVideo],
+        totalSize: current.totalSize + video.size,
         lastUpdated: Date.now(),
-      };
-      await saveLibrary(newLibrary);
+      }));
       return newVideo;
     },
-    [library, saveLibrary]
+    [saveLibrary]
   );
 
   /**
@@ -94,17 +156,17 @@ export function useVideoLibrary() {
    */
   const removeVideo = useCallback(
     async (videoId: string) => {
-      const video = library.videos.find((v) => v.id === videoId);
-      if (!video) return;
-
-      const newLibrary: VideoLibrary = {
-        videos: library.videos.filter((v) => v.id !== videoId),
-        totalSize: Math.max(0, library.totalSize - video.size),
-        lastUpdated: Date.now(),
-      };
-      await saveLibrary(newLibrary);
+      await saveLibrary((current) => {
+        const video = current.videos.find((v) => v.id === videoId);
+        if (!video) return null;
+        return {
+          videos: current.videos.filter((v) => v.id !== videoId),
+          totalSize: Math.max(0, current.totalSize - video.size),
+          lastUpdated: Date.now(),
+        };
+      });
     },
-    [library, saveLibrary]
+    [saveLibrary]
   );
 
   /**
@@ -112,16 +174,15 @@ export function useVideoLibrary() {
    */
   const updateVideo = useCallback(
     async (videoId: string, updates: Partial<VideoFile>) => {
-      const newLibrary: VideoLibrary = {
-        ...library,
-        videos: library.videos.map((v) =>
+      await saveLibrary((current) => ({
+        ...current,
+        videos: current.videos.map((v) =>
           v.id === videoId ? { ...v, ...updates } : v
         ),
         lastUpdated: Date.now(),
-      };
-      await saveLibrary(newLibrary);
+      }));
     },
-    [library, saveLibrary]
+    [saveLibrary]
   );
 
   /**
@@ -177,7 +238,7 @@ export function useVideoLibrary() {
    * 按類型篩選影片
    */
   const filterByType = useCallback(
-    (type: "2D" | "3D" | "360°") => {
+    (type: VideoType) => {
       return library.videos.filter((v) => v.type === type);
     },
     [library.videos]
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AnalogInputManager,
+  applyAxisDeadZone,
+  applyStickDeadZone,
+  axisFromMotionAxis,
+  MOTION_AXIS,
+  type AnalogInputEvent,
+} from '../analog-input';
+
+function collectEvents(manager: AnalogInputManager) {
+  const events: AnalogInputEvent[] = [];
+  manager.subscribe((event) => events.push(event));
+  return events;
+}
+
+/** 以 60fps 執行 update */
+function runFrames(manager: AnalogInputManager, context: 'player-2d' | 'player-360', ms: number, start = 0) {
+  for (let t = start; t <= start + ms; t += 1000 / 60) {
+    manager.update(context, t);
+  }
+}
+
+describe('Analog dead zone', () => {
+  it('死區內應該輸出 0，推過死區後從 0 連續增加', () => {
+    expect(applyAxisDeadZone(0.1, 0.15)).toBe(0);
+    expect(applyAxisDeadZone(0.16, 0.15)).toBeCloseTo(0.01 / 0.85, 5);
+    expect(applyAxisDeadZone(1, 0.15)).toBe(1);
+    expect(applyAxisDeadZone(-1, 0.15)).toBe(-1);
+  });
+
+  it('響應曲線應該讓小幅推動更精細', () => {
+    const linear = applyAxisDeadZone(0.5, 0, 'linear');
+    const quadratic = applyAxisDeadZone(0.5, 0, 'quadratic');
+    const cubic = applyAxisDeadZone(-0.5, 0, 'cubic');
+
+    expect(linear).toBeCloseTo(0.5, 5);
+    expect(quadratic).toBeCloseTo(0.25, 5);
+    expect(cubic).toBeCloseTo(-0.125, 5);
+  });
+
+  it('搖桿死區應該依推動距離判定並保留方向', () => {
+    // 單軸都在死區內但斜向推動距離超過死區
+    const diagonal = applyStickDeadZone(0.12, 0.12, 0.15);
+    expect(diagonal.x).toBeGreaterThan(0);
+    expect(diagonal.x).toBeCloseTo(diagonal.y, 10);
+
+    expect(applyStickDeadZone(0.1, 0.05, 0.15)).toEqual({ x: 0, y: 0 });
+  });
+
+  it('應該轉換 Android 軸代碼', () => {
+    expect(axisFromMotionAxis(MOTION_AXIS.Z)).toBe('right-x');
+    expect(axisFromMotionAxis(MOTION_AXIS.GAS)).toBe('right-trigger');
+    expect(axisFromMotionAxis(99)).toBeNull();
+  });
+});
+
+describe('AnalogInputManager', () => {
+  it('360° 模式應該依搖桿與經過時間連續旋轉視角', () => {
+    const manager = new AnalogInputManager({ responseCurve: 'linear', stickDeadZone: 0, lookSpeed: 90 });
+    const events = collectEvents(manager);
+    manager.setAxis('pad', 'right-x', 1);
+
+    runFrames(manager, 'player-360', 1000);
+
+    const yaw = events
+      .filter((e): e is Extract<AnalogInputEvent, { type: 'look' }> => e.type === 'look')
+      .reduce((sum, e) => sum + e.yaw, 0);
+    // 向右推 → 向右轉（偏航減少）
+    expect(yaw).toBeCloseTo(-90, 0);
+  });
+
+  it('搖桿向上推應該向上看，可設定反轉', () => {
+    const manager = new AnalogInputManager({ stickDeadZone: 0 });
+    const events = collectEvents(manager);
+    manager.setAxis('pad', 'left-y', -1);
+    runFrames(manager, 'player-360', 100);
+    expect(events[0]).toMatchObject({ type: 'look' });
+    expect((events[0] as { pitch: number }).pitch).toBeGreaterThan(0);
+
+    manager.setOptions({ invertY: true });
+    events.length = 0;
+    runFrames(manager, 'player-360', 100, 200);
+    expect((events[0] as { pitch: number }).pitch).toBeLessThan(0);
+  });
+
+  it('2D 模式應該依推動幅度變速拖曳並節流', () => {
+    const manager = new AnalogInputManager({
+      responseCurve: 'linear',
+      stickDeadZone: 0,
+      scrubSpeed: 60,
+      scrubInterval: 250,
+    });
+    const events = collectEvents(manager);
+    manager.setAxis('pad', 'left-x', 0.5);
+
+    runFrames(manager, 'player-2d', 1000);
+    manager.setAxis('pad', 'left-x', 0);
+    manager.update('player-2d', 1010);
+
+    const scrubs = events.filter((e) => e.type === 'scrub') as { seconds: number }[];
+    expect(scrubs.length).toBeLessThanOrEqual(6);
+    expect(scrubs.reduce((sum, e) => sum + e.seconds, 0)).toBeCloseTo(30, 0);
+  });
+
+  it('放開搖桿時應該立即送出剩餘的拖曳量', () => {
+    const manager = new AnalogInputManager({ stickDeadZone: 0, scrubInterval: 10000 });
+    const events = collectEvents(manager);
+    manager.setAxis('pad', 'right-trigger', 1);
+    runFrames(manager, 'player-2d', 500);
+    const before = events.length;
+
+    manager.setAxis('pad', 'right-trigger', 0);
+    manager.update('player-2d', 520);
+
+    expect(events.length).toBe(before + 1);
+    expect((events[events.length - 1] as { seconds: number }).seconds).toBeGreaterThan(0);
+  });
+
+  it('影片庫情境或畫面中斷時不應該產生事件', () => {
+    const manager = new AnalogInputManager({ stickDeadZone: 0 });
+    const events = collectEvents(manager);
+    manager.setAxis('pad', 'left-x', 1);
+
+    runFrames(manager, 'player-2d', 0);
+    manager.update('library', 16);
+    manager.update('player-2d', 1000);
+
+    expect(events).toEqual([]);
+  });
+
+  it('多個手把應該採用推動幅度最大的值', () => {
+    const manager = new AnalogInputManager({ stickDeadZone: 0, responseCurve: 'linear' });
+    manager.setAxis('a', 'left-x', 0.2);
+    manager.setAxis('b', 'left-x', -0.8);
+
+    expect(manager.getStick('left').x).toBeCloseTo(-0.8, 5);
+
+    manager.removeDevice('b');
+    expect(manager.getStick('left').x).toBeCloseTo(0.2, 5);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BluetoothControllerManager,
+  type ControllerButtonAction,
+  type ControllerMappingStorage,
+} from '../bluetooth-controller';
+
+function createMemoryStorage(): ControllerMappingStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+function collectActions(manager: BluetoothControllerManager) {
+  const actions: ControllerButtonAction[] = [];
+  manager.subscribe((action) => actions.push(action));
+  return actions;
+}
+
+describe('Bluetooth controller mapping', () => {
+  it('自訂映射應該保存並在新的管理器重新連線時套用', async () => {
+    const storage = createMemoryStorage();
+    const manager = new BluetoothControllerManager(storage);
+    manager.addController('Pico Controller', 'pico-1');
+    await manager.setCustomMapping('pico-1', 3, 'play-pause');
+
+    const reloaded = new BluetoothControllerManager(storage);
+    await reloaded.load();
+    reloaded.addController('Pico Controller', 'pico-1');
+    const actions = collectActions(reloaded);
+    reloaded.handleKeyEvent('pico-1', 3);
+
+    expect(actions).toEqual(['play-pause']);
+  });
+
+  it('清空連線後自訂映射應該保留', async () => {
+    const manager = new BluetoothControllerManager();
+    manager.addController('Pico Controller', 'pico-1');
+    await manager.setCustomMapping('pico-1', 3, 'play-pause');
+
+    manager.clear();
+    manager.addController('Pico Controller', 'pico-1');
+
+    expect(manager.getEffectiveMapping('pico-1')[3]).toBe('play-pause');
+  });
+
+  it('映射依裝置分開保存', async () => {
+    const manager = new BluetoothControllerManager();
+    manager.addController('Pico Controller', 'pico-1');
+    manager.addController('Pico Controller', 'pico-2');
+    await manager.setCustomMapping('pico-1', 3, 'play-pause');
+
+    expect(manager.getEffectiveMapping('pico-1')[3]).toBe('play-pause');
+    expect(manager.getEffectiveMapping('pico-2')[3]).toBe('menu');
+  });
+
+  it('同一動作綁定多個按鍵時應該回報衝突', async () => {
+    const manager = new BluetoothControllerManager();
+    manager.addController('Pico Controller', 'pico-1');
+    expect(manager.getMappingConflicts('pico-1')).toEqual([]);
+
+    await manager.setCustomMapping('pico-1', 3, 'back');
+
+    expect(manager.getMappingConflicts('pico-1')).toEqual([
+      { action: 'back', keyCodes: [3, 4] },
+    ]);
+  });
+
+  it('還原預設應該清除裝置的自訂映射', async () => {
+    const storage = createMemoryStorage();
+    const manager = new BluetoothControllerManager(storage);
+    manager.addController('Pico Controller', 'pico-1');
+    await manager.setCustomMapping('pico-1', 3, 'play-pause');
+
+    await manager.resetMappings('pico-1');
+
+    expect(manager.getEffectiveMapping('pico-1')[3]).toBe('menu');
+    expect(manager.getMappingProfiles()).toEqual([]);
+    expect(JSON.parse(storage.data.get('vr_controller_mappings')!)).toEqual({});
+  });
+
+  it('等待綁定時下一個按鍵應該被擷取而不觸發動作', async () => {
+    const manager = new BluetoothControllerManager();
+    manager.addController('Pico Controller', 'pico-1');
+    const actions = collectActions(manager);
+
+    const captured = manager.captureNextKey('pico-1');
+    manager.handleKeyEvent('pico-1', 4);
+
+    await expect(captured).resolves.toBe(4);
+    expect(actions).toEqual([]);
+
+    manager.handleKeyEvent('pico-1', 4);
+    expect(actions).toEqual(['back']);
+  });
+
+  it('只攔截等待綁定中的裝置與自訂過的按鍵', async () => {
+    const manager = new BluetoothControllerManager();
+    manager.addController('Pico Controller', 'pico-1');
+    await manager.setCustomMapping('pico-1', 21, 'mode-switch');
+
+    expect(manager.interceptsKey('pico-1', 21)).toBe(true);
+    expect(manager.interceptsKey('pico-1', 96)).toBe(false);
+
+    const captured = manager.captureNextKey('pico-1');
+    expect(manager.interceptsKey('pico-1', 96)).toBe(true);
+    manager.handleKeyEvent('pico-1', 96);
+    await captured;
+    expect(manager.interceptsKey('pico-1', 96)).toBe(false);
+  });
+
+  it('型號或學習到的映射優先於一般遙控器按鍵', async () => {
+    const manager = new BluetoothControllerManager();
+    const actions = collectActions(manager);
+
+    // Pico 的扳機鍵 (24) 為確認而非音量加
+    manager.addController('Pico Controller', 'pico-1');
+    expect(manager.interceptsKey('pico-1', 24)).toBe(true);
+    manager.handleKeyEvent('pico-1', 24);
+
+    // 小米的方向鍵上為亮度而非情境中的方向
+    manager.addController('Xiaomi VR Remote', 'mi-1');
+    expect(manager.interceptsKey('mi-1', 19)).toBe(true);
+    manager.handleKeyEvent('mi-1', 19);
+
+    // 學習到的 22 → 下一首
+    manager.addController('BT Remote X1', 'remote-1');
+    expect(manager.interceptsKey('remote-1', 22)).toBe(false);
+    await manager.saveLearnedModel('remote-1', [{ name: '右', keyCode: 22, action: 'next', description: '' }]);
+    expect(manager.interceptsKey('remote-1', 22)).toBe(true);
+    manager.handleKeyEvent('remote-1', 22);
+    // 沒有映射的按鍵仍交給輸入路由器
+    expect(manager.interceptsKey('remote-1', 19)).toBe(false);
+
+    expect(actions).toEqual(['select', 'brightness-up', 'next']);
+  });
+
+  it('取消等待綁定應該拒絕並恢復一般按鍵處理', async () => {
+    const manager = new BluetoothControllerManager();
+    manager.addController('Pico Controller', 'pico-1');
+    const actions = collectActions(manager);
+    const controller = new AbortController();
+
+    const captured = manager.captureNextKey('pico-1', controller.signal);
+    controller.abort();
+
+    await expect(captured).rejects.toThrow('已取消按鍵綁定');
+    manager.handleKeyEvent('pico-1', 4);
+    expect(actions).toEqual(['back']);
+  });
+
+  it('匯出的映射應該可以匯入到其他裝置', async () => {
+    const manager = new BluetoothControllerManager();
+    manager.addController('Pico Controller', 'pico-1');
+    await manager.setCustomMapping('pico-1', 3, 'play-pause');
+    await manager.setCustomMapping('pico-1', 96, 'select');
+
+    const json = manager.exportMappings('pico-1');
+    const other = new BluetoothControllerManager();
+    const profile = await other.importMappings('pico-2', json);
+
+    expect(profile.deviceName).toBe('Pico Controller');
+    expect(other.getEffectiveMapping('pico-2')).toMatchObject({ 3: 'play-pause', 96: 'select' });
+  });
+
+  it('無效的映射檔應該拒絕匯入', async () => {
+    const manager = new BluetoothControllerManager();
+
+    await expect(manager.importMappings('pico-1', 'not json')).rejects.toThrow('JSON 格式錯誤');
+    await expect(manager.importMappings('pico-1', '{"version":2,"mappings":{}}')).rejects.toThrow(
+      '不支援的格式'
+    );
+    await expect(
+      manager.importMappings('pico-1', '{"version":1,"mappings":{"3":"explode"}}')
+    ).rejects.toThrow('未知的動作');
+    await expect(
+      manager.importMappings('pico-1', '{"version":1,"mappings":{"3":"toString"}}')
+    ).rejects.toThrow('未知的動作');
+    expect(manager.getMappingProfiles()).toEqual([]);
+  });
+});
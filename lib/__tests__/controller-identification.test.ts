@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  controllerNameSimilarity,
+  identifyController,
+  type ControllerModel,
+} from '../controller-identification';
+import { KNOWN_CONTROLLER_MODELS } from '../bluetooth-controller';
+
+const learned: ControllerModel = {
+  id: 'learned:4660:22136',
+  name: 'BT-Remote X1',
+  vendorId: 0x1234,
+  productId: 0x5678,
+  buttons: [{ name: '確認鍵', keyCode: 66, action: 'select', description: '選擇/確認' }],
+};
+
+describe('Controller identification', () => {
+  it('廠商與產品 ID 相符時應該優先採用', () => {
+    const result = identifyController('Unnamed device', { vendorId: 0x1234, productId: 0x5678 }, [
+      learned,
+      ...KNOWN_CONTROLLER_MODELS,
+    ]);
+
+    expect(result.model?.id).toBe(learned.id);
+    expect(result.matchedBy).toBe('vendor-product');
+  });
+
+  it('只有廠商 ID 相符時應該採用該廠商的型號', () => {
+    const result = identifyController('Unnamed device', { vendorId: 0x2717, productId: 1 }, KNOWN_CONTROLLER_MODELS);
+
+    expect(result.model?.id).toBe('Xiaomi VR Remote');
+    expect(result.matchedBy).toBe('vendor');
+  });
+
+  it('名稱規則應該辨識型號變體', () => {
+    expect(identifyController('PICO G2 4K Controller', {}, KNOWN_CONTROLLER_MODELS).model?.id).toBe(
+      'Pico Controller'
+    );
+    expect(identifyController('Mi VR Remote 2', {}, KNOWN_CONTROLLER_MODELS).model?.id).toBe(
+      'Xiaomi VR Remote'
+    );
+  });
+
+  it('通用規則只在沒有更接近的型號時使用', () => {
+    const generic = identifyController('VR BOX', {}, KNOWN_CONTROLLER_MODELS);
+    expect(generic.model?.id).toBe('Generic Bluetooth Remote');
+    expect(generic.score).toBeLessThan(0.5);
+
+    // 名稱同時符合小米與通用規則
+    expect(identifyController('Xiaomi Remote', {}, KNOWN_CONTROLLER_MODELS).model?.id).toBe(
+      'Xiaomi VR Remote'
+    );
+  });
+
+  it('名稱相近的學習型號應該以模糊比對辨識', () => {
+    const result = identifyController('BT Remote X1 ', {}, [learned]);
+
+    expect(result.model?.id).toBe(learned.id);
+    expect(controllerNameSimilarity('BT-Remote X1', 'BT Remote X2')).toBeGreaterThan(0.7);
+  });
+
+  it('無法辨識時應該回傳 null', () => {
+    const result = identifyController('Keyboard K380', { vendorId: 0x046d }, KNOWN_CONTROLLER_MODELS);
+
+    expect(result.model).toBeNull();
+    expect(result.score).toBe(0);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BluetoothControllerManager,
+  type ControllerButtonAction,
+  type ControllerMappingStorage,
+} from '../bluetooth-controller';
+import { ControllerLearningSession, type LearningStep } from '../controller-learning';
+
+const STEPS: LearningStep[] = [
+  { action: 'select', name: '確認鍵' },
+  { action: 'back', name: '返回鍵' },
+  { action: 'play-pause', name: '播放/暫停鍵' },
+];
+
+function createMemoryStorage(): ControllerMappingStorage {
+  const data = new Map<string, string>();
+  return {
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+/** 等待 captureNextKey 的 Promise 處理完成 */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+async function press(manager: BluetoothControllerManager, deviceId: string, keyCode: number) {
+  manager.handleKeyEvent(deviceId, keyCode);
+  await flush();
+}
+
+describe('ControllerLearningSession', () => {
+  it('未知遙控器連接時應該無法辨識且沒有按鍵', () => {
+    const manager = new BluetoothControllerManager();
+    const identification = manager.addController('Mystery Pad', 'pad-1', undefined, { vendorId: 0x1111 });
+
+    expect(identification.model).toBeNull();
+    expect(manager.getControllerButtons('pad-1')).toEqual([]);
+  });
+
+  it('應該依序學習按鍵並略過沒有的按鍵', async () => {
+    const manager = new BluetoothControllerManager();
+    manager.addController('Mystery Pad', 'pad-1');
+    const session = new ControllerLearningSession(manager, 'pad-1', STEPS);
+    session.start();
+
+    await press(manager, 'pad-1', 66);
+    session.skip();
+    await flush();
+    await press(manager, 'pad-1', 85);
+
+    const state = session.getState();
+    expect(state.status).toBe('completed');
+    expect(state.learned.map((b) => [b.keyCode, b.action])).toEqual([
+      [66, 'select'],
+      [85, 'play-pause'],
+    ]);
+  });
+
+  it('重複的按鍵應該提示並繼續等待同一步驟', async () => {
+    const manager = new BluetoothControllerManager();
+    manager.addController('Mystery Pad', 'pad-1');
+    const session = new ControllerLearningSession(manager, 'pad-1', STEPS);
+    session.start();
+
+    await press(manager, 'pad-1', 66);
+    await press(manager, 'pad-1', 66);
+
+    const state = session.getState();
+    expect(state.stepIndex).toBe(1);
+    expect(state.error).toContain('確認鍵');
+  });
+
+  it('學習期間按鍵不應該觸發動作，取消後恢復', async () => {
+    const manager = new BluetoothControllerManager();
+    manager.addController('Pico Controller', 'pico-1');
+    const actions: ControllerButtonAction[] = [];
+    manager.subscribe((action) => actions.push(action));
+    const session = new ControllerLearningSession(manager, 'pico-1', STEPS);
+    session.start();
+
+    await press(manager, 'pico-1', 4);
+    session.cancel();
+    await flush();
+    await press(manager, 'pico-1', 4);
+
+    expect(session.getState().status).toBe('cancelled');
+    expect(actions).toEqual(['back']);
+  });
+
+  it('保存後同型號遙控器重新連接時應該自動套用', async () => {
+    const storage = createMemoryStorage();
+    const manager = new BluetoothControllerManager(storage);
+    manager.addController('Mystery Pad', 'pad-1', undefined, { vendorId: 0x1111, productId: 0x2222 });
+    const session = new ControllerLearningSession(manager, 'pad-1', STEPS.slice(0, 1));
+    session.start();
+    await press(manager, 'pad-1', 66);
+    await session.save();
+
+    const reloaded = new BluetoothControllerManager(storage);
+    await reloaded.load();
+    const identification = reloaded.addController('Pad', 'pad-2', undefined, {
+      vendorId: 0x1111,
+      productId: 0x2222,
+    });
+    const actions: ControllerButtonAction[] = [];
+    reloaded.subscribe((action) => actions.push(action));
+    reloaded.handleKeyEvent('pad-2', 66);
+
+    expect(identification.matchedBy).toBe('vendor-product');
+    expect(actions).toEqual(['select']);
+  });
+
+  it('未完成時不應該保存', async () => {
+    const manager = new BluetoothControllerManager();
+    manager.addController('Mystery Pad', 'pad-1');
+    const session = new ControllerLearningSession(manager, 'pad-1', STEPS);
+    session.start();
+
+    await expect(session.save()).rejects.toThrow('按鍵學習尚未完成');
+    session.cancel();
+  });
+});
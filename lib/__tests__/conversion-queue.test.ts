@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { ConversionQueue, type ConversionJob } from '../conversion-queue';
+import {
+  SBSTranscoder,
+  type ConversionFileSystem,
+  type ConversionStorage,
+  type SBSEncodeJob,
+  type SBSEncoder,
+} from '../sbs-transcoder';
+
+/**
+ * 可手動完成的編碼器：每個工作在呼叫 finish() 前保持執行中
+ */
+class ControlledEncoder implements SBSEncoder {
+  running = new Map<string, { resolve: () => void; reject: (err: Error) => void; progress: (p: number) => void }>();
+  started: string[] = [];
+
+  constructor(private files: Map<string, string>) {}
+
+  encode(job: SBSEncodeJob, onProgress: (progress: number) => void, signal: AbortSignal) {
+    this.started.push(job.sourceUri);
+    return new Promise<void>((resolve, reject) => {
+      const entry = {
+        resolve: () => {
+          this.files.set(job.outputUri, 'video');
+          this.running.delete(job.sourceUri);
+          resolve();
+        },
+        reject: (err: Error) => {
+          this.running.delete(job.sourceUri);
+          reject(err);
+        },
+        progress: onProgress,
+      };
+      this.running.set(job.sourceUri, entry);
+      signal.addEventListener('abort', () => entry.reject(new Error('轉換已取消')));
+    });
+  }
+
+  finish(sourceUri: string) {
+    this.running.get(sourceUri)!.resolve();
+  }
+}
+
+function createQueue(store = new Map<string, string>(), concurrency = 1) {
+  const files = new Map<string, string>();
+  const fileSystem: ConversionFileSystem = {
+    outputDirectory: 'file:///out/',
+    ensureDirectory: async () => {},
+    exists: async (uri) => files.has(uri),
+    move: async (from, to) => {
+      files.set(to, files.get(from)!);
+      files.delete(from);
+    },
+    remove: async (uri) => {
+      files.delete(uri);
+    },
+  };
+  const storage: ConversionStorage = {
+    getItem: async (key) => store.get(key) ?? null,
+    setItem: async (key, value) => {
+      store.set(key, value);
+    },
+  };
+  const encoder = new ControlledEncoder(files);
+  const queue = new ConversionQueue(new SBSTranscoder(encoder, fileSystem, storage), storage, concurrency);
+  return { queue, encoder, store };
+}
+
+const params = { pupilDistance: 65, convergenceDistance: 1000, layout: 'sbs' as const };
+const request = (name: string) => ({ sourceUri: `file:///${name}.mp4`, title: name, params });
+
+/** 等待所有排程中的非同步工作完成 */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const statusOf = (queue: ConversionQueue, title: string) =>
+  queue.getJobs().find((job) => job.title === title)?.status;
+
+describe('Conversion queue', () => {
+  it('應該依並行數依序執行工作', async () => {
+    const { queue, encoder } = createQueue(undefined, 2);
+    await queue.enqueue([request('a'), request('b'), request('c')]);
+    await flush();
+
+    expect(encoder.started).toEqual(['file:///a.mp4', 'file:///b.mp4']);
+    expect(statusOf(queue, 'c')).toBe('queued');
+
+    encoder.finish('file:///a.mp4');
+    await flush();
+
+    expect(statusOf(queue, 'a')).toBe('completed');
+    expect(encoder.started).toContain('file:///c.mp4');
+  });
+
+  it('應該透過訂閱回報每個工作的進度', async () => {
+    const { queue, encoder } = createQueue();
+    const snapshots: ConversionJob[][] = [];
+    queue.subscribe((jobs) => snapshots.push(jobs));
+
+    await queue.enqueue([request('a')]);
+    await flush();
+    encoder.running.get('file:///a.mp4')!.progress(40);
+
+    const last = snapshots[snapshots.length - 1][0];
+    expect(last.status).toBe('running');
+    expect(last.progress).toBe(40);
+  });
+
+  it('應該支援暫停與繼續', async () => {
+    const { queue, encoder } = createQueue();
+    const [job] = await queue.enqueue([request('a'), request('b')]);
+    await flush();
+
+    await queue.pause(job.id);
+    await flush();
+    expect(statusOf(queue, 'a')).toBe('paused');
+    // 暫停後由下一個工作接手
+    expect(encoder.started).toEqual(['file:///a.mp4', 'file:///b.mp4']);
+
+    encoder.finish('file:///b.mp4');
+    await queue.resume(job.id);
+    await flush();
+    expect(statusOf(queue, 'a')).toBe('running');
+
+    encoder.finish('file:///a.mp4');
+    await flush();
+    expect(statusOf(queue, 'a')).toBe('completed');
+  });
+
+  it('應該支援取消與重試', async () => {
+    const { queue, encoder } = createQueue();
+    const [job] = await queue.enqueue([request('a')]);
+    await flush();
+
+    await queue.cancel(job.id);
+    await flush();
+    expect(statusOf(queue, 'a')).toBe('cancelled');
+
+    await queue.retry(job.id);
+    await flush();
+    expect(statusOf(queue, 'a')).toBe('running');
+    encoder.finish('file:///a.mp4');
+    await flush();
+    expect(queue.getJobs()[0].outputUri).not.toBeNull();
+  });
+
+  it('編碼失敗時應該標記為失敗並繼續下一個工作', async () => {
+    const { queue, encoder } = createQueue();
+    await queue.enqueue([request('a'), request('b')]);
+    await flush();
+
+    encoder.running.get('file:///a.mp4')!.reject(new Error('不支援的編碼格式'));
+    await flush();
+
+    const failed = queue.getJobs()[0];
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toBe('不支援的編碼格式');
+    expect(statusOf(queue, 'b')).toBe('running');
+  });
+
+  it('應該保存佇列並在重新啟動後繼續未完成的工作', async () => {
+    const first = createQueue();
+    await first.queue.enqueue([request('a'), request('b')]);
+    await flush();
+
+    const restarted = createQueue(first.store);
+    await restarted.queue.load();
+    await flush();
+
+    expect(restarted.queue.getJobs().map((job) => job.title)).toEqual(['a', 'b']);
+    expect(statusOf(restarted.queue, 'a')).toBe('running');
+    expect(restarted.encoder.started).toEqual(['file:///a.mp4']);
+  });
+
+  it('不應該重複加入相同的未完成工作', async () => {
+    const { queue } = createQueue();
+    await queue.enqueue([request('a')]);
+    const added = await queue.enqueue([request('a'), request('b')]);
+
+    expect(added.map((job) => job.title)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CUBEMAP_LAYOUTS,
+  convertCubemapToEquirect,
+  convertEquirectToCubemap,
+  cubemapCoordToDirection,
+  directionToCubemapCoord,
+  directionToFaceUV,
+  faceUVToDirection,
+  type CubemapEncoding,
+} from '../cubemap-projection';
+import { GyroscopeTracker, PanoramicViewCalculator } from '../gyroscope-tracker';
+import type { PixelBuffer } from '../video-processing';
+
+function normalize([x, y, z]: [number, number, number]): [number, number, number] {
+  const length = Math.sqrt(x * x + y * y + z * z);
+  return [x / length, y / length, z / length];
+}
+
+/**
+ * 以經度產生紅色、緯度產生綠色的平滑等距柱狀影格
+ */
+function createEquirect(width: number, height: number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      data[idx] = 128 + 100 * Math.sin(((x + 0.5) / width) * 2 * Math.PI);
+      data[idx + 1] = ((y + 0.5) / height) * 255;
+      data[idx + 2] = 0;
+      data[idx + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+const DIRECTIONS: [number, number, number][] = [
+  [0, 0, -1],
+  [0.3, 0.2, -1],
+  [1, -0.4, 0.1],
+  [-0.7, 0.9, 0.2],
+  [0.1, -1, 0.5],
+  [-0.2, 0.3, 1],
+];
+
+describe('Cubemap projection', () => {
+  it('正前方應該對應到 front 面中心', () => {
+    expect(directionToFaceUV([0, 0, -1])).toEqual({ face: 'front', u: 0, v: 0 });
+    expect(directionToFaceUV([0, 1, 0]).face).toBe('top');
+    expect(directionToFaceUV([-1, 0, 0]).face).toBe('left');
+  });
+
+  it.each<CubemapEncoding>(['cubemap', 'eac'])('%s 面內座標應該可以反算回方向', (encoding) => {
+    DIRECTIONS.forEach((direction) => {
+      const { face, u, v } = directionToFaceUV(direction, encoding);
+      const result = normalize(faceUVToDirection(face, u, v, encoding));
+      const expected = normalize(direction);
+      result.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 6));
+    });
+  });
+
+  it('EAC 應該讓 45° 視角落在面內一半的位置', () => {
+    const halfAngle = Math.tan(Math.PI / 8);
+    expect(directionToFaceUV([halfAngle, 0, -1], 'eac').u).toBeCloseTo(0.5, 6);
+    expect(directionToFaceUV([halfAngle, 0, -1], 'cubemap').u).toBeCloseTo(halfAngle, 6);
+  });
+
+  it.each(Object.keys(CUBEMAP_LAYOUTS) as (keyof typeof CUBEMAP_LAYOUTS)[])(
+    '%s 排列的像素座標應該可以反算回方向',
+    (name) => {
+      const layout = CUBEMAP_LAYOUTS[name];
+      const width = layout.columns * 64;
+      const height = layout.rows * 64;
+
+      DIRECTIONS.forEach((direction) => {
+        const { x, y } = directionToCubemapCoord(direction, layout, 'eac', width, height);
+        const result = normalize(cubemapCoordToDirection(x, y, layout, 'eac', width, height)!);
+        const expected = normalize(direction);
+        result.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 6));
+      });
+    }
+  );
+
+  it('等距柱狀轉立方體再轉回應該保留畫面', () => {
+    const source = createEquirect(128, 64);
+    const cubemap = convertEquirectToCubemap(source, CUBEMAP_LAYOUTS['youtube-eac'], 'eac', 48);
+    expect(cubemap.width).toBe(144);
+    expect(cubemap.height).toBe(96);
+
+    const roundTrip = convertCubemapToEquirect(cubemap, CUBEMAP_LAYOUTS['youtube-eac'], 'eac', 128, 64);
+
+    // 避開兩極附近的列，比較平均誤差
+    let totalError = 0;
+    let count = 0;
+    for (let y = 8; y < 56; y++) {
+      for (let x = 0; x < 128; x++) {
+        const idx = (y * 128 + x) * 4;
+        totalError += Math.abs(roundTrip.data[idx] - source.data[idx]);
+        totalError += Math.abs(roundTrip.data[idx + 1] - source.data[idx + 1]);
+        count += 2;
+      }
+    }
+    expect(totalError / count).toBeLessThan(3);
+  });
+
+  it('PanoramicViewCalculator 應該依頭部姿態回傳面', () => {
+    expect(PanoramicViewCalculator.calculateCubemapFace({ pitch: 0, yaw: 0, roll: 0 })).toEqual({
+      face: 'front',
+      u: 0.5,
+      v: 0.5,
+    });
+    expect(PanoramicViewCalculator.calculateCubemapFace({ pitch: 80, yaw: 0, roll: 0 }).face).toBe('top');
+    expect(PanoramicViewCalculator.calculateCubemapFace({ pitch: 0, yaw: 180, roll: 0 }).face).toBe('back');
+  });
+
+  it('偏航 +90° 的面應該與裁剪區域平移的方向一致（向左為正）', () => {
+    const tracker = new GyroscopeTracker();
+    for (const [yaw, face] of [
+      [90, 'left'],
+      [-90, 'right'],
+    ] as const) {
+      tracker.reset();
+      tracker.rotateBy(yaw, 0);
+      const crop = PanoramicViewCalculator.calculateCropRegion(
+        400,
+        200,
+        tracker.calculateViewportTransform(90, 60)
+      );
+      const cropSide = crop.x + crop.width / 2 < 200 ? 'left' : 'right';
+
+      expect(PanoramicViewCalculator.calculateCubemapFace(tracker.getEulerAngles()).face).toBe(face);
+      expect(cropSide).toBe(face);
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+
+type DimensionListener = (event: { window: { width: number; height: number } }) => void;
+
+const dimensionListeners = vi.hoisted(() => [] as DimensionListener[]);
+
+vi.mock('react-native', () => ({
+  Dimensions: {
+    get: () => ({ width: 412, height: 915 }),
+    addEventListener: (_type: string, listener: DimensionListener) => {
+      dimensionListeners.push(listener);
+      return { remove: () => dimensionListeners.splice(dimensionListeners.indexOf(listener), 1) };
+    },
+  },
+  PixelRatio: { get: () => 2.625 },
+  Platform: { OS: 'android', isTV: false },
+}));
+
+import { classifyDeviceMode, deviceModeManager } from '../device-mode';
+
+const android = { platform: 'android', pixelRatio: 3, isTV: false };
+
+describe('Device mode', () => {
+  it('大螢幕手機不應該被判斷為平板', () => {
+    // 6.7 吋手機
+    expect(classifyDeviceMode({ ...android, width: 412, height: 915 })).toBe('phone');
+    expect(classifyDeviceMode({ ...android, width: 915, height: 412 })).toBe('phone');
+  });
+
+  it('最短邊達 600dp 應該判斷為平板', () => {
+    expect(classifyDeviceMode({ ...android, width: 800, height: 1280 })).toBe('tablet');
+    expect(classifyDeviceMode({ platform: 'ios', pixelRatio: 2, isTV: false, width: 744, height: 1133 })).toBe('tablet');
+  });
+
+  it('系統標記為電視時應該判斷為電視', () => {
+    expect(classifyDeviceMode({ ...android, pixelRatio: 2, isTV: true, width: 960, height: 540 })).toBe('tv');
+  });
+
+  it('使用者指定的類型應該優先於偵測結果', () => {
+    const listener = vi.fn();
+    const unsubscribe = deviceModeManager.subscribe(listener);
+
+    expect(deviceModeManager.getMode()).toBe('phone');
+    deviceModeManager.setOverride('tv');
+    expect(deviceModeManager.getMode()).toBe('tv');
+    expect(deviceModeManager.isTV()).toBe(true);
+    deviceModeManager.setOverride(null);
+    expect(deviceModeManager.getMode()).toBe('phone');
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+  });
+
+  it('螢幕尺寸變化時應該重新偵測並通知監聽器', () => {
+    const listener = vi.fn();
+    const unsubscribe = deviceModeManager.subscribe(listener);
+
+    // 旋轉：類型不變但仍通知
+    dimensionListeners.forEach((l) => l({ window: { width: 915, height: 412 } }));
+    expect(listener).toHaveBeenLastCalledWith('phone');
+    expect(deviceModeManager.getScreenDimensions().isLandscape).toBe(true);
+
+    // 摺疊螢幕展開
+    dimensionListeners.forEach((l) => l({ window: { width: 884, height: 1104 } }));
+    expect(listener).toHaveBeenLastCalledWith('tablet');
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyReprojectionLUT,
+  createReprojectionLUT,
+  directionToEquirect,
+  equirectToDirection,
+  getViewCenterUV,
+  isReprojectionLUTCurrent,
+  renderPerspectiveView,
+} from '../equirect-reprojection';
+import { GyroscopeTracker, PanoramicViewCalculator } from '../gyroscope-tracker';
+import type { PixelBuffer } from '../video-processing';
+
+const SOURCE_WIDTH = 240;
+const SOURCE_HEIGHT = 120;
+
+/**
+ * 紅色為所在欄、藍色為所在列的等距柱狀影格，可還原取樣到的來源座標
+ */
+function createLongitudeFrame(): PixelBuffer {
+  const data = new Uint8ClampedArray(SOURCE_WIDTH * SOURCE_HEIGHT * 4);
+  for (let y = 0; y < SOURCE_HEIGHT; y++) {
+    for (let x = 0; x < SOURCE_WIDTH; x++) {
+      const idx = (y * SOURCE_WIDTH + x) * 4;
+      data[idx] = x;
+      data[idx + 2] = y;
+      data[idx + 3] = 255;
+    }
+  }
+  return { data, width: SOURCE_WIDTH, height: SOURCE_HEIGHT };
+}
+
+/**
+ * 以指定姿態取得視口轉換
+ */
+function viewTransform(yaw: number, pitch: number = 0) {
+  const tracker = new GyroscopeTracker();
+  tracker.rotateBy(yaw, pitch);
+  return tracker.calculateViewportTransform(90, 90);
+}
+
+/**
+ * 透視視圖中心像素取樣到的來源欄與列
+ */
+function sampledCenter(view: PixelBuffer): { x: number; y: number } {
+  const idx = (Math.floor(view.height / 2) * view.width + Math.floor(view.width / 2)) * 4;
+  return { x: view.data[idx], y: view.data[idx + 2] };
+}
+
+describe('equirect-reprojection', () => {
+  it('像素座標與視線方向互轉應該還原', () => {
+    for (const [x, y] of [
+      [0, 0],
+      [119.5, 59.5],
+      [42, 17],
+      [200.25, 100.75],
+      [239, 119],
+    ]) {
+      const direction = equirectToDirection(x, y, SOURCE_WIDTH, SOURCE_HEIGHT);
+      const result = directionToEquirect(direction, SOURCE_WIDTH, SOURCE_HEIGHT);
+      expect(result.x).toBeCloseTo(x, 6);
+      expect(result.y).toBeCloseTo(y, 6);
+    }
+  });
+
+  it('視線方向與像素座標互轉應該還原（不需正規化）', () => {
+    for (const direction of [
+      [0, 0, -1],
+      [1, 0, 0],
+      [-2, 1, 0.5],
+      [0.3, -0.4, 2],
+    ] as [number, number, number][]) {
+      const length = Math.hypot(...direction);
+      const { x, y } = directionToEquirect(direction, SOURCE_WIDTH, SOURCE_HEIGHT);
+      const result = equirectToDirection(x, y, SOURCE_WIDTH, SOURCE_HEIGHT);
+      result.forEach((value, i) => expect(value).toBeCloseTo(direction[i] / length, 6));
+    }
+  });
+
+  it('正前方與 ±90° 偏航應該取樣到對應的經度（向左為正）', () => {
+    const source = createLongitudeFrame();
+
+    // 像素中心落在兩欄之間，插值後四捨五入
+    const forward = sampledCenter(renderPerspectiveView(source, viewTransform(0), 9, 9));
+    expect(Math.abs(forward.x - 119.5)).toBeLessThanOrEqual(0.5);
+    expect(Math.abs(forward.y - 59.5)).toBeLessThanOrEqual(0.5);
+
+    // 向左轉 90° 看向經度 -90°，位於影格左側四分之一處
+    const left = sampledCenter(renderPerspectiveView(source, viewTransform(90), 9, 9));
+    expect(Math.abs(left.x - 59.5)).toBeLessThanOrEqual(0.5);
+
+    const right = sampledCenter(renderPerspectiveView(source, viewTransform(-90), 9, 9));
+    expect(Math.abs(right.x - 179.5)).toBeLessThanOrEqual(0.5);
+
+    // 抬頭時取樣影格上方
+    const up = sampledCenter(renderPerspectiveView(source, viewTransform(0, 30), 9, 9));
+    expect(Math.abs(up.y - 39.5)).toBeLessThanOrEqual(0.5);
+  });
+
+  it('偏航方向應該與裁剪區域及視線中心一致', () => {
+    for (const yaw of [90, -90, 45]) {
+      const transform = viewTransform(yaw);
+      const crop = PanoramicViewCalculator.calculateCropRegion(SOURCE_WIDTH, SOURCE_HEIGHT, transform);
+      const center = getViewCenterUV(transform);
+      const { x } = directionToEquirect(
+        [-Math.sin((yaw * Math.PI) / 180), 0, -Math.cos((yaw * Math.PI) / 180)],
+        SOURCE_WIDTH,
+        SOURCE_HEIGHT
+      );
+
+      expect(crop.x + crop.width / 2).toBeCloseTo(x + 0.5, 0);
+      expect(center.u * SOURCE_WIDTH).toBeCloseTo(x + 0.5, 3);
+      expect(center.v).toBeCloseTo(0.5, 6);
+    }
+  });
+
+  it('VR180 的視線中心應該依涵蓋角度換算並夾在邊緣', () => {
+    expect(getViewCenterUV(viewTransform(45), 180).u).toBeCloseTo(0.25, 6);
+    expect(getViewCenterUV(viewTransform(-135), 180).u).toBe(1);
+  });
+
+  it('查找表重投影應該與直接重投影相同，且可用於不同解析度的影格', () => {
+    const source = createLongitudeFrame();
+
+    for (const [yaw, pitch] of [
+      [0, 0],
+      [90, 0],
+      [-150, 20],
+      [170, -40],
+    ]) {
+      const transform = viewTransform(yaw, pitch);
+      const lut = createReprojectionLUT(transform, 16, 12);
+      const expected = renderPerspectiveView(source, transform, 16, 12);
+      const actual = applyReprojectionLUT(source, lut);
+
+      let maxError = 0;
+      for (let i = 0; i < expected.data.length; i++) {
+        maxError = Math.max(maxError, Math.abs(actual.data[i] - expected.data[i]));
+      }
+      // 查找表以 Float32 儲存座標，接縫附近可能差一個色階
+      expect(maxError).toBeLessThanOrEqual(1);
+    }
+
+    const small: PixelBuffer = { data: new Uint8ClampedArray(8 * 4 * 4).fill(200), width: 8, height: 4 };
+    const view = applyReprojectionLUT(small, createReprojectionLUT(viewTransform(30), 4, 4));
+    expect(view.data.every((value) => value === 200)).toBe(true);
+  });
+
+  it('姿態或視角改變時查找表應該需要重建', () => {
+    const tracker = new GyroscopeTracker();
+    const lut = createReprojectionLUT(tracker.calculateViewportTransform(90, 90), 4, 4);
+
+    expect(isReprojectionLUTCurrent(lut, tracker.calculateViewportTransform(90, 90))).toBe(true);
+    expect(isReprojectionLUTCurrent(lut, tracker.calculateViewportTransform(100, 90))).toBe(false);
+
+    tracker.rotateBy(5, 0);
+    expect(isReprojectionLUTCurrent(lut, tracker.calculateViewportTransform(90, 90))).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FocusGraph, buildLeanbackFocusNodes } from '../focus-graph';
+
+const sidebar = ['home', 'library', 'settings'];
+const rows = [
+  { id: 'recent', itemIds: ['r1', 'r2', 'r3'] },
+  { id: 'empty', itemIds: [] },
+  { id: '3d', itemIds: ['d1', 'd2'] },
+];
+
+function createGraph() {
+  const graph = new FocusGraph();
+  graph.setNodes(buildLeanbackFocusNodes(sidebar, rows));
+  return graph;
+}
+
+describe('Focus graph', () => {
+  it('應該從第一個節點開始並在側邊欄上下移動', () => {
+    const graph = createGraph();
+
+    expect(graph.getFocused()).toBe('home');
+    expect(graph.move('down')).toBe('library');
+    expect(graph.move('up')).toBe('home');
+    expect(graph.move('up')).toBeNull();
+    expect(graph.getFocused()).toBe('home');
+  });
+
+  it('應該在列內左右移動並由最左邊回到側邊欄', () => {
+    const graph = createGraph();
+    graph.focus('library');
+
+    expect(graph.move('right')).toBe('r1');
+    expect(graph.move('right')).toBe('r2');
+    expect(graph.move('left')).toBe('r1');
+    expect(graph.move('left')).toBe('library');
+  });
+
+  it('上下移動應該略過空的列並回到該列最後聚焦的項目', () => {
+    const graph = createGraph();
+    graph.focus('d2');
+    graph.focus('r3');
+
+    expect(graph.move('down')).toBe('d2');
+    expect(graph.move('down')).toBeNull();
+    expect(graph.move('up')).toBe('r3');
+  });
+
+  it('從側邊欄向右應該回到內容區最後聚焦的項目', () => {
+    const graph = createGraph();
+    graph.focus('d1');
+    graph.move('left');
+
+    expect(graph.getFocused()).toBe('home');
+    graph.move('down');
+    expect(graph.move('right')).toBe('d1');
+  });
+
+  it('節點尚未載入時應該在之後還原焦點', () => {
+    const graph = createGraph();
+    graph.focus('d2');
+    const snapshot = graph.snapshot();
+
+    // 返回畫面時資料仍在載入
+    const restored = new FocusGraph();
+    restored.setNodes(buildLeanbackFocusNodes(sidebar, []));
+    restored.restore(snapshot);
+    expect(restored.getFocused()).toBe('home');
+
+    restored.setNodes(buildLeanbackFocusNodes(sidebar, rows));
+    expect(restored.getFocused()).toBe('d2');
+    expect(restored.move('up')).toBe('r1');
+  });
+
+  it('資料重新載入時應該保持原本的焦點', () => {
+    const graph = createGraph();
+    graph.focus('r2');
+    graph.setNodes(buildLeanbackFocusNodes(sidebar, []));
+    expect(graph.getFocused()).toBe('home');
+
+    graph.setNodes(buildLeanbackFocusNodes(sidebar, rows));
+    expect(graph.getFocused()).toBe('r2');
+  });
+
+  it('使用者移動後不應該再還原舊的焦點', () => {
+    const graph = createGraph();
+    graph.focus('r2');
+    graph.setNodes(buildLeanbackFocusNodes(sidebar, []));
+    graph.move('down');
+
+    graph.setNodes(buildLeanbackFocusNodes(sidebar, rows));
+    expect(graph.getFocused()).toBe('library');
+  });
+
+  it('應該通知焦點變化', () => {
+    const graph = createGraph();
+    const listener = vi.fn();
+    const unsubscribe = graph.subscribe(listener);
+
+    graph.move('down');
+    graph.move('right');
+    unsubscribe();
+    graph.move('right');
+
+    expect(listener.mock.calls).toEqual([['library'], ['r1']]);
+  });
+});
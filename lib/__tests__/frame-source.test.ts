@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { Y4MFrameSource, parseFrameRate, frameIndexToTimestamp } from '../frame-source';
+
+/**
+ * 在記憶體中產生 y4m 影片（等同 ffmpeg -pix_fmt yuv420p -f yuv4mpegpipe 的輸出）
+ */
+function createY4M(width: number, height: number, frameRate: string, lumaValues: number[]): Uint8Array {
+  const header = `YUV4MPEG2 W${width} H${height} F${frameRate} Ip A1:1 C420jpeg\n`;
+  const lumaSize = width * height;
+  const chromaSize = Math.ceil(width / 2) * Math.ceil(height / 2);
+  const frameHeader = 'FRAME\n';
+
+  const chunks: number[] = Array.from(header, (c) => c.charCodeAt(0));
+  lumaValues.forEach((luma) => {
+    chunks.push(...Array.from(frameHeader, (c) => c.charCodeAt(0)));
+    for (let i = 0; i < lumaSize; i++) chunks.push(luma);
+    for (let i = 0; i < chromaSize * 2; i++) chunks.push(128);
+  });
+  return new Uint8Array(chunks);
+}
+
+function createSource(files: Record<string, Uint8Array>) {
+  return new Y4MFrameSource(async (uri) => {
+    if (!files[uri]) throw new Error(`找不到檔案 ${uri}`);
+    return files[uri];
+  });
+}
+
+describe('Frame source', () => {
+  it('應該解析各種幀率格式', () => {
+    expect(parseFrameRate('25:1')).toBe(25);
+    expect(parseFrameRate('30000:1001')).toBeCloseTo(29.97, 2);
+    expect(parseFrameRate('24')).toBe(24);
+    expect(() => parseFrameRate('abc')).toThrow();
+  });
+
+  it('應該從容器標頭讀取串流資訊', async () => {
+    const source = createSource({ 'clip.y4m': createY4M(4, 2, '25:1', [16, 126, 235]) });
+    const info = await source.open('clip.y4m');
+
+    expect(info).toEqual({ width: 4, height: 2, frameRate: 25, frameCount: 3, duration: 0.12 });
+  });
+
+  it('應該依容器幀率計算時間戳', async () => {
+    const source = createSource({ 'ntsc.y4m': createY4M(2, 2, '30000:1001', [16, 16, 16]) });
+    const frame = await source.readFrame('ntsc.y4m', 2, { width: 2, height: 2, format: 'rgba' });
+
+    expect(frame.timestamp).toBeCloseTo(frameIndexToTimestamp(2, 30000 / 1001), 6);
+    expect(frame.timestamp).toBeCloseTo(66.733, 2);
+  });
+
+  it('應該解出真實的 RGBA 像素', async () => {
+    const source = createSource({ 'clip.y4m': createY4M(4, 2, '25:1', [16, 126, 235]) });
+
+    const black = await source.readFrame('clip.y4m', 0, { width: 4, height: 2, format: 'rgba' });
+    const white = await source.readFrame('clip.y4m', 2, { width: 4, height: 2, format: 'rgba' });
+
+    expect(black.data).toHaveLength(4 * 2 * 4);
+    expect(Array.from(black.data.subarray(0, 4))).toEqual([0, 0, 0, 255]);
+    expect(Array.from(white.data.subarray(0, 4))).toEqual([255, 255, 255, 255]);
+  });
+
+  it('應該輸出 I420 與 NV12 平面', async () => {
+    const source = createSource({ 'clip.y4m': createY4M(4, 2, '25:1', [100]) });
+    const i420 = await source.readFrame('clip.y4m', 0, { width: 4, height: 2, format: 'i420' });
+    const nv12 = await source.readFrame('clip.y4m', 0, { width: 4, height: 2, format: 'nv12' });
+
+    expect(i420.data).toHaveLength(4 * 2 + 2 * 2);
+    expect(Array.from(i420.data)).toEqual([100, 100, 100, 100, 100, 100, 100, 100, 128, 128, 128, 128]);
+    expect(nv12.format).toBe('nv12');
+    expect(i420.colorSpace).toEqual({ matrix: 'bt601', range: 'limited' });
+  });
+
+  it('應該縮放到要求的尺寸', async () => {
+    const source = createSource({ 'clip.y4m': createY4M(4, 4, '25:1', [235]) });
+    const frame = await source.readFrame('clip.y4m', 0, { width: 2, height: 2, format: 'rgba' });
+
+    expect(frame.width).toBe(2);
+    expect(frame.data).toHaveLength(2 * 2 * 4);
+  });
+
+  it('應該拒絕超出範圍的幀與無效的檔案', async () => {
+    const source = createSource({
+      'clip.y4m': createY4M(2, 2, '25:1', [16]),
+      'bad.y4m': new Uint8Array([0x41, 0x42, 0x0a]),
+    });
+
+    await expect(source.readFrame('clip.y4m', 5, { width: 2, height: 2, format: 'rgba' })).rejects.toThrow();
+    await expect(source.open('bad.y4m')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GyroscopeTracker,
+  OrientationFilter,
+  eulerAnglesToQuaternion,
+  quaternionToEulerAngles,
+  type AccelerometerData,
+  type GyroscopeData,
+} from '../gyroscope-tracker';
+
+const SAMPLE_INTERVAL = 10; // 100Hz
+
+/**
+ * 產生固定角速度的陀螺儀軌跡
+ */
+function gyroTrace(rate: [number, number, number], seconds: number): GyroscopeData[] {
+  const count = Math.round((seconds * 1000) / SAMPLE_INTERVAL);
+  return Array.from({ length: count + 1 }, (_, i) => ({
+    x: rate[0],
+    y: rate[1],
+    z: rate[2],
+    timestamp: i * SAMPLE_INTERVAL,
+  }));
+}
+
+function accelSample(x: number, y: number, z: number, timestamp: number): AccelerometerData {
+  return { x, y, z, timestamp };
+}
+
+describe('Orientation fusion', () => {
+  it('歐拉角與四元數應該可以互相轉換', () => {
+    const angles = { pitch: 25, yaw: -120, roll: 10 };
+    const result = quaternionToEulerAngles(eulerAnglesToQuaternion(angles));
+
+    expect(result.pitch).toBeCloseTo(25, 6);
+    expect(result.yaw).toBeCloseTo(-120, 6);
+    expect(result.roll).toBeCloseTo(10, 6);
+  });
+
+  it('應該依時間戳積分角速度', () => {
+    const filter = new OrientationFilter();
+    gyroTrace([0, Math.PI / 2, 0], 1).forEach((sample) => filter.update(sample));
+
+    const angles = quaternionToEulerAngles(filter.getQuaternion());
+    expect(angles.yaw).toBeCloseTo(90, 3);
+    expect(angles.pitch).toBeCloseTo(0, 3);
+  });
+
+  it('應該忽略時間間隔過長的樣本', () => {
+    const filter = new OrientationFilter();
+    filter.update({ x: 0, y: 1, z: 0, timestamp: 0 });
+    filter.update({ x: 0, y: 1, z: 0, timestamp: 5000 });
+
+    expect(quaternionToEulerAngles(filter.getQuaternion()).yaw).toBeCloseTo(0, 6);
+  });
+
+  it('應該以加速度計抵消陀螺儀零偏造成的俯仰漂移', () => {
+    const bias = 0.02; // 約 1.15°/s
+    const trace = gyroTrace([bias, 0, 0], 60);
+
+    const gyroOnly = new OrientationFilter();
+    const fused = new OrientationFilter();
+    trace.forEach((sample) => {
+      gyroOnly.update(sample);
+      fused.update(sample, accelSample(0, 9.81, 0, sample.timestamp));
+    });
+
+    expect(Math.abs(quaternionToEulerAngles(gyroOnly.getQuaternion()).pitch)).toBeGreaterThan(60);
+    expect(Math.abs(quaternionToEulerAngles(fused.getQuaternion()).pitch)).toBeLessThan(1);
+    expect(fused.getGyroBias()[0]).toBeCloseTo(-bias, 2);
+  });
+
+  it('應該收斂到加速度計指示的傾斜角度', () => {
+    const tilt = (30 * Math.PI) / 180;
+    const filter = new OrientationFilter();
+    gyroTrace([0, 0, 0], 10).forEach((sample) =>
+      filter.update(sample, accelSample(0, Math.cos(tilt), -Math.sin(tilt), sample.timestamp))
+    );
+
+    expect(quaternionToEulerAngles(filter.getQuaternion()).pitch).toBeCloseTo(30, 0);
+  });
+});
+
+describe('GyroscopeTracker', () => {
+  it('未啟用時不應該更新方向', () => {
+    const tracker = new GyroscopeTracker();
+    gyroTrace([0, 1, 0], 0.5).forEach((sample) => tracker.updateGyroscopeData(sample));
+
+    expect(tracker.getEulerAngles().yaw).toBe(0);
+  });
+
+  it('應該同時提供四元數與歐拉角給監聽器', () => {
+    const tracker = new GyroscopeTracker();
+    tracker.setSmoothingFactor(0);
+    tracker.enable();
+
+    let received: { yaw: number; w: number } | null = null;
+    tracker.subscribe((angles, quaternion) => {
+      received = { yaw: angles.yaw, w: quaternion.w };
+    });
+
+    gyroTrace([0, -Math.PI / 4, 0], 1).forEach((sample) => tracker.updateGyroscopeData(sample));
+
+    expect(tracker.getEulerAngles().yaw).toBeCloseTo(-45, 3);
+    expect(tracker.getQuaternion().w).toBeCloseTo(Math.cos(Math.PI / 8), 5);
+    expect(received).not.toBeNull();
+    expect(received!.yaw).toBeCloseTo(-45, 3);
+  });
+
+  it('應該在偏航越過 180° 時正確環繞', () => {
+    const tracker = new GyroscopeTracker();
+    tracker.setSmoothingFactor(0);
+    tracker.enable();
+    gyroTrace([0, Math.PI, 0], 1.25).forEach((sample) => tracker.updateGyroscopeData(sample));
+
+    // 225° 應該表示為 -135°
+    expect(tracker.getEulerAngles().yaw).toBeCloseTo(-135, 2);
+  });
+
+  it('未啟用陀螺儀時仍可手動旋轉視角', () => {
+    const tracker = new GyroscopeTracker();
+    const received: number[] = [];
+    tracker.subscribe((angles) => received.push(angles.yaw));
+
+    tracker.rotateBy(30, 10);
+    tracker.rotateBy(15, 0);
+
+    expect(tracker.getEulerAngles().yaw).toBeCloseTo(45, 5);
+    expect(tracker.getEulerAngles().pitch).toBeCloseTo(10, 5);
+    expect(received).toHaveLength(2);
+  });
+
+  it('手動旋轉應該疊加在感測器方向上，重新置中時回到正前方', () => {
+    const tracker = new GyroscopeTracker();
+    tracker.setSmoothingFactor(0);
+    tracker.enable();
+    tracker.rotateBy(20, 0);
+    gyroTrace([0, Math.PI / 4, 0], 1).forEach((sample) => tracker.updateGyroscopeData(sample));
+
+    expect(tracker.getEulerAngles().yaw).toBeCloseTo(65, 2);
+
+    tracker.recenter();
+    expect(tracker.getEulerAngles().yaw).toBeCloseTo(0, 2);
+  });
+
+  it('手動俯仰應該限制在範圍內', () => {
+    const tracker = new GyroscopeTracker();
+    tracker.rotateBy(0, 200);
+
+    expect(tracker.getEulerAngles().pitch).toBeCloseTo(85, 5);
+  });
+});
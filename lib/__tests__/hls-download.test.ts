@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { HlsDownloader, getHlsDownloadId } from '../hls-download';
+import type { DownloadFileSystem, DownloadStorage } from '../telegram-download';
+import { parseHlsMasterPlaylist, parseHlsMediaPlaylist } from '../stream-manifest';
+
+const DIRECTORY = 'file:///docs/streams/movie/';
+
+function createMemoryFileSystem() {
+  const files = new Map<string, Uint8Array>();
+  const fileSystem: DownloadFileSystem = {
+    getSize: async (uri) => files.get(uri)?.length ?? null,
+    append: async (uri, bytes) => {
+      const current = files.get(uri) ?? new Uint8Array(0);
+      const next = new Uint8Array(current.length + bytes.length);
+      next.set(current);
+      next.set(bytes, current.length);
+      files.set(uri, next);
+    },
+    ensureDirectory: async () => {},
+    move: async (from, to) => {
+      files.set(to, files.get(from)!);
+      files.delete(from);
+    },
+    remove: async (uri) => {
+      Array.from(files.keys())
+        .filter((key) => key === uri || (uri.endsWith('/') && key.startsWith(uri)))
+        .forEach((key) => files.delete(key));
+    },
+  };
+  const readText = (uri: string) => new TextDecoder().decode(files.get(uri));
+  return { files, fileSystem, readText };
+}
+
+function createMemoryStorage(): DownloadStorage {
+  const data = new Map<string, string>();
+  return {
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+/**
+ * 提供固定內容的 HTTP 伺服器（支援 Range），記錄請求的路徑
+ */
+async function startFileServer(contents: Record<string, Uint8Array>) {
+  const requests: string[] = [];
+  const server: Server = createServer((req, res) => {
+    const path = req.url ?? '';
+    requests.push(path);
+    const body = contents[path];
+    if (!body) {
+      res.writeHead(404).end();
+      return;
+    }
+    const range = req.headers.range?.match(/^bytes=(\d+)-(\d+)$/);
+    if (range) {
+      const start = Number(range[1]);
+      const end = Number(range[2]);
+      res.writeHead(206, { 'Content-Range': `bytes ${start}-${end}/${body.length}` });
+      res.end(Buffer.from(body.subarray(start, end + 1)));
+      return;
+    }
+    res.writeHead(200).end(Buffer.from(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : 0;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+const MASTER = `#EXTM3U
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="English",LANGUAGE="en",DEFAULT=YES,AUTOSELECT=YES,URI="audio/index.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=6000000,RESOLUTION=1920x960,CODECS="avc1.640028",AUDIO="aud"
+1080p/index.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=20000000,RESOLUTION=3840x1920,CODECS="hvc1.2.4.L153",AUDIO="aud",REQ-VIDEO-LAYOUT="CH-MONO/PROJ-EQUI"
+4k/index.m3u8
+`;
+
+const VIDEO_PLAYLIST = `#EXTM3U
+#EXT-X-VERSION:7
+#EXT-X-TARGETDURATION:4
+#EXT-X-MAP:URI="init.mp4"
+#EXTINF:4.0,
+seg1.m4s
+#EXTINF:4.0,
+seg2.m4s
+#EXTINF:2.0,
+seg3.m4s
+#EXT-X-ENDLIST
+`;
+
+const AUDIO_PLAYLIST = `#EXTM3U
+#EXT-X-TARGETDURATION:10
+#EXTINF:10.0,
+audio.aac
+#EXT-X-ENDLIST
+`;
+
+describe('HlsDownloader', () => {
+  let server: Awaited<ReturnType<typeof startFileServer>>;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server = await startFileServer({
+      '/movie/master.m3u8': text(MASTER),
+      '/movie/1080p/index.m3u8': text(VIDEO_PLAYLIST),
+      '/movie/1080p/init.mp4': text('INIT'),
+      '/movie/1080p/seg1.m4s': text('AAAA'),
+      '/movie/1080p/seg2.m4s': text('BBBB'),
+      '/movie/1080p/seg3.m4s': text('CC'),
+      '/movie/4k/index.m3u8': text(VIDEO_PLAYLIST.replace('#EXT-X-ENDLIST\n', '')),
+      '/movie/audio/index.m3u8': text(AUDIO_PLAYLIST),
+      '/movie/audio/audio.aac': text('SOUND'),
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it('下載選定畫質與預設音軌，產生指向本地檔案的播放清單', async () => {
+    const { files, fileSystem, readText } = createMemoryFileSystem();
+    const downloader = new HlsDownloader(fileSystem, createMemoryStorage());
+    const url = `${server.url}/movie/master.m3u8`;
+
+    const record = await downloader.download({ url, title: '深海', directory: DIRECTORY, quality: '1080p' });
+
+    expect(record).toMatchObject({
+      id: getHlsDownloadId(url),
+      status: 'completed',
+      playlistPath: `${DIRECTORY}index.m3u8`,
+      totalFiles: 5,
+      downloadedFiles: 5,
+      downloadedBytes: 19,
+      duration: 10,
+    });
+    expect(new TextDecoder().decode(files.get(`${DIRECTORY}video/seg_1.m4s`))).toBe('BBBB');
+
+    const master = parseHlsMasterPlaylist(readText(record.playlistPath), record.playlistPath);
+    expect(master.variants.map((v) => [v.uri, v.width])).toEqual([[`${DIRECTORY}video/index.m3u8`, 1920]]);
+    expect(master.renditions.map((r) => r.uri)).toEqual([`${DIRECTORY}audio/index.m3u8`]);
+
+    const video = parseHlsMediaPlaylist(readText(`${DIRECTORY}video/index.m3u8`), `${DIRECTORY}video/index.m3u8`);
+    expect(video.endList).toBe(true);
+    expect(video.segments.map((s) => s.uri)).toEqual([
+      `${DIRECTORY}video/seg_0.m4s`,
+      `${DIRECTORY}video/seg_1.m4s`,
+      `${DIRECTORY}video/seg_2.m4s`,
+    ]);
+    expect(video.segments[0].map?.uri).toBe(`${DIRECTORY}video/init_0.mp4`);
+    expect(Array.from(files.keys()).some((key) => key.endsWith('.part'))).toBe(false);
+
+    // 已完成的下載不再請求
+    server.requests.length = 0;
+    await downloader.download({ url, title: '深海', directory: DIRECTORY, quality: '1080p' });
+    expect(server.requests).toEqual([]);
+  });
+
+  it('暫停後從缺少的檔案繼續', async () => {
+    const { fileSystem } = createMemoryFileSystem();
+    const storage = createMemoryStorage();
+    const url = `${server.url}/movie/master.m3u8`;
+    const controller = new AbortController();
+
+    const first = new HlsDownloader(fileSystem, storage);
+    await expect(
+      first.download(
+        { url, title: '深海', directory: DIRECTORY, quality: '1080p' },
+        {
+          signal: controller.signal,
+          onProgress: (record) => {
+            if (record.downloadedFiles === 2) controller.abort();
+          },
+        }
+      )
+    ).rejects.toThrow('下載已暫停');
+    expect(first.getDownload(getHlsDownloadId(url))?.status).toBe('paused');
+
+    // App 重新啟動
+    server.requests.length = 0;
+    const second = new HlsDownloader(fileSystem, storage);
+    await second.load();
+    expect(second.getDownload(getHlsDownloadId(url))).toMatchObject({ status: 'paused', downloadedFiles: 2 });
+
+    const record = await second.download({ url, title: '深海', directory: DIRECTORY, quality: '1080p' });
+    expect(record.status).toBe('completed');
+    expect(server.requests.filter((path) => !path.endsWith('.m3u8'))).toEqual([
+      '/movie/1080p/seg2.m4s',
+      '/movie/1080p/seg3.m4s',
+      '/movie/audio/audio.aac',
+    ]);
+  });
+
+  it('直播與 DRM 保護的串流無法下載', async () => {
+    const { fileSystem } = createMemoryFileSystem();
+    const downloader = new HlsDownloader(fileSystem, createMemoryStorage());
+    const url = `${server.url}/movie/master.m3u8`;
+
+    await expect(
+      downloader.download({ url, title: '直播', directory: DIRECTORY, quality: '4k' })
+    ).rejects.toThrow('直播串流無法離線下載');
+    expect(downloader.getDownload(getHlsDownloadId(url))).toMatchObject({ status: 'failed' });
+
+    const drmServer = await startFileServer({
+      '/drm.m3u8': text(
+        '#EXTM3U\n#EXT-X-TARGETDURATION:4\n#EXT-X-KEY:METHOD=SAMPLE-AES,URI="skd://key",KEYFORMAT="com.apple.streamingkeydelivery"\n#EXTINF:4,\na.ts\n#EXT-X-ENDLIST\n'
+      ),
+    });
+    try {
+      await expect(
+        downloader.download({ url: `${drmServer.url}/drm.m3u8`, title: 'DRM', directory: DIRECTORY, quality: 'auto' })
+      ).rejects.toThrow('DRM');
+    } finally {
+      await drmServer.close();
+    }
+  });
+
+  it('下載 AES-128 金鑰並依位元組範圍拆分區段', async () => {
+    const rangeServer = await startFileServer({
+      '/v/index.m3u8': text(
+        '#EXTM3U\n#EXT-X-TARGETDURATION:4\n#EXT-X-MEDIA-SEQUENCE:7\n#EXT-X-KEY:METHOD=AES-128,URI="key.bin"\n#EXTINF:4,\n#EXT-X-BYTERANGE:3@0\nall.ts\n#EXTINF:4,\n#EXT-X-BYTERANGE:4\nall.ts\n#EXT-X-ENDLIST\n'
+      ),
+      '/v/key.bin': text('0123456789abcdef'),
+      '/v/all.ts': text('xyz1234'),
+    });
+    try {
+      const { files, fileSystem, readText } = createMemoryFileSystem();
+      const downloader = new HlsDownloader(fileSystem, createMemoryStorage());
+      const record = await downloader.download({
+        url: `${rangeServer.url}/v/index.m3u8`,
+        title: '加密',
+        directory: DIRECTORY,
+        quality: 'auto',
+        layout: { stereo: 'sbs', projection: 'equirect-180' },
+      });
+
+      expect(record.layout).toEqual({ stereo: 'sbs', projection: 'equirect-180' });
+      expect(new TextDecoder().decode(files.get(`${DIRECTORY}video/seg_0.ts`))).toBe('xyz');
+      expect(new TextDecoder().decode(files.get(`${DIRECTORY}video/seg_1.ts`))).toBe('1234');
+      expect(new TextDecoder().decode(files.get(`${DIRECTORY}video/key_0.key`))).toBe('0123456789abcdef');
+
+      const playlist = readText(`${DIRECTORY}video/index.m3u8`);
+      expect(playlist).toContain('#EXT-X-MEDIA-SEQUENCE:7');
+      expect(playlist).toContain('#EXT-X-KEY:METHOD=AES-128,URI="key_0.key"');
+      expect(playlist).not.toContain('BYTERANGE');
+    } finally {
+      await rangeServer.close();
+    }
+  });
+});
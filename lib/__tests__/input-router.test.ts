@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  InputRouter,
+  buttonFromKey,
+  buttonFromKeyCode,
+  buttonFromTVEvent,
+  type InputActionEvent,
+} from '../input-router';
+
+function createRouter() {
+  const router = new InputRouter();
+  const events: InputActionEvent[] = [];
+  router.subscribe((event) => events.push(event));
+  const actions = () => events.map((event) => event.action);
+  return { router, events, actions };
+}
+
+describe('Input router', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('應該將各種來源轉為相同的按鈕', () => {
+    expect(buttonFromTVEvent('center')).toBe('select');
+    expect(buttonFromTVEvent('playPause')).toBe('play-pause');
+    expect(buttonFromKey('ArrowLeft')).toBe('left');
+    expect(buttonFromKeyCode(21)).toBe('left');
+    expect(buttonFromKeyCode(85)).toBe('play-pause');
+    expect(buttonFromKey('q')).toBeNull();
+  });
+
+  it('鍵盤字母不分大小寫，按住時切換 Shift 仍能放開', () => {
+    const { router, actions } = createRouter();
+    expect(buttonFromKey('N')).toBe('next');
+
+    router.buttonDown(buttonFromKey('n')!, 'keyboard');
+    router.buttonUp(buttonFromKey('N')!);
+    router.buttonDown(buttonFromKey('n')!, 'keyboard');
+
+    expect(actions()).toEqual(['next', 'next']);
+  });
+
+  it('瞳距校正情境應該將方向鍵轉為瞳距調整', () => {
+    const { router, actions } = createRouter();
+    router.pushContext('calibration');
+
+    router.press('up', 'bluetooth');
+    router.press('left', 'tv-remote');
+    router.press('select', 'keyboard');
+
+    expect(actions()).toEqual(['pupil-distance-increase', 'pupil-distance-decrease', 'select']);
+  });
+
+  it('目前情境沒有配置的按鈕應該交給系統處理', () => {
+    const { router } = createRouter();
+    expect(router.hasBinding('next')).toBe(true);
+
+    router.pushContext('calibration');
+    expect(router.hasBinding('next')).toBe(false);
+    expect(router.hasBinding('up')).toBe(true);
+  });
+
+  it('應該依情境轉換動作', () => {
+    const { router, actions } = createRouter();
+
+    router.press('left', 'keyboard');
+    const leave2D = router.pushContext('player-2d');
+    router.press('left', 'keyboard');
+    const leave360 = router.pushContext('player-360');
+    router.press('left', 'tv-remote');
+    leave360();
+    router.press('up', 'tv-remote');
+    leave2D();
+
+    expect(actions()).toEqual(['navigate-left', 'seek-backward', 'pan-left', 'pupil-distance-increase']);
+    expect(router.getContext()).toBe('library');
+  });
+
+  it('按住時應該連發', () => {
+    const { router, events } = createRouter();
+
+    router.buttonDown('down', 'keyboard');
+    expect(events).toHaveLength(1);
+    vi.advanceTimersByTime(400);
+    expect(events).toHaveLength(2);
+    vi.advanceTimersByTime(300);
+    expect(events).toHaveLength(5);
+    expect(events[4].isRepeat).toBe(true);
+
+    router.buttonUp('down');
+    vi.advanceTimersByTime(1000);
+    expect(events).toHaveLength(5);
+  });
+
+  it('系統重複的按下事件應該被忽略', () => {
+    const { router, events } = createRouter();
+
+    router.buttonDown('right', 'keyboard');
+    router.buttonDown('right', 'keyboard');
+    router.buttonUp('right');
+    expect(events).toHaveLength(1);
+  });
+
+  it('應該偵測長按且放開後不再送出單擊', () => {
+    const { router, events, actions } = createRouter();
+
+    router.buttonDown('select', 'tv-remote');
+    expect(events).toHaveLength(0);
+    vi.advanceTimersByTime(500);
+    router.buttonUp('select');
+
+    expect(actions()).toEqual(['menu']);
+    expect(events[0].gesture).toBe('long-press');
+  });
+
+  it('有長按配置時短按應該在放開後送出', () => {
+    const { router, actions } = createRouter();
+
+    router.buttonDown('select', 'tv-remote');
+    vi.advanceTimersByTime(200);
+    router.buttonUp('select');
+
+    expect(actions()).toEqual(['select']);
+  });
+
+  it('應該偵測雙擊，單擊則在間隔結束後送出', () => {
+    const { router, actions } = createRouter();
+    router.pushContext('player-2d');
+
+    router.press('select', 'keyboard');
+    vi.advanceTimersByTime(100);
+    router.press('select', 'keyboard');
+    expect(actions()).toEqual(['mode-switch']);
+
+    router.press('select', 'keyboard');
+    expect(actions()).toEqual(['mode-switch']);
+    vi.advanceTimersByTime(300);
+    expect(actions()).toEqual(['mode-switch', 'play-pause']);
+  });
+
+  it('切換情境時應該取消等待中的判定', () => {
+    const { router, events } = createRouter();
+    const leave = router.pushContext('player-2d');
+
+    router.buttonDown('left', 'keyboard');
+    leave();
+    vi.advanceTimersByTime(1000);
+
+    expect(events).toHaveLength(1);
+  });
+
+  it('應該直接送出藍牙遙控器映射的動作並可自訂配置', () => {
+    const { router, events, actions } = createRouter();
+    router.dispatchAction('brightness-up', 'bluetooth');
+    router.setBindings('library', [{ button: 'up', action: 'volume-up' }]);
+    router.press('up', 'bluetooth');
+
+    expect(actions()).toEqual(['brightness-up', 'volume-up']);
+    expect(events[0].button).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDistortionMesh,
+  distortRadius,
+  getDistortedUV,
+  renderLensCorrectedEye,
+  undistortRadius,
+  type LensProfile,
+} from '../lens-distortion';
+
+const profile: LensProfile = {
+  distortionCoefficients: [0.34, 0.55],
+  chromaticAberration: { red: -0.01, blue: 0.015 },
+  fieldOfView: 90,
+};
+const viewport = { aspectRatio: 1 };
+
+describe('Lens distortion', () => {
+  it('反函數應該還原畸變半徑', () => {
+    [0, 0.1, 0.5, 0.9, 1.2].forEach((r) => {
+      const distorted = distortRadius(r, profile.distortionCoefficients);
+      expect(undistortRadius(distorted, profile.distortionCoefficients)).toBeCloseTo(r, 5);
+    });
+  });
+
+  it('鏡片中心不應該變形', () => {
+    const { u, v } = getDistortedUV(0, 0, profile, viewport, 'left', 'green');
+    expect(u).toBeCloseTo(0.5);
+    expect(v).toBeCloseTo(0.5);
+  });
+
+  it('應該產生桶形預校正：越靠邊緣取樣越往外', () => {
+    const near = getDistortedUV(0.2, 0, profile, viewport, 'left', 'green');
+    const far = getDistortedUV(0.8, 0, profile, viewport, 'left', 'green');
+
+    // 無畸變時 u = 0.5 + x / 2
+    expect(near.u - 0.5).toBeGreaterThan(0.1);
+    expect((far.u - 0.5) / 0.4).toBeGreaterThan((near.u - 0.5) / 0.1);
+  });
+
+  it('各通道應該依色差係數取樣不同位置', () => {
+    const red = getDistortedUV(0.6, 0.6, profile, viewport, 'left', 'red');
+    const green = getDistortedUV(0.6, 0.6, profile, viewport, 'left', 'green');
+    const blue = getDistortedUV(0.6, 0.6, profile, viewport, 'left', 'blue');
+
+    expect(red.u).toBeLessThan(green.u);
+    expect(blue.u).toBeGreaterThan(green.u);
+    expect((red.u - 0.5) / (green.u - 0.5)).toBeCloseTo(0.99);
+  });
+
+  it('右眼應該鏡像鏡片中心偏移', () => {
+    const offset = { aspectRatio: 1, lensCenterOffset: { x: 0.1, y: 0 } };
+    const left = getDistortedUV(0.1, 0, profile, offset, 'left', 'green');
+    const right = getDistortedUV(-0.1, 0, profile, offset, 'right', 'green');
+
+    expect(left.u).toBeCloseTo(0.5);
+    expect(right.u).toBeCloseTo(0.5);
+  });
+
+  it('應該輸出完整的變形網格', () => {
+    const mesh = createDistortionMesh(profile, viewport, 'left', 4, 2);
+
+    expect(mesh.positions).toHaveLength(5 * 3 * 2);
+    expect(mesh.uvRed).toHaveLength(mesh.positions.length);
+    expect(mesh.indices).toHaveLength(4 * 2 * 6);
+    expect(Math.max(...mesh.indices)).toBe(5 * 3 - 1);
+    // 左上角頂點
+    expect(mesh.positions[0]).toBe(-1);
+    expect(mesh.positions[1]).toBe(1);
+    expect(mesh.uvGreen[0]).toBeLessThan(0);
+  });
+
+  it('應該渲染預校正畫面並將影像外的區域設為黑色', () => {
+    const source = { data: new Uint8ClampedArray(8 * 8 * 4).fill(200), width: 8, height: 8 };
+    const output = renderLensCorrectedEye(source, profile, 'left', 8, 8);
+    const center = ((4 * 8) + 4) * 4;
+
+    expect(output.data[center + 1]).toBe(200);
+    expect(Array.from(output.data.subarray(0, 3))).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  SBSTranscoder,
+  type ConversionFileSystem,
+  type ConversionStorage,
+  type SBSEncodeJob,
+  type SBSEncoder,
+} from '../sbs-transcoder';
+
+/**
+ * 模擬裝置：檔案與 AsyncStorage 都存在記憶體中，重新建立 SBSTranscoder 即模擬重新啟動
+ */
+function createDevice() {
+  const files = new Map<string, string>();
+  const store = new Map<string, string>();
+
+  const fileSystem: ConversionFileSystem = {
+    outputDirectory: 'file:///documents/sbs-conversions/',
+    ensureDirectory: async () => {},
+    exists: async (uri) => files.has(uri),
+    move: async (from, to) => {
+      files.set(to, files.get(from)!);
+      files.delete(from);
+    },
+    remove: async (uri) => {
+      files.delete(uri);
+    },
+  };
+  const storage: ConversionStorage = {
+    getItem: async (key) => store.get(key) ?? null,
+    setItem: async (key, value) => {
+      store.set(key, value);
+    },
+  };
+
+  return { files, fileSystem, storage };
+}
+
+class FakeEncoder implements SBSEncoder {
+  jobs: SBSEncodeJob[] = [];
+  failWith: Error | null = null;
+
+  constructor(private files: Map<string, string>) {}
+
+  async encode(job: SBSEncodeJob, onProgress: (progress: number) => void, signal: AbortSignal) {
+    this.jobs.push(job);
+    this.files.set(job.outputUri, 'partial');
+    onProgress(50);
+    if (signal.aborted) throw new Error('轉換已取消');
+    if (this.failWith) throw this.failWith;
+    this.files.set(job.outputUri, `${job.layout}:${job.disparityShift}`);
+    onProgress(100);
+  }
+}
+
+const params = { pupilDistance: 65, convergenceDistance: 1000, layout: 'sbs' as const };
+
+describe('SBS transcoder', () => {
+  it('應該寫入輸出檔案並記錄參數', async () => {
+    const device = createDevice();
+    const encoder = new FakeEncoder(device.files);
+    const transcoder = new SBSTranscoder(encoder, device.fileSystem, device.storage);
+    const progress: number[] = [];
+
+    const record = await transcoder.convert('file:///movie.mp4', params, {
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(record.outputUri.startsWith('file:///documents/sbs-conversions/')).toBe(true);
+    expect(device.files.get(record.outputUri)).toBe('sbs:6.5');
+    expect(record.disparityShift).toBeCloseTo(6.5);
+    expect(progress[progress.length - 1]).toBe(100);
+    expect(progress.slice(0, -1).every((p) => p < 100)).toBe(true);
+    expect(Array.from(device.files.keys()).some((uri) => uri.endsWith('.partial'))).toBe(false);
+  });
+
+  it('重新啟動後應該沿用相同參數的轉檔結果', async () => {
+    const device = createDevice();
+    const first = new FakeEncoder(device.files);
+    const record = await new SBSTranscoder(first, device.fileSystem, device.storage).convert('file:///movie.mp4', params);
+
+    const second = new FakeEncoder(device.files);
+    const restarted = new SBSTranscoder(second, device.fileSystem, device.storage);
+    const reused = await restarted.convert('file:///movie.mp4', params);
+
+    expect(second.jobs).toHaveLength(0);
+    expect(reused.outputUri).toBe(record.outputUri);
+  });
+
+  it('參數不同時應該重新轉檔', async () => {
+    const device = createDevice();
+    const encoder = new FakeEncoder(device.files);
+    const transcoder = new SBSTranscoder(encoder, device.fileSystem, device.storage);
+
+    const sbs = await transcoder.convert('file:///movie.mp4', params);
+    const closer = await transcoder.convert('file:///movie.mp4', { ...params, pupilDistance: 70 });
+    const tb = await transcoder.convert('file:///movie.mp4', { ...params, layout: 'tb' });
+
+    expect(encoder.jobs).toHaveLength(3);
+    expect(new Set([sbs.outputUri, closer.outputUri, tb.outputUri]).size).toBe(3);
+    expect(await transcoder.getRecords()).toHaveLength(3);
+  });
+
+  it('輸出檔案被刪除時應該重新轉檔', async () => {
+    const device = createDevice();
+    const encoder = new FakeEncoder(device.files);
+    const transcoder = new SBSTranscoder(encoder, device.fileSystem, device.storage);
+
+    const record = await transcoder.convert('file:///movie.mp4', params);
+    device.files.delete(record.outputUri);
+    await transcoder.convert('file:///movie.mp4', params);
+
+    expect(encoder.jobs).toHaveLength(2);
+    expect(await transcoder.getRecords()).toHaveLength(1);
+  });
+
+  it('同時要求相同轉檔時只執行一次', async () => {
+    const device = createDevice();
+    const encoder = new FakeEncoder(device.files);
+    const transcoder = new SBSTranscoder(encoder, device.fileSystem, device.storage);
+
+    const [a, b] = await Promise.all([
+      transcoder.convert('file:///movie.mp4', params),
+      transcoder.convert('file:///movie.mp4', params),
+    ]);
+
+    expect(encoder.jobs).toHaveLength(1);
+    expect(a).toBe(b);
+  });
+
+  it('共用的轉檔在所有呼叫者都取消後才停止編碼', async () => {
+    const device = createDevice();
+    const encoder = new FakeEncoder(device.files);
+    const signals: AbortSignal[] = [];
+    let finishEncoding = () => {};
+    const encode = encoder.encode.bind(encoder);
+    encoder.encode = async (job, onProgress, signal) => {
+      signals.push(signal);
+      await new Promise<void>((resolve) => (finishEncoding = resolve));
+      return encode(job, onProgress, signal);
+    };
+    const transcoder = new SBSTranscoder(encoder, device.fileSystem, device.storage);
+    const waitForEncoder = () => vi.waitFor(() => expect(signals.length).toBeGreaterThan(0));
+
+    const first = new AbortController();
+    const firstResult = transcoder.convert('file:///movie.mp4', params, { signal: first.signal });
+    const second = transcoder.convert('file:///movie.mp4', params);
+    await waitForEncoder();
+
+    first.abort();
+    await expect(firstResult).rejects.toThrow('轉換已取消');
+    expect(signals[0].aborted).toBe(false);
+    finishEncoding();
+    expect(device.files.get((await second).outputUri)).toBe('sbs:6.5');
+
+    signals.length = 0;
+    const a = new AbortController();
+    const b = new AbortController();
+    const results = [
+      transcoder.convert('file:///movie.mp4', { ...params, layout: 'tb' }, { signal: a.signal }),
+      transcoder.convert('file:///movie.mp4', { ...params, layout: 'tb' }, { signal: b.signal }),
+    ];
+    await waitForEncoder();
+    a.abort();
+    expect(signals[0].aborted).toBe(false);
+    b.abort();
+    expect(signals[0].aborted).toBe(true);
+    finishEncoding();
+    await Promise.all(results.map((result) => expect(result).rejects.toThrow('轉換已取消')));
+    expect(await transcoder.getRecords()).toHaveLength(1);
+  });
+
+  it('失敗或取消時應該清除暫存檔且不留下紀錄', async () => {
+    const device = createDevice();
+    const encoder = new FakeEncoder(device.files);
+    const transcoder = new SBSTranscoder(encoder, device.fileSystem, device.storage);
+
+    encoder.failWith = new Error('編碼失敗');
+    await expect(transcoder.convert('file:///movie.mp4', params)).rejects.toThrow('編碼失敗');
+
+    encoder.failWith = null;
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      transcoder.convert('file:///movie.mp4', params, { signal: controller.signal })
+    ).rejects.toThrow('轉換已取消');
+
+    expect(device.files.size).toBe(0);
+    expect(await transcoder.getRecords()).toHaveLength(0);
+  });
+
+  it('清除時應該刪除所有轉檔結果', async () => {
+    const device = createDevice();
+    const transcoder = new SBSTranscoder(new FakeEncoder(device.files), device.fileSystem, device.storage);
+
+    await transcoder.convert('file:///a.mp4', params);
+    await transcoder.convert('file:///b.mp4', params);
+    await transcoder.clear();
+
+    expect(device.files.size).toBe(0);
+    expect(await transcoder.getRecords()).toHaveLength(0);
+  });
+});
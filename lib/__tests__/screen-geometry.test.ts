@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateStereoScreenLayout,
+  getLayoutPixelsPerMillimeter,
+} from '../screen-geometry';
+import { BUILT_IN_VIEWER_PROFILES } from '../viewer-profile';
+
+// 每毫米 4 個版面像素，方便驗算
+const ppmm = 4;
+const profile = { ...BUILT_IN_VIEWER_PROFILES[0], interLensDistance: 64, trayToLensDistance: 35 };
+
+describe('Screen geometry', () => {
+  it('應該依平台與螢幕倍率估算密度，有實物校正值時以校正值為準', () => {
+    expect(getLayoutPixelsPerMillimeter({ platform: 'android', pixelRatio: 3, calibratedPixelsPerMillimeter: 6 })).toBe(6);
+    expect(getLayoutPixelsPerMillimeter({ platform: 'android', pixelRatio: 3, calibratedPixelsPerMillimeter: null })).toBeCloseTo(160 / 25.4);
+    expect(getLayoutPixelsPerMillimeter({ platform: 'android', pixelRatio: 3 })).toBeCloseTo(160 / 25.4);
+    expect(getLayoutPixelsPerMillimeter({ platform: 'ios', pixelRatio: 2 })).toBeCloseTo(163 / 25.4);
+    expect(getLayoutPixelsPerMillimeter({ platform: 'ios', pixelRatio: 3 })).toBeCloseTo(460 / 3 / 25.4);
+  });
+
+  it('視窗應該置中於鏡片下方', () => {
+    const layout = calculateStereoScreenLayout(140 * ppmm, 70 * ppmm, profile, 64, ppmm);
+
+    expect(layout.left.lensCenter.x).toBeCloseTo((70 - 32) * ppmm);
+    expect(layout.right.lensCenter.x).toBeCloseTo((70 + 32) * ppmm);
+    expect(layout.left.viewport.x + layout.left.viewport.width / 2).toBeCloseTo(layout.left.lensCenter.x);
+    // 視窗不超過螢幕中線
+    expect(layout.left.viewport.x + layout.left.viewport.width).toBeLessThanOrEqual(70 * ppmm);
+    expect(layout.left.imageShift).toBe(0);
+  });
+
+  it('應該依對齊方式計算鏡片垂直位置', () => {
+    const bottom = calculateStereoScreenLayout(560, 400, profile, 64, ppmm);
+    const top = calculateStereoScreenLayout(560, 400, { ...profile, verticalAlignment: 'top' }, 64, ppmm);
+    const center = calculateStereoScreenLayout(560, 400, { ...profile, verticalAlignment: 'center' }, 64, ppmm);
+
+    expect(bottom.left.lensCenter.y).toBeCloseTo(400 - 35 * ppmm);
+    expect(top.left.lensCenter.y).toBeCloseTo(35 * ppmm);
+    expect(center.left.lensCenterOffset.y).toBe(0);
+    // Y 向上：鏡片在下方時偏移為負
+    expect(bottom.left.lensCenterOffset.y).toBeCloseTo(-0.3);
+    expect(top.left.lensCenterOffset.y).toBeCloseTo(0.3);
+  });
+
+  it('瞳距小於鏡片間距時畫面應該向內移動', () => {
+    const layout = calculateStereoScreenLayout(560, 280, profile, 60, ppmm);
+
+    expect(layout.left.imageShift).toBeCloseTo(2 * ppmm);
+    expect(layout.right.imageShift).toBeCloseTo(-2 * ppmm);
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BandwidthEstimator,
+  createDashVariantManifest,
+  createHlsMasterPlaylist,
+  detectStreamFormat,
+  formatStreamVariant,
+  getAvailableStreamQualities,
+  parseDashManifest,
+  parseHlsMasterPlaylist,
+  parseHlsMediaPlaylist,
+  parseStreamManifest,
+  resolveStreamUrl,
+  selectStreamVariant,
+} from '../stream-manifest';
+
+const MASTER_URL = 'https://cdn.example.com/vr/movie/master.m3u8?token=abc';
+
+const MASTER_PLAYLIST = `#EXTM3U
+#EXT-X-VERSION:6
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="English",LANGUAGE="en",DEFAULT=YES,AUTOSELECT=YES,CHANNELS="2",URI="audio/en.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="日本語",LANGUAGE="ja",DEFAULT=NO,AUTOSELECT=YES,URI="audio/ja.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=20000000,RESOLUTION=3840x1920,CODECS="hvc1.2.4.L153,mp4a.40.2",FRAME-RATE=30.000,AUDIO="aac",REQ-VIDEO-LAYOUT="CH-MONO/PROJ-EQUI"
+4k/index.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1280x640,CODECS="avc1.64001f,mp4a.40.2",AUDIO="aac"
+/vr/movie/720p/index.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=6000000,RESOLUTION=1920x960,CODECS="avc1.640028,mp4a.40.2",AUDIO="aac"
+../movie/1080p/index.m3u8
+`;
+
+const MPD = `<?xml version="1.0" encoding="UTF-8"?>
+<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" mediaPresentationDuration="PT1H2M3.5S">
+  <Period id="1">
+    <AdaptationSet contentType="video" mimeType="video/mp4" segmentAlignment="true">
+      <EssentialProperty schemeIdUri="urn:mpeg:mpegI:omaf:2017:pf" value="0"/>
+      <SupplementalProperty schemeIdUri="urn:mpeg:mpegB:cicp:VideoFramePackingType" value="4"/>
+      <SegmentTemplate media="$RepresentationID$/seg_$Number$.m4s" initialization="$RepresentationID$/init.mp4"/>
+      <Representation id="v1080" bandwidth="8000000" width="1920" height="1920" codecs="avc1.640032" frameRate="30000/1001"/>
+      <Representation id="v4k" bandwidth="30000000" width="3840" height="3840" codecs="hvc1.2.4.L153">
+        <BaseURL>uhd/</BaseURL>
+      </Representation>
+    </AdaptationSet>
+    <AdaptationSet contentType="audio" mimeType="audio/mp4" lang="en">
+      <Representation id="a1" bandwidth="128000" codecs="mp4a.40.2"/>
+    </AdaptationSet>
+  </Period>
+</MPD>`;
+
+describe('串流格式與網址', () => {
+  it('由副檔名或 Content-Type 判斷格式', () => {
+    expect(detectStreamFormat('https://a.com/live/index.m3u8?token=1')).toBe('hls');
+    expect(detectStreamFormat('https://a.com/movie.MPD')).toBe('dash');
+    expect(detectStreamFormat('https://a.com/play', 'application/vnd.apple.mpegurl; charset=utf-8')).toBe('hls');
+    expect(detectStreamFormat('https://a.com/play', 'application/dash+xml')).toBe('dash');
+    expect(detectStreamFormat('https://a.com/movie.mp4')).toBeNull();
+  });
+
+  it('解析相對網址', () => {
+    expect(resolveStreamUrl('seg_1.ts', MASTER_URL)).toBe('https://cdn.example.com/vr/movie/seg_1.ts');
+    expect(resolveStreamUrl('../other/a.ts?x=1', MASTER_URL)).toBe('https://cdn.example.com/vr/other/a.ts?x=1');
+    expect(resolveStreamUrl('../a.mp4?x=1#t=10', MASTER_URL)).toBe('https://cdn.example.com/vr/a.mp4?x=1#t=10');
+    expect(resolveStreamUrl('a.mp4#t=10?x', MASTER_URL)).toBe('https://cdn.example.com/vr/movie/a.mp4#t=10?x');
+    expect(resolveStreamUrl('/root.ts', MASTER_URL)).toBe('https://cdn.example.com/root.ts');
+    expect(resolveStreamUrl('//cdn2.example.com/a.ts', MASTER_URL)).toBe('https://cdn2.example.com/a.ts');
+    expect(resolveStreamUrl('.', MASTER_URL)).toBe('https://cdn.example.com/vr/movie/');
+    expect(resolveStreamUrl('https://b.com/x.ts', MASTER_URL)).toBe('https://b.com/x.ts');
+    expect(resolveStreamUrl('seg.ts', 'file:///docs/streams/a/index.m3u8')).toBe('file:///docs/streams/a/seg.ts');
+  });
+});
+
+describe('parseHlsMasterPlaylist', () => {
+  it('解析畫質版本並依位元率排序', () => {
+    const manifest = parseHlsMasterPlaylist(MASTER_PLAYLIST, MASTER_URL);
+
+    expect(manifest.variants.map((v) => [v.bandwidth, v.width, v.height, v.uri])).toEqual([
+      [2500000, 1280, 640, 'https://cdn.example.com/vr/movie/720p/index.m3u8'],
+      [6000000, 1920, 960, 'https://cdn.example.com/vr/movie/1080p/index.m3u8'],
+      [20000000, 3840, 1920, 'https://cdn.example.com/vr/movie/4k/index.m3u8'],
+    ]);
+    expect(manifest.variants[2]).toMatchObject({ codecs: 'hvc1.2.4.L153,mp4a.40.2', frameRate: 30, audioGroup: 'aac' });
+    expect(manifest.renditions.map((r) => [r.name, r.isDefault, r.uri])).toEqual([
+      ['English', true, 'https://cdn.example.com/vr/movie/audio/en.m3u8'],
+      ['日本語', false, 'https://cdn.example.com/vr/movie/audio/ja.m3u8'],
+    ]);
+  });
+
+  it('以 REQ-VIDEO-LAYOUT 判斷投影，其次為網址中的命名', () => {
+    expect(parseHlsMasterPlaylist(MASTER_PLAYLIST, MASTER_URL).layout).toEqual({
+      stereo: 'mono',
+      projection: 'equirect-360',
+    });
+
+    const untagged = MASTER_PLAYLIST.replace(/,REQ-VIDEO-LAYOUT="[^"]*"/, '');
+    expect(parseHlsMasterPlaylist(untagged, 'https://a.com/ocean_360_TB/master.m3u8').layout).toEqual({
+      stereo: 'tb',
+      projection: 'equirect-360',
+    });
+    expect(parseHlsMasterPlaylist(untagged, MASTER_URL).layout).toEqual({ stereo: 'mono', projection: 'flat' });
+  });
+
+  it('不是播放清單時拋出錯誤', () => {
+    expect(() => parseHlsMasterPlaylist('<html></html>', MASTER_URL)).toThrow('不是有效的 HLS');
+  });
+});
+
+describe('parseHlsMediaPlaylist', () => {
+  it('解析區段、初始化區段、加密與位元組範圍', () => {
+    const playlist = parseHlsMediaPlaylist(
+      `#EXTM3U
+#EXT-X-VERSION:7
+#EXT-X-TARGETDURATION:6
+#EXT-X-MEDIA-SEQUENCE:100
+#EXT-X-PLAYLIST-TYPE:VOD
+#EXT-X-MAP:URI="init.mp4",BYTERANGE="720@0"
+#EXT-X-KEY:METHOD=AES-128,URI="https://keys.example.com/k1",IV=0x0123
+#EXTINF:6.0,
+#EXT-X-BYTERANGE:1000@720
+media.mp4
+#EXTINF:4.5,
+#EXT-X-BYTERANGE:800
+media.mp4
+#EXT-X-DISCONTINUITY
+#EXT-X-KEY:METHOD=NONE
+#EXTINF:2,
+tail.m4s
+#EXT-X-ENDLIST
+`,
+      'https://a.com/v/index.m3u8'
+    );
+
+    expect(playlist).toMatchObject({ version: 7, targetDuration: 6, mediaSequence: 100, playlistType: 'VOD', endList: true });
+    expect(playlist.duration).toBeCloseTo(12.5);
+    expect(playlist.segments.map((s) => [s.uri, s.byteRange, s.discontinuity])).toEqual([
+      ['https://a.com/v/media.mp4', { offset: 720, length: 1000 }, false],
+      ['https://a.com/v/media.mp4', { offset: 1720, length: 800 }, false],
+      ['https://a.com/v/tail.m4s', undefined, true],
+    ]);
+    expect(playlist.segments[0].map).toEqual({ uri: 'https://a.com/v/init.mp4', byteRange: { offset: 0, length: 720 } });
+    expect(playlist.segments[1].key).toEqual({
+      method: 'AES-128',
+      uri: 'https://keys.example.com/k1',
+      iv: '0x0123',
+      keyFormat: undefined,
+    });
+    expect(playlist.segments[2].key).toBeNull();
+  });
+
+  it('媒體播放清單視為單一畫質，沒有 ENDLIST 為直播', () => {
+    const manifest = parseStreamManifest(
+      '#EXTM3U\n#EXT-X-TARGETDURATION:4\n#EXTINF:4,\na.ts\n#EXTINF:4,\nb.ts\n',
+      'https://a.com/live.m3u8',
+      'hls'
+    );
+    expect(manifest.variants).toHaveLength(1);
+    expect(manifest.variants[0].uri).toBe('https://a.com/live.m3u8');
+    expect(manifest.isLive).toBe(true);
+    expect(manifest.duration).toBe(8);
+  });
+});
+
+describe('parseDashManifest', () => {
+  it('解析視訊 Representation、長度與 360° 上下排列', () => {
+    const manifest = parseDashManifest(MPD, 'https://a.com/dash/movie.mpd');
+
+    expect(manifest.isLive).toBe(false);
+    expect(manifest.duration).toBeCloseTo(3723.5);
+    expect(manifest.variants.map((v) => [v.id, v.bandwidth, v.width, v.height])).toEqual([
+      ['v1080', 8000000, 1920, 1920],
+      ['v4k', 30000000, 3840, 3840],
+    ]);
+    expect(manifest.variants[0].frameRate).toBeCloseTo(29.97);
+    expect(manifest.layout).toEqual({ stereo: 'tb', projection: 'equirect-360' });
+  });
+
+  it('以解析度判斷左右排列是否為半寬', () => {
+    const sbs = (width: number, height: number) =>
+      parseDashManifest(
+        `<MPD type="dynamic"><Period><AdaptationSet mimeType="video/mp4">
+          <SupplementalProperty schemeIdUri="urn:mpeg:mpegB:cicp:VideoFramePackingType" value="3"/>
+          <Representation id="v" bandwidth="1" width="${width}" height="${height}"/>
+        </AdaptationSet></Period></MPD>`,
+        'https://a.com/live.mpd'
+      );
+
+    expect(sbs(3840, 1080).layout).toEqual({ stereo: 'sbs', projection: 'flat' });
+    expect(sbs(1920, 1080).layout).toEqual({ stereo: 'half-sbs', projection: 'flat' });
+    expect(sbs(1920, 1080).isLive).toBe(true);
+  });
+
+  it('只保留選定版本並改為絕對的 BaseURL', () => {
+    const manifest = parseDashManifest(MPD, 'https://a.com/dash/movie.mpd');
+    const filtered = createDashVariantManifest(MPD, manifest.variants[0]);
+
+    expect(filtered).toContain('<BaseURL>https://a.com/dash/</BaseURL>');
+    expect(filtered).toContain('id="v1080"');
+    expect(filtered).not.toContain('id="v4k"');
+    // 音訊保持不變
+    expect(filtered).toContain('id="a1"');
+    expect(parseDashManifest(filtered, 'file:///cache/movie.mpd').variants.map((v) => v.id)).toEqual(['v1080']);
+  });
+});
+
+describe('畫質選擇', () => {
+  const { variants } = parseHlsMasterPlaylist(MASTER_PLAYLIST, MASTER_URL);
+
+  it('依畫質上限或估計頻寬選擇版本', () => {
+    expect(selectStreamVariant(variants, '1080p')?.height).toBe(960);
+    expect(selectStreamVariant(variants, '4k')?.height).toBe(1920);
+    expect(selectStreamVariant(variants, 'auto')?.height).toBe(1920);
+    expect(selectStreamVariant(variants, 'auto', 10_000_000)?.height).toBe(960);
+    // 頻寬不足時仍選擇最低版本
+    expect(selectStreamVariant(variants, 'auto', 1_000_000)?.height).toBe(640);
+    expect(selectStreamVariant([], 'auto')).toBeNull();
+  });
+
+  it('只列出有對應解析度的畫質', () => {
+    expect(getAvailableStreamQualities(variants)).toEqual(['auto', '1080p', '4k']);
+    expect(getAvailableStreamQualities(variants.slice(0, 1))).toEqual(['auto']);
+    expect(formatStreamVariant(variants[2])).toBe('4K · 20.0 Mbps');
+    expect(formatStreamVariant(variants[1])).toBe('1080p · 6.0 Mbps');
+  });
+
+  it('產生只有一個版本的主播放清單', () => {
+    const manifest = parseHlsMasterPlaylist(MASTER_PLAYLIST, MASTER_URL);
+    const text = createHlsMasterPlaylist(manifest.variants[1], manifest.renditions);
+    const reparsed = parseHlsMasterPlaylist(text, 'file:///cache/variant.m3u8');
+
+    expect(reparsed.variants).toHaveLength(1);
+    expect(reparsed.variants[0]).toMatchObject({
+      uri: 'https://cdn.example.com/vr/movie/1080p/index.m3u8',
+      bandwidth: 6000000,
+      width: 1920,
+      audioGroup: 'aac',
+    });
+    expect(reparsed.renditions.map((r) => r.uri)).toEqual([
+      'https://cdn.example.com/vr/movie/audio/en.m3u8',
+      'https://cdn.example.com/vr/movie/audio/ja.m3u8',
+    ]);
+  });
+
+  it('以加權移動平均估計頻寬，略過太小的回應', () => {
+    const estimator = new BandwidthEstimator(0.5);
+    expect(estimator.getEstimate()).toBeNull();
+
+    estimator.addSample(1_000_000, 1000);
+    expect(estimator.getEstimate()).toBe(8_000_000);
+    estimator.addSample(500, 1);
+    expect(estimator.getEstimate()).toBe(8_000_000);
+    estimator.addSample(500_000, 1000);
+    expect(estimator.getEstimate()).toBe(6_000_000);
+  });
+});
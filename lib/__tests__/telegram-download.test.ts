@@ -0,0 +1,320 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  TelegramDownloader,
+  getPartialPath,
+  type DownloadFileSystem,
+  type DownloadStorage,
+} from '../telegram-download';
+import { TelegramIntegrationManager, TelegramStreamPlayer, type TelegramMessage } from '../telegram-integration';
+import { groupTelegramVideos } from '../telegram-media';
+import { createStoredZip, startMockTelegramServer, type MockTelegramServer } from './telegram-mock-server';
+
+const CONTENT = new TextEncoder().encode('0123456789');
+const SAVE_PATH = 'file:///docs/telegram/clip.mp4';
+
+function createMemoryFileSystem() {
+  const files = new Map<string, Uint8Array>();
+  const fileSystem: DownloadFileSystem = {
+    getSize: async (uri) => files.get(uri)?.length ?? null,
+    append: async (uri, bytes) => {
+      const current = files.get(uri) ?? new Uint8Array(0);
+      const next = new Uint8Array(current.length + bytes.length);
+      next.set(current);
+      next.set(bytes, current.length);
+      files.set(uri, next);
+    },
+    ensureDirectory: async () => {},
+    move: async (from, to) => {
+      files.set(to, files.get(from)!);
+      files.delete(from);
+    },
+    remove: async (uri) => {
+      files.delete(uri);
+    },
+  };
+  return { files, fileSystem };
+}
+
+function createMemoryStorage(): DownloadStorage {
+  const data = new Map<string, string>();
+  return {
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+function createPart(messageId: number, fileName: string, fileSize: number): TelegramMessage {
+  return {
+    id: `-1001:${messageId}`,
+    messageId,
+    channelId: '-1001',
+    timestamp: 0,
+    document: { fileId: `file-${messageId}`, fileSize, fileName, mimeType: 'application/octet-stream' },
+  };
+}
+
+function createMessage(fileSize = CONTENT.length): TelegramMessage {
+  return {
+    id: '-1001:10',
+    messageId: 10,
+    channelId: '-1001',
+    timestamp: 0,
+    video: {
+      fileId: 'file-10',
+      fileSize,
+      duration: 5,
+      width: 3840,
+      height: 1920,
+      mimeType: 'video/mp4',
+      fileName: 'clip.mp4',
+    },
+  };
+}
+
+describe('TelegramDownloader', () => {
+  let server: MockTelegramServer;
+  let fileUrl: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server = await startMockTelegramServer({
+      files: { 'file-10': 'videos/file_10.mp4' },
+      fileContents: { 'videos/file_10.mp4': CONTENT },
+    });
+    fileUrl = `${server.url}/file/bot${server.state.botToken}/videos/file_10.mp4`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  function request(message = createMessage(), resolveUrl = async () => fileUrl) {
+    return { message, fileId: 'file-10', savePath: SAVE_PATH, resolveUrl };
+  }
+
+  it('以 Range 分段下載並移到保存路徑', async () => {
+    const { files, fileSystem } = createMemoryFileSystem();
+    const downloader = new TelegramDownloader(fileSystem, createMemoryStorage(), { chunkSize: 4 });
+    const progress: number[] = [];
+
+    const record = await downloader.download(request(), {
+      onProgress: (r) => progress.push(r.downloadedBytes),
+    });
+
+    expect(server.state.rangeRequests).toEqual(['bytes=0-3', 'bytes=4-7', 'bytes=8-9']);
+    expect(progress).toEqual([0, 4, 8, 10, 10]);
+    expect(record).toMatchObject({ status: 'completed', downloadedBytes: 10, totalBytes: 10 });
+    expect(new TextDecoder().decode(files.get(SAVE_PATH))).toBe('0123456789');
+    expect(files.has(getPartialPath(SAVE_PATH))).toBe(false);
+  });
+
+  it('App 重新啟動後從暫存檔繼續下載', async () => {
+    const { files, fileSystem } = createMemoryFileSystem();
+    const storage = createMemoryStorage();
+    const first = new TelegramDownloader(fileSystem, storage, { chunkSize: 4 });
+    const controller = new AbortController();
+
+    await expect(
+      first.download(request(), {
+        signal: controller.signal,
+        onProgress: (r) => {
+          if (r.downloadedBytes === 4) controller.abort();
+        },
+      })
+    ).rejects.toThrow('下載已暫停');
+    expect(first.getDownload('-1001:10')?.status).toBe('paused');
+
+    // 模擬 App 被關閉時保存的狀態仍為下載中
+    const saved = JSON.parse((await storage.getItem('vr_telegram_downloads'))!);
+    saved[0].status = 'downloading';
+    await storage.setItem('vr_telegram_downloads', JSON.stringify(saved));
+
+    const second = new TelegramDownloader(fileSystem, storage, { chunkSize: 4 });
+    await second.load();
+    expect(second.getDownload('-1001:10')?.status).toBe('paused');
+
+    server.state.rangeRequests = [];
+    await second.download(request());
+    expect(server.state.rangeRequests).toEqual(['bytes=4-7', 'bytes=8-9']);
+    expect(new TextDecoder().decode(files.get(SAVE_PATH))).toBe('0123456789');
+  });
+
+  it('伺服器錯誤時重試，超過重試次數後保留已下載的部分', async () => {
+    const { files, fileSystem } = createMemoryFileSystem();
+    const downloader = new TelegramDownloader(fileSystem, createMemoryStorage(), { chunkSize: 4 });
+
+    server.state.fileFailures = [503];
+    await downloader.download(request(), { maxRetries: 1 });
+    expect(files.has(SAVE_PATH)).toBe(true);
+
+    files.clear();
+    await downloader.remove('-1001:10');
+    server.state.rangeRequests = [];
+    server.state.fileFailures = [];
+    const failing = new TelegramDownloader(fileSystem, createMemoryStorage(), { chunkSize: 4 });
+    let calls = 0;
+    await expect(
+      failing.download(request(), {
+        maxRetries: 0,
+        onProgress: (r) => {
+          if (r.downloadedBytes === 4 && calls++ === 0) server.state.fileFailures.push(500);
+        },
+      })
+    ).rejects.toThrow('HTTP 500');
+    expect(failing.getDownload('-1001:10')).toMatchObject({ status: 'failed', downloadedBytes: 4 });
+    expect(files.get(getPartialPath(SAVE_PATH))?.length).toBe(4);
+  });
+
+  it('網址過期時重新取得網址', async () => {
+    const { fileSystem } = createMemoryFileSystem();
+    const downloader = new TelegramDownloader(fileSystem, createMemoryStorage(), { chunkSize: 16 });
+    const resolveUrl = vi.fn(async () => fileUrl);
+
+    server.state.fileFailures = [404];
+    await downloader.download(request(createMessage(), resolveUrl), { maxRetries: 1 });
+    expect(resolveUrl).toHaveBeenCalledTimes(2);
+  });
+
+  it('檔案大小與 Telegram 提供的不符時刪除暫存檔', async () => {
+    const { files, fileSystem } = createMemoryFileSystem();
+    const downloader = new TelegramDownloader(fileSystem, createMemoryStorage(), { chunkSize: 4 });
+
+    await expect(downloader.download(request(createMessage(12)))).rejects.toThrow('檔案大小不符');
+    expect(downloader.getDownload('-1001:10')).toMatchObject({ status: 'failed', downloadedBytes: 0 });
+    expect(files.size).toBe(0);
+  });
+
+  it('伺服器不支援 Range 時改為下載完整檔案', async () => {
+    const { files, fileSystem } = createMemoryFileSystem();
+    const downloader = new TelegramDownloader(fileSystem, createMemoryStorage(), { chunkSize: 4 });
+    server.state.supportsRange = false;
+
+    await downloader.download(request());
+    expect(new TextDecoder().decode(files.get(SAVE_PATH))).toBe('0123456789');
+  });
+
+  it('由集成管理器下載並發出完成事件', async () => {
+    const { files, fileSystem } = createMemoryFileSystem();
+    const manager = new TelegramIntegrationManager({
+      botToken: server.state.botToken,
+      apiEndpoint: server.url,
+      maxRetries: 1,
+      timeout: 2000,
+      downloader: new TelegramDownloader(fileSystem, createMemoryStorage(), { chunkSize: 4 }),
+    });
+    await manager.connectBot();
+    const events: [string, any][] = [];
+    manager.subscribe((event, data) => events.push([event, data]));
+    const progress: number[] = [];
+
+    expect(await manager.downloadVideo(createMessage(), SAVE_PATH, (p) => progress.push(p))).toBe(true);
+    expect(progress.at(-1)).toBe(100);
+    expect(files.get(SAVE_PATH)?.length).toBe(10);
+    expect(events.at(-1)).toEqual([
+      'download-completed',
+      expect.objectContaining({ messageId: '-1001:10', savePath: SAVE_PATH }),
+    ]);
+  });
+
+  it('無法繼續的中斷下載應該標記為失敗', async () => {
+    const storage = createMemoryStorage();
+    const { video, ...message } = createMessage();
+    await storage.setItem(
+      'vr_telegram_downloads',
+      JSON.stringify([
+        {
+          id: message.id,
+          fileId: video!.fileId,
+          savePath: SAVE_PATH,
+          message,
+          totalBytes: 0,
+          downloadedBytes: 0,
+          status: 'paused',
+          error: null,
+          createdAt: 0,
+          updatedAt: 0,
+        },
+      ])
+    );
+    const downloader = new TelegramDownloader(createMemoryFileSystem().fileSystem, storage);
+    const manager = new TelegramIntegrationManager({
+      botToken: server.state.botToken,
+      apiEndpoint: server.url,
+      maxRetries: 1,
+      timeout: 2000,
+      downloader,
+    });
+    await manager.connectBot();
+
+    expect(await manager.resumeDownloads()).toBe(1);
+    await vi.waitFor(() => expect(downloader.getDownload(message.id)?.status).toBe('failed'));
+    expect(downloader.getDownload(message.id)?.error).toBe('訊息不包含影片');
+  });
+
+  describe('分割檔與 ZIP', () => {
+    async function createManager() {
+      const { files, fileSystem } = createMemoryFileSystem();
+      const manager = new TelegramIntegrationManager({
+        botToken: server.state.botToken,
+        apiEndpoint: server.url,
+        maxRetries: 1,
+        timeout: 2000,
+        downloader: new TelegramDownloader(fileSystem, createMemoryStorage(), { chunkSize: 4 }),
+      });
+      await manager.connectBot();
+      return { files, manager };
+    }
+
+    function serveParts(content: Uint8Array, partSize: number, baseName: string) {
+      const parts: TelegramMessage[] = [];
+      for (let offset = 0, index = 1; offset < content.length; offset += partSize, index++) {
+        const bytes = content.slice(offset, offset + partSize);
+        const name = `${baseName}.${String(index).padStart(3, '0')}`;
+        server.state.files[`file-${20 + index}`] = `documents/${name}`;
+        server.state.fileContents[`documents/${name}`] = bytes;
+        parts.push(createPart(20 + index, name, bytes.length));
+      }
+      return parts;
+    }
+
+    it('依序下載分割檔並合併為一個檔案', async () => {
+      const { files, manager } = await createManager();
+      const [item] = groupTelegramVideos(serveParts(CONTENT, 6, 'clip.mp4'));
+      expect(item.parts).toHaveLength(2);
+
+      const savePath = 'file:///docs/telegram/clip.mp4';
+      await expect(new TelegramStreamPlayer(manager).playItem(item)).rejects.toThrow('需先下載');
+      expect(await manager.downloadItem(item, savePath)).toBe(true);
+      expect(new TextDecoder().decode(files.get(savePath))).toBe('0123456789');
+      expect(server.state.rangeRequests).toEqual(['bytes=0-3', 'bytes=4-5', 'bytes=0-3']);
+      expect(await new TelegramStreamPlayer(manager).playItem(item)).toBe(savePath);
+    });
+
+    it('只下載 ZIP 中的影片並改用影片的副檔名', async () => {
+      const { files, manager } = await createManager();
+      const zip = createStoredZip({ 'cover.jpg': new Uint8Array(3), 'movie_SBS.mkv': CONTENT });
+      // 影片資料跨越第一與第二部分
+      const [item] = groupTelegramVideos(serveParts(zip, 90, 'pack.zip'));
+      expect(item.isArchive).toBe(true);
+
+      const events: [string, any][] = [];
+      manager.subscribe((event, data) => events.push([event, data]));
+      expect(await manager.downloadItem(item, 'file:///docs/telegram/pack.zip')).toBe(true);
+      expect(new TextDecoder().decode(files.get('file:///docs/telegram/pack.mkv'))).toBe('0123456789');
+      expect(events.at(-1)).toEqual([
+        'download-completed',
+        expect.objectContaining({ savePath: 'file:///docs/telegram/pack.mkv', item }),
+      ]);
+    });
+
+    it('尚未取得所有部分時無法下載', async () => {
+      const { manager } = await createManager();
+      const [, second] = serveParts(CONTENT, 4, 'clip.mp4');
+      const [item] = groupTelegramVideos([second]);
+      await expect(manager.downloadItem(item, SAVE_PATH)).rejects.toThrow('尚未取得所有部分');
+    });
+  });
+});
@@ -0,0 +1,430 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  TelegramIntegrationManager,
+  TelegramStreamPlayer,
+  type TelegramMessage,
+} from '../telegram-integration';
+import { HttpTelegramGateway } from '../telegram-gateway';
+import { createMemoryCacheStorage, type TelegramCacheStorage } from '../telegram-message-cache';
+import type { BotApiChat, BotApiMessage } from '../telegram-bot-api';
+import { startMockTelegramServer, type MockTelegramServer } from './telegram-mock-server';
+
+const CHANNEL: BotApiChat = { id: -1001, type: 'channel', title: 'VR 影片分享', username: 'vr_videos' };
+
+function videoPost(messageId: number, caption?: string): BotApiMessage {
+  return {
+    message_id: messageId,
+    date: 1700000000 + messageId,
+    chat: CHANNEL,
+    caption,
+    video: {
+      file_id: `file-${messageId}`,
+      file_unique_id: `u-${messageId}`,
+      width: 3840,
+      height: 1920,
+      duration: 120,
+      file_name: `clip-${messageId}.mp4`,
+      file_size: 1024,
+    },
+  };
+}
+
+function createBotManager(
+  server: MockTelegramServer,
+  botToken = server.state.botToken,
+  storage?: TelegramCacheStorage
+) {
+  return new TelegramIntegrationManager({
+    botToken,
+    apiEndpoint: server.url,
+    maxRetries: 1,
+    timeout: 2000,
+    storage,
+  });
+}
+
+describe('TelegramIntegrationManager（機器人模式）', () => {
+  let server: MockTelegramServer;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server = await startMockTelegramServer({
+      updates: [
+        { update_id: 1, channel_post: videoPost(10, 'SBS 測試\n第二行') },
+        { update_id: 2, channel_post: { message_id: 11, date: 1700000011, chat: CHANNEL, text: '公告' } },
+        { update_id: 3, message: { message_id: 5, date: 1700000005, chat: { id: 7, type: 'private' }, text: 'hi' } },
+        { update_id: 4, channel_post: videoPost(12) },
+      ],
+      publicChats: [{ id: -1002, type: 'channel', title: '全景旅遊', username: 'pano_travel' }],
+      files: { 'file-10': 'videos/file_10.mp4', 'file-12': 'videos/file_12.mp4' },
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it('以 getMe 驗證 Bot Token', async () => {
+    const manager = createBotManager(server);
+    expect(manager.getMode()).toBe('bot');
+    expect(manager.isLoggedIn()).toBe(false);
+    expect(await manager.connectBot()).toBe(true);
+    expect(manager.isLoggedIn()).toBe(true);
+
+    const invalid = createBotManager(server, '999:WRONG');
+    expect(await invalid.connectBot()).toBe(false);
+    expect(invalid.isLoggedIn()).toBe(false);
+  });
+
+  it('從 getUpdates 收集頻道與影片，略過私人聊天', async () => {
+    const manager = createBotManager(server);
+    await manager.connectBot();
+
+    const channels = await manager.getUserChannels();
+    expect(channels).toEqual([
+      expect.objectContaining({ id: '-1001', title: 'VR 影片分享', username: 'vr_videos', isPrivate: false }),
+    ]);
+
+    const { messages: videos, nextCursor } = await manager.getChannelVideos('-1001');
+    expect(videos.map((v) => v.id)).toEqual(['-1001:12', '-1001:10']);
+    expect(nextCursor).toBeNull();
+    expect(videos[1]).toMatchObject({
+      messageId: 10,
+      caption: 'SBS 測試\n第二行',
+      timestamp: 1700000010000,
+      video: { fileId: 'file-10', width: 3840, height: 1920, duration: 120, mimeType: 'video/mp4' },
+    });
+    expect(await manager.getChannelVideos('-1001', 1)).toEqual({ messages: [videos[0]], nextCursor: 12 });
+    expect(await manager.getChannelVideos('-1001', 1, 12)).toEqual({ messages: [videos[1]], nextCursor: null });
+  });
+
+  it('確認過的更新不會重複取得，新貼文會加入快取', async () => {
+    const manager = createBotManager(server);
+    await manager.connectBot();
+    expect(await manager.syncUpdates()).toBe(2);
+    expect(server.state.updates).toEqual([]);
+
+    server.state.updates.push({ update_id: 5, channel_post: videoPost(13) });
+    expect(await manager.syncUpdates()).toBe(1);
+    const { messages } = await manager.getChannelVideos('-1001');
+    expect(messages.map((v) => v.messageId)).toEqual([13, 12, 10]);
+  });
+
+  it('影片類型的文件與分割檔也會加入頻道影片', async () => {
+    const document = (messageId: number, fileName: string): BotApiMessage => ({
+      message_id: messageId,
+      date: 1700000000 + messageId,
+      chat: CHANNEL,
+      document: { file_id: `doc-${messageId}`, file_unique_id: `d-${messageId}`, file_name: fileName, file_size: 10 },
+    });
+    server.state.updates.push(
+      { update_id: 5, channel_post: document(13, 'movie_TB.mkv.001') },
+      { update_id: 6, channel_post: document(14, 'readme.pdf') },
+      { update_id: 7, channel_post: document(15, 'movie_TB.mkv.002') }
+    );
+    const manager = createBotManager(server);
+    await manager.connectBot();
+
+    expect(await manager.syncUpdates()).toBe(4);
+    const { messages } = await manager.getChannelVideos('-1001');
+    expect(messages.map((v) => v.messageId)).toEqual([15, 13, 12, 10]);
+    expect(messages[0].document).toMatchObject({ fileId: 'doc-15', fileName: 'movie_TB.mkv.002' });
+  });
+
+  it('以 @username 搜尋公開頻道', async () => {
+    const manager = createBotManager(server);
+    await manager.connectBot();
+
+    const results = await manager.searchChannels('@pano_travel');
+    expect(results).toEqual([
+      expect.objectContaining({ id: '-1002', title: '全景旅遊', memberCount: 1234 }),
+    ]);
+    expect(await manager.searchChannels('not_exist_channel')).toEqual([]);
+  });
+
+  it('以 getFile 取得串流網址', async () => {
+    const manager = createBotManager(server);
+    await manager.connectBot();
+    const {
+      messages: [latest, older],
+    } = await manager.getChannelVideos('-1001');
+
+    const url = await new TelegramStreamPlayer(manager).playMessage(older);
+    expect(url).toBe(`${server.url}/file/bot${server.state.botToken}/videos/file_10.mp4`);
+    const response = await fetch(url);
+    expect(await response.text()).toBe('video-bytes');
+
+    server.state.files = {};
+    await expect(manager.getVideoStreamUrl(latest.id, 'file-12')).rejects.toThrow('file is too big');
+  });
+
+  it('以保存的 Bot Token 還原登入', async () => {
+    const manager = createBotManager(server);
+    expect(await manager.restoreSession()).toBe(true);
+    expect(manager.getCurrentUser()).toEqual({ id: '1', firstName: 'VR Bot', username: 'vr_test_bot' });
+    expect(manager.getSession()).toBe(server.state.botToken);
+
+    expect(await createBotManager(server, '999:WRONG').restoreSession()).toBe(false);
+  });
+
+  it('429 依 retry_after 重試', async () => {
+    const manager = createBotManager(server);
+    server.state.failures.push({ status: 429, retryAfter: 0.01 });
+    expect(await manager.connectBot()).toBe(true);
+    expect(server.state.requests).toEqual(['getMe', 'getMe']);
+  });
+
+  it('機器人模式不支援手機驗證', async () => {
+    const manager = createBotManager(server);
+    await expect(manager.authenticate('+886912345678')).rejects.toThrow('機器人模式');
+  });
+
+  it('未登入時無法瀏覽頻道', async () => {
+    const manager = createBotManager(server);
+    await expect(manager.getUserChannels()).rejects.toThrow('未登入');
+  });
+});
+
+describe('TelegramIntegrationManager（使用者帳號模式）', () => {
+  let server: MockTelegramServer;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server = await startMockTelegramServer();
+    server.state.gateway.dialogs = [
+      { id: '100', title: '3D 電影預告', username: '3d_movies', isPrivate: false },
+      { id: '200', title: '私人收藏', isPrivate: true },
+    ];
+    server.state.gateway.history['100'] = [
+      {
+        id: '100:3',
+        messageId: 3,
+        channelId: '100',
+        timestamp: 3000,
+        video: { fileId: 'f3', fileSize: 1, duration: 10, width: 1920, height: 1080, mimeType: 'video/mp4' },
+      },
+      { id: '100:2', messageId: 2, channelId: '100', timestamp: 2000, text: '文字' },
+      {
+        id: '100:1',
+        messageId: 1,
+        channelId: '100',
+        timestamp: 1000,
+        video: { fileId: 'f1', fileSize: 1, duration: 10, width: 1920, height: 1080, mimeType: 'video/mp4' },
+      },
+    ];
+  });
+
+  afterEach(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  function createUserManager() {
+    return new TelegramIntegrationManager({
+      botToken: '',
+      apiEndpoint: server.url,
+      maxRetries: 0,
+      timeout: 2000,
+      gateway: new HttpTelegramGateway(`${server.url}/gateway`, { maxRetries: 0, timeout: 2000 }),
+    });
+  }
+
+  it('發送驗證碼並登入', async () => {
+    const manager = createUserManager();
+    expect(manager.getMode()).toBe('user');
+    await expect(manager.verifyCode('+886912345678', '12345')).rejects.toThrow('請先發送驗證碼');
+
+    expect(await manager.authenticate('+886912345678')).toBe(true);
+    expect(await manager.verifyCode('+886912345678', '00000')).toBe('failed');
+    expect(manager.isLoggedIn()).toBe(false);
+
+    const events: string[] = [];
+    manager.subscribe((event) => events.push(event));
+    expect(await manager.verifyCode('+886912345678', '12345')).toBe('authenticated');
+    expect(manager.isLoggedIn()).toBe(true);
+    expect(events).toContain('authenticated');
+    expect(manager.getCurrentUser()).toEqual({ id: '42', firstName: '測試' });
+    expect(manager.getSession()).toBe('session-1');
+  });
+
+  it('啟用兩步驟驗證的帳號需再輸入密碼', async () => {
+    server.state.gateway.password = 'hunter2';
+    const manager = createUserManager();
+    await expect(manager.verifyPassword('+886912345678', 'hunter2')).rejects.toThrow('不需要兩步驟驗證');
+
+    await manager.authenticate('+886912345678');
+    expect(await manager.verifyCode('+886912345678', '12345')).toBe('password-required');
+    expect(manager.isLoggedIn()).toBe(false);
+
+    expect(await manager.verifyPassword('+886912345678', 'wrong')).toBe('failed');
+    expect(await manager.verifyPassword('+886912345678', 'hunter2')).toBe('authenticated');
+    expect(manager.isLoggedIn()).toBe(true);
+  });
+
+  it('以保存的憑證還原登入', async () => {
+    const manager = createUserManager();
+    expect(await manager.restoreSession('session-1')).toBe(true);
+    expect(manager.isLoggedIn()).toBe(true);
+    expect(manager.getCurrentUser()?.id).toBe('42');
+    expect(server.state.requests).toEqual(['users.getSelf']);
+    expect((await manager.getUserChannels()).map((c) => c.id)).toEqual(['100', '200']);
+  });
+
+  it('憑證已撤銷時還原失敗，網路錯誤時拋出錯誤', async () => {
+    const revoked = createUserManager();
+    const events: string[] = [];
+    revoked.subscribe((event) => events.push(event));
+    expect(await revoked.restoreSession('revoked-session')).toBe(false);
+    expect(revoked.isLoggedIn()).toBe(false);
+    expect(events).toEqual(['session-expired']);
+
+    const offline = new TelegramIntegrationManager({
+      botToken: '',
+      apiEndpoint: server.url,
+      maxRetries: 0,
+      timeout: 2000,
+      gateway: new HttpTelegramGateway('http://127.0.0.1:1/gateway', { maxRetries: 0, timeout: 2000 }),
+    });
+    await expect(offline.restoreSession('session-1')).rejects.toThrow();
+    expect(offline.isLoggedIn()).toBe(false);
+  });
+
+  it('透過閘道瀏覽頻道與影片', async () => {
+    const manager = createUserManager();
+    await manager.authenticate('+886912345678');
+    await manager.verifyCode('+886912345678', '12345');
+
+    expect((await manager.getUserChannels()).map((c) => c.id)).toEqual(['100', '200']);
+    expect((await manager.searchChannels('電影')).map((c) => c.id)).toEqual(['100']);
+    expect(manager.getCachedChannel('200')?.title).toBe('私人收藏');
+
+    const { messages } = await manager.getChannelVideos('100', 1, 3);
+    expect(messages.map((v) => v.id)).toEqual(['100:1']);
+    expect(await manager.getVideoStreamUrl('100:1', 'f1')).toBe('https://gateway.test/file/100/1');
+  });
+
+  it('登出後清除閘道憑證', async () => {
+    const manager = createUserManager();
+    await manager.authenticate('+886912345678');
+    await manager.verifyCode('+886912345678', '12345');
+
+    manager.logout();
+    expect(manager.isLoggedIn()).toBe(false);
+    await vi.waitFor(() => expect(server.state.requests).toContain('auth.logOut'));
+    await expect(manager.getUserChannels()).rejects.toThrow('未登入');
+  });
+});
+
+function historyVideo(channelId: string, messageId: number): TelegramMessage {
+  return {
+    id: `${channelId}:${messageId}`,
+    messageId,
+    channelId,
+    timestamp: messageId * 1000,
+    video: { fileId: `f${messageId}`, fileSize: 1, duration: 10, width: 1920, height: 1080, mimeType: 'video/mp4' },
+  };
+}
+
+describe('頻道影片分頁與增量同步', () => {
+  let server: MockTelegramServer;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server = await startMockTelegramServer();
+    // 訊息 1-10，由新到舊
+    server.state.gateway.history['100'] = Array.from({ length: 10 }, (_, i) => historyVideo('100', 10 - i));
+  });
+
+  afterEach(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  async function login(storage: TelegramCacheStorage) {
+    const manager = new TelegramIntegrationManager({
+      botToken: '',
+      apiEndpoint: server.url,
+      maxRetries: 0,
+      timeout: 2000,
+      storage,
+      gateway: new HttpTelegramGateway(`${server.url}/gateway`, { maxRetries: 0, timeout: 2000 }),
+    });
+    await manager.authenticate('+886912345678');
+    await manager.verifyCode('+886912345678', '12345');
+    return manager;
+  }
+
+  const ids = (messages: TelegramMessage[]) => messages.map((m) => m.messageId);
+
+  it('以 messageId 游標向伺服器分頁', async () => {
+    const manager = await login(createMemoryCacheStorage());
+
+    const first = await manager.getChannelVideos('100', 4);
+    expect(ids(first.messages)).toEqual([10, 9, 8, 7]);
+    expect(first.nextCursor).toBe(7);
+
+    const second = await manager.getChannelVideos('100', 4, 7);
+    expect(ids(second.messages)).toEqual([6, 5, 4, 3]);
+
+    const last = await manager.getChannelVideos('100', 4, 3);
+    expect(ids(last.messages)).toEqual([2, 1]);
+    expect(last.nextCursor).toBeNull();
+    expect(server.state.historyQueries.map((q) => q.offsetId)).toEqual([0, 7, 3]);
+  });
+
+  it('已快取的頁面不再向伺服器取得，只同步較新的影片', async () => {
+    const storage = createMemoryCacheStorage();
+    const manager = await login(storage);
+    await manager.getChannelVideos('100', 4);
+    await manager.getChannelVideos('100', 4, 7);
+
+    server.state.gateway.history['100'].unshift(historyVideo('100', 12), historyVideo('100', 11));
+    server.state.historyQueries = [];
+
+    // 重新登入後快取仍在
+    const reopened = await login(storage);
+    const first = await reopened.getChannelVideos('100', 4);
+    expect(ids(first.messages)).toEqual([12, 11, 10, 9]);
+    expect(server.state.historyQueries).toEqual([
+      expect.objectContaining({ offsetId: 0, minId: 10 }),
+    ]);
+
+    server.state.historyQueries = [];
+    const second = await reopened.getChannelVideos('100', 4, 9);
+    expect(ids(second.messages)).toEqual([8, 7, 6, 5]);
+    expect(server.state.historyQueries).toEqual([]);
+  });
+
+  it('離線時回傳快取的影片', async () => {
+    const manager = await login(createMemoryCacheStorage());
+    await manager.getChannelVideos('100', 4);
+
+    server.state.failures.push({ status: 500 });
+    const page = await manager.getChannelVideos('100', 4);
+    expect(ids(page.messages)).toEqual([10, 9, 8, 7]);
+    expect(page.nextCursor).toBe(7);
+
+    // 快取只剩不足一頁時沒有下一頁
+    server.state.failures.push({ status: 500 });
+    const last = await manager.getChannelVideos('100', 4, 8);
+    expect(ids(last.messages)).toEqual([7]);
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it('機器人模式的頻道與貼文保存在快取', async () => {
+    const storage = createMemoryCacheStorage();
+    server.state.updates = [
+      { update_id: 1, channel_post: videoPost(10) },
+      { update_id: 2, channel_post: videoPost(12) },
+    ];
+    const first = createBotManager(server, server.state.botToken, storage);
+    await first.connectBot();
+    await first.syncUpdates();
+
+    const second = createBotManager(server, server.state.botToken, storage);
+    await second.connectBot();
+    expect((await second.getUserChannels()).map((c) => c.id)).toEqual(['-1001']);
+    expect(ids((await second.getChannelVideos('-1001')).messages)).toEqual([12, 10]);
+  });
+});
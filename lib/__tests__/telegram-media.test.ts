@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canStreamTelegramVideo,
+  detectTelegramVideoLayout,
+  groupTelegramVideos,
+  isTelegramVideoMessage,
+  parseSplitFileName,
+} from '../telegram-media';
+import { readZipEntries, getZipEntryDataOffset } from '../zip-reader';
+import type { TelegramMessage } from '../telegram-integration';
+import { createStoredZip } from './telegram-mock-server';
+
+function documentPost(messageId: number, fileName: string, fileSize = 100, caption?: string): TelegramMessage {
+  return {
+    id: `-1001:${messageId}`,
+    messageId,
+    channelId: '-1001',
+    timestamp: messageId * 1000,
+    caption,
+    document: { fileId: `doc-${messageId}`, fileSize, fileName, mimeType: 'application/octet-stream' },
+  };
+}
+
+describe('detectTelegramVideoLayout', () => {
+  const base: TelegramMessage = { id: '1:1', messageId: 1, channelId: '1', timestamp: 0 };
+  const video = { fileId: 'f', fileSize: 1, duration: 1, width: 1920, height: 1080, mimeType: 'video/mp4' };
+
+  it('優先使用檔名，其次為說明文字', () => {
+    expect(
+      detectTelegramVideoLayout({ ...base, caption: '360 全景', video: { ...video, fileName: 'movie_SBS.mp4' } })
+    ).toEqual({ stereo: 'sbs', projection: 'flat' });
+    expect(
+      detectTelegramVideoLayout({ ...base, caption: '海底世界 VR180', video: { ...video, fileName: 'clip.mp4' } })
+    ).toEqual({ stereo: 'sbs', projection: 'equirect-180' });
+  });
+
+  it('無標記時以 2:1 畫面比例判斷為 360°', () => {
+    expect(detectTelegramVideoLayout({ ...base, video: { ...video, width: 3840, height: 1920 } })).toEqual({
+      stereo: 'mono',
+      projection: 'equirect-360',
+    });
+    expect(detectTelegramVideoLayout({ ...base, video })).toEqual({ stereo: 'mono', projection: 'flat' });
+  });
+
+  it('分割檔以合併後的檔名判斷', () => {
+    expect(detectTelegramVideoLayout(documentPost(1, 'Movie.3D.HSBS.mkv.001'))).toEqual({
+      stereo: 'half-sbs',
+      projection: 'flat',
+    });
+  });
+});
+
+describe('影片文件與分割檔', () => {
+  it('解析分割檔名', () => {
+    expect(parseSplitFileName('movie.mp4.001')).toEqual({ baseName: 'movie.mp4', index: 1 });
+    expect(parseSplitFileName('movie_TB.zip.012')).toEqual({ baseName: 'movie_TB.zip', index: 12 });
+    expect(parseSplitFileName('movie.part2.mkv')).toEqual({ baseName: 'movie.mkv', index: 2 });
+    expect(parseSplitFileName('movie.mp4')).toBeNull();
+  });
+
+  it('辨識影片類型的文件、ZIP 與分割檔，略過其他文件', () => {
+    expect(isTelegramVideoMessage(documentPost(1, 'clip.mkv'))).toBe(true);
+    expect(isTelegramVideoMessage(documentPost(1, 'clip.zip'))).toBe(true);
+    expect(isTelegramVideoMessage(documentPost(1, 'clip.mp4.002'))).toBe(true);
+    expect(isTelegramVideoMessage(documentPost(1, 'notes.pdf'))).toBe(false);
+    expect(isTelegramVideoMessage(documentPost(1, 'notes.pdf.001'))).toBe(false);
+
+    const streamed = documentPost(1, 'stream');
+    streamed.document!.mimeType = 'video/mp4';
+    expect(isTelegramVideoMessage(streamed)).toBe(true);
+  });
+
+  it('合併連續發佈的分割檔，說明文字可在任一部分', () => {
+    const items = groupTelegramVideos([
+      documentPost(14, 'other.mp4'),
+      documentPost(12, 'movie.mp4.002', 40),
+      documentPost(11, 'movie.mp4.001', 100, '深海探險 360 3D TB'),
+      { id: '-1001:13', messageId: 13, channelId: '-1001', timestamp: 0, text: '公告' },
+    ]);
+
+    expect(items.map((item) => item.id)).toEqual(['-1001:14', '-1001:11']);
+    expect(items[1]).toMatchObject({
+      fileName: 'movie.mp4',
+      fileSize: 140,
+      isArchive: false,
+      isComplete: true,
+      layout: { stereo: 'tb', projection: 'equirect-360' },
+    });
+    expect(items[1].parts.map((part) => part.messageId)).toEqual([11, 12]);
+    expect(canStreamTelegramVideo(items[0])).toBe(true);
+    expect(canStreamTelegramVideo(items[1])).toBe(false);
+  });
+
+  it('缺少第一部分或可能仍有後續部分時視為不完整', () => {
+    // 較舊的第一部分還在下一頁
+    expect(groupTelegramVideos([documentPost(21, 'a.mp4.002', 40)])[0].isComplete).toBe(false);
+    // 大小相同且之後沒有其他貼文，可能還有第三部分
+    expect(
+      groupTelegramVideos([documentPost(31, 'b.mp4.001'), documentPost(32, 'b.mp4.002')])[0].isComplete
+    ).toBe(false);
+    // 之後有其他貼文時，上傳中的部分仍可能出現在後面
+    expect(
+      groupTelegramVideos([
+        documentPost(33, 'd.mp4.001'),
+        documentPost(34, 'd.mp4.002'),
+        documentPost(35, 'other.mp4'),
+      ]).find((item) => item.fileName === 'd.mp4')?.isComplete
+    ).toBe(false);
+    // 編號不連續或相隔太遠則分為不同項目
+    const separated = groupTelegramVideos([documentPost(41, 'c.mp4.001'), documentPost(80, 'c.mp4.002', 40)]);
+    expect(separated).toHaveLength(2);
+  });
+
+  it('分割的 ZIP 標記為壓縮檔', () => {
+    const [item] = groupTelegramVideos([
+      documentPost(51, 'pack_SBS.zip.001'),
+      documentPost(52, 'pack_SBS.zip.002', 10),
+    ]);
+    expect(item).toMatchObject({ fileName: 'pack_SBS.zip', isArchive: true, isComplete: true });
+    expect(item.layout).toEqual({ stereo: 'sbs', projection: 'flat' });
+  });
+});
+
+describe('readZipEntries', () => {
+  it('從中央目錄找到項目與資料位置', async () => {
+    const zip = createStoredZip({
+      'readme.txt': new TextEncoder().encode('hi'),
+      'movie.mp4': new TextEncoder().encode('0123456789'),
+    });
+    const read = async (start: number, end: number) => zip.slice(start, end);
+
+    const entries = await readZipEntries(read, zip.length);
+    expect(entries.map((e) => [e.name, e.method, e.uncompressedSize])).toEqual([
+      ['readme.txt', 0, 2],
+      ['movie.mp4', 0, 10],
+    ]);
+    const offset = await getZipEntryDataOffset(read, entries[1]);
+    expect(new TextDecoder().decode(zip.slice(offset, offset + 10))).toBe('0123456789');
+
+    await expect(readZipEntries(read, 10)).rejects.toThrow('不是有效的 ZIP');
+  });
+});
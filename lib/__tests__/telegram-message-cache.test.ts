@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_CACHED_MESSAGES_PER_CHANNEL,
+  TelegramMessageCache,
+  createMemoryCacheStorage,
+} from '../telegram-message-cache';
+import type { TelegramMessage } from '../telegram-integration';
+
+function message(messageId: number, caption?: string): TelegramMessage {
+  return { id: `1:${messageId}`, messageId, channelId: '1', timestamp: messageId, caption };
+}
+
+const ids = (messages: TelegramMessage[]) => messages.map((m) => m.messageId);
+
+describe('TelegramMessageCache', () => {
+  it('合併訊息並依 messageId 由新到舊排序', async () => {
+    const cache = new TelegramMessageCache(createMemoryCacheStorage(), 'user1');
+    await cache.addOlder('1', [message(9), message(8)], false);
+    await cache.addOlder('1', [message(7), message(6)], true);
+    await cache.addNewer('1', [message(10)], true);
+
+    expect(ids(await cache.getMessages('1', 10))).toEqual([10, 9, 8, 7, 6]);
+    expect(ids(await cache.getMessages('1', 2, 8))).toEqual([7, 6]);
+    expect((await cache.getChannelCache('1')).reachedEnd).toBe(true);
+    expect(await cache.getNewestMessageId('1')).toBe(10);
+  });
+
+  it('新訊息不連續時捨棄舊快取', async () => {
+    const cache = new TelegramMessageCache(createMemoryCacheStorage(), 'user1');
+    await cache.addOlder('1', [message(5), message(4)], true);
+    await cache.addNewer('1', [message(20), message(19)], false);
+
+    const { messages, reachedEnd } = await cache.getChannelCache('1');
+    expect(ids(messages)).toEqual([20, 19]);
+    expect(reachedEnd).toBe(false);
+  });
+
+  it('已編輯的貼文以新版本取代', async () => {
+    const cache = new TelegramMessageCache(createMemoryCacheStorage(), 'bot1');
+    await cache.upsert('1', [message(3, '舊說明')]);
+    await cache.upsert('1', [message(3, '新說明')]);
+
+    expect((await cache.getMessages('1', 10)).map((m) => m.caption)).toEqual(['新說明']);
+  });
+
+  it('保存到儲存並依帳號區分', async () => {
+    const storage = createMemoryCacheStorage();
+    await new TelegramMessageCache(storage, 'user1').addOlder('1', [message(2)], true);
+
+    expect(ids(await new TelegramMessageCache(storage, 'user1').getMessages('1', 10))).toEqual([2]);
+    expect(await new TelegramMessageCache(storage, 'user2').getMessages('1', 10)).toEqual([]);
+  });
+
+  it('超過上限時捨棄最舊的訊息', async () => {
+    const cache = new TelegramMessageCache(createMemoryCacheStorage(), 'user1');
+    const messages = Array.from({ length: MAX_CACHED_MESSAGES_PER_CHANNEL + 5 }, (_, i) => message(i + 1));
+    await cache.addOlder('1', messages, true);
+
+    const cached = await cache.getChannelCache('1');
+    expect(cached.messages).toHaveLength(MAX_CACHED_MESSAGES_PER_CHANNEL);
+    expect(cached.messages.at(-1)?.messageId).toBe(6);
+    expect(cached.reachedEnd).toBe(false);
+  });
+
+  it('清除所有快取', async () => {
+    const storage = createMemoryCacheStorage();
+    const cache = new TelegramMessageCache(storage, 'user1');
+    await cache.addOlder('1', [message(2)], true);
+    await cache.setChannels([{ id: '1', title: '頻道', isPrivate: true }]);
+    await cache.clear();
+
+    const reopened = new TelegramMessageCache(storage, 'user1');
+    expect(await reopened.getMessages('1', 10)).toEqual([]);
+    expect(await reopened.getChannels()).toEqual([]);
+  });
+});
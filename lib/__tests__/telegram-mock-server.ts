@@ -0,0 +1,311 @@
+/**
+ * 測試用的本機 Telegram 伺服器
+ * 模擬 Bot API（/bot{token}/{method}、支援 Range 的 /file/bot{token}/{path}）與使用者帳號閘道（/gateway/{method}）
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { BotApiChat, BotApiUpdate } from '../telegram-bot-api';
+import type { TelegramChannel, TelegramMessage } from '../telegram-integration';
+
+export interface MockTelegramState {
+  botToken: string;
+  updates: BotApiUpdate[];
+  publicChats: BotApiChat[];
+  /** file_id → file_path */
+  files: Record<string, string>;
+  /** file_path → 檔案內容（未指定時回傳固定內容） */
+  fileContents: Record<string, Uint8Array>;
+  /** 是否支援 Range 請求 */
+  supportsRange: boolean;
+  /** 下一次檔案下載回傳的 HTTP 狀態（用於測試重試） */
+  fileFailures: number[];
+  /** 收到的 Range 標頭 */
+  rangeRequests: string[];
+  /** 下一次請求回傳的錯誤（用於測試重試） */
+  failures: { status: number; retryAfter?: number }[];
+  gateway: {
+    phoneCode: string;
+    /** 兩步驟驗證密碼（未設定時不需要） */
+    password?: string;
+    session: string;
+    dialogs: TelegramChannel[];
+    history: Record<string, TelegramMessage[]>;
+  };
+  /** 收到的請求（方法名稱） */
+  requests: string[];
+  /** messages.getHistory 收到的參數 */
+  historyQueries: JsonObject[];
+}
+
+export interface MockTelegramServer {
+  url: string;
+  state: MockTelegramState;
+  close(): Promise<void>;
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface MockResponse {
+  status: number;
+  body: JsonObject;
+}
+
+const MOCK_USER = { id: '42', firstName: '測試' };
+
+const ok = (result: unknown): MockResponse => ({ status: 200, body: { ok: true, result } });
+const fail = (status: number, description: string): MockResponse => ({
+  status,
+  body: { ok: false, error_code: status, description },
+});
+
+async function readJson(req: IncomingMessage): Promise<JsonObject> {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : {};
+}
+
+function handleBotMethod(state: MockTelegramState, method: string, params: JsonObject): MockResponse {
+  switch (method) {
+    case 'getMe':
+      return ok({ id: 1, is_bot: true, first_name: 'VR Bot', username: 'vr_test_bot' });
+    case 'getUpdates': {
+      const offset = Number(params.offset ?? 0);
+      // 與 Bot API 相同：offset 確認之前的更新
+      state.updates = state.updates.filter((u) => u.update_id >= offset);
+      return ok(state.updates.slice(0, Number(params.limit ?? 100)));
+    }
+    case 'getChat': {
+      const username = String(params.chat_id).replace(/^@/, '');
+      const chat = state.publicChats.find(
+        (c) => c.username === username || String(c.id) === String(params.chat_id)
+      );
+      return chat ? ok(chat) : fail(400, 'Bad Request: chat not found');
+    }
+    case 'getChatMemberCount':
+      return ok(1234);
+    case 'getFile': {
+      const fileId = String(params.file_id);
+      const path = state.files[fileId];
+      return path
+        ? ok({ file_id: fileId, file_unique_id: 'u', file_path: path })
+        : fail(400, 'Bad Request: file is too big');
+    }
+    default:
+      return fail(404, 'Not Found');
+  }
+}
+
+function handleGatewayMethod(
+  state: MockTelegramState,
+  method: string,
+  params: JsonObject,
+  authorization?: string
+): MockResponse {
+  const { gateway } = state;
+  if (method === 'auth.sendCode') return ok({ phoneCodeHash: `hash:${params.phoneNumber}` });
+  if (method === 'auth.signIn') {
+    if (params.phoneCodeHash !== `hash:${params.phoneNumber}`) return fail(400, 'PHONE_CODE_HASH_INVALID');
+    if (params.phoneCode !== gateway.phoneCode) return fail(400, 'PHONE_CODE_INVALID');
+    if (gateway.password) return fail(401, 'SESSION_PASSWORD_NEEDED');
+    return ok({ session: gateway.session, user: MOCK_USER });
+  }
+  if (method === 'auth.checkPassword') {
+    if (!gateway.password || !params.phoneCodeHash) return fail(400, 'PASSWORD_HASH_INVALID');
+    if (params.password !== gateway.password) return fail(400, 'PASSWORD_HASH_INVALID');
+    return ok({ session: gateway.session, user: MOCK_USER });
+  }
+  if (authorization !== `Bearer ${gateway.session}`) return fail(401, 'AUTH_KEY_UNREGISTERED');
+
+  switch (method) {
+    case 'auth.logOut':
+      return ok(true);
+    case 'users.getSelf':
+      return ok(MOCK_USER);
+    case 'messages.getDialogs':
+      return ok(gateway.dialogs);
+    case 'contacts.search':
+      return ok(gateway.dialogs.filter((d) => d.title.includes(String(params.query))));
+    case 'messages.getHistory': {
+      state.historyQueries.push(params);
+      const offsetId = Number(params.offsetId ?? 0);
+      const minId = Number(params.minId ?? 0);
+      const history = (gateway.history[String(params.channelId)] ?? []).filter(
+        (m) =>
+          (!params.mediaOnly || m.video || m.document) &&
+          (!offsetId || m.messageId < offsetId) &&
+          (!minId || m.messageId > minId)
+      );
+      const start = Number(params.addOffset ?? 0);
+      return ok(history.slice(start, start + Number(params.limit ?? history.length)));
+    }
+    case 'upload.getFileUrl':
+      return ok({ url: `https://gateway.test/file/${params.channelId}/${params.messageId}` });
+    default:
+      return fail(404, 'Not Found');
+  }
+}
+
+function serveFile(
+  state: MockTelegramState,
+  token: string,
+  path: string,
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  const failure = state.fileFailures.shift();
+  if (token !== state.botToken || failure) {
+    res.writeHead(failure ?? 404);
+    res.end();
+    return;
+  }
+
+  const content = state.fileContents[path] ?? new TextEncoder().encode('video-bytes');
+  const range = req.headers.range;
+  if (range) state.rangeRequests.push(range);
+  const match = range?.match(/^bytes=(\d+)-(\d*)$/);
+  if (!state.supportsRange || !match) {
+    res.writeHead(200, { 'Content-Type': 'video/mp4', 'Content-Length': content.length });
+    res.end(Buffer.from(content));
+    return;
+  }
+
+  const start = Number(match[1]);
+  const end = Math.min(match[2] ? Number(match[2]) : content.length - 1, content.length - 1);
+  if (start >= content.length) {
+    res.writeHead(416, { 'Content-Range': `bytes */${content.length}` });
+    res.end();
+    return;
+  }
+  res.writeHead(206, {
+    'Content-Type': 'video/mp4',
+    'Content-Range': `bytes ${start}-${end}/${content.length}`,
+    'Content-Length': end - start + 1,
+  });
+  res.end(Buffer.from(content.subarray(start, end + 1)));
+}
+
+/**
+ * 啟動伺服器（隨機埠）
+ */
+export async function startMockTelegramServer(
+  state: Partial<MockTelegramState> = {}
+): Promise<MockTelegramServer> {
+  const fullState: MockTelegramState = {
+    botToken: '123:TEST',
+    updates: [],
+    publicChats: [],
+    files: {},
+    fileContents: {},
+    supportsRange: true,
+    fileFailures: [],
+    rangeRequests: [],
+    failures: [],
+    gateway: { phoneCode: '12345', session: 'session-1', dialogs: [], history: {} },
+    requests: [],
+    historyQueries: [],
+    ...state,
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    const path = req.url ?? '/';
+    const fileMatch = path.match(/^\/file\/bot([^/]+)\/(.+)$/);
+    if (req.method === 'GET' && fileMatch) {
+      serveFile(fullState, fileMatch[1], fileMatch[2], req, res);
+      return;
+    }
+
+    const params = await readJson(req);
+    const botMatch = path.match(/^\/bot([^/]+)\/(\w+)$/);
+    const gatewayMatch = path.match(/^\/gateway\/([\w.]+)$/);
+    const method = botMatch?.[2] ?? gatewayMatch?.[1] ?? path;
+    fullState.requests.push(method);
+
+    let response: MockResponse;
+    const failure = fullState.failures.shift();
+    if (failure) {
+      response = fail(failure.status, 'Too Many Requests');
+      if (failure.retryAfter !== undefined) {
+        response.body.parameters = { retry_after: failure.retryAfter };
+      }
+    } else if (botMatch) {
+      response =
+        botMatch[1] === fullState.botToken
+          ? handleBotMethod(fullState, method, params)
+          : fail(401, 'Unauthorized');
+    } else if (gatewayMatch) {
+      response = handleGatewayMethod(fullState, method, params, req.headers.authorization);
+    } else {
+      response = fail(404, 'Not Found');
+    }
+
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    state: fullState,
+    close: () =>
+      new Promise((resolve) => {
+        server.close(() => resolve());
+        // fetch 會保持連線，直接關閉以免等待逾時
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * 建立以「儲存」方式加入檔案的 ZIP
+ */
+export function createStoredZip(files: Record<string, Uint8Array>): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, data] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const directorySize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const eocdView = new DataView(eocd.buffer);
+  eocdView.setUint32(0, 0x06054b50, true);
+  eocdView.setUint16(8, centrals.length, true);
+  eocdView.setUint16(10, centrals.length, true);
+  eocdView.setUint32(12, directorySize, true);
+  eocdView.setUint32(16, offset, true);
+
+  const zip = new Uint8Array(offset + directorySize + eocd.length);
+  let position = 0;
+  [...locals, ...centrals, eocd].forEach((chunk) => {
+    zip.set(chunk, position);
+    position += chunk.length;
+  });
+  return zip;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  TelegramSessionStore,
+  getTelegramAccountId,
+  type SecureKeyValueStore,
+} from '../telegram-session-store';
+
+function createMemorySecureStore() {
+  const data = new Map<string, string>();
+  const store: SecureKeyValueStore = {
+    getItemAsync: async (key) => data.get(key) ?? null,
+    setItemAsync: async (key, value) => {
+      data.set(key, value);
+    },
+    deleteItemAsync: async (key) => {
+      data.delete(key);
+    },
+  };
+  return { data, store };
+}
+
+describe('TelegramSessionStore', () => {
+  it('帳號 ID 只包含安全儲存允許的字元', () => {
+    expect(getTelegramAccountId('bot', 123)).toBe('bot_123');
+    expect(getTelegramAccountId('user', 'a:b/c')).toBe('user_a_b_c');
+  });
+
+  it('保存帳號後設為目前帳號，憑證與帳號資料分開保存', async () => {
+    const { data, store } = createMemorySecureStore();
+    const sessions = new TelegramSessionStore(store);
+
+    await sessions.saveAccount({ id: 'bot_1', mode: 'bot', name: 'VR Bot' }, '1:TOKEN');
+    expect(await sessions.getSecret('bot_1')).toBe('1:TOKEN');
+    expect((await sessions.getActiveAccount())?.id).toBe('bot_1');
+    expect(data.get('vr_telegram_account_bot_1')).not.toContain('1:TOKEN');
+  });
+
+  it('每個帳號各自保存，索引只有帳號 ID', async () => {
+    const { data, store } = createMemorySecureStore();
+    const sessions = new TelegramSessionStore(store);
+
+    for (let i = 0; i < 30; i++) {
+      await sessions.saveAccount({ id: `user_${i}`, mode: 'user', name: '測試'.repeat(20) }, 'session');
+    }
+    await sessions.saveAccount({ id: 'user_0', mode: 'user', name: '測試' }, 'session');
+
+    expect(await sessions.listAccounts()).toHaveLength(30);
+    expect(JSON.parse(data.get('vr_telegram_account_ids')!)).toHaveLength(30);
+    // 安全儲存的單一值限制約 2 KB
+    expect(Math.max(...Array.from(data.values(), (value) => value.length))).toBeLessThan(2048);
+  });
+
+  it('多個帳號依最近使用排序並可切換', async () => {
+    vi.useFakeTimers();
+    try {
+      const { store } = createMemorySecureStore();
+      const sessions = new TelegramSessionStore(store);
+
+      vi.setSystemTime(1000);
+      await sessions.saveAccount({ id: 'bot_1', mode: 'bot', name: 'VR Bot' }, '1:TOKEN');
+      vi.setSystemTime(2000);
+      await sessions.saveAccount({ id: 'user_42', mode: 'user', name: '測試' }, 'session-1');
+      expect((await sessions.listAccounts()).map((a) => a.id)).toEqual(['user_42', 'bot_1']);
+
+      vi.setSystemTime(3000);
+      await sessions.setActiveAccount('bot_1');
+      expect((await sessions.getActiveAccount())?.id).toBe('bot_1');
+      expect((await sessions.listAccounts()).map((a) => a.id)).toEqual(['bot_1', 'user_42']);
+
+      // 重新登入同一帳號時保留加入時間
+      await sessions.saveAccount({ id: 'bot_1', mode: 'bot', name: 'VR Bot' }, '1:NEW');
+      expect((await sessions.listAccounts())[0]).toMatchObject({ addedAt: 1000, lastUsedAt: 3000 });
+      expect(await sessions.getSecret('bot_1')).toBe('1:NEW');
+
+      await expect(sessions.setActiveAccount('user_99')).rejects.toThrow('找不到');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('移除帳號時刪除憑證，目前帳號被移除後沒有目前帳號', async () => {
+    const { data, store } = createMemorySecureStore();
+    const sessions = new TelegramSessionStore(store);
+    await sessions.saveAccount({ id: 'bot_1', mode: 'bot', name: 'VR Bot' }, '1:TOKEN');
+    await sessions.saveAccount({ id: 'user_42', mode: 'user', name: '測試' }, 'session-1');
+
+    await sessions.removeAccount('user_42');
+    expect(data.has('vr_telegram_secret_user_42')).toBe(false);
+    expect(await sessions.getActiveAccount()).toBeNull();
+    expect((await sessions.listAccounts()).map((a) => a.id)).toEqual(['bot_1']);
+
+    await sessions.setActiveAccount(null);
+    expect(await sessions.getActiveAccount()).toBeNull();
+  });
+});
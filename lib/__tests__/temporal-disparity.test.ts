@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TemporalDisparitySession,
+  computeLuminanceHistogram,
+  histogramDifference,
+} from '../temporal-disparity';
+import type { PixelBuffer, SBSConversionOptions } from '../video-processing';
+
+const conversion: SBSConversionOptions = {
+  pupilDistance: 65,
+  brightness: 1,
+  contrast: 1,
+  saturation: 1,
+  separationStrength: 1,
+  parallax: 50,
+  depthMode: 'external',
+};
+
+function solidImage(width: number, height: number, value: number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([value, value, value, 255], i * 4);
+  }
+  return { data, width, height };
+}
+
+function depthOf(length: number, value: number) {
+  return new Float32Array(length).fill(value);
+}
+
+describe('Temporal disparity smoothing', () => {
+  it('應該計算正規化的亮度直方圖與差異', () => {
+    const dark = computeLuminanceHistogram(solidImage(4, 4, 10), 8);
+    const bright = computeLuminanceHistogram(solidImage(4, 4, 240), 8);
+
+    expect(dark.reduce((sum, v) => sum + v, 0)).toBeCloseTo(1);
+    expect(histogramDifference(dark, dark)).toBe(0);
+    expect(histogramDifference(dark, bright)).toBeCloseTo(1);
+  });
+
+  it('應該平滑同一場景中跳動的深度', () => {
+    const session = new TemporalDisparitySession({ smoothing: 0.75, maxDepthStep: 1 });
+    const image = solidImage(8, 4, 120);
+
+    const first = session.processFrame(image, { ...conversion, depthMap: depthOf(32, 0.2) });
+    const second = session.processFrame(image, { ...conversion, depthMap: depthOf(32, 1) });
+
+    expect(first.sceneCut).toBe(true);
+    expect(second.sceneCut).toBe(false);
+    expect(second.depth[0]).toBeCloseTo(0.4); // 0.2 + (1 - 0.2) * 0.25
+    expect(second.frame.width).toBe(16);
+  });
+
+  it('應該限制每幀深度的最大變化量', () => {
+    const session = new TemporalDisparitySession({ smoothing: 0, maxDepthStep: 0.1 });
+    const image = solidImage(4, 4, 120);
+
+    session.processFrame(image, { ...conversion, depthMap: depthOf(16, 0) });
+    const result = session.processFrame(image, { ...conversion, depthMap: depthOf(16, 1) });
+
+    expect(result.depth[0]).toBeCloseTo(0.1);
+  });
+
+  it('場景切換時應該重置深度', () => {
+    const session = new TemporalDisparitySession({ smoothing: 0.9, sceneCutThreshold: 0.5 });
+
+    session.processFrame(solidImage(4, 4, 20), { ...conversion, depthMap: depthOf(16, 0.1) });
+    const cut = session.processFrame(solidImage(4, 4, 230), { ...conversion, depthMap: depthOf(16, 0.9) });
+
+    expect(cut.sceneCut).toBe(true);
+    expect(cut.histogramDelta).toBeGreaterThan(0.5);
+    expect(cut.depth[0]).toBeCloseTo(0.9);
+    expect(session.getStats()).toEqual({ frameCount: 2, sceneCount: 2 });
+  });
+
+  it('估算深度時應該降低逐幀閃爍', () => {
+    const width = 16;
+    const height = 8;
+    const noisy = (seed: number): PixelBuffer => {
+      const image = solidImage(width, height, 0);
+      for (let i = 0; i < width * height; i++) {
+        const value = 100 + ((i * 37 + seed * 53) % 40);
+        image.data.set([value, value, value], i * 4);
+      }
+      return image;
+    };
+    const estimated = { ...conversion, depthMode: 'estimated' as const };
+
+    const smoothed = new TemporalDisparitySession({ smoothing: 0.8 });
+    const raw = new TemporalDisparitySession({ smoothing: 0, maxDepthStep: 1 });
+    let smoothedChange = 0;
+    let rawChange = 0;
+    let prevSmoothed: Float32Array | null = null;
+    let prevRaw: Float32Array | null = null;
+
+    for (let frame = 0; frame < 6; frame++) {
+      const a = smoothed.processFrame(noisy(frame), estimated).depth;
+      const b = raw.processFrame(noisy(frame), estimated).depth;
+      if (prevSmoothed && prevRaw) {
+        for (let i = 0; i < a.length; i++) {
+          smoothedChange += Math.abs(a[i] - prevSmoothed[i]);
+          rawChange += Math.abs(b[i] - prevRaw[i]);
+        }
+      }
+      prevSmoothed = a;
+      prevRaw = b;
+    }
+
+    expect(smoothedChange).toBeLessThan(rawChange * 0.5);
+  });
+});
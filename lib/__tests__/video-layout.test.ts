@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectVideoLayout,
+  getEyeAspectCorrection,
+  getEyeDisplayAspect,
+  getEyeFrameRect,
+  getEyeRegion,
+  layoutToVideoType,
+  videoTypeToLayout,
+  type StereoLayout,
+  type VideoLayout,
+  type VideoType,
+} from '../video-layout';
+
+describe('detectVideoLayout', () => {
+  it.each<[string, VideoLayout]>([
+    ['vacation.mp4', { stereo: 'mono', projection: 'flat' }],
+    ['Movie_SBS.mkv', { stereo: 'sbs', projection: 'flat' }],
+    ['Movie_LR.mp4', { stereo: 'sbs', projection: 'flat' }],
+    ['Concert.3D.mp4', { stereo: 'sbs', projection: 'flat' }],
+    ['Movie_TB.mp4', { stereo: 'tb', projection: 'flat' }],
+    ['Movie.OU.mkv', { stereo: 'tb', projection: 'flat' }],
+    ['Movie_HSBS.mp4', { stereo: 'half-sbs', projection: 'flat' }],
+    ['Movie_3DH.mkv', { stereo: 'half-sbs', projection: 'flat' }],
+    ['Movie.Half-SBS.mkv', { stereo: 'half-sbs', projection: 'flat' }],
+    ['Movie.Half-OU.mkv', { stereo: 'half-tb', projection: 'flat' }],
+    ['Beach_360.mp4', { stereo: 'mono', projection: 'equirect-360' }],
+    ['Beach_360_TB.mp4', { stereo: 'tb', projection: 'equirect-360' }],
+    ['Dive_180.mp4', { stereo: 'sbs', projection: 'equirect-180' }],
+    ['Dive_VR180_LR.mp4', { stereo: 'sbs', projection: 'equirect-180' }],
+    ['Dive_180_TB.mp4', { stereo: 'tb', projection: 'equirect-180' }],
+    ['Cave_Fisheye_SBS.mp4', { stereo: 'sbs', projection: 'fisheye' }],
+    ['City_EAC.mp4', { stereo: 'mono', projection: 'cubemap' }],
+  ])('%s', (filename, expected) => {
+    expect(detectVideoLayout(filename)).toEqual(expected);
+  });
+
+  it('不應該從一般單字誤判排列', () => {
+    expect(detectVideoLayout('lrmonkey_tbd.mp4')).toEqual({ stereo: 'mono', projection: 'flat' });
+    expect(detectVideoLayout('Alpha1800.mp4')).toEqual({ stereo: 'mono', projection: 'flat' });
+  });
+});
+
+describe('getEyeRegion', () => {
+  it.each<[StereoLayout, 'left' | 'right', ReturnType<typeof getEyeRegion>]>([
+    ['mono', 'left', { x: 0, y: 0, width: 1, height: 1 }],
+    ['mono', 'right', { x: 0, y: 0, width: 1, height: 1 }],
+    ['sbs', 'left', { x: 0, y: 0, width: 0.5, height: 1 }],
+    ['sbs', 'right', { x: 0.5, y: 0, width: 0.5, height: 1 }],
+    ['half-sbs', 'right', { x: 0.5, y: 0, width: 0.5, height: 1 }],
+    ['tb', 'left', { x: 0, y: 0, width: 1, height: 0.5 }],
+    ['tb', 'right', { x: 0, y: 0.5, width: 1, height: 0.5 }],
+    ['half-tb', 'right', { x: 0, y: 0.5, width: 1, height: 0.5 }],
+  ])('%s %s', (stereo, eye, expected) => {
+    expect(getEyeRegion(stereo, eye)).toEqual(expected);
+  });
+});
+
+describe('影片分類轉換', () => {
+  it.each<[VideoLayout, VideoType]>([
+    [{ stereo: 'mono', projection: 'flat' }, '2D'],
+    [{ stereo: 'sbs', projection: 'flat' }, '3D'],
+    [{ stereo: 'half-tb', projection: 'flat' }, '3D'],
+    [{ stereo: 'mono', projection: 'equirect-360' }, '360°'],
+    [{ stereo: 'sbs', projection: 'equirect-180' }, '360°'],
+  ])('layoutToVideoType(%o) = %s', (layout, type) => {
+    expect(layoutToVideoType(layout)).toBe(type);
+  });
+
+  it.each<VideoType>(['2D', '3D', '360°'])('videoTypeToLayout(%s) 應該可以轉回相同分類', (type) => {
+    expect(layoutToVideoType(videoTypeToLayout(type))).toBe(type);
+  });
+});
+
+describe('單眼比例', () => {
+  it.each<[StereoLayout, { scaleX: number; scaleY: number }]>([
+    ['mono', { scaleX: 1, scaleY: 1 }],
+    ['sbs', { scaleX: 1, scaleY: 1 }],
+    ['tb', { scaleX: 1, scaleY: 1 }],
+    ['half-sbs', { scaleX: 2, scaleY: 1 }],
+    ['half-tb', { scaleX: 1, scaleY: 2 }],
+  ])('%s 的比例修正', (stereo, expected) => {
+    expect(getEyeAspectCorrection(stereo)).toEqual(expected);
+  });
+
+  it.each<[StereoLayout, number, number, number]>([
+    ['mono', 1920, 1080, 16 / 9],
+    ['sbs', 3840, 1080, 16 / 9],
+    ['half-sbs', 1920, 1080, 16 / 9],
+    ['tb', 1920, 2160, 16 / 9],
+    ['half-tb', 1920, 1080, 16 / 9],
+    ['half-sbs', 2048, 2048, 1],
+  ])('%s %ix%i 還原後的單眼比例', (stereo, width, height, aspect) => {
+    expect(getEyeDisplayAspect(stereo, width, height)).toBeCloseTo(aspect, 6);
+  });
+
+  it('1:1 半寬左右影格：每眼各占一半並還原為正方形', () => {
+    const viewport = { width: 1000, height: 800 };
+    const frame = { width: 2048, height: 2048 };
+
+    const left = getEyeFrameRect('half-sbs', 'left', viewport, frame);
+    const right = getEyeFrameRect('half-sbs', 'right', viewport, frame);
+
+    // 單眼畫面 800x800 置中，整個影格為 1600x800
+    expect(left).toEqual({ x: 100, y: 0, width: 1600, height: 800 });
+    expect(right).toEqual({ x: -700, y: 0, width: 1600, height: 800 });
+    // 右眼區域（影格右半）剛好落在視窗中央的 800x800
+    expect(right.x + right.width / 2).toBe(100);
+  });
+
+  it('全寬左右影格不需比例修正', () => {
+    const rect = getEyeFrameRect('sbs', 'left', { width: 1000, height: 800 }, { width: 3840, height: 1080 });
+    expect(rect.width / 2 / rect.height).toBeCloseTo(16 / 9, 6);
+    expect(rect.width / 2).toBe(1000);
+    expect(rect.y).toBeCloseTo((800 - 1000 / (16 / 9)) / 2, 6);
+  });
+
+  it('影格尺寸未知時單眼畫面填滿視窗', () => {
+    expect(getEyeFrameRect('tb', 'right', { width: 600, height: 400 }, null)).toEqual({
+      x: 0,
+      y: -400,
+      width: 600,
+      height: 800,
+    });
+  });
+});
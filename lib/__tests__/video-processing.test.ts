@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertPixelsTo3DWithDepth,
+  estimateDepthMap,
+  normalizeDepthMap,
+  renderStereoViewsFromDepth,
+  type PixelBuffer,
+  type SBSConversionOptions,
+} from '../video-processing';
+
+function createImage(width: number, height: number, fill: (x: number, y: number) => number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const v = fill(x, y);
+      data[idx] = v;
+      data[idx + 1] = v;
+      data[idx + 2] = v;
+      data[idx + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+const baseOptions: SBSConversionOptions = {
+  pupilDistance: 65,
+  brightness: 1,
+  contrast: 1,
+  saturation: 1,
+  separationStrength: 1,
+  parallax: 100,
+};
+
+describe('Depth-based 2D to 3D conversion', () => {
+  describe('estimateDepthMap', () => {
+    it('應該輸出 0-1 範圍且尺寸正確的深度圖', () => {
+      const image = createImage(32, 24, (x, y) => (x * 8 + y * 3) % 256);
+      const depth = estimateDepthMap(image);
+
+      expect(depth).toHaveLength(32 * 24);
+      depth.forEach((d) => {
+        expect(d).toBeGreaterThanOrEqual(0);
+        expect(d).toBeLessThanOrEqual(1);
+      });
+    });
+
+    it('應該將畫面下方估算得較近', () => {
+      const image = createImage(16, 16, () => 128);
+      const depth = estimateDepthMap(image, { luminance: 0, edge: 0, defocus: 0, position: 1 });
+
+      expect(depth[15 * 16 + 8]).toBeGreaterThan(depth[8]);
+    });
+
+    it('應該將紋理豐富的區域估算得比平坦區域近', () => {
+      // 左半邊為棋盤格，右半邊為平坦灰色
+      const image = createImage(32, 16, (x, y) => (x < 16 ? ((x + y) % 2) * 255 : 128));
+      const depth = estimateDepthMap(image, { luminance: 0, edge: 0.5, defocus: 0.5, position: 0 });
+
+      expect(depth[8 * 32 + 4]).toBeGreaterThan(depth[8 * 32 + 28]);
+    });
+  });
+
+  describe('normalizeDepthMap', () => {
+    it('應該將 8 位元深度圖轉換為 0-1', () => {
+      const depth = normalizeDepthMap(new Uint8Array([0, 255, 51]), 3);
+      expect(Array.from(depth)).toEqual([0, 1, expect.closeTo(0.2, 5)]);
+    });
+
+    it('應該拒絕尺寸不符的深度圖', () => {
+      expect(() => normalizeDepthMap(new Float32Array(4), 6)).toThrow();
+    });
+  });
+
+  describe('renderStereoViewsFromDepth', () => {
+    it('應該讓近處物體產生較大位移', () => {
+      // 中間 4 個像素為白色且最近，其餘為黑色背景
+      const width = 20;
+      const image = createImage(width, 1, (x) => (x >= 8 && x < 12 ? 255 : 0));
+      const depth = new Float32Array(width).map((_, x) => (x >= 8 && x < 12 ? 1 : 0.5));
+
+      const { left, right } = renderStereoViewsFromDepth(image, depth, 4, 0.5);
+      const whiteColumns = (view: PixelBuffer) =>
+        Array.from({ length: width }, (_, x) => x).filter((x) => view.data[x * 4] === 255);
+
+      expect(whiteColumns(left)).toEqual([10, 11, 12, 13]);
+      expect(whiteColumns(right)).toEqual([6, 7, 8, 9]);
+    });
+
+    it('應該以背景填補遮擋空洞', () => {
+      const width = 20;
+      const image = createImage(width, 1, (x) => (x >= 8 && x < 12 ? 255 : 60));
+      const depth = new Float32Array(width).map((_, x) => (x >= 8 && x < 12 ? 1 : 0.5));
+
+      const { left } = renderStereoViewsFromDepth(image, depth, 4, 0.5);
+
+      for (let x = 0; x < width; x++) {
+        expect(left.data[x * 4 + 3]).toBe(255);
+      }
+      // 前景右移後留下的空洞應為背景色
+      expect(left.data[8 * 4]).toBe(60);
+      expect(left.data[9 * 4]).toBe(60);
+    });
+  });
+
+  describe('convertPixelsTo3DWithDepth', () => {
+    it('應該輸出寬度加倍的 SBS 影像', () => {
+      const image = createImage(16, 8, (x) => x * 16);
+      const sbs = convertPixelsTo3DWithDepth(image, { ...baseOptions, depthMode: 'estimated' });
+
+      expect(sbs.width).toBe(32);
+      expect(sbs.height).toBe(8);
+      expect(sbs.data).toHaveLength(32 * 8 * 4);
+    });
+
+    it('應該使用外部深度圖', () => {
+      const image = createImage(8, 2, () => 100);
+      const depthMap = new Float32Array(16).fill(0.5);
+      const sbs = convertPixelsTo3DWithDepth(image, {
+        ...baseOptions,
+        depthMode: 'external',
+        depthMap,
+      });
+
+      // 零視差平面上的像素左右眼應完全相同
+      for (let x = 0; x < 8; x++) {
+        expect(sbs.data[x * 4]).toBe(sbs.data[(8 + x) * 4]);
+      }
+    });
+
+    it('external 模式缺少深度圖時應該拋出錯誤', () => {
+      const image = createImage(4, 4, () => 0);
+      expect(() =>
+        convertPixelsTo3DWithDepth(image, { ...baseOptions, depthMode: 'external' })
+      ).toThrow();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCardboardUri,
+  decodeCardboardParams,
+  encodeCardboardParams,
+  parseCardboardUri,
+  DEFAULT_CARDBOARD_PARAMS,
+} from '../cardboard-params';
+import {
+  BUILT_IN_VIEWER_PROFILES,
+  DEFAULT_VIEWER_PROFILE_ID,
+  createCustomViewerProfile,
+  exportViewerProfileToUri,
+  findViewerProfile,
+  getViewerProfileIdByName,
+  importViewerProfileFromUri,
+  toLensProfile,
+  validateViewerProfile,
+} from '../viewer-profile';
+
+describe('Cardboard params', () => {
+  it('編碼後應該能解碼回相同參數', () => {
+    const params = {
+      ...DEFAULT_CARDBOARD_PARAMS,
+      vendor: '小米',
+      model: 'VR 眼鏡',
+      interLensDistance: 0.062,
+      verticalAlignment: 1,
+      primaryButton: 2,
+    };
+    const decoded = decodeCardboardParams(encodeCardboardParams(params));
+
+    expect(decoded.vendor).toBe('小米');
+    expect(decoded.model).toBe('VR 眼鏡');
+    expect(decoded.interLensDistance).toBeCloseTo(0.062, 6);
+    expect(decoded.leftEyeFieldOfViewAngles).toEqual([40, 40, 40, 40]);
+    expect(decoded.distortionCoefficients[0]).toBeCloseTo(0.441, 6);
+    expect(decoded.verticalAlignment).toBe(1);
+    expect(decoded.primaryButton).toBe(2);
+  });
+
+  it('應該略過未知欄位並以預設值補齊缺少的欄位', () => {
+    // 欄位 9 (varint) = 1，欄位 1 (string) = "A"
+    const bytes = new Uint8Array([0x48, 0x01, 0x0a, 0x01, 0x41]);
+    const decoded = decodeCardboardParams(bytes);
+
+    expect(decoded.vendor).toBe('A');
+    expect(decoded.interLensDistance).toBeCloseTo(0.06);
+    expect(decoded.distortionCoefficients).toEqual(DEFAULT_CARDBOARD_PARAMS.distortionCoefficients);
+  });
+
+  it('應該解析不含協定的網址並拒絕其他網址', () => {
+    const uri = createCardboardUri(DEFAULT_CARDBOARD_PARAMS).replace('https://', '');
+
+    expect(parseCardboardUri(uri).screenToLensDistance).toBeCloseTo(0.042, 6);
+    expect(() => parseCardboardUri('https://example.com/?p=abc')).toThrow('不是 Cardboard');
+    expect(() => parseCardboardUri('https://goo.gl/abc')).toThrow('短網址');
+    expect(() => parseCardboardUri('https://google.com/cardboard/cfg?x=1')).toThrow('缺少參數 p');
+  });
+});
+
+describe('Viewer profiles', () => {
+  it('應該以舊版設備名稱找到內建眼鏡', () => {
+    expect(getViewerProfileIdByName('小米 VR')).toBe('xiaomi');
+    expect(getViewerProfileIdByName('不存在的眼鏡')).toBe(DEFAULT_VIEWER_PROFILE_ID);
+  });
+
+  it('找不到 ID 時應該使用標準 VR', () => {
+    const custom = createCustomViewerProfile(BUILT_IN_VIEWER_PROFILES[1]);
+
+    expect(findViewerProfile(custom.id, [custom])).toBe(custom);
+    expect(findViewerProfile('missing').id).toBe(DEFAULT_VIEWER_PROFILE_ID);
+  });
+
+  it('自訂眼鏡不應該共用內建參數的陣列', () => {
+    const base = BUILT_IN_VIEWER_PROFILES[0];
+    const custom = createCustomViewerProfile(base);
+    custom.distortionCoefficients[0] = 1;
+
+    expect(custom.builtIn).toBe(false);
+    expect(custom.id).not.toBe(base.id);
+    expect(base.distortionCoefficients[0]).toBe(0.34);
+  });
+
+  it('應該驗證眼鏡參數', () => {
+    const invalid = createCustomViewerProfile(BUILT_IN_VIEWER_PROFILES[0], {
+      name: ' ',
+      interLensDistance: 30,
+      fieldOfView: { outer: 45, inner: 95, top: 45, bottom: 45 },
+    });
+    const result = validateViewerProfile(invalid);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(3);
+    expect(validateViewerProfile(BUILT_IN_VIEWER_PROFILES[0]).valid).toBe(true);
+  });
+
+  it('匯出再匯入應該保留鏡片參數', () => {
+    const original = createCustomViewerProfile(BUILT_IN_VIEWER_PROFILES[2], {
+      vendor: 'Xiaomi',
+      model: 'Play',
+      verticalAlignment: 'center',
+      fieldOfView: { outer: 50, inner: 43, top: 48, bottom: 48 },
+    });
+    const imported = importViewerProfileFromUri(exportViewerProfileToUri(original));
+
+    expect(imported.name).toBe('Xiaomi Play');
+    expect(imported.interLensDistance).toBe(62);
+    expect(imported.screenToLensDistance).toBe(39);
+    expect(imported.verticalAlignment).toBe('center');
+    expect(imported.fieldOfView).toEqual(original.fieldOfView);
+    expect(imported.distortionCoefficients).toEqual(original.distortionCoefficients);
+    expect(imported.primaryButton).toBe('touch');
+  });
+
+  it('應該轉換為鏡片畸變參數', () => {
+    const lens = toLensProfile(BUILT_IN_VIEWER_PROFILES[1]);
+
+    expect(lens.fieldOfView).toBe(96);
+    expect(lens.distortionCoefficients).toEqual([0.32, 0.48]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertYUVFrameToSBS,
+  convertYUVPixelFormat,
+  getYUVPlaneLayout,
+  rgbaToYUV,
+  yuvToRGBA,
+  type YUVColorSpace,
+  type YUVFrame,
+} from '../yuv-frame';
+
+function solidRGBA(width: number, height: number, [r, g, b]: [number, number, number]) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([r, g, b, 255], i * 4);
+  }
+  return { data, width, height };
+}
+
+/**
+ * 建立每欄亮度不同的 I420 影格，色度依色度欄編號遞增
+ */
+function createGradientI420(width: number, height: number): YUVFrame {
+  const layout = getYUVPlaneLayout('i420', width, height);
+  const data = new Uint8Array(layout.size);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data[y * width + x] = 16 + x * 10;
+  }
+  for (let cy = 0; cy < layout.chromaHeight; cy++) {
+    for (let cx = 0; cx < layout.chromaWidth; cx++) {
+      data[layout.uOffset + cy * layout.chromaStride + cx] = 100 + cx;
+      data[layout.vOffset + cy * layout.chromaStride + cx] = 150 + cx;
+    }
+  }
+  return { format: 'i420', width, height, data, colorSpace: { matrix: 'bt601', range: 'limited' } };
+}
+
+describe('YUV frame', () => {
+  it('應該計算 I420 與 NV12 的平面位置', () => {
+    const i420 = getYUVPlaneLayout('i420', 4, 4);
+    const nv12 = getYUVPlaneLayout('nv12', 4, 4);
+
+    expect(i420).toMatchObject({ uOffset: 16, vOffset: 20, chromaStep: 1, size: 24 });
+    expect(nv12).toMatchObject({ uOffset: 16, vOffset: 17, chromaStep: 2, size: 24 });
+  });
+
+  it('應該依範圍對應黑白', () => {
+    const limited = rgbaToYUV(solidRGBA(2, 2, [255, 255, 255]), 'i420', { matrix: 'bt709', range: 'limited' });
+    const full = rgbaToYUV(solidRGBA(2, 2, [0, 0, 0]), 'i420', { matrix: 'bt709', range: 'full' });
+
+    expect(Array.from(limited.data)).toEqual([235, 235, 235, 235, 128, 128]);
+    expect(Array.from(full.data)).toEqual([0, 0, 0, 0, 128, 128]);
+  });
+
+  it('應該使用對應色彩矩陣的係數', () => {
+    const red = solidRGBA(2, 2, [255, 0, 0]);
+    const bt601 = rgbaToYUV(red, 'i420', { matrix: 'bt601', range: 'full' });
+    const bt709 = rgbaToYUV(red, 'i420', { matrix: 'bt709', range: 'full' });
+
+    expect(bt601.data[0]).toBe(76); // 0.299 * 255
+    expect(bt709.data[0]).toBe(54); // 0.2126 * 255
+  });
+
+  it('應該在各色彩空間往返轉換且誤差很小', () => {
+    const spaces: YUVColorSpace[] = [
+      { matrix: 'bt601', range: 'limited' },
+      { matrix: 'bt601', range: 'full' },
+      { matrix: 'bt709', range: 'limited' },
+      { matrix: 'bt709', range: 'full' },
+    ];
+    const colors: [number, number, number][] = [[200, 40, 90], [10, 180, 60], [70, 70, 220]];
+
+    spaces.forEach((space) => {
+      colors.forEach((color) => {
+        const nv12 = rgbaToYUV(solidRGBA(4, 2, color), 'nv12', space);
+        const rgba = yuvToRGBA(nv12);
+        for (let c = 0; c < 3; c++) {
+          expect(Math.abs(rgba.data[c] - color[c])).toBeLessThanOrEqual(2);
+        }
+      });
+    });
+  });
+
+  it('應該在 I420 與 NV12 之間轉換而不改變樣本', () => {
+    const i420 = createGradientI420(4, 2);
+    const nv12 = convertYUVPixelFormat(i420, 'nv12');
+
+    expect(Array.from(nv12.data.subarray(8))).toEqual([100, 150, 101, 151]);
+    expect(Array.from(convertYUVPixelFormat(nv12, 'i420').data)).toEqual(Array.from(i420.data));
+  });
+
+  it('應該直接在 YUV 平面上產生 SBS', () => {
+    const frame = createGradientI420(4, 2);
+    const sbs = convertYUVFrameToSBS(frame, 2);
+    const layout = getYUVPlaneLayout('i420', 8, 2);
+
+    expect(sbs.width).toBe(8);
+    expect(sbs.data).toHaveLength(layout.size);
+    // 左眼原樣，右眼位移 2 像素並在邊緣夾住
+    expect(Array.from(sbs.data.subarray(0, 8))).toEqual([16, 26, 36, 46, 36, 46, 46, 46]);
+    // 色度位移 1 個樣本
+    expect(Array.from(sbs.data.subarray(layout.uOffset, layout.uOffset + 4))).toEqual([100, 101, 101, 101]);
+    expect(Array.from(sbs.data.subarray(layout.vOffset, layout.vOffset + 4))).toEqual([150, 151, 151, 151]);
+  });
+
+  it('SBS 結果應該與 NV12 排列一致', () => {
+    const i420 = createGradientI420(6, 4);
+    const fromI420 = convertYUVFrameToSBS(i420, 1);
+    const fromNV12 = convertYUVFrameToSBS(convertYUVPixelFormat(i420, 'nv12'), 1);
+
+    expect(Array.from(convertYUVPixelFormat(fromNV12, 'i420').data)).toEqual(Array.from(fromI420.data));
+  });
+});
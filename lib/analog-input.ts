@@ -0,0 +1,324 @@
+/**
+ * 遊戲手把類比輸入（搖桿與扳機）
+ * 原始軸值經死區與響應曲線處理後，依輸入情境轉為連續的視角旋轉（360° 模式）
+ * 或變速拖曳（2D/SBS 模式）
+ */
+
+import type { InputContext } from "./input-router";
+
+export type AnalogAxis =
+  | "left-x"
+  | "left-y"
+  | "right-x"
+  | "right-y"
+  | "left-trigger"
+  | "right-trigger";
+
+export type AnalogStick = "left" | "right";
+
+/**
+ * 響應曲線：輸出 = 輸入 ^ 指數，越高則小幅推動越精細
+ */
+export type ResponseCurve = "linear" | "quadratic" | "cubic";
+
+export const RESPONSE_CURVE_EXPONENTS: Record<ResponseCurve, number> = {
+  linear: 1,
+  quadratic: 2,
+  cubic: 3,
+};
+
+export interface AnalogInputOptions {
+  /** 搖桿死區（0-1，依推動距離判定） */
+  stickDeadZone: number;
+  /** 扳機死區（0-1） */
+  triggerDeadZone: number;
+  responseCurve: ResponseCurve;
+  /** 搖桿推到底時的視角旋轉速度（度/秒） */
+  lookSpeed: number;
+  /** 反轉上下視角 */
+  invertY: boolean;
+  /** 推到底時每秒拖曳的影片秒數 */
+  scrubSpeed: number;
+  /** 拖曳事件的最短間隔 (ms)，避免每個畫面都跳轉影片 */
+  scrubInterval: number;
+  /** 超過此間隔 (ms) 的畫面視為中斷，不進行積分 */
+  maxFrameInterval: number;
+}
+
+export const DEFAULT_ANALOG_OPTIONS: AnalogInputOptions = {
+  stickDeadZone: 0.15,
+  triggerDeadZone: 0.1,
+  responseCurve: "quadratic",
+  lookSpeed: 120,
+  invertY: false,
+  scrubSpeed: 60,
+  scrubInterval: 250,
+  maxFrameInterval: 100,
+};
+
+/**
+ * 類比輸入事件
+ * look：視角變化量（度，偏航向左、俯仰向上為正）；scrub：影片跳轉秒數
+ */
+export type AnalogInputEvent =
+  | { type: "look"; context: InputContext; yaw: number; pitch: number }
+  | { type: "scrub"; context: InputContext; seconds: number };
+
+/**
+ * Android MotionEvent 軸代碼
+ */
+export const MOTION_AXIS = {
+  X: 0,
+  Y: 1,
+  Z: 11,
+  RZ: 14,
+  LTRIGGER: 17,
+  RTRIGGER: 18,
+  GAS: 22,
+  BRAKE: 23,
+};
+
+const MOTION_AXIS_MAP: Record<number, AnalogAxis> = {
+  [MOTION_AXIS.X]: "left-x",
+  [MOTION_AXIS.Y]: "left-y",
+  [MOTION_AXIS.Z]: "right-x",
+  [MOTION_AXIS.RZ]: "right-y",
+  [MOTION_AXIS.LTRIGGER]: "left-trigger",
+  [MOTION_AXIS.RTRIGGER]: "right-trigger",
+  [MOTION_AXIS.BRAKE]: "left-trigger",
+  [MOTION_AXIS.GAS]: "right-trigger",
+};
+
+/**
+ * Android 軸代碼轉為類比軸
+ */
+export function axisFromMotionAxis(axis: number): AnalogAxis | null {
+  return MOTION_AXIS_MAP[axis] ?? null;
+}
+
+/**
+ * 讀取 Web Gamepad API 標準配置的軸值
+ */
+export function readGamepadAxes(gamepad: {
+  axes: readonly number[];
+  buttons: readonly { value: number }[];
+}): Partial<Record<AnalogAxis, number>> {
+  return {
+    "left-x": gamepad.axes[0] ?? 0,
+    "left-y": gamepad.axes[1] ?? 0,
+    "right-x": gamepad.axes[2] ?? 0,
+    "right-y": gamepad.axes[3] ?? 0,
+    "left-trigger": gamepad.buttons[6]?.value ?? 0,
+    "right-trigger": gamepad.buttons[7]?.value ?? 0,
+  };
+}
+
+/**
+ * 套用單軸死區與響應曲線
+ * 死區以外的範圍重新縮放到 0-1，推過死區時輸出從 0 連續增加
+ */
+export function applyAxisDeadZone(
+  value: number,
+  deadZone: number,
+  curve: ResponseCurve = "linear"
+): number {
+  const magnitude = Math.min(1, Math.abs(value));
+  if (magnitude <= deadZone) return 0;
+  const scaled = (magnitude - deadZone) / (1 - deadZone);
+  return Math.sign(value) * Math.pow(scaled, RESPONSE_CURVE_EXPONENTS[curve]);
+}
+
+/**
+ * 套用搖桿的圓形死區與響應曲線
+ * 依推動距離判定，斜向推動時不會因單軸死區而卡在水平或垂直方向
+ */
+export function applyStickDeadZone(
+  x: number,
+  y: number,
+  deadZone: number,
+  curve: ResponseCurve = "linear"
+): { x: number; y: number } {
+  const magnitude = Math.sqrt(x * x + y * y);
+  if (magnitude <= deadZone) return { x: 0, y: 0 };
+  const output = applyAxisDeadZone(magnitude, deadZone, curve);
+  return { x: (x / magnitude) * output, y: (y / magnitude) * output };
+}
+
+/**
+ * 類比輸入管理器
+ *
+ * 原生事件或 Gamepad API 只更新軸值；呼叫 update 時依經過時間積分，
+ * 搖桿按住不動時仍持續旋轉或拖曳。
+ * 多個手把同時連接時，每個軸採用推動幅度最大的值。
+ */
+export class AnalogInputManager {
+  private options: AnalogInputOptions;
+  private devices = new Map<string, Partial<Record<AnalogAxis, number>>>();
+  private lastTimestamp: number | null = null;
+  private pendingScrub = 0;
+  private lastScrubTimestamp: number | null = null;
+  private listeners: ((event: AnalogInputEvent) => void)[] = [];
+
+  constructor(options: Partial<AnalogInputOptions> = {}) {
+    this.options = { ...DEFAULT_ANALOG_OPTIONS, ...options };
+  }
+
+  /**
+   * 更新設定（死區、曲線等）
+   */
+  setOptions(options: Partial<AnalogInputOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): AnalogInputOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * 更新單一軸的原始值（搖桿 -1 ~ 1，扳機 0 ~ 1）
+   */
+  setAxis(deviceId: string, axis: AnalogAxis, value: number): void {
+    const axes = this.devices.get(deviceId) ?? {};
+    axes[axis] = value;
+    this.devices.set(deviceId, axes);
+  }
+
+  /**
+   * 一次更新裝置的多個軸
+   */
+  setAxes(deviceId: string, values: Partial<Record<AnalogAxis, number>>): void {
+    this.devices.set(deviceId, { ...this.devices.get(deviceId), ...values });
+  }
+
+  /**
+   * 手把斷線時移除其軸值
+   */
+  removeDevice(deviceId: string): void {
+    this.devices.delete(deviceId);
+  }
+
+  /**
+   * 獲取處理後的搖桿位置（向右、向下為正）
+   */
+  getStick(stick: AnalogStick): { x: number; y: number } {
+    return applyStickDeadZone(
+      this.getRawAxis(`${stick}-x`),
+      this.getRawAxis(`${stick}-y`),
+      this.options.stickDeadZone,
+      this.options.responseCurve
+    );
+  }
+
+  /**
+   * 獲取處理後的扳機值（0-1）
+   */
+  getTrigger(stick: AnalogStick): number {
+    return Math.max(
+      0,
+      applyAxisDeadZone(
+        this.getRawAxis(`${stick}-trigger`),
+        this.options.triggerDeadZone,
+        this.options.responseCurve
+      )
+    );
+  }
+
+  /**
+   * 依經過時間積分並送出事件（每個畫面呼叫一次）
+   *
+   * - player-360：右搖桿（沒有右搖桿的手把用左搖桿）旋轉視角
+   * - player-2d：左搖桿水平方向變速拖曳
+   * - 兩種播放器皆可用扳機拖曳：右扳機快轉、左扳機倒轉
+   *
+   * @param context 目前的輸入情境
+   * @param timestamp 毫秒
+   */
+  update(context: InputContext | null, timestamp: number): void {
+    const previous = this.lastTimestamp;
+    this.lastTimestamp = timestamp;
+    if (previous === null || (context !== "player-360" && context !== "player-2d")) return;
+
+    const intervalMs = timestamp - previous;
+    if (intervalMs <= 0 || intervalMs > this.options.maxFrameInterval) return;
+    const dt = intervalMs / 1000;
+
+    let scrubInput = this.getTrigger("right") - this.getTrigger("left");
+
+    if (context === "player-360") {
+      const right = this.getStick("right");
+      const stick = right.x !== 0 || right.y !== 0 ? right : this.getStick("left");
+      if (stick.x !== 0 || stick.y !== 0) {
+        const pitchDirection = this.options.invertY ? 1 : -1;
+        this.notifyListeners({
+          type: "look",
+          context,
+          yaw: -stick.x * this.options.lookSpeed * dt,
+          pitch: pitchDirection * stick.y * this.options.lookSpeed * dt,
+        });
+      }
+    } else {
+      scrubInput += this.getStick("left").x;
+    }
+
+    this.accumulateScrub(context, Math.max(-1, Math.min(1, scrubInput)), dt, timestamp);
+  }
+
+  /**
+   * 停止積分（離開播放器時），下次 update 重新計時
+   */
+  reset(): void {
+    this.lastTimestamp = null;
+    this.pendingScrub = 0;
+    this.lastScrubTimestamp = null;
+  }
+
+  /**
+   * 訂閱類比輸入事件
+   */
+  subscribe(listener: (event: AnalogInputEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private getRawAxis(axis: AnalogAxis): number {
+    let value = 0;
+    for (const axes of this.devices.values()) {
+      const candidate = axes[axis] ?? 0;
+      if (Math.abs(candidate) > Math.abs(value)) value = candidate;
+    }
+    return value;
+  }
+
+  private accumulateScrub(
+    context: InputContext,
+    input: number,
+    dt: number,
+    timestamp: number
+  ): void {
+    this.pendingScrub += input * this.options.scrubSpeed * dt;
+    if (this.pendingScrub === 0) return;
+
+    // 放開後立即送出剩餘的量；按住時依間隔節流
+    const released = input === 0;
+    const due =
+      this.lastScrubTimestamp === null ||
+      timestamp - this.lastScrubTimestamp >= this.options.scrubInterval;
+    if (!released && !due) return;
+
+    const seconds = this.pendingScrub;
+    this.pendingScrub = 0;
+    this.lastScrubTimestamp = timestamp;
+    this.notifyListeners({ type: "scrub", context, seconds });
+  }
+
+  private notifyListeners(event: AnalogInputEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+/**
+ * 全局類比輸入管理器實例
+ */
+export const analogInputManager = new AnalogInputManager();
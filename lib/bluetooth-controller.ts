@@ -3,6 +3,14 @@
  * 支援多種 VR 遙控器與藍牙設備
  */
 
+import {
+  identifyController,
+  normalizeControllerName,
+  type ControllerHardwareIds,
+  type ControllerIdentification,
+  type ControllerModel,
+} from "./controller-identification";
+
 export type ControllerButtonAction =
   | "play-pause"
   | "next"
@@ -19,6 +27,26 @@ export type ControllerButtonAction =
   | "pupil-distance-increase"
   | "pupil-distance-decrease";
 
+/**
+ * 動作名稱（按鍵設定畫面顯示用）
+ */
+export const CONTROLLER_ACTION_LABELS: Record<ControllerButtonAction, string> = {
+  "play-pause": "播放/暫停",
+  next: "下一個影片",
+  previous: "上一個影片",
+  "volume-up": "增加音量",
+  "volume-down": "減少音量",
+  "brightness-up": "增加亮度",
+  "brightness-down": "減少亮度",
+  menu: "打開菜單",
+  back: "返回",
+  select: "選擇/確認",
+  "2d-to-3d": "2D 轉 3D",
+  "mode-switch": "切換模式",
+  "pupil-distance-increase": "增加瞳距",
+  "pupil-distance-decrease": "減少瞳距",
+};
+
 export interface BluetoothControllerButton {
   name: string;
   keyCode: number;
@@ -33,6 +61,10 @@ export interface BluetoothControllerMapping {
   isConnected: boolean;
   lastConnectedTime?: number;
   customMappings?: Record<number, ControllerButtonAction>;
+  /** 辨識出的型號；未知裝置為 undefined */
+  modelId?: string;
+  vendorId?: number;
+  productId?: number;
 }
 
 /**
@@ -187,6 +219,33 @@ export const DEFAULT_CONTROLLER_MAPPINGS: Record<
   ],
 };
 
+/**
+ * 內建型號的辨識規則，按鍵映射取自 DEFAULT_CONTROLLER_MAPPINGS
+ */
+export const KNOWN_CONTROLLER_MODELS: ControllerModel[] = [
+  {
+    id: "Pico Controller",
+    name: "Pico Controller",
+    vendorId: 0x2d40,
+    namePatterns: [/pico/i, /dpvr/i, /大朋/],
+    buttons: DEFAULT_CONTROLLER_MAPPINGS["Pico Controller"],
+  },
+  {
+    id: "Xiaomi VR Remote",
+    name: "Xiaomi VR Remote",
+    vendorId: 0x2717,
+    namePatterns: [/xiaomi/i, /\bmi\s*(vr|remote)/i, /小米/],
+    buttons: DEFAULT_CONTROLLER_MAPPINGS["Xiaomi VR Remote"],
+  },
+  {
+    id: "Generic Bluetooth Remote",
+    name: "Generic Bluetooth Remote",
+    namePatterns: [/remote/i, /vr\s*box/i, /shinecon/i, /selfie/i, /遙控/],
+    fallback: true,
+    buttons: DEFAULT_CONTROLLER_MAPPINGS["Generic Bluetooth Remote"],
+  },
+];
+
 /**
  * 按鍵代碼常量
  */
@@ -214,42 +273,179 @@ export const KEYCODE = {
   BUTTON_THUMBR: 107,
 };
 
+/**
+ * 按鍵映射的鍵值儲存（AsyncStorage 相容）
+ */
+export interface ControllerMappingStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+/**
+ * 保存的單一遙控器自訂映射
+ */
+export interface ControllerMappingProfile {
+  deviceId: string;
+  deviceName: string;
+  customMappings: Record<number, ControllerButtonAction>;
+  updatedAt: number;
+}
+
+/**
+ * 匯出的映射格式（JSON），同型號遙控器可共用
+ */
+export interface ControllerMappingExport {
+  version: 1;
+  deviceName: string;
+  mappings: Record<string, ControllerButtonAction>;
+}
+
+/**
+ * 同一動作被多個按鍵映射
+ */
+export interface MappingConflict {
+  action: ControllerButtonAction;
+  keyCodes: number[];
+}
+
+const STORAGE_KEY = "vr_controller_mappings";
+const MODELS_STORAGE_KEY = "vr_controller_models";
+const EXPORT_VERSION = 1;
+
+interface KeyCapture {
+  deviceId: string;
+  resolve: (keyCode: number) => void;
+  reject: (error: Error) => void;
+}
+
 /**
  * 遙控器管理類
+ *
+ * 自訂映射依 deviceId 保存在儲存中，遙控器斷線或清空連線後仍保留，
+ * 同一裝置重新連線時自動套用。
  */
 export class BluetoothControllerManager {
   private connectedControllers: Map<string, BluetoothControllerMapping> =
     new Map();
-  private customMappings: Map<string, Record<number, ControllerButtonAction>> =
-    new Map();
+  private profiles: Map<string, ControllerMappingProfile> = new Map();
+  private learnedModels: Map<string, ControllerModel> = new Map();
   private listeners: ((action: ControllerButtonAction) => void)[] = [];
+  private mappingListeners: (() => void)[] = [];
+  private storage: ControllerMappingStorage | null;
+  private loaded: Promise<void> | null = null;
+  private capture: KeyCapture | null = null;
+
+  /**
+   * @param storage 自訂映射的鍵值儲存；未指定時只保存在記憶體
+   */
+  constructor(storage: ControllerMappingStorage | null = null) {
+    this.storage = storage;
+  }
+
+  /**
+   * 設定儲存並載入保存的映射
+   */
+  setStorage(storage: ControllerMappingStorage): Promise<void> {
+    this.storage = storage;
+    this.loaded = null;
+    return this.load();
+  }
+
+  /**
+   * 載入保存的自訂映射
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.restore();
+    }
+    return this.loaded;
+  }
 
   /**
    * 添加連接的遙控器
+   * 依廠商/產品 ID 與名稱辨識型號，未指定按鍵列表時使用型號的映射
+   *
+   * @returns 辨識結果；model 為 null 時應引導使用者學習按鍵
    */
   addController(
     deviceName: string,
     deviceId: string,
-    mapping?: BluetoothControllerButton[]
-  ): void {
-    const buttons =
-      mapping || DEFAULT_CONTROLLER_MAPPINGS[deviceName] || [];
+    mapping?: BluetoothControllerButton[],
+    hardware: ControllerHardwareIds = {}
+  ): ControllerIdentification {
+    const identification = this.identifyController(deviceName, hardware);
 
     this.connectedControllers.set(deviceId, {
       deviceName,
       deviceId,
-      buttons,
+      buttons: mapping || identification.model?.buttons || [],
       isConnected: true,
       lastConnectedTime: Date.now(),
+      customMappings: this.profiles.get(deviceId)?.customMappings,
+      modelId: identification.model?.id,
+      vendorId: hardware.vendorId,
+      productId: hardware.productId,
     });
+    this.notifyMappingListeners();
+    return identification;
+  }
+
+  /**
+   * 辨識遙控器型號（學習過的型號優先）
+   */
+  identifyController(
+    deviceName: string,
+    hardware: ControllerHardwareIds = {}
+  ): ControllerIdentification {
+    return identifyController(deviceName, hardware, this.getControllerModels());
+  }
+
+  /**
+   * 獲取所有可辨識的型號（學習過的 + 內建）
+   */
+  getControllerModels(): ControllerModel[] {
+    return [...this.learnedModels.values(), ...KNOWN_CONTROLLER_MODELS];
   }
 
   /**
-   * 移除遙控器
+   * 保存學習到的按鍵為新型號並套用到裝置
+   * 之後連接的同型號遙控器（相同廠商/產品 ID 或名稱）會自動使用
+   */
+  async saveLearnedModel(
+    deviceId: string,
+    buttons: BluetoothControllerButton[]
+  ): Promise<ControllerModel> {
+    const controller = this.connectedControllers.get(deviceId);
+    if (!controller) {
+      throw new Error("遙控器未連接");
+    }
+    await this.load();
+
+    const { deviceName, vendorId, productId } = controller;
+    const model: ControllerModel = {
+      id:
+        vendorId !== undefined && productId !== undefined
+          ? `learned:${vendorId}:${productId}`
+          : `learned:${normalizeControllerName(deviceName)}`,
+      name: deviceName,
+      vendorId,
+      productId,
+      buttons,
+    };
+    this.learnedModels.set(model.id, model);
+    controller.buttons = buttons;
+    controller.modelId = model.id;
+    await this.persist();
+    this.notifyMappingListeners();
+    return model;
+  }
+
+  /**
+   * 移除遙控器（斷線），保留自訂映射
    */
   removeController(deviceId: string): void {
     this.connectedControllers.delete(deviceId);
-    this.customMappings.delete(deviceId);
+    this.notifyMappingListeners();
   }
 
   /**
@@ -259,30 +455,192 @@ export class BluetoothControllerManager {
     return Array.from(this.connectedControllers.values());
   }
 
+  /**
+   * 獲取所有保存的自訂映射
+   */
+  getMappingProfiles(): ControllerMappingProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
   /**
    * 自訂按鍵映射
+   * 同一按鍵原本的動作會被取代；同一動作已綁定其他按鍵時不會自動解除，
+   * 請以 getMappingConflicts 檢查
    */
-  setCustomMapping(
+  async setCustomMapping(
     deviceId: string,
     keyCode: number,
     action: ControllerButtonAction
-  ): void {
-    if (!this.customMappings.has(deviceId)) {
-      this.customMappings.set(deviceId, {});
-    }
-    this.customMappings.get(deviceId)![keyCode] = action;
+  ): Promise<void> {
+    await this.load();
+    const profile = this.getOrCreateProfile(deviceId);
+    profile.customMappings = { ...profile.customMappings, [keyCode]: action };
+    await this.commitProfile(profile);
+  }
+
+  /**
+   * 解除按鍵的自訂映射（回到預設）
+   */
+  async removeCustomMapping(deviceId: string, keyCode: number): Promise<void> {
+    await this.load();
+    const profile = this.profiles.get(deviceId);
+    if (!profile || !(keyCode in profile.customMappings)) return;
+
+    const { [keyCode]: _removed, ...rest } = profile.customMappings;
+    profile.customMappings = rest;
+    await this.commitProfile(profile);
+  }
 
-    // 更新遙控器映射
+  /**
+   * 還原裝置的預設映射
+   */
+  async resetMappings(deviceId: string): Promise<void> {
+    await this.load();
+    this.profiles.delete(deviceId);
     const controller = this.connectedControllers.get(deviceId);
-    if (controller) {
-      controller.customMappings = this.customMappings.get(deviceId);
+    if (controller) controller.customMappings = undefined;
+    await this.persist();
+    this.notifyMappingListeners();
+  }
+
+  /**
+   * 獲取實際生效的映射（預設 + 自訂）
+   */
+  getEffectiveMapping(deviceId: string): Record<number, ControllerButtonAction> {
+    const mapping: Record<number, ControllerButtonAction> = {};
+    for (const button of this.getControllerButtons(deviceId)) {
+      mapping[button.keyCode] = button.action;
+    }
+    return { ...mapping, ...this.profiles.get(deviceId)?.customMappings };
+  }
+
+  /**
+   * 找出被多個按鍵映射的動作
+   */
+  getMappingConflicts(deviceId: string): MappingConflict[] {
+    const byAction = new Map<ControllerButtonAction, number[]>();
+    for (const [keyCode, action] of Object.entries(this.getEffectiveMapping(deviceId))) {
+      byAction.set(action, [...(byAction.get(action) ?? []), Number(keyCode)]);
+    }
+    return Array.from(byAction.entries())
+      .filter(([, keyCodes]) => keyCodes.length > 1)
+      .map(([action, keyCodes]) => ({ action, keyCodes }));
+  }
+
+  /**
+   * 等待裝置的下一個按鍵（「按下按鍵以綁定」）
+   * 等待期間該裝置的按鍵不會觸發動作；再次呼叫會取消前一次等待
+   *
+   * @param deviceId 裝置 ID
+   * @param signal 取消等待
+   * @returns 按鍵代碼
+   */
+  captureNextKey(deviceId: string, signal?: AbortSignal): Promise<number> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error("已取消按鍵綁定"));
+        return;
+      }
+      const capture: KeyCapture = {
+        deviceId,
+        resolve: (keyCode) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(keyCode);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      const onAbort = () => {
+        if (this.capture === capture) this.capture = null;
+        capture.reject(new Error("已取消按鍵綁定"));
+      };
+      signal?.addEventListener("abort", onAbort);
+      this.capture?.reject(new Error("已取消按鍵綁定"));
+      this.capture = capture;
+    });
+  }
+
+  /**
+   * 匯出裝置的自訂映射為 JSON
+   */
+  exportMappings(deviceId: string): string {
+    const profile = this.profiles.get(deviceId);
+    const data: ControllerMappingExport = {
+      version: EXPORT_VERSION,
+      deviceName:
+        profile?.deviceName ?? this.connectedControllers.get(deviceId)?.deviceName ?? "",
+      mappings: { ...profile?.customMappings },
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * 從 JSON 匯入映射，取代裝置原本的自訂映射
+   *
+   * @returns 匯入的映射
+   */
+  async importMappings(deviceId: string, json: string): Promise<ControllerMappingProfile> {
+    let data: Partial<ControllerMappingExport>;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error("無效的映射檔：JSON 格式錯誤");
+    }
+    if (data?.version !== EXPORT_VERSION || typeof data.mappings !== "object" || !data.mappings) {
+      throw new Error("無效的映射檔：不支援的格式");
     }
+
+    const customMappings: Record<number, ControllerButtonAction> = {};
+    for (const [key, action] of Object.entries(data.mappings)) {
+      const keyCode = Number(key);
+      if (!Number.isInteger(keyCode) || keyCode < 0) {
+        throw new Error(`無效的映射檔：按鍵代碼 ${key} 不正確`);
+      }
+      if (!Object.hasOwn(CONTROLLER_ACTION_LABELS, action)) {
+        throw new Error(`無效的映射檔：未知的動作 ${action}`);
+      }
+      customMappings[keyCode] = action;
+    }
+
+    await this.load();
+    const profile = this.getOrCreateProfile(deviceId);
+    if (!profile.deviceName && typeof data.deviceName === "string") {
+      profile.deviceName = data.deviceName;
+    }
+    profile.customMappings = customMappings;
+    await this.commitProfile(profile);
+    return { ...profile };
+  }
+
+  /**
+   * 按鍵是否應由遙控器管理器處理：等待綁定中的裝置、使用者自訂過的按鍵，
+   * 或裝置型號（內建或學習到的）有映射的按鍵
+   * 裝置沒有映射的標準按鍵才交由輸入路由器依情境判定（長按、雙擊、連發）
+   */
+  interceptsKey(deviceId: string, keyCode: number): boolean {
+    if (this.capture?.deviceId === deviceId) return true;
+    const controller = this.connectedControllers.get(deviceId);
+    if (!controller) return false;
+    const { customMappings, buttons } = controller;
+    return (
+      (!!customMappings && Object.hasOwn(customMappings, keyCode)) ||
+      buttons.some((button) => button.keyCode === keyCode)
+    );
   }
 
   /**
    * 處理按鍵事件
    */
   handleKeyEvent(deviceId: string, keyCode: number): void {
+    if (this.capture?.deviceId === deviceId) {
+      const { resolve } = this.capture;
+      this.capture = null;
+      resolve(keyCode);
+      return;
+    }
+
     const controller = this.connectedControllers.get(deviceId);
     if (!controller) return;
 
@@ -311,6 +669,16 @@ export class BluetoothControllerManager {
     };
   }
 
+  /**
+   * 訂閱遙控器連線或映射變化
+   */
+  subscribeMappings(listener: () => void): () => void {
+    this.mappingListeners.push(listener);
+    return () => {
+      this.mappingListeners = this.mappingListeners.filter((l) => l !== listener);
+    };
+  }
+
   /**
    * 通知所有監聽器
    */
@@ -318,19 +686,97 @@ export class BluetoothControllerManager {
     this.listeners.forEach((listener) => listener(action));
   }
 
+  private notifyMappingListeners(): void {
+    this.mappingListeners.forEach((listener) => listener());
+  }
+
   /**
    * 獲取遙控器的按鍵列表
    */
   getControllerButtons(deviceId: string): BluetoothControllerButton[] {
-    return this.connectedControllers.get(deviceId)?.buttons || [];
+    const controller = this.connectedControllers.get(deviceId);
+    if (controller) return controller.buttons;
+    const deviceName = this.profiles.get(deviceId)?.deviceName;
+    return (deviceName && this.identifyController(deviceName).model?.buttons) || [];
   }
 
   /**
-   * 清空所有遙控器
+   * 清空所有連接的遙控器（保存的自訂映射不受影響）
    */
   clear(): void {
     this.connectedControllers.clear();
-    this.customMappings.clear();
+    this.notifyMappingListeners();
+  }
+
+  private getOrCreateProfile(deviceId: string): ControllerMappingProfile {
+    let profile = this.profiles.get(deviceId);
+    if (!profile) {
+      profile = {
+        deviceId,
+        deviceName: this.connectedControllers.get(deviceId)?.deviceName ?? "",
+        customMappings: {},
+        updatedAt: Date.now(),
+      };
+      this.profiles.set(deviceId, profile);
+    }
+    return profile;
+  }
+
+  private async commitProfile(profile: ControllerMappingProfile): Promise<void> {
+    profile.updatedAt = Date.now();
+    const controller = this.connectedControllers.get(profile.deviceId);
+    if (controller) controller.customMappings = profile.customMappings;
+    await this.persist();
+    this.notifyMappingListeners();
+  }
+
+  private async restore(): Promise<void> {
+    if (!this.storage) return;
+    try {
+      const modelsData = await this.storage.getItem(MODELS_STORAGE_KEY);
+      const models: ControllerModel[] = modelsData ? JSON.parse(modelsData) : [];
+      for (const model of models) {
+        if (!this.learnedModels.has(model.id)) this.learnedModels.set(model.id, model);
+      }
+      // 載入前連接而未能辨識的遙控器重新辨識
+      for (const controller of this.connectedControllers.values()) {
+        if (controller.buttons.length > 0) continue;
+        const { model } = this.identifyController(controller.deviceName, controller);
+        if (model) {
+          controller.buttons = model.buttons;
+          controller.modelId = model.id;
+        }
+      }
+
+      const data = await this.storage.getItem(STORAGE_KEY);
+      const saved: Record<string, ControllerMappingProfile> = data ? JSON.parse(data) : {};
+      for (const profile of Object.values(saved)) {
+        // 載入前已在記憶體中修改的映射優先
+        if (this.profiles.has(profile.deviceId)) continue;
+        this.profiles.set(profile.deviceId, profile);
+        const controller = this.connectedControllers.get(profile.deviceId);
+        if (controller) controller.customMappings = profile.customMappings;
+      }
+    } catch (err) {
+      console.error("載入遙控器映射失敗:", err);
+    }
+    this.notifyMappingListeners();
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.storage) return;
+    try {
+      await this.storage.setItem(
+        STORAGE_KEY,
+        JSON.stringify(Object.fromEntries(this.profiles))
+      );
+      await this.storage.setItem(
+        MODELS_STORAGE_KEY,
+        JSON.stringify(Array.from(this.learnedModels.values()))
+      );
+    } catch (err) {
+      console.error("保存遙控器映射失敗:", err);
+    }
   }
 }
 
@@ -0,0 +1,268 @@
+/**
+ * Google Cardboard 眼鏡參數（QR Code 格式）
+ * QR Code 內容為網址，查詢參數 p 是以 base64url 編碼的 DeviceParams protobuf：
+ * https://google.com/cardboard/cfg?p=...
+ */
+
+/**
+ * DeviceParams 欄位（長度單位為公尺，角度單位為度）
+ */
+export interface CardboardDeviceParams {
+  vendor: string;
+  model: string;
+  screenToLensDistance: number;
+  interLensDistance: number;
+  /** 左眼視角：[外側, 內側, 上方, 下方] */
+  leftEyeFieldOfViewAngles: number[];
+  trayToLensDistance: number;
+  distortionCoefficients: number[];
+  /** 0 = 底部, 1 = 置中, 2 = 頂部 */
+  verticalAlignment: number;
+  /** 0 = 無, 1 = 磁鐵, 2 = 觸控, 3 = 間接觸控 */
+  primaryButton: number;
+}
+
+const CARDBOARD_CONFIG_URL = "https://google.com/cardboard/cfg";
+
+// protobuf 欄位編號
+const FIELD_VENDOR = 1;
+const FIELD_MODEL = 2;
+const FIELD_SCREEN_TO_LENS = 3;
+const FIELD_INTER_LENS = 4;
+const FIELD_FOV_ANGLES = 5;
+const FIELD_TRAY_TO_LENS = 6;
+const FIELD_DISTORTION = 7;
+const FIELD_VERTICAL_ALIGNMENT = 11;
+const FIELD_PRIMARY_BUTTON = 12;
+
+// protobuf 傳輸類型
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * 未指定欄位時的預設值（與 Cardboard SDK 相同）
+ */
+export const DEFAULT_CARDBOARD_PARAMS: CardboardDeviceParams = {
+  vendor: "",
+  model: "",
+  screenToLensDistance: 0.042,
+  interLensDistance: 0.06,
+  leftEyeFieldOfViewAngles: [40, 40, 40, 40],
+  trayToLensDistance: 0.035,
+  distortionCoefficients: [0.441, 0.156],
+  verticalAlignment: 0,
+  primaryButton: 1,
+};
+
+/**
+ * 將 DeviceParams 編碼為 protobuf
+ */
+export function encodeCardboardParams(params: CardboardDeviceParams): Uint8Array {
+  const bytes: number[] = [];
+  const writeTag = (field: number, wireType: number) => writeVarint(bytes, (field << 3) | wireType);
+  const writeFloat = (value: number) => {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value, true);
+    for (let i = 0; i < 4; i++) bytes.push(view.getUint8(i));
+  };
+  const writeString = (field: number, value: string) => {
+    const encoded = encodeUtf8(value);
+    writeTag(field, WIRE_LENGTH_DELIMITED);
+    writeVarint(bytes, encoded.length);
+    bytes.push(...encoded);
+  };
+  const writePackedFloats = (field: number, values: number[]) => {
+    writeTag(field, WIRE_LENGTH_DELIMITED);
+    writeVarint(bytes, values.length * 4);
+    values.forEach(writeFloat);
+  };
+
+  writeString(FIELD_VENDOR, params.vendor);
+  writeString(FIELD_MODEL, params.model);
+  writeTag(FIELD_SCREEN_TO_LENS, WIRE_FIXED32);
+  writeFloat(params.screenToLensDistance);
+  writeTag(FIELD_INTER_LENS, WIRE_FIXED32);
+  writeFloat(params.interLensDistance);
+  writePackedFloats(FIELD_FOV_ANGLES, params.leftEyeFieldOfViewAngles);
+  writeTag(FIELD_TRAY_TO_LENS, WIRE_FIXED32);
+  writeFloat(params.trayToLensDistance);
+  writePackedFloats(FIELD_DISTORTION, params.distortionCoefficients);
+  writeTag(FIELD_VERTICAL_ALIGNMENT, WIRE_VARINT);
+  writeVarint(bytes, params.verticalAlignment);
+  writeTag(FIELD_PRIMARY_BUTTON, WIRE_VARINT);
+  writeVarint(bytes, params.primaryButton);
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * 解碼 DeviceParams protobuf；未知欄位會被略過
+ */
+export function decodeCardboardParams(bytes: Uint8Array): CardboardDeviceParams {
+  const params: CardboardDeviceParams = {
+    ...DEFAULT_CARDBOARD_PARAMS,
+    leftEyeFieldOfViewAngles: [...DEFAULT_CARDBOARD_PARAMS.leftEyeFieldOfViewAngles],
+    distortionCoefficients: [],
+  };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fovAngles: number[] = [];
+  let hasDistortion = false;
+  let position = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let shift = 0;
+    while (true) {
+      if (position >= bytes.length) throw new Error("無效的 Cardboard 參數：資料不完整");
+      const byte = bytes[position++];
+      result += (byte & 0x7f) * Math.pow(2, shift);
+      if ((byte & 0x80) === 0) return result;
+      shift += 7;
+    }
+  };
+  const readFloat = (): number => {
+    if (position + 4 > bytes.length) throw new Error("無效的 Cardboard 參數：資料不完整");
+    const value = view.getFloat32(position, true);
+    position += 4;
+    return value;
+  };
+  const readFloats = (target: number[]) => {
+    const end = position + readVarint();
+    while (position < end) target.push(readFloat());
+  };
+
+  while (position < bytes.length) {
+    const tag = readVarint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+
+    if (field === FIELD_VENDOR || field === FIELD_MODEL) {
+      const length = readVarint();
+      const value = decodeUtf8(bytes.subarray(position, position + length));
+      position += length;
+      if (field === FIELD_VENDOR) params.vendor = value;
+      else params.model = value;
+    } else if (field === FIELD_SCREEN_TO_LENS && wireType === WIRE_FIXED32) {
+      params.screenToLensDistance = readFloat();
+    } else if (field === FIELD_INTER_LENS && wireType === WIRE_FIXED32) {
+      params.interLensDistance = readFloat();
+    } else if (field === FIELD_TRAY_TO_LENS && wireType === WIRE_FIXED32) {
+      params.trayToLensDistance = readFloat();
+    } else if (field === FIELD_FOV_ANGLES) {
+      // 同時接受 packed 與非 packed 的重複欄位
+      if (wireType === WIRE_LENGTH_DELIMITED) readFloats(fovAngles);
+      else fovAngles.push(readFloat());
+    } else if (field === FIELD_DISTORTION) {
+      hasDistortion = true;
+      if (wireType === WIRE_LENGTH_DELIMITED) readFloats(params.distortionCoefficients);
+      else params.distortionCoefficients.push(readFloat());
+    } else if (field === FIELD_VERTICAL_ALIGNMENT && wireType === WIRE_VARINT) {
+      params.verticalAlignment = readVarint();
+    } else if (field === FIELD_PRIMARY_BUTTON && wireType === WIRE_VARINT) {
+      params.primaryButton = readVarint();
+    } else {
+      skipField(wireType);
+    }
+  }
+
+  if (fovAngles.length === 4) params.leftEyeFieldOfViewAngles = fovAngles;
+  if (!hasDistortion) {
+    params.distortionCoefficients = [...DEFAULT_CARDBOARD_PARAMS.distortionCoefficients];
+  }
+  return params;
+
+  function skipField(wireType: number) {
+    switch (wireType) {
+      case WIRE_VARINT:
+        readVarint();
+        break;
+      case WIRE_FIXED64:
+        position += 8;
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        position += readVarint();
+        break;
+      case WIRE_FIXED32:
+        position += 4;
+        break;
+      default:
+        throw new Error(`無效的 Cardboard 參數：不支援的欄位類型 ${wireType}`);
+    }
+  }
+}
+
+/**
+ * 解析 Cardboard QR Code 網址
+ *
+ * @param uri QR Code 內容，例如 https://google.com/cardboard/cfg?p=...
+ * @returns 眼鏡參數
+ */
+export function parseCardboardUri(uri: string): CardboardDeviceParams {
+  const trimmed = uri.trim();
+  const match = trimmed.match(/^(?:https?:\/\/)?(?:www\.)?google\.com\/cardboard\/cfg\?(.*)$/i);
+  if (!match) {
+    if (/^(?:https?:\/\/)?goo\.gl\//i.test(trimmed)) {
+      throw new Error("請先在瀏覽器中開啟短網址，再貼上展開後的 Cardboard 設定網址");
+    }
+    throw new Error("不是 Cardboard 設定網址");
+  }
+
+  const query = match[1].split("#")[0];
+  const param = query
+    .split("&")
+    .map((pair) => pair.split("="))
+    .find(([key]) => key === "p");
+  if (!param || !param[1]) {
+    throw new Error("Cardboard 設定網址缺少參數 p");
+  }
+
+  return decodeCardboardParams(decodeBase64Url(decodeURIComponent(param[1])));
+}
+
+/**
+ * 產生 Cardboard QR Code 網址
+ */
+export function createCardboardUri(params: CardboardDeviceParams): string {
+  return `${CARDBOARD_CONFIG_URL}?p=${encodeBase64Url(encodeCardboardParams(params))}`;
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  let remaining = Math.max(0, Math.floor(value));
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+}
+
+function encodeUtf8(value: string): number[] {
+  return Array.from(unescape(encodeURIComponent(value)), (c) => c.charCodeAt(0));
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return decodeURIComponent(escape(binary));
+}
+
+function decodeBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  let binary: string;
+  try {
+    binary = atob(padded);
+  } catch {
+    throw new Error("無效的 Cardboard 參數：base64 格式錯誤");
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function encodeBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
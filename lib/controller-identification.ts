@@ -0,0 +1,152 @@
+/**
+ * 遙控器型號辨識
+ * 依藍牙裝置的廠商/產品 ID 與名稱找出最接近的已知按鍵映射
+ */
+
+import type { BluetoothControllerButton } from "./bluetooth-controller";
+
+/**
+ * 藍牙 HID 裝置的廠商/產品 ID
+ */
+export interface ControllerHardwareIds {
+  vendorId?: number;
+  productId?: number;
+}
+
+/**
+ * 可辨識的遙控器型號
+ */
+export interface ControllerModel extends ControllerHardwareIds {
+  id: string;
+  name: string;
+  buttons: BluetoothControllerButton[];
+  /** 名稱規則（內建型號） */
+  namePatterns?: RegExp[];
+  /** 通用型號：只在沒有更接近的型號時使用 */
+  fallback?: boolean;
+}
+
+export type ControllerMatchType =
+  | "vendor-product"
+  | "name"
+  | "name-pattern"
+  | "vendor"
+  | "fuzzy-name";
+
+export interface ControllerIdentification {
+  /** 找不到時為 null，需要學習按鍵 */
+  model: ControllerModel | null;
+  matchedBy: ControllerMatchType | null;
+  /** 0-1，越高越可信 */
+  score: number;
+}
+
+const MATCH_SCORES = {
+  vendorProduct: 1,
+  name: 0.95,
+  namePattern: 0.8,
+  vendor: 0.6,
+  fallbackPattern: 0.3,
+  /** 名稱相似度乘上此權重，確保永遠低於明確規則 */
+  fuzzyWeight: 0.7,
+};
+
+/** 名稱相似度低於此值不採用 */
+const FUZZY_THRESHOLD = 0.5;
+
+/**
+ * 正規化裝置名稱：小寫、去除符號與多餘空白
+ */
+export function normalizeControllerName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, "");
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * 名稱相似度（Dice 係數，0-1）
+ * 對「Pico Controller 2」與「Pico Controller」這類型號變體給出高分
+ */
+export function controllerNameSimilarity(a: string, b: string): number {
+  const left = bigrams(normalizeControllerName(a));
+  const right = bigrams(normalizeControllerName(b));
+  if (left.length === 0 || right.length === 0) {
+    return normalizeControllerName(a) === normalizeControllerName(b) ? 1 : 0;
+  }
+
+  const remaining = [...right];
+  let matches = 0;
+  for (const pair of left) {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      matches++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * matches) / (left.length + right.length);
+}
+
+function scoreModel(
+  model: ControllerModel,
+  deviceName: string,
+  hardware: ControllerHardwareIds
+): { matchedBy: ControllerMatchType; score: number } | null {
+  const candidates: { matchedBy: ControllerMatchType; score: number }[] = [];
+  const hasVendor = hardware.vendorId !== undefined && model.vendorId === hardware.vendorId;
+
+  if (hasVendor && model.productId !== undefined && model.productId === hardware.productId) {
+    candidates.push({ matchedBy: "vendor-product", score: MATCH_SCORES.vendorProduct });
+  }
+  if (normalizeControllerName(model.name) === normalizeControllerName(deviceName)) {
+    candidates.push({ matchedBy: "name", score: MATCH_SCORES.name });
+  }
+  if (model.namePatterns?.some((pattern) => pattern.test(deviceName))) {
+    candidates.push({
+      matchedBy: "name-pattern",
+      score: model.fallback ? MATCH_SCORES.fallbackPattern : MATCH_SCORES.namePattern,
+    });
+  }
+  if (hasVendor && model.productId === undefined) {
+    candidates.push({ matchedBy: "vendor", score: MATCH_SCORES.vendor });
+  }
+  const similarity = controllerNameSimilarity(model.name, deviceName);
+  if (similarity >= FUZZY_THRESHOLD) {
+    candidates.push({ matchedBy: "fuzzy-name", score: similarity * MATCH_SCORES.fuzzyWeight });
+  }
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, candidate) => (candidate.score > best.score ? candidate : best));
+}
+
+/**
+ * 辨識遙控器型號
+ * 分數相同時採用清單中較前面的型號（學習過的型號應放在前面）
+ *
+ * @param deviceName 藍牙裝置名稱
+ * @param hardware 廠商/產品 ID（系統未提供時省略）
+ * @param models 候選型號
+ */
+export function identifyController(
+  deviceName: string,
+  hardware: ControllerHardwareIds,
+  models: ControllerModel[]
+): ControllerIdentification {
+  let best: ControllerIdentification = { model: null, matchedBy: null, score: 0 };
+  for (const model of models) {
+    const match = scoreModel(model, deviceName, hardware);
+    if (match && match.score > best.score) {
+      best = { model, ...match };
+    }
+  }
+  return best;
+}
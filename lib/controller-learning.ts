@@ -0,0 +1,198 @@
+/**
+ * 遙控器按鍵學習
+ * 未知型號的遙控器依序提示使用者按下每個按鍵，建立新的按鍵映射
+ */
+
+import {
+  CONTROLLER_ACTION_LABELS,
+  type BluetoothControllerButton,
+  type BluetoothControllerManager,
+  type ControllerButtonAction,
+} from "./bluetooth-controller";
+import type { ControllerModel } from "./controller-identification";
+
+export interface LearningStep {
+  action: ControllerButtonAction;
+  /** 提示使用者的按鍵名稱 */
+  name: string;
+}
+
+/**
+ * 預設的學習步驟（遙控器沒有的按鍵可略過）
+ */
+export const LEARNING_STEPS: LearningStep[] = [
+  { action: "select", name: "確認鍵" },
+  { action: "back", name: "返回鍵" },
+  { action: "menu", name: "主頁/菜單鍵" },
+  { action: "play-pause", name: "播放/暫停鍵" },
+  { action: "next", name: "下一曲鍵" },
+  { action: "previous", name: "上一曲鍵" },
+  { action: "volume-up", name: "音量+" },
+  { action: "volume-down", name: "音量-" },
+  { action: "mode-switch", name: "模式切換鍵" },
+];
+
+export type LearningStatus = "waiting" | "completed" | "cancelled";
+
+export interface LearningState {
+  status: LearningStatus;
+  stepIndex: number;
+  totalSteps: number;
+  /** 目前等待的步驟；完成或取消後為 null */
+  step: LearningStep | null;
+  learned: BluetoothControllerButton[];
+  /** 上一次按鍵的錯誤（例如按了已學過的按鍵） */
+  error: string | null;
+}
+
+/**
+ * 按鍵學習流程
+ *
+ * 透過 captureNextKey 攔截裝置按鍵，學習期間該裝置的按鍵不會觸發動作。
+ * 所有步驟完成後呼叫 save 建立型號。
+ */
+export class ControllerLearningSession {
+  private manager: BluetoothControllerManager;
+  private deviceId: string;
+  private steps: LearningStep[];
+  private stepIndex = 0;
+  private learned: BluetoothControllerButton[] = [];
+  private status: LearningStatus = "waiting";
+  private error: string | null = null;
+  private abortController: AbortController | null = null;
+  private listeners: ((state: LearningState) => void)[] = [];
+
+  constructor(
+    manager: BluetoothControllerManager,
+    deviceId: string,
+    steps: LearningStep[] = LEARNING_STEPS
+  ) {
+    this.manager = manager;
+    this.deviceId = deviceId;
+    this.steps = steps;
+  }
+
+  /**
+   * 開始等待第一個按鍵
+   */
+  start(): void {
+    this.waitForKey();
+  }
+
+  /**
+   * 略過目前步驟（遙控器沒有這個按鍵）
+   */
+  skip(): void {
+    if (this.status !== "waiting") return;
+    this.error = null;
+    this.advance();
+  }
+
+  /**
+   * 回到上一步重新學習
+   */
+  back(): void {
+    if (this.status !== "waiting" || this.stepIndex === 0) return;
+    this.stepIndex--;
+    const action = this.steps[this.stepIndex].action;
+    this.learned = this.learned.filter((button) => button.action !== action);
+    this.error = null;
+    this.waitForKey();
+  }
+
+  /**
+   * 取消學習
+   */
+  cancel(): void {
+    if (this.status !== "waiting") return;
+    this.status = "cancelled";
+    this.abortController?.abort();
+    this.abortController = null;
+    this.notifyListeners();
+  }
+
+  /**
+   * 保存學到的按鍵為新型號
+   */
+  async save(): Promise<ControllerModel> {
+    if (this.status !== "completed") {
+      throw new Error("按鍵學習尚未完成");
+    }
+    if (this.learned.length === 0) {
+      throw new Error("沒有學到任何按鍵");
+    }
+    return this.manager.saveLearnedModel(this.deviceId, this.learned);
+  }
+
+  getState(): LearningState {
+    return {
+      status: this.status,
+      stepIndex: this.stepIndex,
+      totalSteps: this.steps.length,
+      step: this.status === "waiting" ? this.steps[this.stepIndex] : null,
+      learned: [...this.learned],
+      error: this.error,
+    };
+  }
+
+  /**
+   * 訂閱學習狀態
+   */
+  subscribe(listener: (state: LearningState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private async waitForKey(): Promise<void> {
+    this.abortController?.abort();
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    this.notifyListeners();
+
+    let keyCode: number;
+    try {
+      keyCode = await this.manager.captureNextKey(this.deviceId, abortController.signal);
+    } catch {
+      // 已略過、返回或取消
+      return;
+    }
+    if (this.abortController !== abortController) return;
+    this.abortController = null;
+
+    const duplicate = this.learned.find((button) => button.keyCode === keyCode);
+    if (duplicate) {
+      this.error = `此按鍵已設為「${duplicate.name}」，請按其他按鍵或略過`;
+      this.waitForKey();
+      return;
+    }
+
+    const step = this.steps[this.stepIndex];
+    this.learned.push({
+      name: step.name,
+      keyCode,
+      action: step.action,
+      description: CONTROLLER_ACTION_LABELS[step.action],
+    });
+    this.error = null;
+    this.advance();
+  }
+
+  private advance(): void {
+    this.stepIndex++;
+    if (this.stepIndex >= this.steps.length) {
+      this.abortController?.abort();
+      this.abortController = null;
+      this.status = "completed";
+      this.notifyListeners();
+      return;
+    }
+    this.waitForKey();
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * 背景轉檔佇列
+ * 接受多個轉檔工作，依並行數依序執行，支援個別暫停、繼續、取消與重試，
+ * 佇列狀態保存在鍵值儲存中，App 重新啟動後會從中斷處重新排程
+ */
+
+import type {
+  ConversionStorage,
+  SBSConversionParams,
+  SBSTranscoder,
+} from "./sbs-transcoder";
+
+export type ConversionJobStatus =
+  | "queued"
+  | "running"
+  | "paused"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface ConversionJob {
+  id: string;
+  sourceUri: string;
+  /** 顯示名稱（通常為文件名） */
+  title: string;
+  params: SBSConversionParams;
+  status: ConversionJobStatus;
+  progress: number; // 0-100
+  error: string | null;
+  outputUri: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ConversionJobRequest {
+  sourceUri: string;
+  title: string;
+  params: SBSConversionParams;
+}
+
+export type ConversionQueueListener = (jobs: ConversionJob[]) => void;
+
+const STORAGE_KEY = "vr_conversion_queue";
+
+let jobCounter = 0;
+
+/**
+ * 轉檔佇列
+ *
+ * 編碼器無法從檔案中段接續，暫停執行中的工作會中止編碼，繼續時從頭轉檔。
+ */
+export class ConversionQueue {
+  private transcoder: SBSTranscoder;
+  private storage: ConversionStorage;
+  private concurrency: number;
+  private jobs: ConversionJob[] = [];
+  private controllers: Map<string, AbortController> = new Map();
+  private listeners: Set<ConversionQueueListener> = new Set();
+  private loaded: Promise<void> | null = null;
+
+  /**
+   * @param transcoder 轉檔管理器
+   * @param storage 佇列狀態的鍵值儲存
+   * @param concurrency 同時執行的工作數
+   */
+  constructor(transcoder: SBSTranscoder, storage: ConversionStorage, concurrency: number = 1) {
+    this.transcoder = transcoder;
+    this.storage = storage;
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+  }
+
+  /**
+   * 載入保存的佇列；上次執行到一半的工作重新排入佇列
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.restore();
+    }
+    return this.loaded;
+  }
+
+  /**
+   * 加入轉檔工作
+   * 相同來源與參數的工作已在佇列中（未結束）時不重複加入
+   *
+   * @returns 新加入的工作
+   */
+  async enqueue(requests: ConversionJobRequest[]): Promise<ConversionJob[]> {
+    await this.load();
+
+    const now = Date.now();
+    const added: ConversionJob[] = [];
+    for (const request of requests) {
+      const duplicate = this.jobs.some(
+        (job) =>
+          job.sourceUri === request.sourceUri &&
+          isSameParams(job.params, request.params) &&
+          isActiveStatus(job.status)
+      );
+      if (duplicate) continue;
+
+      const job: ConversionJob = {
+        id: `job_${now}_${jobCounter++}`,
+        sourceUri: request.sourceUri,
+        title: request.title,
+        params: { ...request.params },
+        status: "queued",
+        progress: 0,
+        error: null,
+        outputUri: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.jobs.push(job);
+      added.push(job);
+    }
+
+    if (added.length > 0) {
+      await this.commit();
+    }
+    return added;
+  }
+
+  /**
+   * 暫停工作（排隊中或執行中）
+   */
+  async pause(jobId: string): Promise<void> {
+    await this.stop(jobId, ["queued", "running"], "paused");
+  }
+
+  /**
+   * 繼續已暫停的工作
+   */
+  async resume(jobId: string): Promise<void> {
+    await this.requeue(jobId, ["paused"]);
+  }
+
+  /**
+   * 取消工作
+   */
+  async cancel(jobId: string): Promise<void> {
+    await this.stop(jobId, ["queued", "running", "paused"], "cancelled");
+  }
+
+  /**
+   * 重試失敗或已取消的工作
+   */
+  async retry(jobId: string): Promise<void> {
+    await this.requeue(jobId, ["failed", "cancelled"]);
+  }
+
+  /**
+   * 從佇列移除工作（執行中的工作需先暫停或取消）
+   */
+  async remove(jobId: string): Promise<void> {
+    await this.load();
+    const job = this.findJob(jobId);
+    if (job.status === "running") {
+      throw new Error("無法移除執行中的工作");
+    }
+    this.jobs = this.jobs.filter((j) => j.id !== jobId);
+    await this.commit();
+  }
+
+  /**
+   * 移除所有已完成或已取消的工作
+   */
+  async clearFinished(): Promise<void> {
+    await this.load();
+    this.jobs = this.jobs.filter((job) => job.status !== "completed" && job.status !== "cancelled");
+    await this.commit();
+  }
+
+  /**
+   * 設定同時執行的工作數
+   */
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.schedule();
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * 獲取所有工作
+   */
+  getJobs(): ConversionJob[] {
+    return this.jobs.map((job) => ({ ...job }));
+  }
+
+  /**
+   * 訂閱佇列變化（包含進度更新）
+   */
+  subscribe(listener: ConversionQueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const data = await this.storage.getItem(STORAGE_KEY);
+      const saved: ConversionJob[] = data ? JSON.parse(data) : [];
+      this.jobs = [
+        ...saved.map((job) =>
+          job.status === "running" ? { ...job, status: "queued" as const, progress: 0 } : job
+        ),
+        ...this.jobs,
+      ];
+    } catch (err) {
+      console.error("載入轉檔佇列失敗:", err);
+    }
+    this.notifyListeners();
+    this.schedule();
+  }
+
+  private async stop(
+    jobId: string,
+    from: ConversionJobStatus[],
+    to: ConversionJobStatus
+  ): Promise<void> {
+    await this.load();
+    const job = this.findJob(jobId);
+    if (!from.includes(job.status)) return;
+
+    const wasRunning = job.status === "running";
+    this.updateJob(jobId, { status: to, progress: wasRunning ? 0 : job.progress });
+    this.controllers.get(jobId)?.abort();
+    this.controllers.delete(jobId);
+    await this.commit();
+  }
+
+  private async requeue(jobId: string, from: ConversionJobStatus[]): Promise<void> {
+    await this.load();
+    const job = this.findJob(jobId);
+    if (!from.includes(job.status)) return;
+
+    this.updateJob(jobId, { status: "queued", progress: 0, error: null });
+    await this.commit();
+  }
+
+  /**
+   * 啟動排隊中的工作直到達到並行數
+   */
+  private schedule(): void {
+    let running = this.jobs.filter((job) => job.status === "running").length;
+    for (const job of this.jobs) {
+      if (running >= this.concurrency) break;
+      if (job.status !== "queued") continue;
+
+      running++;
+      this.run(job.id);
+    }
+  }
+
+  private async run(jobId: string): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(jobId, controller);
+    const job = this.updateJob(jobId, { status: "running", progress: 0, error: null });
+    this.persist();
+
+    try {
+      const record = await this.transcoder.convert(job.sourceUri, job.params, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (!controller.signal.aborted) {
+            this.updateJob(jobId, { progress });
+          }
+        },
+      });
+      if (!controller.signal.aborted) {
+        this.updateJob(jobId, { status: "completed", progress: 100, outputUri: record.outputUri });
+      }
+    } catch (err) {
+      // 暫停或取消時狀態已由 stop() 設定
+      if (!controller.signal.aborted) {
+        const message = err instanceof Error ? err.message : "轉換失敗";
+        this.updateJob(jobId, { status: "failed", error: message });
+      }
+    } finally {
+      if (this.controllers.get(jobId) === controller) {
+        this.controllers.delete(jobId);
+      }
+    }
+
+    this.persist();
+    this.schedule();
+  }
+
+  private findJob(jobId: string): ConversionJob {
+    const job = this.jobs.find((j) => j.id === jobId);
+    if (!job) throw new Error(`找不到轉檔工作：${jobId}`);
+    return job;
+  }
+
+  private updateJob(jobId: string, changes: Partial<ConversionJob>): ConversionJob {
+    let updated = this.findJob(jobId);
+    this.jobs = this.jobs.map((job) => {
+      if (job.id !== jobId) return job;
+      updated = { ...job, ...changes, updatedAt: Date.now() };
+      return updated;
+    });
+    this.notifyListeners();
+    return updated;
+  }
+
+  private async commit(): Promise<void> {
+    this.notifyListeners();
+    await this.persist();
+    this.schedule();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.storage.setItem(STORAGE_KEY, JSON.stringify(this.jobs));
+    } catch (err) {
+      console.error("保存轉檔佇列失敗:", err);
+    }
+  }
+
+  private notifyListeners(): void {
+    const jobs = this.getJobs();
+    this.listeners.forEach((listener) => listener(jobs));
+  }
+}
+
+function isActiveStatus(status: ConversionJobStatus): boolean {
+  return status === "queued" || status === "running" || status === "paused";
+}
+
+function isSameParams(a: SBSConversionParams, b: SBSConversionParams): boolean {
+  return (
+    a.layout === b.layout &&
+    a.pupilDistance === b.pupilDistance &&
+    a.convergenceDistance === b.convergenceDistance
+  );
+}
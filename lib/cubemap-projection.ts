@@ -0,0 +1,413 @@
+/**
+ * 立方體貼圖與 EAC (Equi-Angular Cubemap) 投影
+ * 支援視線與立方體紋理座標互轉，以及與等距柱狀格式之間的轉換
+ */
+
+import type { ViewportTransform } from "./gyroscope-tracker";
+import type { PixelBuffer } from "./video-processing";
+import {
+  directionToEquirect,
+  equirectToDirection,
+  perspectivePixelToDirection,
+  sampleEquirectBilinear,
+} from "./equirect-reprojection";
+
+export type CubeFace = "front" | "back" | "left" | "right" | "top" | "bottom";
+
+/**
+ * 立方體面的編碼方式
+ * - cubemap: 標準立方體貼圖，面內座標與切平面線性對應
+ * - eac: 等角立方體貼圖，面內座標與視角線性對應，像素分布更均勻
+ */
+export type CubemapEncoding = "cubemap" | "eac";
+
+/**
+ * 單一面在影格中的擺放位置
+ */
+export interface CubemapFacePlacement {
+  face: CubeFace;
+  /** 所在欄 */
+  column: number;
+  /** 所在列 */
+  row: number;
+  /** 順時針旋轉角度 */
+  rotation: 0 | 90 | 180 | 270;
+}
+
+/**
+ * 立方體貼圖排列
+ */
+export interface CubemapLayout {
+  columns: number;
+  rows: number;
+  faces: CubemapFacePlacement[];
+}
+
+/**
+ * 常用排列
+ * - 3x2: 上排 右/左/上，下排 下/前/後
+ * - 6x1: 右/左/上/下/前/後 橫向排列
+ * - youtube-eac: 上排 左/前/右，下排 下/後/上（順時針旋轉 90°）
+ */
+export const CUBEMAP_LAYOUTS: Record<"3x2" | "6x1" | "youtube-eac", CubemapLayout> = {
+  "3x2": {
+    columns: 3,
+    rows: 2,
+    faces: [
+      { face: "right", column: 0, row: 0, rotation: 0 },
+      { face: "left", column: 1, row: 0, rotation: 0 },
+      { face: "top", column: 2, row: 0, rotation: 0 },
+      { face: "bottom", column: 0, row: 1, rotation: 0 },
+      { face: "front", column: 1, row: 1, rotation: 0 },
+      { face: "back", column: 2, row: 1, rotation: 0 },
+    ],
+  },
+  "6x1": {
+    columns: 6,
+    rows: 1,
+    faces: [
+      { face: "right", column: 0, row: 0, rotation: 0 },
+      { face: "left", column: 1, row: 0, rotation: 0 },
+      { face: "top", column: 2, row: 0, rotation: 0 },
+      { face: "bottom", column: 3, row: 0, rotation: 0 },
+      { face: "front", column: 4, row: 0, rotation: 0 },
+      { face: "back", column: 5, row: 0, rotation: 0 },
+    ],
+  },
+  "youtube-eac": {
+    columns: 3,
+    rows: 2,
+    faces: [
+      { face: "left", column: 0, row: 0, rotation: 0 },
+      { face: "front", column: 1, row: 0, rotation: 0 },
+      { face: "right", column: 2, row: 0, rotation: 0 },
+      { face: "bottom", column: 0, row: 1, rotation: 90 },
+      { face: "back", column: 1, row: 1, rotation: 90 },
+      { face: "top", column: 2, row: 1, rotation: 90 },
+    ],
+  },
+};
+
+type Vector3 = [number, number, number];
+
+/**
+ * 各面的法向量與面內座標軸（世界座標 Y 軸朝上，正前方為 -Z）
+ * u 沿 right 方向遞增，v 沿 up 方向遞增
+ */
+const FACE_BASES: Record<CubeFace, { normal: Vector3; right: Vector3; up: Vector3 }> = {
+  front: { normal: [0, 0, -1], right: [1, 0, 0], up: [0, 1, 0] },
+  back: { normal: [0, 0, 1], right: [-1, 0, 0], up: [0, 1, 0] },
+  right: { normal: [1, 0, 0], right: [0, 0, 1], up: [0, 1, 0] },
+  left: { normal: [-1, 0, 0], right: [0, 0, -1], up: [0, 1, 0] },
+  top: { normal: [0, 1, 0], right: [1, 0, 0], up: [0, 0, 1] },
+  bottom: { normal: [0, -1, 0], right: [1, 0, 0], up: [0, 0, -1] },
+};
+
+function dot(a: Vector3, b: Vector3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+/**
+ * 視線方向轉為立方體面與面內座標
+ *
+ * @param direction 世界座標中的視線方向（不需正規化）
+ * @param encoding 編碼方式
+ * @returns 面與面內座標 (u, v ∈ [-1, 1]，v 向上)
+ */
+export function directionToFaceUV(
+  direction: Vector3,
+  encoding: CubemapEncoding = "cubemap"
+): { face: CubeFace; u: number; v: number } {
+  const [x, y, z] = direction;
+  const ax = Math.abs(x);
+  const ay = Math.abs(y);
+  const az = Math.abs(z);
+
+  let face: CubeFace;
+  if (ax >= ay && ax >= az) {
+    face = x > 0 ? "right" : "left";
+  } else if (ay >= az) {
+    face = y > 0 ? "top" : "bottom";
+  } else {
+    face = z > 0 ? "back" : "front";
+  }
+
+  const basis = FACE_BASES[face];
+  const depth = dot(direction, basis.normal) || 1;
+  let u = dot(direction, basis.right) / depth;
+  let v = dot(direction, basis.up) / depth;
+
+  if (encoding === "eac") {
+    u = (4 / Math.PI) * Math.atan(u);
+    v = (4 / Math.PI) * Math.atan(v);
+  }
+
+  return { face, u: clampUnit(u), v: clampUnit(v) };
+}
+
+/**
+ * 面內座標轉為視線方向（directionToFaceUV 的反函數）
+ *
+ * @param face 立方體面
+ * @param u 面內水平座標 [-1, 1]
+ * @param v 面內垂直座標 [-1, 1]，向上遞增
+ * @param encoding 編碼方式
+ * @returns 世界座標中的方向（未正規化）
+ */
+export function faceUVToDirection(
+  face: CubeFace,
+  u: number,
+  v: number,
+  encoding: CubemapEncoding = "cubemap"
+): Vector3 {
+  const cu = encoding === "eac" ? Math.tan((u * Math.PI) / 4) : u;
+  const cv = encoding === "eac" ? Math.tan((v * Math.PI) / 4) : v;
+  const { normal, right, up } = FACE_BASES[face];
+
+  return [
+    normal[0] + cu * right[0] + cv * up[0],
+    normal[1] + cu * right[1] + cv * up[1],
+    normal[2] + cu * right[2] + cv * up[2],
+  ];
+}
+
+/**
+ * 視線方向轉為立方體貼圖影格中的像素座標
+ *
+ * @param direction 世界座標中的視線方向
+ * @param layout 排列
+ * @param encoding 編碼方式
+ * @param width 影格寬度
+ * @param height 影格高度
+ * @returns 所在面與連續像素座標（像素中心為整數）
+ */
+export function directionToCubemapCoord(
+  direction: Vector3,
+  layout: CubemapLayout,
+  encoding: CubemapEncoding,
+  width: number,
+  height: number
+): { face: CubeFace; x: number; y: number } {
+  const { face, u, v } = directionToFaceUV(direction, encoding);
+  const placement = getFacePlacement(layout, face);
+
+  // 面內影像座標：s 向右、t 向下，範圍 [0, 1]
+  const [s, t] = rotateFaceCoord((u + 1) / 2, (1 - v) / 2, placement.rotation);
+  const cellWidth = width / layout.columns;
+  const cellHeight = height / layout.rows;
+
+  return {
+    face,
+    x: (placement.column + s) * cellWidth - 0.5,
+    y: (placement.row + t) * cellHeight - 0.5,
+  };
+}
+
+/**
+ * 立方體貼圖影格中的像素座標轉為視線方向
+ *
+ * @param x 像素座標 X（像素中心為整數）
+ * @param y 像素座標 Y
+ * @param layout 排列
+ * @param encoding 編碼方式
+ * @param width 影格寬度
+ * @param height 影格高度
+ * @returns 世界座標中的方向；座標不在任何面內時回傳 null
+ */
+export function cubemapCoordToDirection(
+  x: number,
+  y: number,
+  layout: CubemapLayout,
+  encoding: CubemapEncoding,
+  width: number,
+  height: number
+): Vector3 | null {
+  const cellWidth = width / layout.columns;
+  const cellHeight = height / layout.rows;
+  const column = Math.floor((x + 0.5) / cellWidth);
+  const row = Math.floor((y + 0.5) / cellHeight);
+
+  const placement = layout.faces.find((p) => p.column === column && p.row === row);
+  if (!placement) return null;
+
+  const cellS = (x + 0.5) / cellWidth - column;
+  const cellT = (y + 0.5) / cellHeight - row;
+  const [s, t] = rotateFaceCoord(cellS, cellT, ((360 - placement.rotation) % 360) as 0 | 90 | 180 | 270);
+
+  return faceUVToDirection(placement.face, s * 2 - 1, 1 - t * 2, encoding);
+}
+
+/**
+ * 將等距柱狀影格轉換為立方體貼圖
+ *
+ * @param source 等距柱狀來源影格
+ * @param layout 輸出排列
+ * @param encoding 輸出編碼
+ * @param faceSize 每個面的邊長 (像素)
+ * @returns 立方體貼圖影格
+ */
+export function convertEquirectToCubemap(
+  source: PixelBuffer,
+  layout: CubemapLayout,
+  encoding: CubemapEncoding,
+  faceSize: number
+): PixelBuffer {
+  const width = layout.columns * faceSize;
+  const height = layout.rows * faceSize;
+  const output = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const direction = cubemapCoordToDirection(x, y, layout, encoding, width, height);
+      if (!direction) continue;
+
+      const coord = directionToEquirect(direction, source.width, source.height);
+      sampleEquirectBilinear(source, coord.x, coord.y, output, (y * width + x) * 4);
+    }
+  }
+
+  return { data: output, width, height };
+}
+
+/**
+ * 將立方體貼圖影格轉換為等距柱狀
+ *
+ * @param source 立方體貼圖來源影格
+ * @param layout 來源排列
+ * @param encoding 來源編碼
+ * @param width 輸出寬度
+ * @param height 輸出高度
+ * @returns 等距柱狀影格
+ */
+export function convertCubemapToEquirect(
+  source: PixelBuffer,
+  layout: CubemapLayout,
+  encoding: CubemapEncoding,
+  width: number,
+  height: number
+): PixelBuffer {
+  const output = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const direction = equirectToDirection(x, y, width, height);
+      sampleCubemap(source, layout, encoding, direction, output, (y * width + x) * 4);
+    }
+  }
+
+  return { data: output, width, height };
+}
+
+/**
+ * 將立方體貼圖影格重投影為直線透視視圖
+ *
+ * @param source 立方體貼圖來源影格
+ * @param layout 來源排列
+ * @param encoding 來源編碼
+ * @param transform 視口轉換（視角 + 旋轉矩陣）
+ * @param outputWidth 輸出寬度
+ * @param outputHeight 輸出高度
+ * @returns 透視視圖
+ */
+export function renderCubemapPerspectiveView(
+  source: PixelBuffer,
+  layout: CubemapLayout,
+  encoding: CubemapEncoding,
+  transform: ViewportTransform,
+  outputWidth: number,
+  outputHeight: number
+): PixelBuffer {
+  const output = new Uint8ClampedArray(outputWidth * outputHeight * 4);
+
+  for (let row = 0; row < outputHeight; row++) {
+    for (let column = 0; column < outputWidth; column++) {
+      const direction = perspectivePixelToDirection(
+        column,
+        row,
+        outputWidth,
+        outputHeight,
+        transform
+      );
+      sampleCubemap(source, layout, encoding, direction, output, (row * outputWidth + column) * 4);
+    }
+  }
+
+  return { data: output, width: outputWidth, height: outputHeight };
+}
+
+/**
+ * 以雙線性插值取樣立方體貼圖
+ * 取樣範圍限制在所在面的格子內，避免混入相鄰面的像素
+ */
+function sampleCubemap(
+  source: PixelBuffer,
+  layout: CubemapLayout,
+  encoding: CubemapEncoding,
+  direction: Vector3,
+  output: Uint8ClampedArray,
+  outputIndex: number
+): void {
+  const { width, height, data } = source;
+  const { face, x, y } = directionToCubemapCoord(direction, layout, encoding, width, height);
+  const placement = getFacePlacement(layout, face);
+
+  const cellWidth = width / layout.columns;
+  const cellHeight = height / layout.rows;
+  const minX = Math.ceil(placement.column * cellWidth);
+  const maxX = Math.floor((placement.column + 1) * cellWidth) - 1;
+  const minY = Math.ceil(placement.row * cellHeight);
+  const maxY = Math.floor((placement.row + 1) * cellHeight) - 1;
+
+  const cx = Math.max(minX, Math.min(maxX, x));
+  const cy = Math.max(minY, Math.min(maxY, y));
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(maxX, x0 + 1);
+  const y1 = Math.min(maxY, y0 + 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+
+  const i00 = (y0 * width + x0) * 4;
+  const i10 = (y0 * width + x1) * 4;
+  const i01 = (y1 * width + x0) * 4;
+  const i11 = (y1 * width + x1) * 4;
+
+  for (let c = 0; c < 4; c++) {
+    output[outputIndex + c] =
+      data[i00 + c] * (1 - fx) * (1 - fy) +
+      data[i10 + c] * fx * (1 - fy) +
+      data[i01 + c] * (1 - fx) * fy +
+      data[i11 + c] * fx * fy;
+  }
+}
+
+/**
+ * 獲取面的擺放位置
+ */
+function getFacePlacement(layout: CubemapLayout, face: CubeFace): CubemapFacePlacement {
+  const placement = layout.faces.find((p) => p.face === face);
+  if (!placement) {
+    throw new Error(`排列中缺少 ${face} 面`);
+  }
+  return placement;
+}
+
+/**
+ * 將面內影像座標順時針旋轉
+ */
+function rotateFaceCoord(s: number, t: number, rotation: 0 | 90 | 180 | 270): [number, number] {
+  switch (rotation) {
+    case 90:
+      return [1 - t, s];
+    case 180:
+      return [1 - s, 1 - t];
+    case 270:
+      return [t, 1 - s];
+    default:
+      return [s, t];
+  }
+}
+
+function clampUnit(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
@@ -1,20 +1,63 @@
-import { Dimensions, Platform } from "react-native";
+import { Dimensions, PixelRatio, Platform, type ScaledSize } from "react-native";
+import { getLayoutPixelsPerMillimeter } from "./screen-geometry";
 
 export type DeviceMode = "phone" | "tablet" | "tv";
 
+/**
+ * 判斷設備類型所需的螢幕資訊
+ */
+export interface DeviceMetrics {
+  /** 視窗寬度（版面像素） */
+  width: number;
+  /** 視窗高度（版面像素） */
+  height: number;
+  /** 每個版面像素對應的實體像素數 */
+  pixelRatio: number;
+  platform: string;
+  /** 系統回報為電視（Platform.isTV） */
+  isTV: boolean;
+}
+
+/** 最短邊達此長度（英寸，約等於 Android 的 600dp）視為平板 */
+const TABLET_MIN_SMALLEST_SIDE_INCHES = 3.5;
+
+/**
+ * 依螢幕實體尺寸判斷設備類型
+ *
+ * 判斷順序：
+ * 1. 系統回報為電視（Android TV / tvOS）
+ * 2. 最短邊的實體長度達平板門檻（大螢幕手機的最短邊仍小於此值）
+ *
+ * @param metrics 螢幕資訊
+ * @returns 設備類型
+ */
+export function classifyDeviceMode(metrics: DeviceMetrics): DeviceMode {
+  if (metrics.isTV) return "tv";
+
+  const pixelsPerInch = getLayoutPixelsPerMillimeter(metrics) * 25.4;
+  const smallestSideInches = Math.min(metrics.width, metrics.height) / pixelsPerInch;
+
+  if (smallestSideInches >= TABLET_MIN_SMALLEST_SIDE_INCHES) return "tablet";
+  return "phone";
+}
+
 /**
  * 設備模式檢測與適應系統
  */
 export class DeviceModeManager {
   private static instance: DeviceModeManager;
   private currentMode: DeviceMode = "phone";
+  private detectedMode: DeviceMode = "phone";
+  private overrideMode: DeviceMode | null = null;
   private screenWidth: number = Dimensions.get("window").width;
   private screenHeight: number = Dimensions.get("window").height;
   private listeners: ((mode: DeviceMode) => void)[] = [];
+  private dimensionSubscription: { remove: () => void } | null = null;
 
   private constructor() {
     this.detectMode();
-    // React Native 的 Dimensions 不支援 addEventListener，改用 useWindowDimensions Hook
+    // 旋轉、摺疊螢幕展開或分割畫面時重新偵測
+    this.dimensionSubscription = Dimensions.addEventListener("change", this.handleDimensionChange);
   }
 
   static getInstance(): DeviceModeManager {
@@ -27,38 +70,54 @@ export class DeviceModeManager {
   /**
    * 偵測設備模式
    */
-  private detectMode(): void {
-    const { width, height } = Dimensions.get("window");
+  private detectMode(window: { width: number; height: number } = Dimensions.get("window")): void {
+    const { width, height } = window;
     this.screenWidth = width;
     this.screenHeight = height;
 
-    // 計算對角線尺寸（英寸）
-    const pixelDensity = Platform.OS === "android" ? 2 : 3; // 粗略估計
-    const diagonalInches = Math.sqrt(width ** 2 + height ** 2) / (160 * pixelDensity);
-
-    // 根據螢幕尺寸判斷設備類型
-    if (diagonalInches >= 10) {
-      this.currentMode = "tv";
-    } else if (diagonalInches >= 7) {
-      this.currentMode = "tablet";
-    } else {
-      this.currentMode = "phone";
-    }
+    this.detectedMode = classifyDeviceMode({
+      width,
+      height,
+      pixelRatio: PixelRatio.get(),
+      platform: Platform.OS,
+      isTV: Platform.isTV,
+    });
+    this.currentMode = this.overrideMode ?? this.detectedMode;
   }
 
   /**
    * 處理螢幕尺寸變化
+   * 即使設備類型不變也通知監聽器，讓畫面依新的尺寸重新排版
    */
-  private handleDimensionChange = ({ window }: { window: any }) => {
+  private handleDimensionChange = ({ window }: { window: ScaledSize }) => {
+    this.detectMode(window);
+    this.notifyListeners();
+  };
+
+  /**
+   * 設定使用者指定的設備類型，null 代表自動偵測
+   */
+  setOverride(mode: DeviceMode | null): void {
+    if (mode === this.overrideMode) return;
+    this.overrideMode = mode;
     const oldMode = this.currentMode;
-    this.screenWidth = window.width;
-    this.screenHeight = window.height;
-    this.detectMode();
+    this.currentMode = mode ?? this.detectedMode;
 
     if (oldMode !== this.currentMode) {
       this.notifyListeners();
     }
-  };
+  }
+
+  getOverride(): DeviceMode | null {
+    return this.overrideMode;
+  }
+
+  /**
+   * 獲取自動偵測的設備類型（不受使用者指定影響）
+   */
+  getDetectedMode(): DeviceMode {
+    return this.detectedMode;
+  }
 
   /**
    * 獲取當前設備模式
@@ -260,6 +319,8 @@ export class DeviceModeManager {
    */
   destroy(): void {
     this.listeners = [];
+    this.dimensionSubscription?.remove();
+    this.dimensionSubscription = null;
   }
 }
 
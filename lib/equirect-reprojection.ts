@@ -0,0 +1,345 @@
+/**
+ * 360° 全景影片重投影
+ * 將等距柱狀 (equirectangular) 影格重投影為直線透視視圖，模擬頭戴裝置的視角
+ *
+ * 逐像素重投影只適用於可取得像素資料的影格 (PixelBuffer)；
+ * 播放器的原生影片元件無法逐像素處理，只以 getViewCenterUV 平移與縮放影格
+ */
+
+import type { ViewportTransform } from "./gyroscope-tracker";
+import type { PixelBuffer } from "./video-processing";
+
+/**
+ * 重投影查找表
+ * 針對單一頭部姿態預先計算每個輸出像素對應的等距柱狀座標，
+ * 套用時只需雙線性取樣，不必再逐像素計算三角函數；
+ * 姿態、視角或輸出尺寸改變時需重建（見 isReprojectionLUTCurrent）
+ */
+export interface ReprojectionLUT {
+  /** 輸出寬度 */
+  width: number;
+  /** 輸出高度 */
+  height: number;
+  /** 建立查找表時的視口轉換 */
+  transform: ViewportTransform;
+  /** 每個輸出像素的來源正規化座標 (u, v) 交錯排列，長度為 width * height * 2 */
+  uv: Float32Array;
+}
+
+/**
+ * 計算視線方向對應的等距柱狀座標
+ *
+ * 座標約定（與 GyroscopeTracker 一致）：
+ * - 世界座標 Y 軸朝上，正前方為 -Z
+ * - 經度 0 位於影格水平中央，向右遞增；緯度 +90° 位於影格頂端
+ * - 偏航向左為正：yaw = +90° 看向經度 -90°（影格左側四分之一處）
+ *
+ * @param direction 世界座標中的視線方向（不需正規化）
+ * @param sourceWidth 來源影格寬度
+ * @param sourceHeight 來源影格高度
+ * @returns 來源影格中的連續像素座標（像素中心為整數）
+ */
+export function directionToEquirect(
+  [dx, dy, dz]: [number, number, number],
+  sourceWidth: number,
+  sourceHeight: number
+): { x: number; y: number } {
+  const { u, v } = directionToEquirectUV([dx, dy, dz]);
+
+  return {
+    x: u * sourceWidth - 0.5,
+    y: v * sourceHeight - 0.5,
+  };
+}
+
+/**
+ * 計算視線方向對應的等距柱狀正規化座標 (0-1)，u 向右、v 向下
+ */
+function directionToEquirectUV([dx, dy, dz]: [number, number, number]): { u: number; v: number } {
+  const length = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1;
+  const longitude = Math.atan2(dx, -dz);
+  const latitude = Math.asin(Math.max(-1, Math.min(1, dy / length)));
+
+  return {
+    u: longitude / (2 * Math.PI) + 0.5,
+    v: 0.5 - latitude / Math.PI,
+  };
+}
+
+/**
+ * 計算等距柱狀影格中某個像素對應的視線方向（directionToEquirect 的反函數）
+ *
+ * @param x 像素座標 X（像素中心為整數）
+ * @param y 像素座標 Y
+ * @param sourceWidth 影格寬度
+ * @param sourceHeight 影格高度
+ * @returns 世界座標中的單位方向
+ */
+export function equirectToDirection(
+  x: number,
+  y: number,
+  sourceWidth: number,
+  sourceHeight: number
+): [number, number, number] {
+  const longitude = ((x + 0.5) / sourceWidth - 0.5) * 2 * Math.PI;
+  const latitude = (0.5 - (y + 0.5) / sourceHeight) * Math.PI;
+  const cosLat = Math.cos(latitude);
+
+  return [cosLat * Math.sin(longitude), Math.sin(latitude), -cosLat * Math.cos(longitude)];
+}
+
+/**
+ * 計算透視視圖中某個像素在相機座標的視線（X 向右、Y 向上、看向 -Z）
+ */
+function perspectiveCameraRay(
+  column: number,
+  row: number,
+  width: number,
+  height: number,
+  horizontalFOV: number,
+  verticalFOV: number
+): [number, number, number] {
+  const tanHalfH = Math.tan((horizontalFOV * Math.PI) / 360);
+  const tanHalfV = Math.tan((verticalFOV * Math.PI) / 360);
+
+  return [
+    ((2 * (column + 0.5)) / width - 1) * tanHalfH,
+    (1 - (2 * (row + 0.5)) / height) * tanHalfV,
+    -1,
+  ];
+}
+
+/**
+ * 以旋轉矩陣將相機座標的視線轉換到世界座標
+ */
+function rotateRay(r: number[][], cx: number, cy: number, cz: number): [number, number, number] {
+  return [
+    r[0][0] * cx + r[0][1] * cy + r[0][2] * cz,
+    r[1][0] * cx + r[1][1] * cy + r[1][2] * cz,
+    r[2][0] * cx + r[2][1] * cy + r[2][2] * cz,
+  ];
+}
+
+/**
+ * 計算透視視圖中某個像素在世界座標的視線方向
+ *
+ * @param column 輸出像素欄
+ * @param row 輸出像素列
+ * @param width 輸出寬度
+ * @param height 輸出高度
+ * @param transform 視口轉換（視角 + 旋轉矩陣）
+ * @returns 世界座標中的視線方向
+ */
+export function perspectivePixelToDirection(
+  column: number,
+  row: number,
+  width: number,
+  height: number,
+  transform: ViewportTransform
+): [number, number, number] {
+  const [cx, cy, cz] = perspectiveCameraRay(
+    column,
+    row,
+    width,
+    height,
+    transform.horizontalFOV,
+    transform.verticalFOV
+  );
+  return rotateRay(transform.rotationMatrix, cx, cy, cz);
+}
+
+/**
+ * 計算視口中心在等距柱狀影格中的位置
+ * 供無法逐像素重投影的播放器（例如原生影片元件）平移影格，與重投影使用相同的方向約定
+ *
+ * @param transform 視口轉換
+ * @param horizontalCoverage 影格水平涵蓋的角度（360° 影片為 360，VR180 為 180）
+ * @returns 正規化座標 (0-1)，u 向右、v 向下；超出影格的經度夾在邊緣
+ */
+export function getViewCenterUV(
+  transform: ViewportTransform,
+  horizontalCoverage: number = 360
+): { u: number; v: number } {
+  const [dx, dy, dz] = rotateRay(transform.rotationMatrix, 0, 0, -1);
+  const longitude = (Math.atan2(dx, -dz) * 180) / Math.PI;
+  const latitude = (Math.asin(Math.max(-1, Math.min(1, dy))) * 180) / Math.PI;
+
+  return {
+    u: Math.max(0, Math.min(1, longitude / horizontalCoverage + 0.5)),
+    v: 0.5 - latitude / 180,
+  };
+}
+
+/**
+ * 以雙線性插值取樣等距柱狀影格
+ * 水平方向跨越 ±180° 接縫時環繞取樣，垂直方向在兩極處夾住
+ *
+ * @param source 來源影格
+ * @param x 連續像素座標 X
+ * @param y 連續像素座標 Y
+ * @param output 輸出緩衝區
+ * @param outputIndex 輸出位元組位置
+ */
+export function sampleEquirectBilinear(
+  source: PixelBuffer,
+  x: number,
+  y: number,
+  output: Uint8ClampedArray,
+  outputIndex: number
+): void {
+  const { width, height, data } = source;
+
+  const clampedY = Math.max(0, Math.min(height - 1, y));
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(clampedY);
+  const fx = x - x0;
+  const fy = clampedY - y0;
+
+  const left = ((x0 % width) + width) % width;
+  const right = (left + 1) % width;
+  const top = y0;
+  const bottom = Math.min(height - 1, y0 + 1);
+
+  const i00 = (top * width + left) * 4;
+  const i10 = (top * width + right) * 4;
+  const i01 = (bottom * width + left) * 4;
+  const i11 = (bottom * width + right) * 4;
+
+  const w00 = (1 - fx) * (1 - fy);
+  const w10 = fx * (1 - fy);
+  const w01 = (1 - fx) * fy;
+  const w11 = fx * fy;
+
+  for (let c = 0; c < 4; c++) {
+    output[outputIndex + c] =
+      data[i00 + c] * w00 + data[i10 + c] * w10 + data[i01 + c] * w01 + data[i11 + c] * w11;
+  }
+}
+
+/**
+ * 將等距柱狀影格重投影為直線透視視圖
+ *
+ * 演算法說明：
+ * 1. 依水平/垂直視角計算每個輸出像素在相機座標的視線
+ * 2. 以旋轉矩陣轉換到世界座標
+ * 3. 轉為經緯度後對應到來源影格座標
+ * 4. 雙線性插值取樣，經度方向環繞處理接縫
+ *
+ * @param source 等距柱狀來源影格
+ * @param transform 視口轉換（視角 + 旋轉矩陣）
+ * @param outputWidth 輸出寬度
+ * @param outputHeight 輸出高度
+ * @returns 透視視圖
+ */
+export function renderPerspectiveView(
+  source: PixelBuffer,
+  transform: ViewportTransform,
+  outputWidth: number,
+  outputHeight: number
+): PixelBuffer {
+  const output = new Uint8ClampedArray(outputWidth * outputHeight * 4);
+
+  for (let row = 0; row < outputHeight; row++) {
+    for (let column = 0; column < outputWidth; column++) {
+      const direction = perspectivePixelToDirection(
+        column,
+        row,
+        outputWidth,
+        outputHeight,
+        transform
+      );
+      const { x, y } = directionToEquirect(direction, source.width, source.height);
+      sampleEquirectBilinear(source, x, y, output, (row * outputWidth + column) * 4);
+    }
+  }
+
+  return { data: output, width: outputWidth, height: outputHeight };
+}
+
+/**
+ * 建立重投影查找表
+ * 記錄指定姿態下每個輸出像素的來源正規化座標，與來源影格解析度無關，
+ * 姿態不變時可重複用於後續每一幀
+ *
+ * @param transform 視口轉換（視角 + 旋轉矩陣）
+ * @param outputWidth 輸出寬度
+ * @param outputHeight 輸出高度
+ * @returns 查找表
+ */
+export function createReprojectionLUT(
+  transform: ViewportTransform,
+  outputWidth: number,
+  outputHeight: number
+): ReprojectionLUT {
+  const uv = new Float32Array(outputWidth * outputHeight * 2);
+
+  for (let row = 0; row < outputHeight; row++) {
+    for (let column = 0; column < outputWidth; column++) {
+      const direction = perspectivePixelToDirection(
+        column,
+        row,
+        outputWidth,
+        outputHeight,
+        transform
+      );
+      const { u, v } = directionToEquirectUV(direction);
+      const index = (row * outputWidth + column) * 2;
+      uv[index] = u;
+      uv[index + 1] = v;
+    }
+  }
+
+  return {
+    width: outputWidth,
+    height: outputHeight,
+    transform: {
+      ...transform,
+      rotationMatrix: transform.rotationMatrix.map((r) => [...r]),
+    },
+    uv,
+  };
+}
+
+/**
+ * 查找表是否仍適用於目前的視口轉換
+ * 視角或旋轉矩陣任一不同即需重建
+ *
+ * @param lut 重投影查找表
+ * @param transform 目前的視口轉換
+ */
+export function isReprojectionLUTCurrent(
+  lut: ReprojectionLUT,
+  transform: ViewportTransform
+): boolean {
+  const built = lut.transform;
+  if (
+    transform.horizontalFOV !== built.horizontalFOV ||
+    transform.verticalFOV !== built.verticalFOV
+  ) {
+    return false;
+  }
+
+  return transform.rotationMatrix.every((r, i) =>
+    r.every((value, j) => value === built.rotationMatrix[i][j])
+  );
+}
+
+/**
+ * 以查找表重投影影格，每個像素只做一次雙線性取樣
+ *
+ * @param source 等距柱狀來源影格（任意解析度）
+ * @param lut 重投影查找表
+ * @returns 透視視圖
+ */
+export function applyReprojectionLUT(source: PixelBuffer, lut: ReprojectionLUT): PixelBuffer {
+  const pixelCount = lut.width * lut.height;
+  const output = new Uint8ClampedArray(pixelCount * 4);
+  const { uv } = lut;
+  for (let i = 0; i < pixelCount; i++) {
+    const x = uv[i * 2] * source.width - 0.5;
+    const y = uv[i * 2 + 1] * source.height - 0.5;
+    sampleEquirectBilinear(source, x, y, output, i * 4);
+  }
+
+  return { data: output, width: lut.width, height: lut.height };
+}
@@ -0,0 +1,208 @@
+/**
+ * 遙控器方向鍵的焦點導航模型
+ * 以節點與鄰居描述畫面上可聚焦的元素，方向鍵只在圖上移動，不依賴實際排版，
+ * 因此可以在不渲染畫面的情況下測試；群組會記住最後聚焦的成員，
+ * 讓返回某一列或側邊欄時回到原本的位置
+ */
+
+export type FocusDirection = "up" | "down" | "left" | "right";
+
+/**
+ * 移動目標：節點 ID，或群組（移到該群組最後聚焦的成員，沒有則為第一個成員）
+ */
+export type FocusTarget = string | { group: string };
+
+export interface FocusNode {
+  id: string;
+  /** 所屬群組（依序加入），例如所在的列與整個內容區 */
+  groups?: string[];
+  neighbors: Partial<Record<FocusDirection, FocusTarget>>;
+}
+
+/**
+ * 焦點狀態快照，用於離開畫面後還原
+ */
+export interface FocusSnapshot {
+  focusedId: string | null;
+  groupMemory: Record<string, string>;
+}
+
+export interface LeanbackRow {
+  id: string;
+  itemIds: string[];
+}
+
+export const SIDEBAR_GROUP = "sidebar";
+export const CONTENT_GROUP = "content";
+
+export class FocusGraph {
+  private nodes = new Map<string, FocusNode>();
+  private groupMembers = new Map<string, string[]>();
+  private groupMemory = new Map<string, string>();
+  private focusedId: string | null = null;
+  /** 節點尚未出現（例如資料仍在載入）時，等待還原的焦點 */
+  private pendingFocusId: string | null = null;
+  private listeners: ((focusedId: string | null) => void)[] = [];
+
+  /**
+   * 替換所有節點
+   * 目前聚焦的節點仍存在時保持不變；不存在時先聚焦第一個節點，
+   * 待之後的節點清單再出現該節點時自動還原
+   */
+  setNodes(nodes: FocusNode[]): void {
+    this.nodes = new Map(nodes.map((node) => [node.id, node]));
+    this.groupMembers = new Map();
+    for (const node of nodes) {
+      for (const group of node.groups ?? []) {
+        const members = this.groupMembers.get(group) ?? [];
+        members.push(node.id);
+        this.groupMembers.set(group, members);
+      }
+    }
+
+    const wanted = this.pendingFocusId ?? this.focusedId;
+    let next: string | null;
+    if (wanted && this.nodes.has(wanted)) {
+      next = wanted;
+      this.pendingFocusId = null;
+    } else {
+      if (wanted) this.pendingFocusId = wanted;
+      next = nodes[0]?.id ?? null;
+    }
+    this.setFocused(next, false);
+  }
+
+  /**
+   * 聚焦指定節點
+   *
+   * @returns 節點是否存在
+   */
+  focus(id: string): boolean {
+    if (!this.nodes.has(id)) return false;
+    this.pendingFocusId = null;
+    this.setFocused(id, true);
+    return true;
+  }
+
+  /**
+   * 依方向鍵移動焦點
+   *
+   * @returns 新的焦點 ID；該方向沒有鄰居時回傳 null 且焦點不變
+   */
+  move(direction: FocusDirection): string | null {
+    if (!this.focusedId) return null;
+    const target = this.nodes.get(this.focusedId)?.neighbors[direction];
+    const next = target ? this.resolve(target) : null;
+    if (!next) return null;
+
+    this.pendingFocusId = null;
+    this.setFocused(next, true);
+    return next;
+  }
+
+  getFocused(): string | null {
+    return this.focusedId;
+  }
+
+  /**
+   * 將移動目標解析為節點 ID
+   */
+  resolve(target: FocusTarget): string | null {
+    if (typeof target === "string") {
+      return this.nodes.has(target) ? target : null;
+    }
+    const members = this.groupMembers.get(target.group);
+    if (!members || members.length === 0) return null;
+    const remembered = this.groupMemory.get(target.group);
+    return remembered && members.includes(remembered) ? remembered : members[0];
+  }
+
+  snapshot(): FocusSnapshot {
+    return {
+      focusedId: this.pendingFocusId ?? this.focusedId,
+      groupMemory: Object.fromEntries(this.groupMemory),
+    };
+  }
+
+  /**
+   * 還原快照；節點尚未載入時會在之後的 setNodes 中還原
+   */
+  restore(snapshot: FocusSnapshot): void {
+    this.groupMemory = new Map(Object.entries(snapshot.groupMemory));
+    if (!snapshot.focusedId) return;
+    if (this.nodes.has(snapshot.focusedId)) {
+      this.pendingFocusId = null;
+      this.setFocused(snapshot.focusedId, true);
+    } else {
+      this.pendingFocusId = snapshot.focusedId;
+    }
+  }
+
+  /**
+   * 訂閱焦點變化
+   */
+  subscribe(listener: (focusedId: string | null) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private setFocused(id: string | null, remember: boolean): void {
+    if (id && remember) {
+      for (const group of this.nodes.get(id)?.groups ?? []) {
+        this.groupMemory.set(group, id);
+      }
+    }
+    if (id === this.focusedId) return;
+    this.focusedId = id;
+    this.listeners.forEach((listener) => listener(id));
+  }
+}
+
+/**
+ * 建立 Leanback 版面的焦點節點：左側垂直側邊欄，右側多個水平捲動的列
+ *
+ * - 側邊欄上下移動，向右回到內容區最後聚焦的項目
+ * - 列內左右移動，最左邊的項目向左回到側邊欄
+ * - 上下移動到相鄰列最後聚焦的項目；空的列會被略過
+ *
+ * @param sidebarIds 側邊欄項目 ID（由上到下）
+ * @param rows 內容列（由上到下）
+ * @returns 焦點節點
+ */
+export function buildLeanbackFocusNodes(sidebarIds: string[], rows: LeanbackRow[]): FocusNode[] {
+  const contentRows = rows.filter((row) => row.itemIds.length > 0);
+  const nodes: FocusNode[] = [];
+
+  sidebarIds.forEach((id, index) => {
+    nodes.push({
+      id,
+      groups: [SIDEBAR_GROUP],
+      neighbors: {
+        up: sidebarIds[index - 1],
+        down: sidebarIds[index + 1],
+        right: contentRows.length > 0 ? { group: CONTENT_GROUP } : undefined,
+      },
+    });
+  });
+
+  contentRows.forEach((row, rowIndex) => {
+    const above = contentRows[rowIndex - 1];
+    const below = contentRows[rowIndex + 1];
+    row.itemIds.forEach((id, index) => {
+      nodes.push({
+        id,
+        groups: [row.id, CONTENT_GROUP],
+        neighbors: {
+          left: index > 0 ? row.itemIds[index - 1] : { group: SIDEBAR_GROUP },
+          right: row.itemIds[index + 1],
+          up: above ? { group: above.id } : undefined,
+          down: below ? { group: below.id } : undefined,
+        },
+      });
+    });
+  });
+
+  return nodes;
+}
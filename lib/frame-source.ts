@@ -0,0 +1,322 @@
+/**
+ * 影片幀來源抽象
+ * 將「從容器解出影格」與幀處理邏輯分離：裝置上使用原生解碼器，測試中使用純 TS 解碼器
+ */
+
+import {
+  convertYUVPixelFormat,
+  getYUVFrameSize,
+  guessYUVColorSpace,
+  resizeYUVFrame,
+  yuvToRGBA,
+  type YUVColorSpace,
+  type YUVFrame,
+  type YUVPixelFormat,
+} from "./yuv-frame";
+
+/**
+ * 幀像素格式：RGBA 交錯排列，或 YUV 4:2:0 平面 (i420) / 半平面 (nv12)
+ */
+export type FramePixelFormat = "rgba" | YUVPixelFormat;
+
+/**
+ * 影片串流資訊（取自容器標頭）
+ */
+export interface VideoStreamInfo {
+  width: number;
+  height: number;
+  /** 幀率 (fps)，可能為非整數，例如 29.97 */
+  frameRate: number;
+  /** 總幀數 */
+  frameCount: number;
+  /** 時長 (秒) */
+  duration: number;
+  /** 容器標示的色彩空間；未標示時為 undefined */
+  colorSpace?: YUVColorSpace;
+}
+
+export interface FrameRequest {
+  /** 輸出寬度；與來源不同時會縮放 */
+  width: number;
+  /** 輸出高度；與來源不同時會縮放 */
+  height: number;
+  format: FramePixelFormat;
+}
+
+export interface DecodedFrame {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  format: FramePixelFormat;
+  frameIndex: number;
+  /** 顯示時間 (毫秒)，依容器幀率計算 */
+  timestamp: number;
+  /** YUV 格式的色彩空間 */
+  colorSpace?: YUVColorSpace;
+}
+
+/**
+ * 幀來源介面
+ */
+export interface FrameSource {
+  /**
+   * 開啟影片並讀取串流資訊
+   */
+  open(uri: string): Promise<VideoStreamInfo>;
+
+  /**
+   * 讀取指定幀
+   */
+  readFrame(uri: string, frameIndex: number, request: FrameRequest): Promise<DecodedFrame>;
+
+  /**
+   * 釋放影片相關資源
+   */
+  close(uri: string): Promise<void>;
+}
+
+/**
+ * 計算幀的顯示時間 (毫秒)
+ */
+export function frameIndexToTimestamp(frameIndex: number, frameRate: number): number {
+  return (frameIndex * 1000) / frameRate;
+}
+
+/**
+ * 計算時間點所在的幀
+ */
+export function timestampToFrameIndex(timestamp: number, frameRate: number): number {
+  return Math.floor((timestamp * frameRate) / 1000 + 1e-6);
+}
+
+/**
+ * 解析幀率字串，例如 "30000:1001"、"30000/1001" 或 "25"
+ */
+export function parseFrameRate(value: string): number {
+  const [numerator, denominator] = value.split(/[:/]/).map(Number);
+  if (!numerator || Number.isNaN(numerator)) {
+    throw new Error(`無效的幀率：${value}`);
+  }
+  return denominator ? numerator / denominator : numerator;
+}
+
+/**
+ * 是否為 YUV 格式
+ */
+export function isYUVFormat(format: FramePixelFormat): format is YUVPixelFormat {
+  return format !== "rgba";
+}
+
+/**
+ * 獲取串流的色彩空間，容器未標示時依解析度推測
+ */
+export function resolveColorSpace(info: VideoStreamInfo): YUVColorSpace {
+  return info.colorSpace ?? guessYUVColorSpace(info.width, info.height);
+}
+
+/**
+ * 以最近鄰縮放交錯排列的像素緩衝區
+ */
+export function resizeNearest(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  bytesPerPixel: number,
+  targetWidth: number,
+  targetHeight: number
+): Uint8Array {
+  if (width === targetWidth && height === targetHeight) return data;
+
+  const output = new Uint8Array(targetWidth * targetHeight * bytesPerPixel);
+  for (let y = 0; y < targetHeight; y++) {
+    const srcY = Math.min(height - 1, Math.floor(((y + 0.5) * height) / targetHeight));
+    for (let x = 0; x < targetWidth; x++) {
+      const srcX = Math.min(width - 1, Math.floor(((x + 0.5) * width) / targetWidth));
+      const srcIdx = (srcY * width + srcX) * bytesPerPixel;
+      const dstIdx = (y * targetWidth + x) * bytesPerPixel;
+      for (let c = 0; c < bytesPerPixel; c++) {
+        output[dstIdx + c] = data[srcIdx + c];
+      }
+    }
+  }
+  return output;
+}
+
+interface Y4MStream {
+  info: VideoStreamInfo;
+  bytes: Uint8Array;
+  /** 每幀資料（不含 FRAME 標頭）的起始位置 */
+  frameOffsets: number[];
+  /** 每幀 I420 資料的位元組數 */
+  frameSize: number;
+}
+
+/**
+ * YUV4MPEG2 (.y4m) 解碼器
+ *
+ * y4m 是 ffmpeg 可直接輸出的未壓縮容器（`ffmpeg -i in.mp4 -pix_fmt yuv420p out.y4m`），
+ * 標頭帶有真實幀率，適合作為測試與離線處理的幀來源。
+ * 目前支援 4:2:0 取樣 (C420 / C420jpeg / C420paldv / C420mpeg2)，
+ * 色彩範圍取自 ffmpeg 的 XCOLORRANGE 擴充參數，色彩矩陣依解析度推測。
+ */
+export class Y4MFrameSource implements FrameSource {
+  private streams: Map<string, Y4MStream> = new Map();
+  private loadBytes: (uri: string) => Promise<Uint8Array>;
+
+  /**
+   * @param loadBytes 讀取檔案內容的函式（裝置上可包裝 expo-file-system，測試中可回傳記憶體資料）
+   */
+  constructor(loadBytes: (uri: string) => Promise<Uint8Array>) {
+    this.loadBytes = loadBytes;
+  }
+
+  async open(uri: string): Promise<VideoStreamInfo> {
+    const cached = this.streams.get(uri);
+    if (cached) return { ...cached.info };
+
+    const bytes = await this.loadBytes(uri);
+    const stream = parseY4M(bytes);
+    this.streams.set(uri, stream);
+    return { ...stream.info };
+  }
+
+  async readFrame(uri: string, frameIndex: number, request: FrameRequest): Promise<DecodedFrame> {
+    await this.open(uri);
+    const stream = this.streams.get(uri)!;
+    const { width, height, frameRate, frameCount } = stream.info;
+
+    if (frameIndex < 0 || frameIndex >= frameCount) {
+      throw new Error(`幀索引超出範圍：${frameIndex}（共 ${frameCount} 幀）`);
+    }
+
+    const offset = stream.frameOffsets[frameIndex];
+    const source: YUVFrame = {
+      format: "i420",
+      width,
+      height,
+      data: stream.bytes.slice(offset, offset + stream.frameSize),
+      colorSpace: resolveColorSpace(stream.info),
+    };
+
+    const timestamp = frameIndexToTimestamp(frameIndex, frameRate);
+    if (isYUVFormat(request.format)) {
+      const frame = convertYUVPixelFormat(
+        resizeYUVFrame(source, request.width, request.height),
+        request.format
+      );
+      return {
+        data: frame.data,
+        width: request.width,
+        height: request.height,
+        format: request.format,
+        frameIndex,
+        timestamp,
+        colorSpace: frame.colorSpace,
+      };
+    }
+
+    const rgba = yuvToRGBA(source);
+    return {
+      data: resizeNearest(
+        new Uint8Array(rgba.data.buffer),
+        width,
+        height,
+        4,
+        request.width,
+        request.height
+      ),
+      width: request.width,
+      height: request.height,
+      format: "rgba",
+      frameIndex,
+      timestamp,
+    };
+  }
+
+  async close(uri: string): Promise<void> {
+    this.streams.delete(uri);
+  }
+}
+
+/**
+ * 解析 y4m 串流標頭並建立幀索引
+ */
+function parseY4M(bytes: Uint8Array): Y4MStream {
+  const headerEnd = bytes.indexOf(0x0a);
+  if (headerEnd < 0) throw new Error("無效的 y4m 檔案：缺少標頭");
+
+  const header = decodeAscii(bytes.subarray(0, headerEnd)).split(" ");
+  if (header[0] !== "YUV4MPEG2") throw new Error("無效的 y4m 檔案：標頭不符");
+
+  let width = 0;
+  let height = 0;
+  let frameRate = 0;
+  let colorspace = "420jpeg";
+  let colorRange: YUVColorSpace["range"] | undefined;
+  for (const param of header.slice(1)) {
+    const value = param.substring(1);
+    switch (param[0]) {
+      case "W":
+        width = Number(value);
+        break;
+      case "H":
+        height = Number(value);
+        break;
+      case "F":
+        frameRate = parseFrameRate(value);
+        break;
+      case "C":
+        colorspace = value;
+        break;
+      case "X":
+        if (value === "COLORRANGE=FULL") colorRange = "full";
+        if (value === "COLORRANGE=LIMITED") colorRange = "limited";
+        break;
+    }
+  }
+
+  if (!width || !height || !frameRate) {
+    throw new Error("無效的 y4m 檔案：缺少尺寸或幀率");
+  }
+  if (!colorspace.startsWith("420")) {
+    throw new Error(`不支援的 y4m 色彩取樣：${colorspace}`);
+  }
+
+  const frameSize = getYUVFrameSize(width, height);
+  const frameOffsets: number[] = [];
+  let position = headerEnd + 1;
+  while (position < bytes.length) {
+    const lineEnd = bytes.indexOf(0x0a, position);
+    if (lineEnd < 0 || decodeAscii(bytes.subarray(position, position + 5)) !== "FRAME") {
+      throw new Error(`無效的 y4m 檔案：第 ${frameOffsets.length} 幀標頭錯誤`);
+    }
+    const dataStart = lineEnd + 1;
+    if (dataStart + frameSize > bytes.length) break; // 截斷的最後一幀
+    frameOffsets.push(dataStart);
+    position = dataStart + frameSize;
+  }
+
+  return {
+    info: {
+      width,
+      height,
+      frameRate,
+      frameCount: frameOffsets.length,
+      duration: frameOffsets.length / frameRate,
+      colorSpace: colorRange
+        ? { ...guessYUVColorSpace(width, height), range: colorRange }
+        : undefined,
+    },
+    bytes,
+    frameOffsets,
+    frameSize,
+  };
+}
+
+function decodeAscii(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+}
@@ -3,11 +3,30 @@
  * 支援 360° 全景影片的自動視角追蹤
  */
 
+import { directionToFaceUV, type CubeFace } from "./cubemap-projection";
+
 export interface GyroscopeData {
-  x: number; // 繞 X 軸旋轉（俯仰角 - Pitch）
-  y: number; // 繞 Y 軸旋轉（偏航角 - Yaw）
-  z: number; // 繞 Z 軸旋轉（滾轉角 - Roll）
-  timestamp: number;
+  x: number; // 繞 X 軸角速度（俯仰 - Pitch），弧度/秒
+  y: number; // 繞 Y 軸角速度（偏航 - Yaw），弧度/秒
+  z: number; // 繞 Z 軸角速度（滾轉 - Roll），弧度/秒
+  timestamp: number; // 毫秒
+}
+
+export interface AccelerometerData {
+  x: number; // 任意單位（g 或 m/s²），僅使用方向
+  y: number;
+  z: number;
+  timestamp: number; // 毫秒
+}
+
+/**
+ * 單位四元數（表示裝置座標系到世界座標系的旋轉）
+ */
+export interface Quaternion {
+  w: number;
+  x: number;
+  y: number;
+  z: number;
 }
 
 export interface EulerAngles {
@@ -21,26 +40,311 @@ export interface ViewportTransform {
   horizontalFOV: number;
   /** 垂直視角 (度) */
   verticalFOV: number;
-  /** 中心點水平位置 (0-1) */
+  /** 視線中心在等距柱狀影格的水平位置 (0-1，向右遞增；偏航向左為正，因此 yaw > 0 時小於 0.5) */
   centerX: number;
-  /** 中心點垂直位置 (0-1) */
+  /** 視線中心在等距柱狀影格的垂直位置 (0-1，向下遞增；俯仰向上為正) */
   centerY: number;
   /** 旋轉矩陣 */
   rotationMatrix: number[][];
 }
 
+/**
+ * 方向融合濾波器參數
+ */
+export interface OrientationFilterOptions {
+  /** 比例增益：加速度計修正強度，越大越快收斂但越易受晃動影響 */
+  proportionalGain: number;
+  /** 積分增益：陀螺儀零偏估計速度 */
+  integralGain: number;
+  /** 超過此間隔 (毫秒) 的樣本視為中斷，不進行積分 */
+  maxSampleInterval: number;
+}
+
+export const DEFAULT_ORIENTATION_FILTER_OPTIONS: OrientationFilterOptions = {
+  proportionalGain: 2.0,
+  integralGain: 0.05,
+  maxSampleInterval: 500,
+};
+
+/** 世界座標系的「上」方向（Y 軸朝上） */
+const WORLD_UP: [number, number, number] = [0, 1, 0];
+
+const RAD_TO_DEG = 180 / Math.PI;
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * 單位四元數
+ */
+export function identityQuaternion(): Quaternion {
+  return { w: 1, x: 0, y: 0, z: 0 };
+}
+
+/**
+ * 四元數乘法 (a ⊗ b)
+ */
+export function multiplyQuaternions(a: Quaternion, b: Quaternion): Quaternion {
+  return {
+    w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+    x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+    y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+    z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,
+  };
+}
+
+/**
+ * 正規化四元數
+ */
+export function normalizeQuaternion(q: Quaternion): Quaternion {
+  const length = Math.sqrt(q.w * q.w + q.x * q.x + q.y * q.y + q.z * q.z);
+  if (length < 1e-12) return identityQuaternion();
+  return { w: q.w / length, x: q.x / length, y: q.y / length, z: q.z / length };
+}
+
+/**
+ * 以四元數旋轉向量
+ */
+export function rotateVector(
+  q: Quaternion,
+  [vx, vy, vz]: [number, number, number]
+): [number, number, number] {
+  const r = quaternionToRotationMatrix(q);
+  return [
+    r[0][0] * vx + r[0][1] * vy + r[0][2] * vz,
+    r[1][0] * vx + r[1][1] * vy + r[1][2] * vz,
+    r[2][0] * vx + r[2][1] * vy + r[2][2] * vz,
+  ];
+}
+
+/**
+ * 四元數轉旋轉矩陣（裝置座標 → 世界座標）
+ */
+export function quaternionToRotationMatrix(q: Quaternion): number[][] {
+  const { w, x, y, z } = q;
+  return [
+    [1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y)],
+    [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x)],
+    [2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y)],
+  ];
+}
+
+/**
+ * 四元數轉歐拉角（Y-X-Z 順序：先偏航、再俯仰、最後滾轉）
+ */
+export function quaternionToEulerAngles(q: Quaternion): EulerAngles {
+  const { w, x, y, z } = q;
+  const sinPitch = Math.max(-1, Math.min(1, 2 * (w * x - y * z)));
+
+  return {
+    pitch: Math.asin(sinPitch) * RAD_TO_DEG,
+    yaw: Math.atan2(2 * (x * z + w * y), 1 - 2 * (x * x + y * y)) * RAD_TO_DEG,
+    roll: Math.atan2(2 * (x * y + w * z), 1 - 2 * (x * x + z * z)) * RAD_TO_DEG,
+  };
+}
+
+/**
+ * 歐拉角轉四元數（Y-X-Z 順序，與 quaternionToEulerAngles 互逆）
+ */
+export function eulerAnglesToQuaternion(angles: EulerAngles): Quaternion {
+  const halfYaw = (angles.yaw * DEG_TO_RAD) / 2;
+  const halfPitch = (angles.pitch * DEG_TO_RAD) / 2;
+  const halfRoll = (angles.roll * DEG_TO_RAD) / 2;
+
+  const qYaw = { w: Math.cos(halfYaw), x: 0, y: Math.sin(halfYaw), z: 0 };
+  const qPitch = { w: Math.cos(halfPitch), x: Math.sin(halfPitch), y: 0, z: 0 };
+  const qRoll = { w: Math.cos(halfRoll), x: 0, y: 0, z: Math.sin(halfRoll) };
+
+  return multiplyQuaternions(multiplyQuaternions(qYaw, qPitch), qRoll);
+}
+
+/**
+ * 四元數球面線性插值
+ */
+export function slerpQuaternions(a: Quaternion, b: Quaternion, t: number): Quaternion {
+  let cosHalfTheta = a.w * b.w + a.x * b.x + a.y * b.y + a.z * b.z;
+
+  // 取最短路徑
+  let target = b;
+  if (cosHalfTheta < 0) {
+    target = { w: -b.w, x: -b.x, y: -b.y, z: -b.z };
+    cosHalfTheta = -cosHalfTheta;
+  }
+
+  if (cosHalfTheta > 0.9995) {
+    return normalizeQuaternion({
+      w: a.w + (target.w - a.w) * t,
+      x: a.x + (target.x - a.x) * t,
+      y: a.y + (target.y - a.y) * t,
+      z: a.z + (target.z - a.z) * t,
+    });
+  }
+
+  const halfTheta = Math.acos(cosHalfTheta);
+  const sinHalfTheta = Math.sqrt(1 - cosHalfTheta * cosHalfTheta);
+  const ratioA = Math.sin((1 - t) * halfTheta) / sinHalfTheta;
+  const ratioB = Math.sin(t * halfTheta) / sinHalfTheta;
+
+  return {
+    w: a.w * ratioA + target.w * ratioB,
+    x: a.x * ratioA + target.x * ratioB,
+    y: a.y * ratioA + target.y * ratioB,
+    z: a.z * ratioA + target.z * ratioB,
+  };
+}
+
+/**
+ * 陀螺儀 + 加速度計方向融合濾波器（Mahony 互補濾波）
+ *
+ * 演算法說明：
+ * 1. 以陀螺儀角速度對時間積分得到方向四元數
+ * 2. 以目前方向推算的重力方向與加速度計實測方向做外積，得到俯仰/滾轉誤差
+ * 3. 誤差經比例項回饋到角速度，積分項則持續估計陀螺儀零偏
+ * 加速度計無法觀測偏航，因此偏航仍依賴陀螺儀，但零偏修正可大幅降低漂移
+ *
+ * 純計算、不依賴時鐘，相同輸入序列必定得到相同輸出，可用錄製的感測器數據測試
+ */
+export class OrientationFilter {
+  private orientation: Quaternion = identityQuaternion();
+  private gyroBias: [number, number, number] = [0, 0, 0];
+  private lastTimestamp: number | null = null;
+  private options: OrientationFilterOptions;
+
+  constructor(options: Partial<OrientationFilterOptions> = {}) {
+    this.options = { ...DEFAULT_ORIENTATION_FILTER_OPTIONS, ...options };
+  }
+
+  /**
+   * 以一組陀螺儀樣本（及可選的加速度計樣本）更新方向
+   */
+  update(gyro: GyroscopeData, accel?: AccelerometerData): Quaternion {
+    const previousTimestamp = this.lastTimestamp;
+    this.lastTimestamp = gyro.timestamp;
+
+    if (previousTimestamp === null) return this.getQuaternion();
+    const intervalMs = gyro.timestamp - previousTimestamp;
+    if (intervalMs <= 0 || intervalMs > this.options.maxSampleInterval) {
+      return this.getQuaternion();
+    }
+    const dt = intervalMs / 1000;
+
+    let wx = gyro.x;
+    let wy = gyro.y;
+    let wz = gyro.z;
+
+    const accelNorm = accel ? Math.sqrt(accel.x ** 2 + accel.y ** 2 + accel.z ** 2) : 0;
+    if (accel && accelNorm > 1e-6) {
+      const ax = accel.x / accelNorm;
+      const ay = accel.y / accelNorm;
+      const az = accel.z / accelNorm;
+
+      // 目前估計的「上」方向（裝置座標）
+      const [vx, vy, vz] = rotateVector(
+        conjugateQuaternion(this.orientation),
+        WORLD_UP
+      );
+
+      // 誤差 = 實測 × 估計
+      const ex = ay * vz - az * vy;
+      const ey = az * vx - ax * vz;
+      const ez = ax * vy - ay * vx;
+
+      if (this.options.integralGain > 0) {
+        this.gyroBias[0] += this.options.integralGain * ex * dt;
+        this.gyroBias[1] += this.options.integralGain * ey * dt;
+        this.gyroBias[2] += this.options.integralGain * ez * dt;
+      }
+
+      wx += this.options.proportionalGain * ex + this.gyroBias[0];
+      wy += this.options.proportionalGain * ey + this.gyroBias[1];
+      wz += this.options.proportionalGain * ez + this.gyroBias[2];
+    } else {
+      wx += this.gyroBias[0];
+      wy += this.gyroBias[1];
+      wz += this.gyroBias[2];
+    }
+
+    // 以軸角形式積分，避免大步長時的一階誤差
+    const rate = Math.sqrt(wx * wx + wy * wy + wz * wz);
+    const angle = rate * dt;
+    if (angle > 1e-12) {
+      const halfAngle = angle / 2;
+      const s = Math.sin(halfAngle) / rate;
+      const delta = { w: Math.cos(halfAngle), x: wx * s, y: wy * s, z: wz * s };
+      this.orientation = normalizeQuaternion(multiplyQuaternions(this.orientation, delta));
+    }
+
+    return this.getQuaternion();
+  }
+
+  /**
+   * 獲取目前方向
+   */
+  getQuaternion(): Quaternion {
+    return { ...this.orientation };
+  }
+
+  /**
+   * 獲取估計的陀螺儀零偏修正量（弧度/秒）
+   */
+  getGyroBias(): [number, number, number] {
+    return [...this.gyroBias];
+  }
+
+  /**
+   * 直接設定方向（例如重新置中）
+   */
+  setQuaternion(q: Quaternion): void {
+    this.orientation = normalizeQuaternion(q);
+  }
+
+  /**
+   * 重置濾波器狀態
+   */
+  reset(): void {
+    this.orientation = identityQuaternion();
+    this.gyroBias = [0, 0, 0];
+    this.lastTimestamp = null;
+  }
+}
+
+/**
+ * 共軛四元數（單位四元數的逆）
+ */
+function conjugateQuaternion(q: Quaternion): Quaternion {
+  return { w: q.w, x: -q.x, y: -q.y, z: -q.z };
+}
+
+/**
+ * 將角度限制在 -180 ~ 180
+ */
+function wrapAngle(angle: number): number {
+  const wrapped = ((((angle + 180) % 360) + 360) % 360) - 180;
+  return wrapped === -180 && angle > 0 ? 180 : wrapped;
+}
+
 /**
  * 陀螺儀追蹤器
  */
 export class GyroscopeTracker {
-  private currentEulerAngles: EulerAngles = { pitch: 0, yaw: 0, roll: 0 };
+  private filter: OrientationFilter;
+  private latestAccelerometer?: AccelerometerData;
+  private currentQuaternion: Quaternion = identityQuaternion();
+  private smoothedQuaternion: Quaternion = identityQuaternion();
   private smoothedAngles: EulerAngles = { pitch: 0, yaw: 0, roll: 0 };
-  private listeners: ((angles: EulerAngles) => void)[] = [];
+  // 搖桿或方向鍵手動旋轉的量（度），疊加在感測器方向上
+  private manualYaw: number = 0;
+  private manualPitch: number = 0;
+  private viewQuaternion: Quaternion = identityQuaternion();
+  private viewAngles: EulerAngles = { pitch: 0, yaw: 0, roll: 0 };
+  private listeners: ((angles: EulerAngles, quaternion: Quaternion) => void)[] = [];
   private isEnabled: boolean = false;
   private smoothingFactor: number = 0.8; // 平滑係數 (0-1)
   private maxPitch: number = 85; // 最大俯仰角
   private minPitch: number = -85; // 最小俯仰角
 
+  constructor(filterOptions: Partial<OrientationFilterOptions> = {}) {
+    this.filter = new OrientationFilter(filterOptions);
+  }
+
   /**
    * 啟用陀螺儀追蹤
    */
@@ -68,48 +372,69 @@ export class GyroscopeTracker {
   updateGyroscopeData(data: GyroscopeData): void {
     if (!this.isEnabled) return;
 
-    // 將陀螺儀數據轉換為歐拉角
-    this.currentEulerAngles = this.gyroscopeToEulerAngles(data);
+    // 積分角速度並以最近的加速度計樣本修正俯仰/滾轉
+    this.currentQuaternion = this.filter.update(data, this.latestAccelerometer);
 
-    // 應用平滑濾波
-    this.smoothedAngles = this.applySmoothingFilter(
-      this.smoothedAngles,
-      this.currentEulerAngles,
-      this.smoothingFactor
+    // 應用平滑濾波（球面插值，避免 ±180° 處跳動）
+    this.smoothedQuaternion = slerpQuaternions(
+      this.smoothedQuaternion,
+      this.currentQuaternion,
+      1 - this.smoothingFactor
     );
 
     // 限制角度範圍
-    this.smoothedAngles = this.clampAngles(this.smoothedAngles);
+    this.smoothedAngles = this.clampAngles(quaternionToEulerAngles(this.smoothedQuaternion));
 
-    // 通知監聽器
-    this.notifyListeners(this.smoothedAngles);
+    this.updateView();
   }
 
   /**
-   * 將陀螺儀數據轉換為歐拉角
+   * 手動旋轉視角（搖桿、方向鍵），不需啟用陀螺儀
+   * 偏航繞世界垂直軸旋轉，俯仰相對目前的頭部方向
+   *
+   * @param yaw 偏航變化量（度，向左為正）
+   * @param pitch 俯仰變化量（度，向上為正）
    */
-  private gyroscopeToEulerAngles(data: GyroscopeData): EulerAngles {
-    // 簡化的轉換（實際應用中應使用四元數以避免萬向鎖）
-    return {
-      pitch: data.x * (180 / Math.PI),
-      yaw: data.y * (180 / Math.PI),
-      roll: data.z * (180 / Math.PI),
-    };
+  rotateBy(yaw: number, pitch: number): void {
+    this.manualYaw = wrapAngle(this.manualYaw + yaw);
+    this.manualPitch = Math.max(
+      this.minPitch,
+      Math.min(this.maxPitch, this.manualPitch + pitch)
+    );
+    this.updateView();
   }
 
   /**
-   * 應用平滑濾波
+   * 重新置中：目前面對的水平方向成為正前方，並取消手動俯仰
    */
-  private applySmoothingFilter(
-    previous: EulerAngles,
-    current: EulerAngles,
-    factor: number
-  ): EulerAngles {
-    return {
-      pitch: previous.pitch * factor + current.pitch * (1 - factor),
-      yaw: previous.yaw * factor + current.yaw * (1 - factor),
-      roll: previous.roll * factor + current.roll * (1 - factor),
-    };
+  recenter(): void {
+    this.manualYaw = -this.smoothedAngles.yaw;
+    this.manualPitch = 0;
+    this.updateView();
+  }
+
+  /**
+   * 合成感測器方向與手動旋轉並通知監聽器
+   */
+  private updateView(): void {
+    const manualYaw = eulerAnglesToQuaternion({ yaw: this.manualYaw, pitch: 0, roll: 0 });
+    const manualPitch = eulerAnglesToQuaternion({ yaw: 0, pitch: this.manualPitch, roll: 0 });
+    this.viewQuaternion = multiplyQuaternions(
+      multiplyQuaternions(manualYaw, this.smoothedQuaternion),
+      manualPitch
+    );
+    this.viewAngles = this.clampAngles(quaternionToEulerAngles(this.viewQuaternion));
+
+    // 通知監聽器
+    this.notifyListeners(this.viewAngles, this.viewQuaternion);
+  }
+
+  /**
+   * 更新加速度計數據（用於重力方向修正）
+   */
+  updateAccelerometerData(data: AccelerometerData): void {
+    if (!this.isEnabled) return;
+    this.latestAccelerometer = data;
   }
 
   /**
@@ -118,16 +443,23 @@ export class GyroscopeTracker {
   private clampAngles(angles: EulerAngles): EulerAngles {
     return {
       pitch: Math.max(this.minPitch, Math.min(this.maxPitch, angles.pitch)),
-      yaw: ((angles.yaw + 180) % 360) - 180, // 限制在 -180 ~ 180
-      roll: ((angles.roll + 180) % 360) - 180,
+      yaw: wrapAngle(angles.yaw),
+      roll: wrapAngle(angles.roll),
     };
   }
 
   /**
-   * 獲取當前歐拉角
+   * 獲取當前歐拉角（含手動旋轉）
    */
   getEulerAngles(): EulerAngles {
-    return { ...this.smoothedAngles };
+    return { ...this.viewAngles };
+  }
+
+  /**
+   * 獲取當前方向四元數（已平滑，含手動旋轉）
+   */
+  getQuaternion(): Quaternion {
+    return { ...this.viewQuaternion };
   }
 
   /**
@@ -137,14 +469,14 @@ export class GyroscopeTracker {
     horizontalFOV: number = 90,
     verticalFOV: number = 60
   ): ViewportTransform {
-    const angles = this.smoothedAngles;
+    const angles = this.viewAngles;
 
     // 計算旋轉矩陣
     const rotationMatrix = this.calculateRotationMatrix(angles);
 
-    // 計算視口中心位置
-    const centerX = (angles.yaw + 180) / 360; // 0-1
-    const centerY = (angles.pitch + 90) / 180; // 0-1
+    // 計算視口中心位置（與 equirect-reprojection 相同的方向約定）
+    const centerX = 0.5 - angles.yaw / 360; // 0-1
+    const centerY = 0.5 - angles.pitch / 180; // 0-1
 
     return {
       horizontalFOV,
@@ -156,34 +488,10 @@ export class GyroscopeTracker {
   }
 
   /**
-   * 計算旋轉矩陣（Z-Y-X 歐拉角順序）
+   * 計算旋轉矩陣（Y-X-Z 歐拉角順序，與四元數一致）
    */
   private calculateRotationMatrix(angles: EulerAngles): number[][] {
-    const pitch = (angles.pitch * Math.PI) / 180;
-    const yaw = (angles.yaw * Math.PI) / 180;
-    const roll = (angles.roll * Math.PI) / 180;
-
-    const cosP = Math.cos(pitch);
-    const sinP = Math.sin(pitch);
-    const cosY = Math.cos(yaw);
-    const sinY = Math.sin(yaw);
-    const cosR = Math.cos(roll);
-    const sinR = Math.sin(roll);
-
-    // Z-Y-X 旋轉矩陣
-    return [
-      [
-        cosY * cosR - sinY * sinP * sinR,
-        -cosY * sinR - sinY * sinP * cosR,
-        -sinY * cosP,
-      ],
-      [sinR * cosP, cosR * cosP, sinP],
-      [
-        sinY * cosR + cosY * sinP * sinR,
-        -sinY * sinR + cosY * sinP * cosR,
-        cosY * cosP,
-      ],
-    ];
+    return quaternionToRotationMatrix(eulerAnglesToQuaternion(angles));
   }
 
   /**
@@ -197,14 +505,21 @@ export class GyroscopeTracker {
    * 重置追蹤
    */
   reset(): void {
-    this.currentEulerAngles = { pitch: 0, yaw: 0, roll: 0 };
+    this.filter.reset();
+    this.latestAccelerometer = undefined;
+    this.currentQuaternion = identityQuaternion();
+    this.smoothedQuaternion = identityQuaternion();
     this.smoothedAngles = { pitch: 0, yaw: 0, roll: 0 };
+    this.manualYaw = 0;
+    this.manualPitch = 0;
+    this.viewQuaternion = identityQuaternion();
+    this.viewAngles = { pitch: 0, yaw: 0, roll: 0 };
   }
 
   /**
    * 訂閱角度變化
    */
-  subscribe(listener: (angles: EulerAngles) => void): () => void {
+  subscribe(listener: (angles: EulerAngles, quaternion: Quaternion) => void): () => void {
     this.listeners.push(listener);
     return () => {
       this.listeners = this.listeners.filter((l) => l !== listener);
@@ -214,8 +529,8 @@ export class GyroscopeTracker {
   /**
    * 通知所有監聽器
    */
-  private notifyListeners(angles: EulerAngles): void {
-    this.listeners.forEach((listener) => listener(angles));
+  private notifyListeners(angles: EulerAngles, quaternion: Quaternion): void {
+    this.listeners.forEach((listener) => listener(angles, quaternion));
   }
 
   /**
@@ -233,6 +548,9 @@ export class GyroscopeTracker {
 export class PanoramicViewCalculator {
   /**
    * 計算 360° 全景影片的裁剪區域
+   *
+   * 僅為矩形裁剪的粗略近似，兩極會嚴重變形且無法跨越 ±180° 接縫；
+   * 需要真實頭戴視角時請改用 equirect-reprojection 的 renderPerspectiveView
    */
   static calculateCropRegion(
     imageWidth: number,
@@ -267,40 +585,22 @@ export class PanoramicViewCalculator {
 
   /**
    * 計算立方體貼圖的面與坐標
+   * 偏航向左為正，與 calculateCropRegion 的平移方向一致（yaw = +90° 為左面）
+   *
+   * @returns 視線中心所在的面，以及面內座標 (u 向右、v 向上，0-1)
    */
   static calculateCubemapFace(
     angles: EulerAngles
   ): {
-    face: "front" | "back" | "left" | "right" | "top" | "bottom";
+    face: CubeFace;
     u: number;
     v: number;
   } {
-    const pitch = angles.pitch;
-    const yaw = angles.yaw;
-
-    // 判斷主要面
-    let face: "front" | "back" | "left" | "right" | "top" | "bottom";
-    let u: number;
-    let v: number;
-
-    if (Math.abs(pitch) > 45) {
-      // 上或下
-      face = pitch > 0 ? "top" : "bottom";
-      u = (yaw + 180) / 360;
-      v = (Math.abs(pitch) - 45) / 45;
-    } else if (Math.abs(yaw) > 45) {
-      // 左或右
-      face = yaw > 0 ? "right" : "left";
-      u = ((yaw % 90) + 90) / 180;
-      v = (pitch + 45) / 90;
-    } else {
-      // 前
-      face = "front";
-      u = (yaw + 45) / 90;
-      v = (pitch + 45) / 90;
-    }
+    // 正前方為 -Z，依頭部姿態旋轉
+    const direction = rotateVector(eulerAnglesToQuaternion(angles), [0, 0, -1]);
+    const { face, u, v } = directionToFaceUV(direction);
 
-    return { face, u: Math.max(0, Math.min(1, u)), v: Math.max(0, Math.min(1, v)) };
+    return { face, u: (u + 1) / 2, v: (v + 1) / 2 };
   }
 }
 
@@ -0,0 +1,558 @@
+/**
+ * HLS 離線下載
+ * 下載選定畫質的所有區段（以及 fMP4 初始化區段、AES-128 金鑰與替代音軌）到同一個目錄，
+ * 並產生指向本地檔案的播放清單，播放器可直接開啟目錄中的 index.m3u8 離線播放
+ *
+ * 每個檔案先寫入暫存檔再移到正式路徑，已存在的檔案視為下載完成；
+ * 網路中斷或 App 被關閉後從第一個缺少的檔案繼續
+ */
+
+import type { DownloadFileSystem, DownloadStorage, DownloadStatus } from "./telegram-download";
+import { getPartialPath } from "./telegram-download";
+import {
+  BandwidthEstimator,
+  createHlsMasterPlaylist,
+  isHlsMasterPlaylist,
+  parseHlsMasterPlaylist,
+  parseHlsMediaPlaylist,
+  selectStreamVariant,
+  type ByteRange,
+  type HlsMediaPlaylist,
+  type StreamQuality,
+  type StreamRendition,
+  type StreamVariant,
+} from "./stream-manifest";
+import { DEFAULT_VIDEO_LAYOUT, type VideoLayout } from "./video-layout";
+
+export interface HlsDownloadRecord {
+  /** 由網址產生（getHlsDownloadId） */
+  id: string;
+  /** 主播放清單或媒體播放清單的網址 */
+  url: string;
+  title: string;
+  /** 下載目錄（以 "/" 結尾） */
+  directory: string;
+  /** 本地主播放清單 */
+  playlistPath: string;
+  quality: StreamQuality;
+  /** 選定的畫質版本，繼續下載時沿用 */
+  variant: StreamVariant | null;
+  layout: VideoLayout;
+  /** 總長度（秒） */
+  duration: number;
+  /** 需下載的檔案數（區段、初始化區段與金鑰）；0 為尚未取得播放清單 */
+  totalFiles: number;
+  downloadedFiles: number;
+  downloadedBytes: number;
+  status: DownloadStatus;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface HlsDownloadRequest {
+  url: string;
+  title: string;
+  /** 下載目錄（以 "/" 結尾） */
+  directory: string;
+  quality: StreamQuality;
+  /** 已知的排列（例如播放時由清單取得） */
+  layout?: VideoLayout;
+}
+
+export interface HlsDownloadOptions {
+  onProgress?: (record: HlsDownloadRecord) => void;
+  /** 中止時下載轉為暫停，保留已下載的檔案 */
+  signal?: AbortSignal;
+}
+
+export interface HlsDownloaderOptions {
+  /** 單一請求逾時 (ms) */
+  timeout: number;
+  /** 每個檔案的重試次數 */
+  maxRetries: number;
+}
+
+export type HlsDownloadListener = (records: HlsDownloadRecord[]) => void;
+
+/**
+ * 要下載的檔案
+ */
+interface HlsResource {
+  url: string;
+  byteRange?: ByteRange;
+  path: string;
+}
+
+/**
+ * 一條媒體播放清單（視訊或替代音軌）的下載內容
+ */
+interface HlsTrack {
+  /** 原本的媒體播放清單網址 */
+  url: string;
+  /** 相對於下載目錄的子目錄 */
+  name: string;
+  playlist: HlsMediaPlaylist;
+}
+
+const STORAGE_KEY = "vr_hls_downloads";
+const PLAYLIST_FILE_NAME = "index.m3u8";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 由網址產生下載 ID（FNV-1a，可作為目錄名稱）
+ */
+export function getHlsDownloadId(url: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < url.length; i++) {
+    hash ^= url.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `hls_${hash.toString(16).padStart(8, "0")}`;
+}
+
+/**
+ * 網址路徑的副檔名（不含查詢字串）
+ */
+function getUrlExtension(url: string, fallback: string): string {
+  const name = url.split(/[?#]/)[0].split("/").pop() ?? "";
+  const match = name.match(/\.[a-z0-9]{1,5}$/i);
+  return match ? match[0].toLowerCase() : fallback;
+}
+
+/**
+ * 確認串流可以離線下載
+ */
+function assertDownloadable(playlist: HlsMediaPlaylist): void {
+  if (!playlist.endList) {
+    throw new Error("直播串流無法離線下載");
+  }
+  const protectedSegment = playlist.segments.find(
+    (segment) =>
+      segment.key &&
+      (segment.key.method !== "AES-128" || (segment.key.keyFormat && segment.key.keyFormat !== "identity"))
+  );
+  if (protectedSegment) {
+    throw new Error("受 DRM 保護的串流無法離線下載");
+  }
+}
+
+/**
+ * 規劃一條媒體播放清單的下載：要下載的檔案與指向本地檔案的播放清單
+ */
+function planTrack(track: HlsTrack, directory: string): { resources: HlsResource[]; playlist: string } {
+  const { playlist } = track;
+  const trackDirectory = `${directory}${track.name}/`;
+  const resources: HlsResource[] = [];
+  // 同一個初始化區段或金鑰只下載一次
+  const localNames = new Map<object, string>();
+
+  const getLocalName = (owner: object, name: string, resource: Omit<HlsResource, "path">) => {
+    let localName = localNames.get(owner);
+    if (!localName) {
+      localName = name;
+      localNames.set(owner, localName);
+      resources.push({ ...resource, path: `${trackDirectory}${localName}` });
+    }
+    return localName;
+  };
+
+  const lines = [
+    "#EXTM3U",
+    `#EXT-X-VERSION:${playlist.version}`,
+    `#EXT-X-TARGETDURATION:${playlist.targetDuration}`,
+    // AES-128 未指定 IV 時以區段序號為 IV，需保留原本的序號
+    `#EXT-X-MEDIA-SEQUENCE:${playlist.mediaSequence}`,
+    "#EXT-X-PLAYLIST-TYPE:VOD",
+  ];
+  let key: object | null = null;
+  let map: object | null = null;
+
+  playlist.segments.forEach((segment, index) => {
+    if (segment.discontinuity) lines.push("#EXT-X-DISCONTINUITY");
+    if (segment.key !== key) {
+      if (segment.key) {
+        const name = getLocalName(segment.key, `key_${localNames.size}.key`, { url: segment.key.uri ?? "" });
+        const iv = segment.key.iv ? `,IV=${segment.key.iv}` : "";
+        lines.push(`#EXT-X-KEY:METHOD=${segment.key.method},URI="${name}"${iv}`);
+      } else {
+        lines.push("#EXT-X-KEY:METHOD=NONE");
+      }
+      key = segment.key;
+    }
+    if (segment.map && segment.map !== map) {
+      const name = getLocalName(segment.map, `init_${localNames.size}${getUrlExtension(segment.map.uri, ".mp4")}`, {
+        url: segment.map.uri,
+        byteRange: segment.map.byteRange,
+      });
+      lines.push(`#EXT-X-MAP:URI="${name}"`);
+      map = segment.map;
+    }
+
+    const name = `seg_${index}${getUrlExtension(segment.uri, ".ts")}`;
+    resources.push({ url: segment.uri, byteRange: segment.byteRange, path: `${trackDirectory}${name}` });
+    lines.push(`#EXTINF:${segment.duration.toFixed(3)},`, name);
+  });
+  lines.push("#EXT-X-ENDLIST");
+
+  if (resources.some((resource) => !resource.url)) {
+    throw new Error("播放清單缺少金鑰網址");
+  }
+  return { resources, playlist: `${lines.join("\n")}\n` };
+}
+
+/**
+ * HLS 離線下載管理器
+ */
+export class HlsDownloader {
+  private fileSystem: DownloadFileSystem;
+  private storage: DownloadStorage;
+  private options: HlsDownloaderOptions;
+  private estimator: BandwidthEstimator = new BandwidthEstimator();
+  private records: Map<string, HlsDownloadRecord> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private listeners: Set<HlsDownloadListener> = new Set();
+  private loaded: Promise<void> | null = null;
+
+  constructor(fileSystem: DownloadFileSystem, storage: DownloadStorage, options: Partial<HlsDownloaderOptions> = {}) {
+    this.fileSystem = fileSystem;
+    this.storage = storage;
+    this.options = {
+      timeout: 30000,
+      maxRetries: 3,
+      ...options,
+    };
+  }
+
+  /**
+   * 載入保存的下載紀錄；上次下載到一半（App 被關閉）的改為暫停
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.restore();
+    }
+    return this.loaded;
+  }
+
+  getDownloads(): HlsDownloadRecord[] {
+    return Array.from(this.records.values()).map((record) => ({ ...record }));
+  }
+
+  getDownload(id: string): HlsDownloadRecord | undefined {
+    const record = this.records.get(id);
+    return record && { ...record };
+  }
+
+  /**
+   * 依下載區段時的速度估計的頻寬 (bps)；自動畫質依此選擇版本
+   */
+  getBandwidthEstimate(): number | null {
+    return this.estimator.getEstimate();
+  }
+
+  isActive(id: string): boolean {
+    return this.controllers.has(id);
+  }
+
+  subscribe(listener: HlsDownloadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 下載串流；已有未完成的下載時從中斷處繼續，改變畫質則重新下載
+   *
+   * @returns 完成的下載紀錄
+   */
+  async download(request: HlsDownloadRequest, options: HlsDownloadOptions = {}): Promise<HlsDownloadRecord> {
+    await this.load();
+    const id = getHlsDownloadId(request.url);
+    if (this.controllers.has(id)) {
+      throw new Error("此串流正在下載");
+    }
+
+    const existing = this.records.get(id);
+    const playlistPath = `${request.directory}${PLAYLIST_FILE_NAME}`;
+    const isSameDownload =
+      existing?.directory === request.directory && existing.quality === request.quality;
+    if (isSameDownload && existing.status === "completed") {
+      if ((await this.fileSystem.getSize(playlistPath)) !== null) return { ...existing };
+    }
+    if (existing && !isSameDownload) {
+      await this.fileSystem.remove(existing.directory);
+    }
+
+    const now = Date.now();
+    const record: HlsDownloadRecord = {
+      id,
+      url: request.url,
+      title: request.title,
+      directory: request.directory,
+      playlistPath,
+      quality: request.quality,
+      variant: isSameDownload ? existing.variant : null,
+      layout: request.layout ?? existing?.layout ?? { ...DEFAULT_VIDEO_LAYOUT },
+      duration: 0,
+      totalFiles: 0,
+      downloadedFiles: 0,
+      downloadedBytes: 0,
+      status: "downloading",
+      error: null,
+      createdAt: isSameDownload ? existing.createdAt : now,
+      updatedAt: now,
+    };
+    this.records.set(id, record);
+
+    const controller = new AbortController();
+    const handleAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", handleAbort);
+    if (options.signal?.aborted) controller.abort();
+    this.controllers.set(id, controller);
+
+    try {
+      await this.run(record, controller.signal, options.onProgress);
+      return { ...record };
+    } catch (err) {
+      if (controller.signal.aborted) {
+        record.status = "paused";
+        record.error = null;
+      } else {
+        record.status = "failed";
+        record.error = err instanceof Error ? err.message : String(err);
+      }
+      record.updatedAt = Date.now();
+      await this.persist();
+      throw controller.signal.aborted ? new Error("下載已暫停") : err;
+    } finally {
+      options.signal?.removeEventListener("abort", handleAbort);
+      this.controllers.delete(id);
+    }
+  }
+
+  /**
+   * 暫停下載（保留已下載的檔案）
+   */
+  pause(id: string): void {
+    this.controllers.get(id)?.abort();
+  }
+
+  /**
+   * 移除下載紀錄；未完成的下載一併刪除已下載的檔案（已完成的保留）
+   */
+  async remove(id: string): Promise<void> {
+    await this.load();
+    const record = this.records.get(id);
+    if (!record) return;
+
+    this.controllers.get(id)?.abort();
+    this.records.delete(id);
+    if (record.status !== "completed") {
+      await this.fileSystem.remove(record.directory);
+    }
+    await this.persist();
+  }
+
+  private async run(
+    record: HlsDownloadRecord,
+    signal: AbortSignal,
+    onProgress?: (record: HlsDownloadRecord) => void
+  ): Promise<void> {
+    await this.updateProgress(record, onProgress);
+    const { tracks, variant, audio } = await this.loadTracks(record, signal);
+    tracks.forEach((track) => assertDownloadable(track.playlist));
+
+    const plans = tracks.map((track) => planTrack(track, record.directory));
+    const resources = plans.flatMap((plan) => plan.resources);
+    record.duration = tracks[0].playlist.duration;
+    record.totalFiles = resources.length;
+    record.downloadedFiles = 0;
+    record.downloadedBytes = 0;
+    await Promise.all(tracks.map((track) => this.fileSystem.ensureDirectory(`${record.directory}${track.name}/`)));
+
+    for (const resource of resources) {
+      if (signal.aborted) throw new Error("下載已暫停");
+      let size = await this.fileSystem.getSize(resource.path);
+      if (size === null) {
+        const bytes = await this.fetchBytes(resource.url, resource.byteRange, signal);
+        await this.writeFile(resource.path, bytes);
+        size = bytes.length;
+      }
+      record.downloadedFiles++;
+      record.downloadedBytes += size;
+      await this.updateProgress(record, onProgress);
+    }
+
+    const encoder = new TextEncoder();
+    for (let i = 0; i < tracks.length; i++) {
+      await this.writeFile(`${record.directory}${tracks[i].name}/${PLAYLIST_FILE_NAME}`, encoder.encode(plans[i].playlist));
+    }
+
+    // 只有媒體播放清單時沒有位元率，以實際大小換算
+    const bandwidth =
+      variant.bandwidth || (record.duration > 0 ? (record.downloadedBytes * 8) / record.duration : 0);
+    const uris = new Map(tracks.map((track) => [track.url, `${track.name}/${PLAYLIST_FILE_NAME}`]));
+    const master = createHlsMasterPlaylist(
+      { ...variant, bandwidth, subtitlesGroup: undefined, audioGroup: audio?.groupId },
+      audio ? [audio] : [],
+      uris
+    );
+    await this.writeFile(record.playlistPath, encoder.encode(master));
+
+    record.status = "completed";
+    record.updatedAt = Date.now();
+    await this.persist();
+    onProgress?.({ ...record });
+  }
+
+  /**
+   * 取得要下載的媒體播放清單：選定畫質的視訊，以及該版本的預設替代音軌（字幕不下載）
+   */
+  private async loadTracks(
+    record: HlsDownloadRecord,
+    signal: AbortSignal
+  ): Promise<{ tracks: HlsTrack[]; variant: StreamVariant; audio: StreamRendition | null }> {
+    const text = await this.fetchText(record.url, signal);
+    if (!isHlsMasterPlaylist(text)) {
+      const variant: StreamVariant = { id: "0", uri: record.url, bandwidth: 0, width: 0, height: 0, layout: null };
+      record.variant = variant;
+      return { tracks: [{ url: record.url, name: "video", playlist: parseHlsMediaPlaylist(text, record.url) }], variant, audio: null };
+    }
+
+    const manifest = parseHlsMasterPlaylist(text, record.url);
+    const variant =
+      manifest.variants.find((v) => v.uri === record.variant?.uri) ??
+      selectStreamVariant(manifest.variants, record.quality, this.estimator.getEstimate());
+    if (!variant) {
+      throw new Error("播放清單沒有可下載的畫質");
+    }
+    record.variant = variant;
+    if (variant.layout) record.layout = { ...variant.layout };
+
+    const group = manifest.renditions.filter((r) => r.type === "audio" && r.groupId === variant.audioGroup && r.uri);
+    const audio = group.find((r) => r.isDefault) ?? group[0] ?? null;
+
+    const tracks: HlsTrack[] = [
+      { url: variant.uri, name: "video", playlist: parseHlsMediaPlaylist(await this.fetchText(variant.uri, signal), variant.uri) },
+    ];
+    if (audio?.uri) {
+      tracks.push({
+        url: audio.uri,
+        name: "audio",
+        playlist: parseHlsMediaPlaylist(await this.fetchText(audio.uri, signal), audio.uri),
+      });
+    }
+    return { tracks, variant, audio };
+  }
+
+  private async fetchText(url: string, signal: AbortSignal): Promise<string> {
+    return new TextDecoder().decode(await this.fetchBytes(url, undefined, signal));
+  }
+
+  /**
+   * 下載一個檔案（或其中的位元組範圍），網路錯誤與伺服器暫時錯誤時重試
+   */
+  private async fetchBytes(url: string, byteRange: ByteRange | undefined, signal: AbortSignal): Promise<Uint8Array> {
+    const headers: Record<string, string> = byteRange
+      ? { Range: `bytes=${byteRange.offset}-${byteRange.offset + byteRange.length - 1}` }
+      : {};
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal.aborted) throw new Error("下載已暫停");
+      const startedAt = Date.now();
+      let response: Response;
+      let bytes: Uint8Array;
+      try {
+        response = await this.fetchWithTimeout(url, headers, signal);
+        bytes = response.ok ? new Uint8Array(await response.arrayBuffer()) : new Uint8Array(0);
+      } catch (err) {
+        if (signal.aborted || attempt >= this.options.maxRetries) throw err;
+        await wait(2 ** attempt * 500);
+        continue;
+      }
+
+      if (response.ok) {
+        this.estimator.addSample(bytes.length, Date.now() - startedAt);
+        // 不支援 Range 時回傳完整檔案
+        return byteRange && response.status === 200
+          ? bytes.subarray(byteRange.offset, byteRange.offset + byteRange.length)
+          : bytes;
+      }
+      const error = new Error(`下載失敗 (HTTP ${response.status})`);
+      if ((response.status !== 429 && response.status < 500) || attempt >= this.options.maxRetries) {
+        throw error;
+      }
+      await wait(2 ** attempt * 500);
+    }
+  }
+
+  private async fetchWithTimeout(
+    url: string,
+    headers: Record<string, string>,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout);
+    const handleAbort = () => controller.abort();
+    signal.addEventListener("abort", handleAbort);
+    try {
+      return await fetch(url, { headers, signal: controller.signal });
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", handleAbort);
+    }
+  }
+
+  /**
+   * 先寫入暫存檔再移到正式路徑，正式路徑存在即代表檔案完整
+   */
+  private async writeFile(path: string, bytes: Uint8Array): Promise<void> {
+    const partialPath = getPartialPath(path);
+    await this.fileSystem.remove(partialPath);
+    await this.fileSystem.append(partialPath, bytes);
+    await this.fileSystem.remove(path);
+    await this.fileSystem.move(partialPath, path);
+  }
+
+  private async updateProgress(
+    record: HlsDownloadRecord,
+    onProgress?: (record: HlsDownloadRecord) => void
+  ): Promise<void> {
+    record.updatedAt = Date.now();
+    await this.persist();
+    onProgress?.({ ...record });
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const data = await this.storage.getItem(STORAGE_KEY);
+      if (!data) return;
+      const saved = JSON.parse(data) as HlsDownloadRecord[];
+      saved.forEach((record) => {
+        if (this.records.has(record.id)) return;
+        this.records.set(record.id, {
+          ...record,
+          status: record.status === "downloading" ? "paused" : record.status,
+        });
+      });
+    } catch (err) {
+      console.error("載入串流下載紀錄失敗:", err);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    this.notifyListeners();
+    try {
+      await this.storage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.records.values())));
+    } catch (err) {
+      console.error("保存串流下載紀錄失敗:", err);
+    }
+  }
+
+  private notifyListeners(): void {
+    const records = this.getDownloads();
+    this.listeners.forEach((listener) => listener(records));
+  }
+}
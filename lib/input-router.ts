@@ -0,0 +1,432 @@
+/**
+ * 統一的輸入動作層
+ * 電視遙控器、鍵盤與藍牙遙控器的按鍵先轉為同一組按鈕，
+ * 再依目前畫面的情境（影片庫、2D 播放器、360° 播放器、瞳距校正）轉為動作；
+ * 支援長按、雙擊與按住連發，所有畫面都訂閱同一組動作
+ */
+
+import { KEYCODE, type ControllerButtonAction } from "./bluetooth-controller";
+
+/**
+ * 正規化後的實體按鈕
+ */
+export type InputButton =
+  | "up"
+  | "down"
+  | "left"
+  | "right"
+  | "select"
+  | "back"
+  | "menu"
+  | "play-pause"
+  | "next"
+  | "previous"
+  | "fast-forward"
+  | "rewind"
+  | "volume-up"
+  | "volume-down";
+
+/**
+ * 動作（包含藍牙遙控器映射可直接指定的所有動作）
+ */
+export type InputAction =
+  | ControllerButtonAction
+  | "navigate-up"
+  | "navigate-down"
+  | "navigate-left"
+  | "navigate-right"
+  | "seek-forward"
+  | "seek-backward"
+  | "pan-up"
+  | "pan-down"
+  | "pan-left"
+  | "pan-right"
+  | "recenter"
+  | "show-controls";
+
+export type InputContext = "library" | "player-2d" | "player-360" | "calibration";
+
+export type InputGesture = "press" | "long-press" | "double-press";
+
+export type InputSource = "tv-remote" | "keyboard" | "bluetooth";
+
+export interface InputBinding {
+  button: InputButton;
+  /** 預設為 press */
+  gesture?: InputGesture;
+  action: InputAction;
+  /** 按住時是否連發（僅 press） */
+  repeat?: boolean;
+}
+
+export interface InputActionEvent {
+  action: InputAction;
+  context: InputContext;
+  source: InputSource;
+  /** 藍牙遙控器直接映射的動作沒有按鈕 */
+  button?: InputButton;
+  gesture: InputGesture;
+  /** 是否為按住連發產生的事件 */
+  isRepeat: boolean;
+}
+
+export interface InputTimingOptions {
+  /** 長按判定時間 (ms) */
+  longPressDelay: number;
+  /** 雙擊間隔上限 (ms) */
+  doublePressInterval: number;
+  /** 按住後開始連發的延遲 (ms) */
+  repeatDelay: number;
+  /** 連發間隔 (ms) */
+  repeatInterval: number;
+}
+
+export const DEFAULT_INPUT_TIMING: InputTimingOptions = {
+  longPressDelay: 500,
+  doublePressInterval: 300,
+  repeatDelay: 400,
+  repeatInterval: 100,
+};
+
+const MEDIA_BINDINGS: InputBinding[] = [
+  { button: "play-pause", action: "play-pause" },
+  { button: "next", action: "next" },
+  { button: "previous", action: "previous" },
+  { button: "fast-forward", action: "next" },
+  { button: "rewind", action: "previous" },
+  { button: "volume-up", action: "volume-up", repeat: true },
+  { button: "volume-down", action: "volume-down", repeat: true },
+  { button: "back", action: "back" },
+  { button: "menu", action: "menu" },
+];
+
+/**
+ * 各情境的預設按鍵配置
+ */
+export const DEFAULT_INPUT_BINDINGS: Record<InputContext, InputBinding[]> = {
+  library: [
+    { button: "up", action: "navigate-up", repeat: true },
+    { button: "down", action: "navigate-down", repeat: true },
+    { button: "left", action: "navigate-left", repeat: true },
+    { button: "right", action: "navigate-right", repeat: true },
+    { button: "select", action: "select" },
+    { button: "select", gesture: "long-press", action: "menu" },
+    ...MEDIA_BINDINGS,
+  ],
+  "player-2d": [
+    { button: "left", action: "seek-backward", repeat: true },
+    { button: "right", action: "seek-forward", repeat: true },
+    { button: "up", action: "pupil-distance-increase", repeat: true },
+    { button: "down", action: "pupil-distance-decrease", repeat: true },
+    { button: "select", action: "play-pause" },
+    { button: "select", gesture: "double-press", action: "mode-switch" },
+    { button: "select", gesture: "long-press", action: "show-controls" },
+    ...MEDIA_BINDINGS,
+  ],
+  "player-360": [
+    { button: "up", action: "pan-up", repeat: true },
+    { button: "down", action: "pan-down", repeat: true },
+    { button: "left", action: "pan-left", repeat: true },
+    { button: "right", action: "pan-right", repeat: true },
+    { button: "select", action: "play-pause" },
+    { button: "select", gesture: "double-press", action: "recenter" },
+    { button: "select", gesture: "long-press", action: "show-controls" },
+    ...MEDIA_BINDINGS,
+  ],
+  calibration: [
+    { button: "up", action: "pupil-distance-increase", repeat: true },
+    { button: "right", action: "pupil-distance-increase", repeat: true },
+    { button: "down", action: "pupil-distance-decrease", repeat: true },
+    { button: "left", action: "pupil-distance-decrease", repeat: true },
+    { button: "select", action: "select" },
+    { button: "back", action: "back" },
+  ],
+};
+
+const TV_EVENT_BUTTONS: Record<string, InputButton> = {
+  up: "up",
+  down: "down",
+  left: "left",
+  right: "right",
+  select: "select",
+  center: "select",
+  playPause: "play-pause",
+  next: "next",
+  previous: "previous",
+  fastForward: "fast-forward",
+  rewind: "rewind",
+  menu: "menu",
+  back: "back",
+};
+
+const KEYBOARD_BUTTONS: Record<string, InputButton> = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowLeft: "left",
+  ArrowRight: "right",
+  Enter: "select",
+  " ": "play-pause",
+  n: "next",
+  p: "previous",
+  ">": "fast-forward",
+  "<": "rewind",
+  Escape: "back",
+  Backspace: "back",
+  m: "menu",
+  "+": "volume-up",
+  "-": "volume-down",
+};
+
+const KEYCODE_BUTTONS: Record<number, InputButton> = {
+  [KEYCODE.DPAD_UP]: "up",
+  [KEYCODE.DPAD_DOWN]: "down",
+  [KEYCODE.DPAD_LEFT]: "left",
+  [KEYCODE.DPAD_RIGHT]: "right",
+  [KEYCODE.ENTER]: "select",
+  66: "select", // KEYCODE_ENTER（鍵盤）
+  [KEYCODE.BUTTON_A]: "select",
+  [KEYCODE.BACK]: "back",
+  [KEYCODE.BUTTON_B]: "back",
+  [KEYCODE.MENU]: "menu",
+  [KEYCODE.MEDIA_PLAY_PAUSE]: "play-pause",
+  [KEYCODE.MEDIA_NEXT]: "next",
+  [KEYCODE.MEDIA_PREVIOUS]: "previous",
+  90: "fast-forward", // KEYCODE_MEDIA_FAST_FORWARD
+  89: "rewind", // KEYCODE_MEDIA_REWIND
+  [KEYCODE.VOLUME_UP]: "volume-up",
+  [KEYCODE.VOLUME_DOWN]: "volume-down",
+};
+
+/**
+ * 電視遙控器事件（useTVEventHandler 的 eventType）轉為按鈕
+ */
+export function buttonFromTVEvent(eventType: string): InputButton | null {
+  return TV_EVENT_BUTTONS[eventType] ?? null;
+}
+
+/**
+ * 鍵盤按鍵（KeyboardEvent.key）轉為按鈕
+ * 字母不分大小寫，按住期間切換 Shift 時放開事件仍對應同一個按鈕
+ */
+export function buttonFromKey(key: string): InputButton | null {
+  return KEYBOARD_BUTTONS[key.length === 1 ? key.toLowerCase() : key] ?? null;
+}
+
+/**
+ * Android 按鍵代碼轉為按鈕
+ */
+export function buttonFromKeyCode(keyCode: number): InputButton | null {
+  return KEYCODE_BUTTONS[keyCode] ?? null;
+}
+
+interface HeldButton {
+  source: InputSource;
+  timer: ReturnType<typeof setTimeout> | null;
+  longPressed: boolean;
+}
+
+interface PendingPress {
+  source: InputSource;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * 輸入路由器
+ *
+ * 按鈕在目前情境有長按或雙擊配置時延後判定：放開後（或雙擊間隔結束後）才送出單擊；
+ * 沒有時按下立即送出，並依配置連發。
+ */
+export class InputRouter {
+  private timing: InputTimingOptions;
+  private bindings: Record<InputContext, InputBinding[]>;
+  private contextStack: { token: number; context: InputContext }[] = [];
+  private nextToken = 0;
+  private held = new Map<InputButton, HeldButton>();
+  private pendingPresses = new Map<InputButton, PendingPress>();
+  private listeners: ((event: InputActionEvent) => void)[] = [];
+
+  constructor(timing: Partial<InputTimingOptions> = {}) {
+    this.timing = { ...DEFAULT_INPUT_TIMING, ...timing };
+    this.bindings = { ...DEFAULT_INPUT_BINDINGS };
+  }
+
+  /**
+   * 進入情境（畫面取得焦點時），回傳離開情境的函數
+   * 後進入的情境優先，離開後回到前一個情境
+   */
+  pushContext(context: InputContext): () => void {
+    const token = this.nextToken++;
+    this.contextStack.push({ token, context });
+    this.cancelAll();
+    return () => {
+      const index = this.contextStack.findIndex((entry) => entry.token === token);
+      if (index < 0) return;
+      this.contextStack.splice(index, 1);
+      this.cancelAll();
+    };
+  }
+
+  /**
+   * 目前的情境；沒有畫面進入情境時為影片庫
+   */
+  getContext(): InputContext {
+    return this.contextStack[this.contextStack.length - 1]?.context ?? "library";
+  }
+
+  setBindings(context: InputContext, bindings: InputBinding[]): void {
+    this.bindings = { ...this.bindings, [context]: bindings };
+  }
+
+  getBindings(context: InputContext): InputBinding[] {
+    return this.bindings[context];
+  }
+
+  /**
+   * 目前情境是否有此按鈕的配置（沒有時按鍵應交給系統處理）
+   */
+  hasBinding(button: InputButton): boolean {
+    return this.bindings[this.getContext()].some((binding) => binding.button === button);
+  }
+
+  /**
+   * 按鈕按下；重複的按下事件（系統自動重複）會被忽略
+   */
+  buttonDown(button: InputButton, source: InputSource): void {
+    if (this.held.has(button)) return;
+
+    const pending = this.pendingPresses.get(button);
+    if (pending) {
+      // 雙擊間隔內再次按下
+      clearTimeout(pending.timer);
+      this.pendingPresses.delete(button);
+      this.held.set(button, { source, timer: null, longPressed: true });
+      this.emitGesture(button, "double-press", source);
+      return;
+    }
+
+    const held: HeldButton = { source, timer: null, longPressed: false };
+    this.held.set(button, held);
+
+    if (this.hasDeferredGestures(button)) {
+      if (this.findBinding(button, "long-press")) {
+        held.timer = setTimeout(() => {
+          held.timer = null;
+          held.longPressed = true;
+          this.emitGesture(button, "long-press", source);
+        }, this.timing.longPressDelay);
+      }
+      return;
+    }
+
+    const binding = this.findBinding(button, "press");
+    if (!binding) return;
+    this.emit(binding, source, false);
+    if (binding.repeat) {
+      const repeat = (delay: number) => {
+        held.timer = setTimeout(() => {
+          this.emit(binding, source, true);
+          repeat(this.timing.repeatInterval);
+        }, delay);
+      };
+      repeat(this.timing.repeatDelay);
+    }
+  }
+
+  /**
+   * 按鈕放開
+   */
+  buttonUp(button: InputButton): void {
+    const held = this.held.get(button);
+    if (!held) return;
+    if (held.timer) clearTimeout(held.timer);
+    this.held.delete(button);
+
+    if (held.longPressed || !this.hasDeferredGestures(button)) return;
+
+    if (this.findBinding(button, "double-press")) {
+      const timer = setTimeout(() => {
+        this.pendingPresses.delete(button);
+        this.emitGesture(button, "press", held.source);
+      }, this.timing.doublePressInterval);
+      this.pendingPresses.set(button, { source: held.source, timer });
+    } else {
+      this.emitGesture(button, "press", held.source);
+    }
+  }
+
+  /**
+   * 沒有放開事件的來源（例如部分電視遙控器）：視為按下後立即放開
+   */
+  press(button: InputButton, source: InputSource): void {
+    this.buttonDown(button, source);
+    this.buttonUp(button);
+  }
+
+  /**
+   * 直接送出動作（藍牙遙控器已映射好的動作）
+   */
+  dispatchAction(action: InputAction, source: InputSource): void {
+    this.notify({
+      action,
+      context: this.getContext(),
+      source,
+      gesture: "press",
+      isRepeat: false,
+    });
+  }
+
+  /**
+   * 訂閱動作
+   */
+  subscribe(listener: (event: InputActionEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * 取消所有按住與等待中的判定（切換情境時避免動作送到新畫面）
+   */
+  cancelAll(): void {
+    this.held.forEach((held) => held.timer && clearTimeout(held.timer));
+    this.pendingPresses.forEach((pending) => clearTimeout(pending.timer));
+    this.held.clear();
+    this.pendingPresses.clear();
+  }
+
+  private findBinding(button: InputButton, gesture: InputGesture): InputBinding | undefined {
+    return this.bindings[this.getContext()].find(
+      (binding) => binding.button === button && (binding.gesture ?? "press") === gesture
+    );
+  }
+
+  private hasDeferredGestures(button: InputButton): boolean {
+    return !!(this.findBinding(button, "long-press") || this.findBinding(button, "double-press"));
+  }
+
+  private emitGesture(button: InputButton, gesture: InputGesture, source: InputSource): void {
+    const binding = this.findBinding(button, gesture);
+    if (binding) this.emit(binding, source, false);
+  }
+
+  private emit(binding: InputBinding, source: InputSource, isRepeat: boolean): void {
+    this.notify({
+      action: binding.action,
+      context: this.getContext(),
+      source,
+      button: binding.button,
+      gesture: binding.gesture ?? "press",
+      isRepeat,
+    });
+  }
+
+  private notify(event: InputActionEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+/**
+ * 全局輸入路由器實例
+ */
+export const inputRouter = new InputRouter();
@@ -0,0 +1,272 @@
+/**
+ * 手機 VR 眼鏡的鏡片畸變與色差預校正
+ * 紙盒式眼鏡的凸透鏡會產生枕形畸變，並使紅、藍通道的放大倍率不同；
+ * 預先將每隻眼睛的畫面做桶形變形並分通道取樣，透過鏡片觀看時即可還原為正常畫面
+ */
+
+import type { Eye } from "./video-layout";
+import type { PixelBuffer } from "./video-processing";
+
+export type ColorChannel = "red" | "green" | "blue";
+
+/**
+ * 鏡片參數（由 ViewerProfile 經 toLensProfile 取得）
+ */
+export interface LensProfile {
+  /** 徑向畸變係數 [k1, k2, ...]，以綠色通道為準：r' = r * (1 + k1·r² + k2·r⁴ + ...) */
+  distortionCoefficients: number[];
+  /** 紅、藍通道相對綠色的放大倍率差（例如 -0.006 代表紅色影像小 0.6%） */
+  chromaticAberration: { red: number; blue: number };
+  /** 單眼水平視角 (度) */
+  fieldOfView: number;
+}
+
+/**
+ * 單眼視窗
+ */
+export interface EyeViewport {
+  /** 視窗寬高比 (width / height) */
+  aspectRatio: number;
+  /** 左眼鏡片中心相對視窗中心的偏移（-1 到 1 正規化座標），右眼自動鏡像 */
+  lensCenterOffset?: { x: number; y: number };
+}
+
+/**
+ * 變形網格
+ * 頂點位置為眼睛視窗的正規化座標 (-1 到 1，Y 向上)，
+ * UV 為單眼來源影像的紋理座標 (0 到 1，V 向下)，三個通道各自取樣
+ */
+export interface DistortionMesh {
+  columns: number;
+  rows: number;
+  /** 頂點位置 (x, y)，長度為頂點數 * 2 */
+  positions: Float32Array;
+  uvRed: Float32Array;
+  uvGreen: Float32Array;
+  uvBlue: Float32Array;
+  /** 三角形索引 */
+  indices: Uint16Array;
+}
+
+/**
+ * 計算鏡片畸變後的半徑
+ *
+ * @param radius 螢幕上相對鏡片中心的半徑（視角正切值）
+ * @param coefficients 徑向畸變係數
+ * @returns 透過鏡片看到的半徑
+ */
+export function distortRadius(radius: number, coefficients: number[]): number {
+  const r2 = radius * radius;
+  let factor = 1;
+  let power = r2;
+  for (const k of coefficients) {
+    factor += k * power;
+    power *= r2;
+  }
+  return radius * factor;
+}
+
+/**
+ * 計算畸變前的半徑（distortRadius 的反函數，以割線法求解）
+ *
+ * @param distortedRadius 透過鏡片看到的半徑
+ * @param coefficients 徑向畸變係數
+ * @returns 螢幕上的半徑
+ */
+export function undistortRadius(distortedRadius: number, coefficients: number[]): number {
+  let r0 = distortedRadius / 0.9;
+  let r1 = distortedRadius * 0.9;
+  let f0 = distortRadius(r0, coefficients) - distortedRadius;
+
+  for (let i = 0; i < 100; i++) {
+    const f1 = distortRadius(r1, coefficients) - distortedRadius;
+    if (Math.abs(f1) < 1e-7 || f1 === f0) break;
+    const r2 = r1 - (f1 * (r1 - r0)) / (f1 - f0);
+    r0 = r1;
+    f0 = f1;
+    r1 = r2;
+  }
+  return r1;
+}
+
+/**
+ * 計算某個通道相對綠色的放大倍率
+ */
+export function getChannelScale(profile: LensProfile, channel: ColorChannel): number {
+  if (channel === "green") return 1;
+  return 1 + profile.chromaticAberration[channel];
+}
+
+/**
+ * 計算眼睛視窗中某點在來源影像中的取樣座標
+ *
+ * 演算法說明：
+ * 1. 將視窗座標轉為相對鏡片中心的視角正切值
+ * 2. 以畸變多項式計算透過鏡片看到的位置（綠色通道）
+ * 3. 乘上通道放大倍率補償色差
+ * 4. 轉回來源影像的紋理座標
+ *
+ * @param x 視窗正規化座標 X (-1 到 1)
+ * @param y 視窗正規化座標 Y (-1 到 1，向上)
+ * @param profile 鏡片參數
+ * @param viewport 單眼視窗
+ * @param eye 左眼或右眼
+ * @param channel 色彩通道
+ * @returns 紋理座標 (u, v)，超出 0-1 代表落在影像外
+ */
+export function getDistortedUV(
+  x: number,
+  y: number,
+  profile: LensProfile,
+  viewport: EyeViewport,
+  eye: Eye,
+  channel: ColorChannel
+): { u: number; v: number } {
+  const tanHalfX = Math.tan((profile.fieldOfView * Math.PI) / 360);
+  const tanHalfY = tanHalfX / viewport.aspectRatio;
+  const offset = viewport.lensCenterOffset ?? { x: 0, y: 0 };
+  const centerX = eye === "left" ? offset.x : -offset.x;
+  const centerY = offset.y;
+
+  // 相對鏡片中心的視角正切值
+  const tx = (x - centerX) * tanHalfX;
+  const ty = (y - centerY) * tanHalfY;
+  const radius = Math.sqrt(tx * tx + ty * ty);
+
+  const scale =
+    radius > 0
+      ? (distortRadius(radius, profile.distortionCoefficients) / radius) *
+        getChannelScale(profile, channel)
+      : getChannelScale(profile, channel);
+
+  return {
+    u: 0.5 + (tx * scale) / (2 * tanHalfX),
+    v: 0.5 - (ty * scale) / (2 * tanHalfY),
+  };
+}
+
+/**
+ * 建立單眼的變形網格
+ *
+ * @param profile 鏡片參數
+ * @param viewport 單眼視窗
+ * @param eye 左眼或右眼
+ * @param columns 網格欄數（預設 40）
+ * @param rows 網格列數（預設 40）
+ * @returns 變形網格
+ */
+export function createDistortionMesh(
+  profile: LensProfile,
+  viewport: EyeViewport,
+  eye: Eye,
+  columns: number = 40,
+  rows: number = 40
+): DistortionMesh {
+  const vertexCount = (columns + 1) * (rows + 1);
+  if (vertexCount > 65536) {
+    throw new Error(`網格過大：${columns}x${rows} 超過 16 位元索引上限`);
+  }
+
+  const positions = new Float32Array(vertexCount * 2);
+  const uvRed = new Float32Array(vertexCount * 2);
+  const uvGreen = new Float32Array(vertexCount * 2);
+  const uvBlue = new Float32Array(vertexCount * 2);
+  const channels: [ColorChannel, Float32Array][] = [
+    ["red", uvRed],
+    ["green", uvGreen],
+    ["blue", uvBlue],
+  ];
+
+  for (let row = 0; row <= rows; row++) {
+    const y = 1 - (2 * row) / rows;
+    for (let column = 0; column <= columns; column++) {
+      const x = (2 * column) / columns - 1;
+      const idx = (row * (columns + 1) + column) * 2;
+      positions[idx] = x;
+      positions[idx + 1] = y;
+
+      for (const [channel, uv] of channels) {
+        const { u, v } = getDistortedUV(x, y, profile, viewport, eye, channel);
+        uv[idx] = u;
+        uv[idx + 1] = v;
+      }
+    }
+  }
+
+  const indices = new Uint16Array(columns * rows * 6);
+  let i = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const topLeft = row * (columns + 1) + column;
+      const bottomLeft = topLeft + columns + 1;
+      indices.set([topLeft, bottomLeft, topLeft + 1, topLeft + 1, bottomLeft, bottomLeft + 1], i);
+      i += 6;
+    }
+  }
+
+  return { columns, rows, positions, uvRed, uvGreen, uvBlue, indices };
+}
+
+/**
+ * 以 CPU 渲染鏡片預校正後的單眼畫面
+ * 每個通道分別以雙線性插值取樣，落在影像外的部分為黑色
+ *
+ * @param source 單眼來源影像
+ * @param profile 鏡片參數
+ * @param eye 左眼或右眼
+ * @param outputWidth 輸出寬度
+ * @param outputHeight 輸出高度
+ * @param lensCenterOffset 左眼鏡片中心偏移
+ * @returns 預校正後的畫面
+ */
+export function renderLensCorrectedEye(
+  source: PixelBuffer,
+  profile: LensProfile,
+  eye: Eye,
+  outputWidth: number,
+  outputHeight: number,
+  lensCenterOffset?: { x: number; y: number }
+): PixelBuffer {
+  const viewport: EyeViewport = { aspectRatio: outputWidth / outputHeight, lensCenterOffset };
+  const output = new Uint8ClampedArray(outputWidth * outputHeight * 4);
+  const channels: ColorChannel[] = ["red", "green", "blue"];
+
+  for (let row = 0; row < outputHeight; row++) {
+    const y = 1 - (2 * (row + 0.5)) / outputHeight;
+    for (let column = 0; column < outputWidth; column++) {
+      const x = (2 * (column + 0.5)) / outputWidth - 1;
+      const idx = (row * outputWidth + column) * 4;
+
+      channels.forEach((channel, c) => {
+        const { u, v } = getDistortedUV(x, y, profile, viewport, eye, channel);
+        output[idx + c] = sampleChannel(source, u, v, c);
+      });
+      output[idx + 3] = 255;
+    }
+  }
+
+  return { data: output, width: outputWidth, height: outputHeight };
+}
+
+/**
+ * 以雙線性插值取樣單一通道；超出影像範圍回傳 0
+ */
+function sampleChannel(source: PixelBuffer, u: number, v: number, channel: number): number {
+  if (u < 0 || u > 1 || v < 0 || v > 1) return 0;
+
+  const { width, height, data } = source;
+  const x = Math.max(0, Math.min(width - 1, u * width - 0.5));
+  const y = Math.max(0, Math.min(height - 1, v * height - 0.5));
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const top =
+    data[(y0 * width + x0) * 4 + channel] * (1 - fx) + data[(y0 * width + x1) * 4 + channel] * fx;
+  const bottom =
+    data[(y1 * width + x0) * 4 + channel] * (1 - fx) + data[(y1 * width + x1) * 4 + channel] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
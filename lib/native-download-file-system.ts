@@ -0,0 +1,52 @@
+import * as FileSystem from "expo-file-system/legacy";
+import { File } from "expo-file-system";
+import type { DownloadFileSystem } from "./telegram-download";
+
+/**
+ * Telegram 下載目錄（位於 App 文件目錄，不會被系統清除）
+ */
+export const TELEGRAM_DOWNLOAD_DIRECTORY = `${FileSystem.documentDirectory}telegram/`;
+
+/**
+ * HLS 離線下載目錄（每個串流一個子目錄）
+ */
+export const HLS_DOWNLOAD_DIRECTORY = `${FileSystem.documentDirectory}streams/`;
+
+/**
+ * 固定畫質播放時產生的播放清單（可被系統清除，播放時重新產生）
+ */
+export const STREAM_CACHE_DIRECTORY = `${FileSystem.cacheDirectory}streams/`;
+
+/**
+ * 以 expo-file-system 實作的下載檔案操作
+ * 舊版 API 無法附加二進位資料，寫入改用 File 的 FileHandle
+ */
+export const expoDownloadFileSystem: DownloadFileSystem = {
+  async getSize(uri) {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : null;
+  },
+  async append(uri, bytes) {
+    const file = new File(uri);
+    if (!file.exists) file.create();
+    const handle = file.open();
+    try {
+      handle.offset = handle.size;
+      handle.writeBytes(bytes);
+    } finally {
+      handle.close();
+    }
+  },
+  async ensureDirectory(uri) {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(uri, { intermediates: true });
+    }
+  },
+  async move(from, to) {
+    await FileSystem.moveAsync({ from, to });
+  },
+  async remove(uri) {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  },
+};
@@ -0,0 +1,113 @@
+import { NativeModules } from "react-native";
+import {
+  frameIndexToTimestamp,
+  isYUVFormat,
+  resolveColorSpace,
+  timestampToFrameIndex,
+  type DecodedFrame,
+  type FrameRequest,
+  type FrameSource,
+  type VideoStreamInfo,
+} from "./frame-source";
+
+/**
+ * 原生幀提取模組介面（Android: MediaMetadataRetriever / MediaCodec，iOS: AVAssetImageGenerator）
+ */
+interface VideoFrameExtractorModule {
+  getVideoInfo(uri: string): Promise<{
+    width: number;
+    height: number;
+    frameRate: number;
+    frameCount?: number;
+    duration: number; // 秒
+    colorMatrix?: "bt601" | "bt709";
+    colorRange?: "limited" | "full";
+  }>;
+  /** 回傳 base64 編碼的原始像素；YUV 格式為連續且無列填充的平面 */
+  extractFrame(
+    uri: string,
+    timeMs: number,
+    width: number,
+    height: number,
+    format: FrameRequest["format"]
+  ): Promise<string>;
+  release(uri: string): Promise<void>;
+}
+
+/**
+ * 以原生模組解碼的幀來源
+ */
+export class NativeFrameSource implements FrameSource {
+  private infoCache: Map<string, VideoStreamInfo> = new Map();
+
+  private get module(): VideoFrameExtractorModule {
+    const module = NativeModules.VideoFrameExtractor as VideoFrameExtractorModule | undefined;
+    if (!module) {
+      throw new Error("此裝置不支援原生幀提取（缺少 VideoFrameExtractor 模組）");
+    }
+    return module;
+  }
+
+  /**
+   * 檢查原生模組是否可用
+   */
+  static isAvailable(): boolean {
+    return !!NativeModules.VideoFrameExtractor;
+  }
+
+  async open(uri: string): Promise<VideoStreamInfo> {
+    const cached = this.infoCache.get(uri);
+    if (cached) return { ...cached };
+
+    const raw = await this.module.getVideoInfo(uri);
+    const info: VideoStreamInfo = {
+      width: raw.width,
+      height: raw.height,
+      frameRate: raw.frameRate,
+      duration: raw.duration,
+      frameCount: raw.frameCount ?? timestampToFrameIndex(raw.duration * 1000, raw.frameRate),
+      colorSpace:
+        raw.colorMatrix && raw.colorRange
+          ? { matrix: raw.colorMatrix, range: raw.colorRange }
+          : undefined,
+    };
+    this.infoCache.set(uri, info);
+    return { ...info };
+  }
+
+  async readFrame(uri: string, frameIndex: number, request: FrameRequest): Promise<DecodedFrame> {
+    const info = await this.open(uri);
+    const timestamp = frameIndexToTimestamp(frameIndex, info.frameRate);
+    const encoded = await this.module.extractFrame(
+      uri,
+      timestamp,
+      request.width,
+      request.height,
+      request.format
+    );
+
+    return {
+      data: decodeBase64(encoded),
+      width: request.width,
+      height: request.height,
+      format: request.format,
+      frameIndex,
+      timestamp,
+      colorSpace: isYUVFormat(request.format) ? resolveColorSpace(info) : undefined,
+    };
+  }
+
+  async close(uri: string): Promise<void> {
+    this.infoCache.delete(uri);
+    await this.module.release(uri);
+  }
+}
+
+function decodeBase64(encoded: string): Uint8Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
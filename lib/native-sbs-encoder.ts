@@ -0,0 +1,103 @@
+import * as FileSystem from "expo-file-system/legacy";
+import { DeviceEventEmitter, NativeModules } from "react-native";
+import type { ConversionFileSystem, SBSEncodeJob, SBSEncoder } from "./sbs-transcoder";
+
+/**
+ * 原生立體轉檔模組介面（Android: MediaCodec + MediaMuxer，iOS: AVAssetReader + AVAssetWriter）
+ * 進度以 "SBSVideoEncoderProgress" 事件回報：{ jobId, progress }
+ */
+interface SBSVideoEncoderModule {
+  encode(
+    jobId: string,
+    sourceUri: string,
+    outputUri: string,
+    layout: SBSEncodeJob["layout"],
+    disparityShift: number
+  ): Promise<void>;
+  cancel(jobId: string): Promise<void>;
+}
+
+const PROGRESS_EVENT = "SBSVideoEncoderProgress";
+
+let jobCounter = 0;
+
+/**
+ * 以原生模組轉檔的編碼器
+ */
+export class NativeSBSEncoder implements SBSEncoder {
+  private get module(): SBSVideoEncoderModule {
+    const module = NativeModules.SBSVideoEncoder as SBSVideoEncoderModule | undefined;
+    if (!module) {
+      throw new Error("此裝置不支援影片轉檔（缺少 SBSVideoEncoder 模組）");
+    }
+    return module;
+  }
+
+  /**
+   * 檢查原生模組是否可用
+   */
+  static isAvailable(): boolean {
+    return !!NativeModules.SBSVideoEncoder;
+  }
+
+  async encode(
+    job: SBSEncodeJob,
+    onProgress: (progress: number) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    const module = this.module;
+    const jobId = `sbs_${Date.now()}_${jobCounter++}`;
+
+    const subscription = DeviceEventEmitter.addListener(
+      PROGRESS_EVENT,
+      (event: { jobId: string; progress: number }) => {
+        if (event.jobId === jobId) onProgress(event.progress);
+      }
+    );
+    const handleAbort = () => {
+      module.cancel(jobId).catch((err) => console.error("取消轉檔失敗:", err));
+    };
+    signal.addEventListener("abort", handleAbort);
+
+    try {
+      await module.encode(
+        jobId,
+        job.sourceUri,
+        job.outputUri,
+        job.layout,
+        job.disparityShift
+      );
+    } finally {
+      subscription.remove();
+      signal.removeEventListener("abort", handleAbort);
+    }
+  }
+}
+
+/**
+ * 轉檔輸出目錄（位於 App 文件目錄，不會被系統清除）
+ */
+export const CONVERSION_OUTPUT_DIRECTORY = `${FileSystem.documentDirectory}sbs-conversions/`;
+
+/**
+ * 以 expo-file-system 實作的輸出檔案操作
+ */
+export const expoConversionFileSystem: ConversionFileSystem = {
+  outputDirectory: CONVERSION_OUTPUT_DIRECTORY,
+  async ensureDirectory(uri) {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(uri, { intermediates: true });
+    }
+  },
+  async exists(uri) {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists;
+  },
+  async move(from, to) {
+    await FileSystem.moveAsync({ from, to });
+  },
+  async remove(uri) {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  },
+};
@@ -0,0 +1,331 @@
+/**
+ * 2D 轉 3D 影片轉檔
+ * 負責轉檔工作的排程、輸出檔案管理與轉檔紀錄的持久化；
+ * 實際的解碼與編碼交由可替換的編碼器（裝置上為原生模組，測試中為假編碼器）
+ */
+
+/**
+ * 輸出的立體排列：左右並排或上下並排
+ */
+export type SBSOutputLayout = "sbs" | "tb";
+
+export interface SBSConversionParams {
+  pupilDistance: number; // 瞳距 (mm)
+  convergenceDistance: number; // 聚焦距離 (mm)
+  layout: SBSOutputLayout;
+}
+
+/**
+ * 交給編碼器的轉檔工作
+ */
+export interface SBSEncodeJob {
+  sourceUri: string;
+  /** 編碼器寫入的檔案（完成後才會移到正式輸出位置） */
+  outputUri: string;
+  layout: SBSOutputLayout;
+  /** 右眼水平位移（影格寬度的百分比） */
+  disparityShift: number;
+}
+
+/**
+ * 編碼器介面
+ */
+export interface SBSEncoder {
+  /**
+   * 將來源影片轉為立體影片並寫入 job.outputUri
+   *
+   * @param job 轉檔工作
+   * @param onProgress 進度回呼 (0-100)
+   * @param signal 取消訊號；取消時應停止編碼並拋出錯誤
+   */
+  encode(job: SBSEncodeJob, onProgress: (progress: number) => void, signal: AbortSignal): Promise<void>;
+}
+
+/**
+ * 輸出檔案操作（裝置上包裝 expo-file-system）
+ */
+export interface ConversionFileSystem {
+  /** 輸出目錄，以 / 結尾 */
+  outputDirectory: string;
+  ensureDirectory(uri: string): Promise<void>;
+  exists(uri: string): Promise<boolean>;
+  move(from: string, to: string): Promise<void>;
+  remove(uri: string): Promise<void>;
+}
+
+/**
+ * 鍵值儲存（與 AsyncStorage 相容）
+ */
+export interface ConversionStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+/**
+ * 已完成的轉檔紀錄
+ */
+export interface ConversionRecord {
+  key: string;
+  sourceUri: string;
+  outputUri: string;
+  pupilDistance: number;
+  convergenceDistance: number;
+  layout: SBSOutputLayout;
+  disparityShift: number;
+  createdAt: number;
+}
+
+export interface ConvertOptions {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * 執行中的轉檔；多個呼叫者共用，所有呼叫者都取消時才停止編碼
+ */
+interface PendingConversion {
+  promise: Promise<ConversionRecord>;
+  controller: AbortController;
+  waiters: number;
+  progressListeners: Set<(progress: number) => void>;
+}
+
+const STORAGE_KEY = "vr_sbs_conversions";
+
+/**
+ * 計算視差位移量
+ *
+ * 公式：
+ * disparityShift = (pupilDistance / convergenceDistance) * 100
+ *
+ * @param pupilDistance 瞳距 (mm)
+ * @param convergenceDistance 聚焦距離 (mm)
+ * @returns 位移量（影格寬度的百分比，限制在 -10% 到 10%）
+ */
+export function calculateDisparityShift(pupilDistance: number, convergenceDistance: number): number {
+  const baseShift = (pupilDistance / convergenceDistance) * 100;
+  return Math.max(-10, Math.min(10, baseShift));
+}
+
+/**
+ * 計算轉檔紀錄的鍵值；相同來源與參數會得到相同的鍵值
+ */
+export function getConversionKey(sourceUri: string, params: SBSConversionParams): string {
+  return `${sourceUri}|${params.layout}|${params.pupilDistance}|${params.convergenceDistance}`;
+}
+
+/**
+ * 產生輸出檔名
+ */
+export function getConversionFileName(sourceUri: string, params: SBSConversionParams): string {
+  const hash = hashString(sourceUri).toString(36);
+  return `${hash}_${params.layout}_${params.pupilDistance}_${params.convergenceDistance}.mp4`;
+}
+
+/**
+ * 32 位元 FNV-1a 雜湊
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 轉檔管理器
+ *
+ * - 轉檔紀錄存於鍵值儲存中，重新啟動後仍可沿用已轉好的檔案
+ * - 編碼器先寫入暫存檔，完成後才移到正式位置，中斷的轉檔不會被誤用
+ * - 相同來源與參數的轉檔同時只會執行一次，每個呼叫者可各自取消
+ */
+export class SBSTranscoder {
+  private encoder: SBSEncoder;
+  private fileSystem: ConversionFileSystem;
+  private storage: ConversionStorage;
+  private pending: Map<string, PendingConversion> = new Map();
+
+  constructor(encoder: SBSEncoder, fileSystem: ConversionFileSystem, storage: ConversionStorage) {
+    this.encoder = encoder;
+    this.fileSystem = fileSystem;
+    this.storage = storage;
+  }
+
+  /**
+   * 獲取所有轉檔紀錄
+   */
+  async getRecords(): Promise<ConversionRecord[]> {
+    try {
+      const data = await this.storage.getItem(STORAGE_KEY);
+      return data ? (JSON.parse(data) as ConversionRecord[]) : [];
+    } catch (err) {
+      console.error("載入轉檔紀錄失敗:", err);
+      return [];
+    }
+  }
+
+  /**
+   * 尋找可沿用的轉檔結果；輸出檔案已不存在時移除該紀錄
+   */
+  async findConversion(sourceUri: string, params: SBSConversionParams): Promise<ConversionRecord | null> {
+    const key = getConversionKey(sourceUri, params);
+    const records = await this.getRecords();
+    const record = records.find((r) => r.key === key);
+    if (!record) return null;
+
+    if (await this.fileSystem.exists(record.outputUri)) {
+      return record;
+    }
+
+    await this.saveRecords(records.filter((r) => r.key !== key));
+    return null;
+  }
+
+  /**
+   * 轉換影片；已有相同參數的轉檔結果時直接回傳
+   */
+  convert(
+    sourceUri: string,
+    params: SBSConversionParams,
+    options: ConvertOptions = {}
+  ): Promise<ConversionRecord> {
+    if (options.signal?.aborted) {
+      return Promise.reject(new Error("轉換已取消"));
+    }
+
+    const key = getConversionKey(sourceUri, params);
+    const running = this.pending.get(key);
+    if (running?.controller.signal.aborted) {
+      // 已被取消的轉檔在結束後重新開始，而非沿用其失敗結果
+      return running.promise
+        .catch(() => undefined)
+        .then(() => this.convert(sourceUri, params, options));
+    }
+    return this.waitForConversion(running ?? this.startConversion(key, sourceUri, params), options);
+  }
+
+  private startConversion(key: string, sourceUri: string, params: SBSConversionParams): PendingConversion {
+    const controller = new AbortController();
+    const progressListeners = new Set<(progress: number) => void>();
+    const promise = this.runConversion(key, sourceUri, params, {
+      onProgress: (progress) => progressListeners.forEach((listener) => listener(progress)),
+      signal: controller.signal,
+    }).finally(() => {
+      this.pending.delete(key);
+    });
+    const conversion: PendingConversion = { promise, controller, waiters: 0, progressListeners };
+    this.pending.set(key, conversion);
+    return conversion;
+  }
+
+  /**
+   * 等待共用的轉檔；呼叫者取消時只有自己收到錯誤，最後一個呼叫者取消時才停止編碼
+   */
+  private waitForConversion(
+    conversion: PendingConversion,
+    { onProgress, signal }: ConvertOptions
+  ): Promise<ConversionRecord> {
+    conversion.waiters++;
+    if (onProgress) conversion.progressListeners.add(onProgress);
+
+    return new Promise<ConversionRecord>((resolve, reject) => {
+      let settled = false;
+      const settle = (finish: () => void) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener("abort", handleAbort);
+        if (onProgress) conversion.progressListeners.delete(onProgress);
+        conversion.waiters--;
+        finish();
+      };
+      const handleAbort = () =>
+        settle(() => {
+          if (conversion.waiters === 0) conversion.controller.abort();
+          reject(new Error("轉換已取消"));
+        });
+
+      signal?.addEventListener("abort", handleAbort, { once: true });
+      conversion.promise.then(
+        (record) => settle(() => resolve(record)),
+        (err) => settle(() => reject(err))
+      );
+    });
+  }
+
+  /**
+   * 刪除所有轉檔結果與紀錄
+   */
+  async clear(): Promise<void> {
+    const records = await this.getRecords();
+    for (const record of records) {
+      try {
+        await this.fileSystem.remove(record.outputUri);
+      } catch (err) {
+        console.error("刪除轉檔結果失敗:", err);
+      }
+    }
+    await this.saveRecords([]);
+  }
+
+  private async runConversion(
+    key: string,
+    sourceUri: string,
+    params: SBSConversionParams,
+    { onProgress, signal }: ConvertOptions
+  ): Promise<ConversionRecord> {
+    const existing = await this.findConversion(sourceUri, params);
+    if (existing) {
+      onProgress?.(100);
+      return existing;
+    }
+
+    const directory = this.fileSystem.outputDirectory;
+    const outputUri = `${directory}${getConversionFileName(sourceUri, params)}`;
+    const partialUri = `${outputUri}.partial`;
+    const disparityShift = calculateDisparityShift(params.pupilDistance, params.convergenceDistance);
+
+    await this.fileSystem.ensureDirectory(directory);
+    if (await this.fileSystem.exists(partialUri)) {
+      await this.fileSystem.remove(partialUri);
+    }
+
+    try {
+      await this.encoder.encode(
+        { sourceUri, outputUri: partialUri, layout: params.layout, disparityShift },
+        (progress) => onProgress?.(Math.max(0, Math.min(99, progress))),
+        signal ?? new AbortController().signal
+      );
+      if (signal?.aborted) {
+        throw new Error("轉換已取消");
+      }
+      await this.fileSystem.move(partialUri, outputUri);
+    } catch (err) {
+      if (await this.fileSystem.exists(partialUri)) {
+        await this.fileSystem.remove(partialUri);
+      }
+      throw err;
+    }
+
+    const record: ConversionRecord = {
+      key,
+      sourceUri,
+      outputUri,
+      pupilDistance: params.pupilDistance,
+      convergenceDistance: params.convergenceDistance,
+      layout: params.layout,
+      disparityShift,
+      createdAt: Date.now(),
+    };
+
+    const records = await this.getRecords();
+    await this.saveRecords([...records.filter((r) => r.key !== key), record]);
+    onProgress?.(100);
+    return record;
+  }
+
+  private async saveRecords(records: ConversionRecord[]): Promise<void> {
+    await this.storage.setItem(STORAGE_KEY, JSON.stringify(records));
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * 螢幕實體尺寸與 VR 眼鏡的幾何換算
+ * 以螢幕像素密度將毫米換算為版面像素，讓每隻眼睛的畫面置中於鏡片下方，
+ * 並依使用者瞳距調整左右畫面的間距
+ */
+
+import type { ViewerProfile } from "./viewer-profile";
+
+const MILLIMETERS_PER_INCH = 25.4;
+
+/** 校正用的實物寬度：信用卡或身分證 (ISO/IEC 7810 ID-1) 寬 85.6 毫米 */
+export const CALIBRATION_CARD_WIDTH_MM = 85.6;
+/** 校正用的實物高度 (ID-1) */
+export const CALIBRATION_CARD_HEIGHT_MM = 53.98;
+
+/**
+ * 每英寸的版面像素數（標準密度）
+ * Android dp 定義為 1/160 英寸；iOS point 依螢幕倍率而定（@2x 為 326 ppi，@3x 約 460 ppi）
+ *
+ * React Native 不提供螢幕的實體 DPI，Android 的 dp 又是依密度級距取整，
+ * 實際螢幕可能相差一到兩成；需要精確尺寸時應以使用者的實物校正值為準
+ */
+function getLayoutPixelsPerInch(platform: string, pixelRatio: number): number {
+  if (platform === "ios") return pixelRatio >= 3 ? 460 / 3 : 163;
+  return 160;
+}
+
+export interface ScreenDensityInfo {
+  /** 平台（Platform.OS） */
+  platform: string;
+  /** 每個版面像素對應的實體像素數（PixelRatio.get()） */
+  pixelRatio: number;
+  /** 使用者以實物比對校正的密度（版面像素 / 毫米），未校正時省略 */
+  calibratedPixelsPerMillimeter?: number | null;
+}
+
+/**
+ * 版面座標中的矩形
+ */
+export interface ScreenRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface EyeLayout {
+  /** 眼睛視窗（置中於鏡片下方） */
+  viewport: ScreenRect;
+  /** 鏡片中心（螢幕版面座標） */
+  lensCenter: { x: number; y: number };
+  /** 畫面在視窗內的水平位移（版面像素），使左右畫面中心相距一個瞳距 */
+  imageShift: number;
+  /** 鏡片中心相對視窗中心的偏移（-1 到 1 正規化座標，Y 向上），供鏡片畸變校正使用 */
+  lensCenterOffset: { x: number; y: number };
+}
+
+export interface StereoScreenLayout {
+  left: EyeLayout;
+  right: EyeLayout;
+  /** 使用的換算比例（版面像素 / 毫米） */
+  pixelsPerMillimeter: number;
+}
+
+/**
+ * 計算每毫米對應的版面像素數
+ * 有實物校正值時直接使用，否則依平台與螢幕倍率 (PixelRatio) 的標準密度估算
+ *
+ * @param info 螢幕密度資訊
+ * @returns 版面像素 / 毫米
+ */
+export function getLayoutPixelsPerMillimeter(info: ScreenDensityInfo): number {
+  if (info.calibratedPixelsPerMillimeter && info.calibratedPixelsPerMillimeter > 0) {
+    return info.calibratedPixelsPerMillimeter;
+  }
+  return getLayoutPixelsPerInch(info.platform, info.pixelRatio) / MILLIMETERS_PER_INCH;
+}
+
+export function millimetersToPixels(millimeters: number, pixelsPerMillimeter: number): number {
+  return millimeters * pixelsPerMillimeter;
+}
+
+export function pixelsToMillimeters(pixels: number, pixelsPerMillimeter: number): number {
+  return pixels / pixelsPerMillimeter;
+}
+
+/**
+ * 計算雙眼畫面的配置
+ *
+ * 演算法說明：
+ * 1. 鏡片水平位置：螢幕中央左右各半個鏡片間距
+ * 2. 鏡片垂直位置：依眼鏡的對齊方式，由托盤（底邊）或頂邊量起
+ * 3. 視窗以鏡片中心為中心，寬度不超過半個螢幕
+ * 4. 畫面在視窗內位移 (鏡片間距 - 瞳距) / 2，使兩眼畫面中心相距一個瞳距
+ *
+ * @param screenWidth 螢幕寬度（版面像素，橫向）
+ * @param screenHeight 螢幕高度（版面像素）
+ * @param profile 眼鏡參數
+ * @param pupilDistance 使用者瞳距 (毫米)
+ * @param pixelsPerMillimeter 版面像素 / 毫米
+ * @param bottomBezel 螢幕顯示區域下緣到手機底邊的距離 (毫米)
+ * @returns 雙眼配置
+ */
+export function calculateStereoScreenLayout(
+  screenWidth: number,
+  screenHeight: number,
+  profile: ViewerProfile,
+  pupilDistance: number,
+  pixelsPerMillimeter: number,
+  bottomBezel: number = 0
+): StereoScreenLayout {
+  const halfWidth = screenWidth / 2;
+  const halfLensDistance = Math.min(
+    halfWidth,
+    millimetersToPixels(profile.interLensDistance / 2, pixelsPerMillimeter)
+  );
+
+  const trayOffset = millimetersToPixels(
+    profile.trayToLensDistance - bottomBezel,
+    pixelsPerMillimeter
+  );
+  let lensY: number;
+  switch (profile.verticalAlignment) {
+    case "bottom":
+      lensY = screenHeight - trayOffset;
+      break;
+    case "top":
+      lensY = trayOffset;
+      break;
+    default:
+      lensY = screenHeight / 2;
+  }
+  lensY = Math.max(0, Math.min(screenHeight, lensY));
+
+  const lensX = halfWidth - halfLensDistance;
+  // 視窗不跨越螢幕邊緣或中線
+  const viewportHalfWidth = Math.min(lensX, halfWidth - lensX);
+  const imageShift = millimetersToPixels(
+    (profile.interLensDistance - pupilDistance) / 2,
+    pixelsPerMillimeter
+  );
+  const lensCenterOffsetY = screenHeight > 0 ? (screenHeight / 2 - lensY) / (screenHeight / 2) : 0;
+
+  const createEye = (centerX: number, shift: number): EyeLayout => ({
+    viewport: {
+      x: centerX - viewportHalfWidth,
+      y: 0,
+      width: viewportHalfWidth * 2,
+      height: screenHeight,
+    },
+    lensCenter: { x: centerX, y: lensY },
+    imageShift: shift,
+    lensCenterOffset: { x: 0, y: lensCenterOffsetY },
+  });
+
+  return {
+    left: createEye(lensX, imageShift),
+    right: createEye(screenWidth - lensX, -imageShift),
+    pixelsPerMillimeter,
+  };
+}
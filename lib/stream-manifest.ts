@@ -0,0 +1,699 @@
+/**
+ * 自適應串流清單解析
+ * 解析 HLS 主播放清單／媒體播放清單與 DASH MPD，取得可選的畫質版本（variant）、
+ * 音訊與字幕軌，以及清單中標示的立體排列與投影方式
+ *
+ * React Native 沒有 DOMParser，MPD 以正規表示式讀取需要的元素與屬性
+ */
+
+import { detectVideoLayout, DEFAULT_VIDEO_LAYOUT, type VideoLayout, type ProjectionType } from "./video-layout";
+
+export type StreamFormat = "hls" | "dash";
+
+/**
+ * 畫質選擇：自動（由播放器依頻寬切換）或限制最高解析度
+ */
+export type StreamQuality = "auto" | "1080p" | "4k";
+
+/**
+ * 一個畫質版本（HLS 的 EXT-X-STREAM-INF 或 DASH 的視訊 Representation）
+ */
+export interface StreamVariant {
+  id: string;
+  /** HLS 媒體播放清單的絕對網址；DASH 為清單網址 */
+  uri: string;
+  /** 位元率 (bps) */
+  bandwidth: number;
+  /** 0 為未知 */
+  width: number;
+  height: number;
+  codecs?: string;
+  frameRate?: number;
+  /** HLS 音訊群組 (EXT-X-MEDIA GROUP-ID) */
+  audioGroup?: string;
+  /** HLS 字幕群組 */
+  subtitlesGroup?: string;
+  /** 清單中標示的排列；未標示時為 null */
+  layout: VideoLayout | null;
+}
+
+/**
+ * HLS 的替代音訊或字幕（EXT-X-MEDIA）
+ */
+export interface StreamRendition {
+  type: "audio" | "subtitles";
+  groupId: string;
+  name: string;
+  language?: string;
+  /** 絕對網址；音訊已包含在主要串流中時沒有 */
+  uri?: string;
+  isDefault: boolean;
+  autoSelect: boolean;
+  channels?: string;
+}
+
+export interface StreamManifest {
+  format: StreamFormat;
+  url: string;
+  /** 依位元率由低到高 */
+  variants: StreamVariant[];
+  renditions: StreamRendition[];
+  /** 直播；HLS 主播放清單無法得知，為 false */
+  isLive: boolean;
+  /** 總長度（秒）；0 為未知 */
+  duration: number;
+  /** 清單中的排列資訊，其次以網址中的檔名判斷 */
+  layout: VideoLayout;
+}
+
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+/**
+ * HLS 加密資訊（EXT-X-KEY）
+ */
+export interface HlsKey {
+  /** NONE、AES-128 或 SAMPLE-AES */
+  method: string;
+  uri?: string;
+  iv?: string;
+  keyFormat?: string;
+}
+
+/**
+ * fMP4 初始化區段（EXT-X-MAP）
+ */
+export interface HlsInitSection {
+  uri: string;
+  byteRange?: ByteRange;
+}
+
+export interface HlsSegment {
+  /** 絕對網址 */
+  uri: string;
+  /** 長度（秒） */
+  duration: number;
+  byteRange?: ByteRange;
+  key: HlsKey | null;
+  map: HlsInitSection | null;
+  /** 與前一個區段之間有編碼或時間軸不連續 */
+  discontinuity: boolean;
+}
+
+export interface HlsMediaPlaylist {
+  version: number;
+  targetDuration: number;
+  mediaSequence: number;
+  /** VOD 或 EVENT */
+  playlistType?: string;
+  /** 有 EXT-X-ENDLIST，不會再新增區段 */
+  endList: boolean;
+  segments: HlsSegment[];
+  /** 所有區段的總長度（秒） */
+  duration: number;
+}
+
+export const STREAM_QUALITY_LABELS: Record<StreamQuality, string> = {
+  auto: "自動",
+  "1080p": "1080p",
+  "4k": "4K",
+};
+
+/** 各畫質的最高解析度 */
+const QUALITY_MAX_RESOLUTION: Record<Exclude<StreamQuality, "auto">, number> = {
+  "1080p": 1080,
+  "4k": Infinity,
+};
+
+const HLS_CONTENT_TYPES = ["application/vnd.apple.mpegurl", "application/x-mpegurl", "audio/mpegurl"];
+const DASH_CONTENT_TYPE = "application/dash+xml";
+
+// DASH 立體與投影描述
+const FRAME_PACKING_SCHEMES = [
+  "urn:mpeg:mpegB:cicp:VideoFramePackingType",
+  "urn:mpeg:dash:14496:10:frame_packing_arrangement_type:2011",
+];
+const OMAF_PROJECTION_SCHEME = "urn:mpeg:mpegI:omaf:2017:pf";
+const FRAME_PACKING_SIDE_BY_SIDE = "3";
+const FRAME_PACKING_TOP_BOTTOM = "4";
+
+// 不含影片資訊的清單檔名
+const GENERIC_MANIFEST_NAMES = /^(master|index|playlist|manifest|main|stream)\.(m3u8|mpd)$/i;
+
+/**
+ * 由網址副檔名或 Content-Type 判斷串流格式
+ *
+ * @returns 不是 HLS/DASH 時為 null
+ */
+export function detectStreamFormat(uri: string, contentType?: string | null): StreamFormat | null {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (type && HLS_CONTENT_TYPES.includes(type)) return "hls";
+  if (type === DASH_CONTENT_TYPE) return "dash";
+
+  const path = uri.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith(".m3u8")) return "hls";
+  if (path.endsWith(".mpd")) return "dash";
+  return null;
+}
+
+/**
+ * 將清單中的相對網址轉為絕對網址
+ */
+export function resolveStreamUrl(uri: string, baseUrl: string): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(uri)) return uri;
+
+  const base = baseUrl.split(/[?#]/)[0];
+  const origin = base.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i)?.[0] ?? "";
+  if (uri.startsWith("//")) {
+    return `${base.slice(0, base.indexOf(":") + 1)}${uri}`;
+  }
+
+  // 只在第一個 ? 或 # 分開，查詢字串與片段一起保留
+  const delimiter = uri.search(/[?#]/);
+  const path = delimiter === -1 ? uri : uri.slice(0, delimiter);
+  const suffix = delimiter === -1 ? "" : uri.slice(delimiter);
+  const directory = path.startsWith("/") ? "" : base.slice(origin.length, base.lastIndexOf("/") + 1);
+  const resolved: string[] = [];
+  for (const segment of `${directory}${path}`.split("/")) {
+    if (segment === "..") {
+      if (resolved.length > 1) resolved.pop();
+    } else if (segment !== ".") {
+      resolved.push(segment);
+    }
+  }
+  // 保留結尾的 "/"（"dir/." 或 "dir/.."）
+  if (/(^|\/)\.\.?$/.test(path)) resolved.push("");
+  return `${origin}${resolved.join("/")}${suffix}`;
+}
+
+/**
+ * 解析屬性列表（KEY=VALUE,KEY="VALUE"）
+ */
+function parseAttributeList(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const value = match[2];
+    attributes[match[1]] = value.startsWith('"') ? value.slice(1, -1) : value;
+  }
+  return attributes;
+}
+
+/**
+ * 解析 EXT-X-BYTERANGE 或 BYTERANGE 屬性（長度[@位置]）
+ *
+ * @param nextOffset 未指定位置時接續同一資源上一個範圍之後
+ */
+function parseByteRange(value: string, nextOffset: number): ByteRange {
+  const [length, offset] = value.split("@");
+  return { length: Number(length), offset: offset !== undefined ? Number(offset) : nextOffset };
+}
+
+/**
+ * 解析 HLS 的 REQ-VIDEO-LAYOUT（例如 "CH-STEREO/PROJ-EQUI"）
+ *
+ * CH-STEREO 為 MV-HEVC 多視角編碼，解碼後的影格只有主視角而非左右並排，
+ * 因此只採用投影方式，立體排列視為單眼
+ */
+function parseHlsVideoLayout(value: string | undefined): VideoLayout | null {
+  if (!value) return null;
+  const specifiers = value.split(/[/,]/).map((s) => s.trim().toUpperCase());
+
+  let projection: ProjectionType | null = null;
+  if (specifiers.includes("PROJ-EQUI")) projection = "equirect-360";
+  else if (specifiers.includes("PROJ-HEQU")) projection = "equirect-180";
+  else if (specifiers.includes("PROJ-AIV")) projection = "fisheye";
+  else if (specifiers.includes("PROJ-PRIM") || specifiers.includes("PROJ-RECT")) projection = "flat";
+
+  return projection ? { stereo: "mono", projection } : null;
+}
+
+/**
+ * 是否為 HLS 主播放清單（包含畫質版本而非區段）
+ */
+export function isHlsMasterPlaylist(text: string): boolean {
+  return /^#EXT-X-STREAM-INF:/m.test(text);
+}
+
+function assertHlsPlaylist(text: string): string[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).map((line) => line.trim());
+  if (lines[0] !== "#EXTM3U") {
+    throw new Error("不是有效的 HLS 播放清單");
+  }
+  return lines;
+}
+
+/**
+ * 解析 HLS 主播放清單
+ *
+ * @param baseUrl 播放清單網址，用於解析相對網址
+ */
+export function parseHlsMasterPlaylist(text: string, baseUrl: string): StreamManifest {
+  const lines = assertHlsPlaylist(text);
+  const variants: StreamVariant[] = [];
+  const renditions: StreamRendition[] = [];
+  let pending: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line.startsWith("#EXT-X-STREAM-INF:")) {
+      pending = parseAttributeList(line.slice("#EXT-X-STREAM-INF:".length));
+    } else if (line.startsWith("#EXT-X-MEDIA:")) {
+      const attributes = parseAttributeList(line.slice("#EXT-X-MEDIA:".length));
+      const type = attributes.TYPE;
+      if (type !== "AUDIO" && type !== "SUBTITLES") continue;
+      renditions.push({
+        type: type === "AUDIO" ? "audio" : "subtitles",
+        groupId: attributes["GROUP-ID"],
+        name: attributes.NAME ?? attributes.LANGUAGE ?? "",
+        language: attributes.LANGUAGE,
+        uri: attributes.URI ? resolveStreamUrl(attributes.URI, baseUrl) : undefined,
+        isDefault: attributes.DEFAULT === "YES",
+        autoSelect: attributes.AUTOSELECT === "YES",
+        channels: attributes.CHANNELS,
+      });
+    } else if (pending && line && !line.startsWith("#")) {
+      const [width, height] = (pending.RESOLUTION ?? "").split("x").map(Number);
+      variants.push({
+        id: `${variants.length}`,
+        uri: resolveStreamUrl(line, baseUrl),
+        bandwidth: Number(pending.BANDWIDTH) || 0,
+        width: width || 0,
+        height: height || 0,
+        codecs: pending.CODECS,
+        frameRate: pending["FRAME-RATE"] ? Number(pending["FRAME-RATE"]) : undefined,
+        audioGroup: pending.AUDIO,
+        subtitlesGroup: pending.SUBTITLES,
+        layout: parseHlsVideoLayout(pending["REQ-VIDEO-LAYOUT"]),
+      });
+      pending = null;
+    }
+  }
+
+  return {
+    format: "hls",
+    url: baseUrl,
+    variants: variants.sort((a, b) => a.bandwidth - b.bandwidth),
+    renditions,
+    isLive: false,
+    duration: 0,
+    layout: getManifestLayout(variants, baseUrl),
+  };
+}
+
+/**
+ * 解析 HLS 媒體播放清單
+ */
+export function parseHlsMediaPlaylist(text: string, baseUrl: string): HlsMediaPlaylist {
+  const lines = assertHlsPlaylist(text);
+  const playlist: HlsMediaPlaylist = {
+    version: 1,
+    targetDuration: 0,
+    mediaSequence: 0,
+    endList: false,
+    segments: [],
+    duration: 0,
+  };
+
+  let duration: number | null = null;
+  let byteRange: string | null = null;
+  let discontinuity = false;
+  let key: HlsKey | null = null;
+  let map: HlsInitSection | null = null;
+  // 同一資源上一個範圍的結尾，供未指定位置的 EXT-X-BYTERANGE 使用
+  const rangeEnds = new Map<string, number>();
+
+  for (const line of lines) {
+    if (line.startsWith("#EXTINF:")) {
+      duration = Number(line.slice("#EXTINF:".length).split(",")[0]) || 0;
+    } else if (line.startsWith("#EXT-X-BYTERANGE:")) {
+      byteRange = line.slice("#EXT-X-BYTERANGE:".length);
+    } else if (line === "#EXT-X-DISCONTINUITY") {
+      discontinuity = true;
+    } else if (line.startsWith("#EXT-X-KEY:")) {
+      const attributes = parseAttributeList(line.slice("#EXT-X-KEY:".length));
+      key =
+        attributes.METHOD === "NONE"
+          ? null
+          : {
+              method: attributes.METHOD,
+              uri: attributes.URI ? resolveStreamUrl(attributes.URI, baseUrl) : undefined,
+              iv: attributes.IV,
+              keyFormat: attributes.KEYFORMAT,
+            };
+    } else if (line.startsWith("#EXT-X-MAP:")) {
+      const attributes = parseAttributeList(line.slice("#EXT-X-MAP:".length));
+      map = {
+        uri: resolveStreamUrl(attributes.URI, baseUrl),
+        byteRange: attributes.BYTERANGE ? parseByteRange(attributes.BYTERANGE, 0) : undefined,
+      };
+    } else if (line.startsWith("#EXT-X-VERSION:")) {
+      playlist.version = Number(line.slice("#EXT-X-VERSION:".length));
+    } else if (line.startsWith("#EXT-X-TARGETDURATION:")) {
+      playlist.targetDuration = Number(line.slice("#EXT-X-TARGETDURATION:".length));
+    } else if (line.startsWith("#EXT-X-MEDIA-SEQUENCE:")) {
+      playlist.mediaSequence = Number(line.slice("#EXT-X-MEDIA-SEQUENCE:".length));
+    } else if (line.startsWith("#EXT-X-PLAYLIST-TYPE:")) {
+      playlist.playlistType = line.slice("#EXT-X-PLAYLIST-TYPE:".length);
+    } else if (line === "#EXT-X-ENDLIST") {
+      playlist.endList = true;
+    } else if (duration !== null && line && !line.startsWith("#")) {
+      const uri = resolveStreamUrl(line, baseUrl);
+      const segment: HlsSegment = { uri, duration, key, map, discontinuity };
+      if (byteRange) {
+        segment.byteRange = parseByteRange(byteRange, rangeEnds.get(uri) ?? 0);
+        rangeEnds.set(uri, segment.byteRange.offset + segment.byteRange.length);
+      }
+      playlist.segments.push(segment);
+      playlist.duration += duration;
+      duration = null;
+      byteRange = null;
+      discontinuity = false;
+    }
+  }
+  return playlist;
+}
+
+/**
+ * 解析 ISO 8601 時間長度（例如 PT1H2M3.5S）
+ *
+ * @returns 秒；無法解析時為 0
+ */
+function parseIsoDuration(value: string | undefined): number {
+  const match = value?.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return 0;
+  const [, days = "0", hours = "0", minutes = "0", seconds = "0"] = match;
+  return Number(days) * 86400 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+/**
+ * 讀取 XML 開始標籤的屬性
+ */
+function parseXmlAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    attributes[match[1]] = match[3] ?? match[4];
+  }
+  return attributes;
+}
+
+/**
+ * 找出元素（自閉合或有內容）
+ */
+function findXmlElements(xml: string, tag: string): { attributes: Record<string, string>; content: string }[] {
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, "g");
+  const elements: { attributes: Record<string, string>; content: string }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) {
+    elements.push({ attributes: parseXmlAttributes(match[1]), content: match[2] ?? "" });
+  }
+  return elements;
+}
+
+/**
+ * 移除子元素，只保留元素本身層級的內容（避免讀到 Representation 內的描述）
+ */
+function stripXmlElements(xml: string, tag: string): string {
+  return xml.replace(new RegExp(`<${tag}\\b[^>]*?(?:/>|>[\\s\\S]*?</${tag}>)`, "g"), "");
+}
+
+/**
+ * 讀取 DASH 的立體與投影描述
+ *
+ * 影格封裝只標示左右或上下，以解析度判斷每眼是否被壓縮：
+ * 每眼畫面比例約為投影的原始比例（平面 16:9、360° 為 2:1、180° 為 1:1）時為完整寬高
+ */
+function parseDashVideoLayout(content: string, width: number, height: number): VideoLayout | null {
+  const descriptors = ["EssentialProperty", "SupplementalProperty", "FramePacking"]
+    .flatMap((tag) => findXmlElements(content, tag))
+    .map((element) => element.attributes);
+
+  const projectionValue = descriptors.find((d) => d.schemeIdUri === OMAF_PROJECTION_SCHEME)?.value;
+  const packing = descriptors.find((d) => FRAME_PACKING_SCHEMES.includes(d.schemeIdUri ?? ""))?.value;
+  if (projectionValue === undefined && packing === undefined) return null;
+
+  // OMAF：0 為等距柱狀投影，1 為立方體
+  const projection: ProjectionType =
+    projectionValue === "0" ? "equirect-360" : projectionValue === "1" ? "cubemap" : "flat";
+  if (packing !== FRAME_PACKING_SIDE_BY_SIDE && packing !== FRAME_PACKING_TOP_BOTTOM) {
+    return { stereo: "mono", projection };
+  }
+
+  const eyeAspect = projection === "equirect-360" ? 2 : projection === "flat" ? 16 / 9 : 1;
+  const aspect = width > 0 && height > 0 ? width / height : null;
+  if (packing === FRAME_PACKING_SIDE_BY_SIDE) {
+    return { stereo: aspect !== null && aspect < eyeAspect * 1.5 ? "half-sbs" : "sbs", projection };
+  }
+  return { stereo: aspect !== null && aspect > eyeAspect * 0.75 ? "half-tb" : "tb", projection };
+}
+
+/**
+ * 解析 DASH MPD（只讀取第一個 Period 的視訊 Representation）
+ */
+export function parseDashManifest(xml: string, baseUrl: string): StreamManifest {
+  const mpd = xml.match(/<MPD\b([^>]*)>/);
+  if (!mpd) {
+    throw new Error("不是有效的 DASH 清單");
+  }
+  const mpdAttributes = parseXmlAttributes(mpd[1]);
+  const period = findXmlElements(xml, "Period")[0];
+  const variants: StreamVariant[] = [];
+
+  for (const set of findXmlElements(period?.content ?? "", "AdaptationSet")) {
+    const setContent = stripXmlElements(set.content, "Representation");
+    for (const representation of findXmlElements(set.content, "Representation")) {
+      const attributes = { ...set.attributes, ...representation.attributes };
+      const isVideo =
+        attributes.contentType === "video" ||
+        (attributes.mimeType ?? "").startsWith("video/") ||
+        (!attributes.mimeType && !!attributes.width);
+      if (!isVideo) continue;
+
+      const width = Number(attributes.width) || 0;
+      const height = Number(attributes.height) || 0;
+      const [numerator, denominator = "1"] = (attributes.frameRate ?? "").split("/");
+      variants.push({
+        id: attributes.id ?? `${variants.length}`,
+        uri: baseUrl,
+        bandwidth: Number(attributes.bandwidth) || 0,
+        width,
+        height,
+        codecs: attributes.codecs,
+        frameRate: numerator ? Number(numerator) / Number(denominator) : undefined,
+        layout:
+          parseDashVideoLayout(representation.content, width, height) ??
+          parseDashVideoLayout(setContent, width, height),
+      });
+    }
+  }
+
+  return {
+    format: "dash",
+    url: baseUrl,
+    variants: variants.sort((a, b) => a.bandwidth - b.bandwidth),
+    renditions: [],
+    isLive: mpdAttributes.type === "dynamic",
+    duration: parseIsoDuration(mpdAttributes.mediaPresentationDuration),
+    layout: getManifestLayout(variants, baseUrl),
+  };
+}
+
+/**
+ * 解析 HLS 或 DASH 清單；HLS 媒體播放清單視為只有一個畫質版本
+ */
+export function parseStreamManifest(text: string, url: string, format: StreamFormat): StreamManifest {
+  if (format === "dash") return parseDashManifest(text, url);
+  if (isHlsMasterPlaylist(text)) return parseHlsMasterPlaylist(text, url);
+
+  const playlist = parseHlsMediaPlaylist(text, url);
+  return {
+    format: "hls",
+    url,
+    variants: [{ id: "0", uri: url, bandwidth: 0, width: 0, height: 0, layout: null }],
+    renditions: [],
+    isLive: !playlist.endList,
+    duration: playlist.duration,
+    layout: getManifestLayout([], url),
+  };
+}
+
+/**
+ * 整個串流的排列：優先採用畫質版本的標示，其次以網址中的檔名判斷；
+ * 檔名為 master、index 等通用名稱時改用上一層目錄名稱（例如 .../movie_360_TB/master.m3u8）
+ */
+function getManifestLayout(variants: StreamVariant[], url: string): VideoLayout {
+  const tagged = variants.find((variant) => variant.layout)?.layout;
+  if (tagged) return { ...tagged };
+
+  const names = url.split(/[?#]/)[0].split("/").filter(Boolean);
+  const fileName = names.pop() ?? "";
+  const name = GENERIC_MANIFEST_NAMES.test(fileName) ? names.pop() ?? "" : fileName;
+  return name ? detectVideoLayout(`${name}.m3u8`) : { ...DEFAULT_VIDEO_LAYOUT };
+}
+
+/**
+ * 畫質版本的名義解析度（以 16:9 換算的高度）
+ * 360° 的 3840x1920 與左右並排的 3840x1080 同樣歸為 4K
+ *
+ * @returns 0 為未知
+ */
+export function getVariantResolution(variant: StreamVariant): number {
+  return Math.max(variant.height, Math.round((variant.width * 9) / 16));
+}
+
+/**
+ * 畫質版本的顯示文字（例如「1080p · 5.2 Mbps」）
+ */
+export function formatStreamVariant(variant: StreamVariant): string {
+  const resolution = getVariantResolution(variant);
+  const name = resolution >= 2160 ? "4K" : resolution > 0 ? `${resolution}p` : "";
+  const bitrate = variant.bandwidth > 0 ? `${(variant.bandwidth / 1_000_000).toFixed(1)} Mbps` : "";
+  return [name, bitrate].filter(Boolean).join(" · ") || "預設";
+}
+
+/**
+ * 選擇畫質版本
+ * - auto：位元率不超過估計頻寬 80% 的最高版本；沒有估計值時為最高版本
+ * - 1080p/4K：解析度不超過上限的最高版本；都超過時為最低版本
+ *
+ * 播放時的自動畫質不經過這裡，直接把原本的清單交給播放器自行依頻寬切換（ABR）；
+ * auto 的頻寬估計只用於離線下載
+ *
+ * @param bandwidth 估計頻寬 (bps)
+ */
+export function selectStreamVariant(
+  variants: StreamVariant[],
+  quality: StreamQuality,
+  bandwidth: number | null = null
+): StreamVariant | null {
+  if (variants.length === 0) return null;
+  const sorted = [...variants].sort((a, b) => a.bandwidth - b.bandwidth);
+
+  let candidates: StreamVariant[];
+  if (quality === "auto") {
+    candidates = bandwidth ? sorted.filter((variant) => variant.bandwidth <= bandwidth * 0.8) : sorted;
+  } else {
+    const max = QUALITY_MAX_RESOLUTION[quality];
+    candidates = sorted.filter((variant) => getVariantResolution(variant) <= max);
+  }
+  return candidates[candidates.length - 1] ?? sorted[0];
+}
+
+/**
+ * 清單中可選的畫質（自動之外，只列出有對應解析度版本的選項）
+ */
+export function getAvailableStreamQualities(variants: StreamVariant[]): StreamQuality[] {
+  const resolutions = variants.map(getVariantResolution);
+  const qualities: StreamQuality[] = ["auto"];
+  if (resolutions.some((r) => r >= 1080 && r < 2160)) qualities.push("1080p");
+  if (resolutions.some((r) => r >= 2160)) qualities.push("4k");
+  return qualities;
+}
+
+function formatAttribute(name: string, value: string | number | undefined, quoted: boolean): string | null {
+  if (value === undefined || value === "") return null;
+  return quoted ? `${name}="${value}"` : `${name}=${value}`;
+}
+
+/**
+ * 產生只有一個畫質版本的 HLS 主播放清單（固定畫質播放與離線下載使用）
+ *
+ * @param renditions 畫質版本引用的音訊與字幕群組
+ * @param uris 覆寫網址（例如改為本地檔案的相對路徑）；key 為原本的網址
+ */
+export function createHlsMasterPlaylist(
+  variant: StreamVariant,
+  renditions: StreamRendition[],
+  uris: Map<string, string> = new Map()
+): string {
+  const lines = ["#EXTM3U", "#EXT-X-VERSION:6", "#EXT-X-INDEPENDENT-SEGMENTS"];
+  const groups = [variant.audioGroup, variant.subtitlesGroup].filter(Boolean);
+
+  for (const rendition of renditions.filter((r) => groups.includes(r.groupId))) {
+    const attributes = [
+      formatAttribute("TYPE", rendition.type === "audio" ? "AUDIO" : "SUBTITLES", false),
+      formatAttribute("GROUP-ID", rendition.groupId, true),
+      formatAttribute("NAME", rendition.name, true),
+      formatAttribute("LANGUAGE", rendition.language, true),
+      formatAttribute("DEFAULT", rendition.isDefault ? "YES" : "NO", false),
+      formatAttribute("AUTOSELECT", rendition.autoSelect ? "YES" : "NO", false),
+      formatAttribute("CHANNELS", rendition.channels, true),
+      formatAttribute("URI", rendition.uri && (uris.get(rendition.uri) ?? rendition.uri), true),
+    ];
+    lines.push(`#EXT-X-MEDIA:${attributes.filter(Boolean).join(",")}`);
+  }
+
+  const attributes = [
+    formatAttribute("BANDWIDTH", Math.max(1, Math.round(variant.bandwidth)), false),
+    formatAttribute("RESOLUTION", variant.width > 0 ? `${variant.width}x${variant.height}` : undefined, false),
+    formatAttribute("CODECS", variant.codecs, true),
+    formatAttribute("FRAME-RATE", variant.frameRate?.toFixed(3), false),
+    formatAttribute("AUDIO", variant.audioGroup, true),
+    formatAttribute("SUBTITLES", variant.subtitlesGroup, true),
+  ];
+  lines.push(`#EXT-X-STREAM-INF:${attributes.filter(Boolean).join(",")}`);
+  lines.push(uris.get(variant.uri) ?? variant.uri);
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * 產生只保留一個視訊 Representation 的 MPD（固定畫質播放使用）
+ * 清單會另存為本地檔案，因此將 MPD 層級的 BaseURL 改為絕對網址
+ */
+export function createDashVariantManifest(xml: string, variant: StreamVariant): string {
+  const filtered = xml.replace(/<AdaptationSet\b[^>]*>[\s\S]*?<\/AdaptationSet>/g, (set) => {
+    const representations = findXmlElements(set, "Representation");
+    if (!representations.some((r) => r.attributes.id === variant.id)) return set;
+    return set.replace(/<Representation\b([^>]*?)(?:\/>|>[\s\S]*?<\/Representation>)/g, (element, attributes) =>
+      parseXmlAttributes(attributes).id === variant.id ? element : ""
+    );
+  });
+
+  const periodStart = filtered.search(/<Period\b/);
+  const head = periodStart >= 0 ? filtered.slice(0, periodStart) : filtered;
+  const baseUrl = head.match(/<BaseURL>([^<]*)<\/BaseURL>/);
+  if (baseUrl) {
+    return filtered.replace(baseUrl[0], `<BaseURL>${resolveStreamUrl(baseUrl[1].trim(), variant.uri)}</BaseURL>`);
+  }
+  const directory = resolveStreamUrl(".", variant.uri);
+  return filtered.replace(/<MPD\b[^>]*>/, (tag) => `${tag}<BaseURL>${directory}</BaseURL>`);
+}
+
+/**
+ * 以指數加權移動平均估計下載頻寬（離線下載選擇自動畫質使用）
+ */
+export class BandwidthEstimator {
+  private alpha: number;
+  private estimate: number | null = null;
+
+  /**
+   * @param alpha 新樣本的權重（0-1）
+   */
+  constructor(alpha: number = 0.3) {
+    this.alpha = alpha;
+  }
+
+  /**
+   * 加入一次下載的結果；太小的回應主要反映延遲而非頻寬，略過
+   *
+   * @param bytes 下載的位元組數
+   * @param durationMs 花費時間 (ms)
+   */
+  addSample(bytes: number, durationMs: number): void {
+    if (bytes < 16 * 1024 || durationMs <= 0) return;
+    const bitsPerSecond = (bytes * 8 * 1000) / durationMs;
+    this.estimate =
+      this.estimate === null ? bitsPerSecond : this.alpha * bitsPerSecond + (1 - this.alpha) * this.estimate;
+  }
+
+  /**
+   * 估計頻寬 (bps)；還沒有樣本時為 null
+   */
+  getEstimate(): number | null {
+    return this.estimate;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Telegram Bot API 客戶端
+ * https://core.telegram.org/bots/api
+ *
+ * 只實作串流播放需要的方法：getMe、getUpdates、getChat、getChatMemberCount、getFile
+ */
+
+export interface BotApiUser {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  username?: string;
+}
+
+export interface BotApiChat {
+  id: number;
+  type: "private" | "group" | "supergroup" | "channel";
+  title?: string;
+  username?: string;
+  description?: string;
+  photo?: { small_file_id: string; big_file_id: string };
+}
+
+export interface BotApiVideo {
+  file_id: string;
+  file_unique_id: string;
+  width: number;
+  height: number;
+  duration: number;
+  file_name?: string;
+  mime_type?: string;
+  file_size?: number;
+}
+
+export interface BotApiDocument {
+  file_id: string;
+  file_unique_id: string;
+  file_name?: string;
+  mime_type?: string;
+  file_size?: number;
+}
+
+export interface BotApiMessage {
+  message_id: number;
+  date: number; // Unix 秒
+  chat: BotApiChat;
+  text?: string;
+  caption?: string;
+  video?: BotApiVideo;
+  document?: BotApiDocument;
+}
+
+export interface BotApiUpdate {
+  update_id: number;
+  message?: BotApiMessage;
+  channel_post?: BotApiMessage;
+  edited_channel_post?: BotApiMessage;
+}
+
+export interface BotApiFile {
+  file_id: string;
+  file_unique_id: string;
+  file_size?: number;
+  file_path?: string;
+}
+
+interface BotApiResponse<T> {
+  ok: boolean;
+  result?: T;
+  description?: string;
+  error_code?: number;
+  parameters?: { retry_after?: number };
+}
+
+export interface BotApiOptions {
+  /** 預設 https://api.telegram.org（自架 Bot API 伺服器時可改） */
+  apiEndpoint: string;
+  /** 單次請求逾時 (ms)，長輪詢時會再加上輪詢秒數 */
+  timeout: number;
+  /** 網路錯誤、429 與 5xx 的重試次數 */
+  maxRetries: number;
+}
+
+export const DEFAULT_BOT_API_ENDPOINT = "https://api.telegram.org";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 取得 Telegram API 錯誤的狀態碼（error_code）；網路錯誤等非 API 錯誤為 null
+ */
+export function getTelegramErrorCode(err: unknown): number | null {
+  const code = (err as { code?: unknown } | null)?.code;
+  return typeof code === "number" ? code : null;
+}
+
+/**
+ * 取得 Telegram API 錯誤的描述（例如 SESSION_PASSWORD_NEEDED）
+ */
+export function getTelegramErrorDescription(err: unknown): string | null {
+  const description = (err as { description?: unknown } | null)?.description;
+  return typeof description === "string" ? description : null;
+}
+
+/**
+ * 以 JSON POST 呼叫 Telegram 風格的 API（{ ok, result } 回應格式）
+ * Bot API 與使用者帳號閘道共用；網路錯誤、429 與 5xx 依指數退避重試
+ */
+export async function callTelegramMethod<T>(
+  url: string,
+  params: Record<string, unknown>,
+  options: Pick<BotApiOptions, "timeout" | "maxRetries">,
+  headers: Record<string, string> = {}
+): Promise<T> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
+    const isLastAttempt = attempt === options.maxRetries;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeout);
+    let status: number;
+    let data: BotApiResponse<T>;
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(params),
+        signal: controller.signal,
+      });
+      status = response.status;
+      data = (await response.json()) as BotApiResponse<T>;
+    } catch (err) {
+      lastError = err;
+      if (!isLastAttempt) await wait(2 ** attempt * 500);
+      continue;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (data.ok) return data.result as T;
+
+    const code = data.error_code ?? status;
+    lastError = Object.assign(
+      new Error(`Telegram API 錯誤 (${code}): ${data.description ?? "未知錯誤"}`),
+      { code, description: data.description ?? null }
+    );
+    if (code !== 429 && code < 500) throw lastError;
+    if (!isLastAttempt) {
+      await wait(data.parameters?.retry_after ? data.parameters.retry_after * 1000 : 2 ** attempt * 500);
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error("Telegram 請求失敗");
+}
+
+/**
+ * Bot API 客戶端
+ */
+export class TelegramBotApi {
+  private token: string;
+  private options: BotApiOptions;
+
+  constructor(token: string, options: Partial<BotApiOptions> = {}) {
+    this.token = token;
+    this.options = {
+      apiEndpoint: DEFAULT_BOT_API_ENDPOINT,
+      timeout: 30000,
+      maxRetries: 3,
+      ...options,
+    };
+  }
+
+  /**
+   * 呼叫 Bot API 方法
+   */
+  call<T>(method: string, params: Record<string, unknown> = {}, timeout?: number): Promise<T> {
+    return callTelegramMethod<T>(
+      `${this.options.apiEndpoint}/bot${this.token}/${method}`,
+      params,
+      { ...this.options, timeout: timeout ?? this.options.timeout }
+    );
+  }
+
+  /**
+   * 驗證 Bot Token 並取得機器人資訊
+   */
+  getMe(): Promise<BotApiUser> {
+    return this.call<BotApiUser>("getMe");
+  }
+
+  /**
+   * 取得更新（長輪詢）
+   *
+   * @param offset 上次最後一筆 update_id + 1，同時確認之前的更新
+   * @param pollSeconds 長輪詢秒數，0 為立即回傳
+   */
+  getUpdates(offset?: number, pollSeconds: number = 0, limit: number = 100): Promise<BotApiUpdate[]> {
+    return this.call<BotApiUpdate[]>(
+      "getUpdates",
+      {
+        offset,
+        limit,
+        timeout: pollSeconds,
+        allowed_updates: ["message", "channel_post", "edited_channel_post"],
+      },
+      this.options.timeout + pollSeconds * 1000
+    );
+  }
+
+  /**
+   * 取得聊天資訊（可用 @username 查詢公開頻道）
+   */
+  getChat(chatId: number | string): Promise<BotApiChat> {
+    return this.call<BotApiChat>("getChat", { chat_id: chatId });
+  }
+
+  getChatMemberCount(chatId: number | string): Promise<number> {
+    return this.call<number>("getChatMemberCount", { chat_id: chatId });
+  }
+
+  /**
+   * 取得檔案路徑（Bot API 只能下載 20MB 以內的檔案）
+   */
+  getFile(fileId: string): Promise<BotApiFile> {
+    return this.call<BotApiFile>("getFile", { file_id: fileId });
+  }
+
+  /**
+   * 檔案下載網址
+   */
+  getFileUrl(filePath: string): string {
+    return `${this.options.apiEndpoint}/file/bot${this.token}/${filePath}`;
+  }
+}
@@ -0,0 +1,558 @@
+/**
+ * Telegram 影片下載
+ * 以 HTTP Range 分段下載到暫存檔（savePath + ".part"），每段寫入後保存進度，
+ * 網路中斷或 App 被關閉後從暫存檔已寫入的位元組繼續；完成後核對檔案大小再移到 savePath
+ *
+ * 分割檔與 ZIP 內的影片以多個來源區段依序寫入同一個暫存檔，完成後即為合併的影片
+ */
+
+import type { TelegramMessage } from "./telegram-integration";
+
+/**
+ * 下載檔案操作（裝置上包裝 expo-file-system）
+ */
+export interface DownloadFileSystem {
+  /** 檔案大小（位元組）；檔案不存在時為 null */
+  getSize(uri: string): Promise<number | null>;
+  /** 附加資料到檔案結尾，檔案不存在時建立 */
+  append(uri: string, bytes: Uint8Array): Promise<void>;
+  ensureDirectory(uri: string): Promise<void>;
+  move(from: string, to: string): Promise<void>;
+  remove(uri: string): Promise<void>;
+}
+
+/**
+ * 鍵值儲存（與 AsyncStorage 相容）
+ */
+export interface DownloadStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+export type DownloadStatus = "downloading" | "paused" | "completed" | "failed";
+
+export interface DownloadRecord {
+  /** TelegramMessage.id */
+  id: string;
+  fileId: string;
+  savePath: string;
+  /** 下載完成後加入影片庫時使用的訊息資訊 */
+  message: TelegramMessage;
+  /** 分割檔的所有部分（依序），用於繼續下載時重新取得來源 */
+  parts?: TelegramMessage[];
+  /** 檔案總大小；0 為未知（由第一段回應的 Content-Range 取得） */
+  totalBytes: number;
+  downloadedBytes: number;
+  status: DownloadStatus;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 下載來源區段：檔案中 [offset, offset + length) 的位元組
+ */
+export interface DownloadSource {
+  fileId: string;
+  offset: number;
+  /** 區段長度；0 為未知（只允許單一來源且 offset 為 0） */
+  length: number;
+  /** 取得下載網址；網址過期（401/403/404/410）時會再次呼叫 */
+  resolveUrl: () => Promise<string>;
+}
+
+export interface DownloadRequest {
+  message: TelegramMessage;
+  fileId: string;
+  savePath: string;
+  /** 取得下載網址；網址過期（401/403/404/410）時會再次呼叫 */
+  resolveUrl: () => Promise<string>;
+  /** 依序合併的來源；未指定時下載 fileId 的完整檔案 */
+  sources?: DownloadSource[];
+  /** 分割檔的所有部分 */
+  parts?: TelegramMessage[];
+}
+
+export interface DownloadOptions {
+  onProgress?: (record: DownloadRecord) => void;
+  /** 中止時下載轉為暫停，保留已下載的部分 */
+  signal?: AbortSignal;
+  /** 覆寫下載管理器的單段逾時 (ms) */
+  timeout?: number;
+  /** 覆寫下載管理器的每段重試次數 */
+  maxRetries?: number;
+}
+
+export interface TelegramDownloaderOptions {
+  /** 每段大小（位元組） */
+  chunkSize: number;
+  /** 單段請求逾時 (ms) */
+  timeout: number;
+  /** 每段的重試次數 */
+  maxRetries: number;
+}
+
+export type DownloadListener = (records: DownloadRecord[]) => void;
+
+export const DEFAULT_DOWNLOAD_CHUNK_SIZE = 1024 * 1024;
+
+const STORAGE_KEY = "vr_telegram_downloads";
+
+// 網址過期或暫時錯誤，重新取得網址後重試
+const EXPIRED_URL_STATUSES = [401, 403, 404, 410];
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 暫存檔路徑
+ */
+export function getPartialPath(savePath: string): string {
+  return `${savePath}.part`;
+}
+
+/**
+ * 訊息中要下載的檔案大小（Telegram 提供的 fileSize，0 為未知）
+ */
+function getExpectedSize(message: TelegramMessage): number {
+  return message.video?.fileSize ?? message.document?.fileSize ?? 0;
+}
+
+/**
+ * 解析 Content-Range 標頭（bytes 0-1023/5000 或 bytes *\/5000）
+ */
+function parseContentRange(value: string | null): { start: number | null; total: number | null } {
+  const match = value?.match(/^bytes (?:(\d+)-\d+|\*)\/(\d+|\*)$/);
+  if (!match) return { start: null, total: null };
+  return {
+    start: match[1] !== undefined ? Number(match[1]) : null,
+    total: match[2] !== "*" ? Number(match[2]) : null,
+  };
+}
+
+/**
+ * 取出依序合併的來源中 [offset, offset + length) 的部分（例如跨分割檔的 ZIP 項目）
+ */
+export function sliceSources(sources: DownloadSource[], offset: number, length: number): DownloadSource[] {
+  const sliced: DownloadSource[] = [];
+  let position = 0;
+  for (const source of sources) {
+    const from = Math.max(offset, position);
+    const to = Math.min(offset + length, position + source.length);
+    if (from < to) {
+      sliced.push({ ...source, offset: source.offset + from - position, length: to - from });
+    }
+    position += source.length;
+  }
+  return sliced;
+}
+
+/**
+ * 讀取依序合併的來源中 [start, end) 的位元組（用於讀取 ZIP 目錄）
+ *
+ * @param timeout 每個請求的逾時 (ms)
+ */
+export async function readSources(
+  sources: DownloadSource[],
+  start: number,
+  end: number,
+  timeout: number
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  for (const source of sliceSources(sources, start, end - start)) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    try {
+      const last = source.offset + source.length - 1;
+      const response = await fetch(await source.resolveUrl(), {
+        headers: { Range: `bytes=${source.offset}-${last}` },
+        signal: controller.signal,
+      });
+      if (response.status !== 200 && response.status !== 206) {
+        throw new Error(`下載失敗 (HTTP ${response.status})`);
+      }
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      // 不支援 Range 時回傳完整檔案
+      chunks.push(response.status === 200 ? bytes.subarray(source.offset, last + 1) : bytes);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let position = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, position);
+    position += chunk.length;
+  });
+  return result;
+}
+
+/**
+ * 已下載的位元組落在哪個來源區段
+ */
+function locateSource(sources: DownloadSource[], downloaded: number): { index: number; position: number } {
+  let position = downloaded;
+  for (let index = 0; index < sources.length - 1; index++) {
+    if (position < sources[index].length) return { index, position };
+    position -= sources[index].length;
+  }
+  return { index: sources.length - 1, position };
+}
+
+/**
+ * Telegram 下載管理器
+ */
+export class TelegramDownloader {
+  private fileSystem: DownloadFileSystem;
+  private storage: DownloadStorage;
+  private options: TelegramDownloaderOptions;
+  private records: Map<string, DownloadRecord> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private listeners: Set<DownloadListener> = new Set();
+  private loaded: Promise<void> | null = null;
+
+  constructor(
+    fileSystem: DownloadFileSystem,
+    storage: DownloadStorage,
+    options: Partial<TelegramDownloaderOptions> = {}
+  ) {
+    this.fileSystem = fileSystem;
+    this.storage = storage;
+    this.options = {
+      chunkSize: DEFAULT_DOWNLOAD_CHUNK_SIZE,
+      timeout: 30000,
+      maxRetries: 3,
+      ...options,
+    };
+  }
+
+  /**
+   * 載入保存的下載紀錄；上次下載到一半（App 被關閉）的改為暫停
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.restore();
+    }
+    return this.loaded;
+  }
+
+  getDownloads(): DownloadRecord[] {
+    return Array.from(this.records.values()).map((record) => ({ ...record }));
+  }
+
+  getDownload(id: string): DownloadRecord | undefined {
+    const record = this.records.get(id);
+    return record && { ...record };
+  }
+
+  /**
+   * 是否正在下載
+   */
+  isActive(id: string): boolean {
+    return this.controllers.has(id);
+  }
+
+  /**
+   * 訂閱下載紀錄變化
+   */
+  subscribe(listener: DownloadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 下載檔案；已有未完成的暫存檔時從中斷處繼續
+   *
+   * @returns 完成的下載紀錄
+   */
+  async download(request: DownloadRequest, options: DownloadOptions = {}): Promise<DownloadRecord> {
+    await this.load();
+    const { message, fileId, savePath } = request;
+    const sources = request.sources ?? [
+      { fileId, offset: 0, length: getExpectedSize(message), resolveUrl: request.resolveUrl },
+    ];
+    if (sources.length === 0 || (sources.length > 1 && sources.some((source) => source.length <= 0))) {
+      throw new Error("下載來源的大小未知");
+    }
+    if (this.controllers.has(message.id)) {
+      throw new Error("此影片正在下載");
+    }
+
+    const existing = this.records.get(message.id);
+    if (existing?.status === "completed" && existing.savePath === savePath) {
+      if ((await this.fileSystem.getSize(savePath)) !== null) return { ...existing };
+    }
+    if (existing && existing.savePath !== savePath) {
+      await this.fileSystem.remove(getPartialPath(existing.savePath));
+    }
+
+    const now = Date.now();
+    const record: DownloadRecord = {
+      id: message.id,
+      fileId,
+      savePath,
+      message,
+      parts: request.parts,
+      totalBytes: sources.reduce((sum, source) => sum + source.length, 0),
+      downloadedBytes: 0,
+      status: "downloading",
+      error: null,
+      createdAt: existing?.savePath === savePath ? existing.createdAt : now,
+      updatedAt: now,
+    };
+    this.records.set(record.id, record);
+
+    const controller = new AbortController();
+    const handleAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", handleAbort);
+    if (options.signal?.aborted) controller.abort();
+    this.controllers.set(record.id, controller);
+
+    try {
+      await this.run(record, sources, controller.signal, options);
+      return { ...record };
+    } catch (err) {
+      if (controller.signal.aborted) {
+        record.status = "paused";
+        record.error = null;
+      } else {
+        record.status = "failed";
+        record.error = err instanceof Error ? err.message : String(err);
+      }
+      record.updatedAt = Date.now();
+      await this.persist();
+      throw controller.signal.aborted ? new Error("下載已暫停") : err;
+    } finally {
+      options.signal?.removeEventListener("abort", handleAbort);
+      this.controllers.delete(record.id);
+    }
+  }
+
+  /**
+   * 暫停下載（保留已下載的部分）
+   */
+  pause(id: string): void {
+    this.controllers.get(id)?.abort();
+  }
+
+  /**
+   * 將無法開始的下載標記為失敗（例如登出或分割檔缺少部分），保留已下載的部分
+   */
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.load();
+    const record = this.records.get(id);
+    if (!record || this.controllers.has(id)) return;
+
+    record.status = "failed";
+    record.error = error;
+    record.updatedAt = Date.now();
+    await this.persist();
+  }
+
+  /**
+   * 移除下載紀錄與暫存檔（已完成的檔案保留）
+   */
+  async remove(id: string): Promise<void> {
+    await this.load();
+    const record = this.records.get(id);
+    if (!record) return;
+
+    this.controllers.get(id)?.abort();
+    this.records.delete(id);
+    await this.fileSystem.remove(getPartialPath(record.savePath));
+    await this.persist();
+  }
+
+  private async run(
+    record: DownloadRecord,
+    sources: DownloadSource[],
+    signal: AbortSignal,
+    options: DownloadOptions
+  ): Promise<void> {
+    const { onProgress } = options;
+    const timeout = options.timeout ?? this.options.timeout;
+    const maxRetries = options.maxRetries ?? this.options.maxRetries;
+    const partialPath = getPartialPath(record.savePath);
+    const expectedSize = record.totalBytes;
+    const savedDirectory = record.savePath.slice(0, record.savePath.lastIndexOf("/") + 1);
+    if (savedDirectory) await this.fileSystem.ensureDirectory(savedDirectory);
+
+    // 以暫存檔實際大小為準（保存的進度可能落後最後一次寫入）
+    let downloaded = (await this.fileSystem.getSize(partialPath)) ?? 0;
+    if (expectedSize > 0 && downloaded > expectedSize) {
+      await this.fileSystem.remove(partialPath);
+      downloaded = 0;
+    }
+    record.downloadedBytes = downloaded;
+    await this.updateProgress(record, onProgress);
+
+    // 只有單一完整檔案能由伺服器回應得知總大小，或在不支援 Range 時改為下載完整檔案
+    const wholeFile = sources.length === 1 && sources[0].offset === 0;
+    const urls = new Map<number, string>();
+    let attempt = 0;
+
+    const getUrl = async (index: number) => {
+      let url = urls.get(index);
+      if (!url) {
+        url = await sources[index].resolveUrl();
+        urls.set(index, url);
+      }
+      return url;
+    };
+
+    const retry = async (error: Error, expiredSource: number | null) => {
+      if (signal.aborted || attempt >= maxRetries) throw error;
+      await wait(2 ** attempt * 500);
+      attempt++;
+      if (signal.aborted) throw error;
+      if (expiredSource !== null) urls.delete(expiredSource);
+    };
+
+    while (record.totalBytes === 0 || record.downloadedBytes < record.totalBytes) {
+      if (signal.aborted) throw new Error("下載已暫停");
+      const { index, position } = locateSource(sources, record.downloadedBytes);
+      const source = sources[index];
+      const length = wholeFile ? record.totalBytes : source.length;
+      const start = source.offset + position;
+      const end = start + Math.min(this.options.chunkSize, length > 0 ? length - position : Infinity) - 1;
+
+      let response: Response;
+      let bytes: Uint8Array;
+      try {
+        const url = await getUrl(index);
+        response = await this.fetchWithTimeout(url, { Range: `bytes=${start}-${end}` }, timeout, signal);
+        bytes = response.ok ? new Uint8Array(await response.arrayBuffer()) : new Uint8Array(0);
+      } catch (err) {
+        await retry(err instanceof Error ? err : new Error(String(err)), null);
+        continue;
+      }
+
+      if (response.status === 206) {
+        const range = parseContentRange(response.headers.get("Content-Range"));
+        if (range.start !== start) {
+          throw new Error("伺服器回傳的下載範圍不符");
+        }
+        await this.fileSystem.append(partialPath, bytes);
+        record.downloadedBytes += bytes.length;
+        // 來源區段的大小已知，只有完整檔案需要更新總大小
+        if (wholeFile && range.total !== null) {
+          record.totalBytes = range.total;
+        } else if (wholeFile && record.totalBytes === 0 && bytes.length < end - start + 1) {
+          // 總大小未知時，最後一段會短於請求的長度
+          record.totalBytes = record.downloadedBytes;
+        }
+      } else if (response.status === 200) {
+        // 伺服器不支援 Range，回傳完整檔案
+        if (!wholeFile) {
+          throw new Error("伺服器不支援分段下載");
+        }
+        await this.fileSystem.remove(partialPath);
+        await this.fileSystem.append(partialPath, bytes);
+        record.downloadedBytes = bytes.length;
+        record.totalBytes = bytes.length;
+      } else if (response.status === 416) {
+        // 暫存檔已包含整個檔案
+        const range = parseContentRange(response.headers.get("Content-Range"));
+        if (!wholeFile || range.total === null || range.total !== start) {
+          throw new Error("伺服器不接受的下載範圍");
+        }
+        record.totalBytes = range.total;
+      } else if (response.status === 429 || response.status >= 500) {
+        await retry(new Error(`下載失敗 (HTTP ${response.status})`), null);
+        continue;
+      } else if (EXPIRED_URL_STATUSES.includes(response.status)) {
+        await retry(new Error(`下載失敗 (HTTP ${response.status})`), index);
+        continue;
+      } else {
+        throw new Error(`下載失敗 (HTTP ${response.status})`);
+      }
+
+      if (bytes.length === 0 && response.status !== 416) {
+        throw new Error("伺服器回傳空的內容");
+      }
+      attempt = 0;
+      await this.updateProgress(record, onProgress);
+    }
+
+    await this.verifySize(record, partialPath, expectedSize);
+    await this.fileSystem.remove(record.savePath);
+    await this.fileSystem.move(partialPath, record.savePath);
+    record.status = "completed";
+    record.updatedAt = Date.now();
+    await this.persist();
+    onProgress?.({ ...record });
+  }
+
+  /**
+   * 核對暫存檔大小與 Telegram 提供的檔案大小（Bot API 不提供檔案雜湊，只能比對大小）
+   */
+  private async verifySize(record: DownloadRecord, partialPath: string, expectedSize: number): Promise<void> {
+    const actualSize = (await this.fileSystem.getSize(partialPath)) ?? 0;
+    const size = expectedSize > 0 ? expectedSize : record.totalBytes;
+    if (actualSize === size) return;
+
+    await this.fileSystem.remove(partialPath);
+    record.downloadedBytes = 0;
+    throw new Error(`檔案大小不符（預期 ${size} 位元組，實際 ${actualSize} 位元組）`);
+  }
+
+  private async fetchWithTimeout(
+    url: string,
+    headers: Record<string, string>,
+    timeout: number,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const handleAbort = () => controller.abort();
+    signal.addEventListener("abort", handleAbort);
+    try {
+      return await fetch(url, { headers, signal: controller.signal });
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", handleAbort);
+    }
+  }
+
+  private async updateProgress(
+    record: DownloadRecord,
+    onProgress?: (record: DownloadRecord) => void
+  ): Promise<void> {
+    record.updatedAt = Date.now();
+    await this.persist();
+    onProgress?.({ ...record });
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const data = await this.storage.getItem(STORAGE_KEY);
+      if (!data) return;
+      const saved = JSON.parse(data) as DownloadRecord[];
+      saved.forEach((record) => {
+        if (this.records.has(record.id)) return;
+        this.records.set(record.id, {
+          ...record,
+          status: record.status === "downloading" ? "paused" : record.status,
+        });
+      });
+    } catch (err) {
+      console.error("載入下載紀錄失敗:", err);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    this.notifyListeners();
+    try {
+      await this.storage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.records.values())));
+    } catch (err) {
+      console.error("保存下載紀錄失敗:", err);
+    }
+  }
+
+  private notifyListeners(): void {
+    const records = this.getDownloads();
+    this.listeners.forEach((listener) => listener(records));
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Telegram 使用者帳號閘道
+ *
+ * 使用者帳號需要 MTProto 協定，無法直接以 HTTP 呼叫；應用透過閘道介面存取，
+ * 可替換為自架的 MTProto 代理（例如以 TDLib 或 Telethon 實作）或原生模組。
+ */
+
+import { callTelegramMethod } from "./telegram-bot-api";
+import type { TelegramChannel, TelegramMessage } from "./telegram-integration";
+
+export interface TelegramGatewayUser {
+  id: string;
+  firstName: string;
+  username?: string;
+}
+
+export interface TelegramSentCode {
+  /** auth.sendCode 回傳，登入時需帶回 */
+  phoneCodeHash: string;
+}
+
+export interface TelegramAuthorization {
+  /** 閘道的登入憑證，之後的請求以 Bearer 帶入 */
+  session: string;
+  user: TelegramGatewayUser;
+}
+
+export interface TelegramHistoryQuery {
+  limit: number;
+  /** 從此訊息 ID 往前（較舊）取得，0 或未指定為最新 */
+  offsetId?: number;
+  /** 相對 offsetId 再略過的訊息數 */
+  addOffset?: number;
+  /** 只取 messageId 大於此值的訊息（同步新訊息） */
+  minId?: number;
+  /**
+   * 只取影片與文件訊息（messages.search 的 InputMessagesFilterVideo 與 InputMessagesFilterDocument），
+   * 3D/360° 影片常以文件或分割檔發佈
+   */
+  mediaOnly?: boolean;
+}
+
+/**
+ * 使用者帳號閘道介面
+ * 方法對應 MTProto 的 auth.sendCode、auth.signIn、auth.checkPassword、users.getFullUser、
+ * messages.getDialogs、contacts.search、messages.getHistory 與檔案下載
+ */
+export interface TelegramGateway {
+  sendCode(phoneNumber: string): Promise<TelegramSentCode>;
+  /**
+   * 以驗證碼登入
+   * 帳號啟用兩步驟驗證時拋出 SESSION_PASSWORD_NEEDED 錯誤，改呼叫 checkPassword
+   */
+  signIn(phoneNumber: string, phoneCode: string, phoneCodeHash: string): Promise<TelegramAuthorization>;
+  /** 兩步驟驗證密碼（SRP 由閘道計算） */
+  checkPassword(phoneCodeHash: string, password: string): Promise<TelegramAuthorization>;
+  /** 目前登入的帳號（驗證保存的憑證是否仍有效） */
+  getSelf(): Promise<TelegramGatewayUser>;
+  logOut(): Promise<void>;
+  /** 設定登入憑證（null 為登出） */
+  setSession(session: string | null): void;
+  getDialogs(): Promise<TelegramChannel[]>;
+  searchChannels(query: string): Promise<TelegramChannel[]>;
+  getHistory(channelId: string, query: TelegramHistoryQuery): Promise<TelegramMessage[]>;
+  /** 可串流（支援 Range）的檔案網址 */
+  getFileUrl(channelId: string, messageId: number, fileId: string): Promise<string>;
+}
+
+export interface HttpTelegramGatewayOptions {
+  timeout: number;
+  maxRetries: number;
+}
+
+/**
+ * 以 HTTP 連接 MTProto 代理的閘道
+ *
+ * 協定：POST {baseUrl}/{method}，JSON 參數，回應格式與 Bot API 相同
+ * （{ ok: true, result } 或 { ok: false, error_code, description }），
+ * 已登入時以 Authorization: Bearer {session} 帶入憑證。
+ */
+export class HttpTelegramGateway implements TelegramGateway {
+  private baseUrl: string;
+  private options: HttpTelegramGatewayOptions;
+  private session: string | null = null;
+
+  constructor(baseUrl: string, options: Partial<HttpTelegramGatewayOptions> = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.options = { timeout: 30000, maxRetries: 3, ...options };
+  }
+
+  private call<T>(method: string, params: Record<string, unknown> = {}): Promise<T> {
+    const headers: Record<string, string> = this.session
+      ? { Authorization: `Bearer ${this.session}` }
+      : {};
+    return callTelegramMethod<T>(`${this.baseUrl}/${method}`, params, this.options, headers);
+  }
+
+  setSession(session: string | null): void {
+    this.session = session;
+  }
+
+  sendCode(phoneNumber: string): Promise<TelegramSentCode> {
+    return this.call<TelegramSentCode>("auth.sendCode", { phoneNumber });
+  }
+
+  signIn(phoneNumber: string, phoneCode: string, phoneCodeHash: string): Promise<TelegramAuthorization> {
+    return this.call<TelegramAuthorization>("auth.signIn", { phoneNumber, phoneCode, phoneCodeHash });
+  }
+
+  checkPassword(phoneCodeHash: string, password: string): Promise<TelegramAuthorization> {
+    return this.call<TelegramAuthorization>("auth.checkPassword", { phoneCodeHash, password });
+  }
+
+  getSelf(): Promise<TelegramGatewayUser> {
+    return this.call<TelegramGatewayUser>("users.getSelf");
+  }
+
+  async logOut(): Promise<void> {
+    await this.call<boolean>("auth.logOut");
+    this.session = null;
+  }
+
+  getDialogs(): Promise<TelegramChannel[]> {
+    return this.call<TelegramChannel[]>("messages.getDialogs");
+  }
+
+  searchChannels(query: string): Promise<TelegramChannel[]> {
+    return this.call<TelegramChannel[]>("contacts.search", { query });
+  }
+
+  getHistory(channelId: string, query: TelegramHistoryQuery): Promise<TelegramMessage[]> {
+    return this.call<TelegramMessage[]>("messages.getHistory", { channelId, ...query });
+  }
+
+  async getFileUrl(channelId: string, messageId: number, fileId: string): Promise<string> {
+    const { url } = await this.call<{ url: string }>("upload.getFileUrl", {
+      channelId,
+      messageId,
+      fileId,
+    });
+    return url;
+  }
+}
@@ -1,8 +1,40 @@
 /**
  * Telegram 串流集成系統
  * 支援從 Telegram 頻道與群組串流播放影片
+ *
+ * 兩種模式：
+ * - 機器人模式：Bot API（getUpdates、getFile），頻道來自機器人收到的貼文，
+ *   機器人需加入頻道並設為管理員；檔案下載上限 20MB
+ * - 使用者帳號模式：透過 TelegramGateway（MTProto 代理）瀏覽帳號已加入的頻道
+ *
+ * 頻道影片包含影片文件、分割檔與 ZIP（辨識與合併見 telegram-media）
  */
 
+import {
+  DEFAULT_BOT_API_ENDPOINT,
+  TelegramBotApi,
+  getTelegramErrorCode,
+  getTelegramErrorDescription,
+  type BotApiChat,
+  type BotApiMessage,
+} from "./telegram-bot-api";
+import { readSources, sliceSources, type DownloadSource, type TelegramDownloader } from "./telegram-download";
+import type { TelegramAuthorization, TelegramGateway, TelegramGatewayUser } from "./telegram-gateway";
+import {
+  TelegramMessageCache,
+  createMemoryCacheStorage,
+  type TelegramCacheStorage,
+} from "./telegram-message-cache";
+import {
+  canStreamTelegramVideo,
+  createTelegramVideoItem,
+  getTelegramMediaFile,
+  isTelegramVideoMessage,
+  pickArchiveVideoEntry,
+  type TelegramVideoItem,
+} from "./telegram-media";
+import { ZIP_METHOD_STORED, getZipEntryDataOffset, readZipEntries } from "./zip-reader";
+
 export interface TelegramChannel {
   id: string;
   title: string;
@@ -27,6 +59,7 @@ export interface TelegramMessage {
     width: number;
     height: number;
     mimeType: string;
+    fileName?: string;
   };
   document?: {
     fileId: string;
@@ -37,10 +70,101 @@ export interface TelegramMessage {
 }
 
 export interface TelegramStreamConfig {
+  /** 機器人模式的 Bot Token（使用者帳號模式可為空字串） */
   botToken: string;
   apiEndpoint: string;
   maxRetries: number;
   timeout: number;
+  /** 使用者帳號模式的閘道；未指定時使用 Bot API */
+  gateway?: TelegramGateway;
+  /** 影片下載管理器；未指定時無法下載 */
+  downloader?: TelegramDownloader;
+  /** 頻道訊息快取的儲存；未指定時只快取在記憶體 */
+  storage?: TelegramCacheStorage;
+}
+
+/**
+ * 頻道影片分頁
+ */
+export interface TelegramMessagePage {
+  /** messageId 由新到舊 */
+  messages: TelegramMessage[];
+  /** 下一頁的游標（傳給 getChannelVideos 的 beforeMessageId）；null 為沒有更舊的影片 */
+  nextCursor: number | null;
+}
+
+export type TelegramMode = "bot" | "user";
+
+/**
+ * 登入結果
+ * - authenticated: 登入成功
+ * - password-required: 帳號啟用兩步驟驗證，需再呼叫 verifyPassword
+ * - failed: 驗證碼或密碼錯誤、網路錯誤
+ */
+export type TelegramSignInStatus = "authenticated" | "password-required" | "failed";
+
+/** 一次 getUpdates 最多讀取的頁數，避免大量積壓時卡住畫面 */
+const MAX_UPDATE_PAGES = 10;
+
+/** 同步新訊息時每頁的訊息數與最多頁數，超過時捨棄舊快取重新分頁 */
+const SYNC_PAGE_SIZE = 100;
+const MAX_SYNC_PAGES = 5;
+
+/**
+ * 訊息唯一 ID（頻道 ID + 訊息 ID）
+ */
+function toMessageKey(channelId: string, messageId: number): string {
+  return `${channelId}:${messageId}`;
+}
+
+function parseMessageKey(id: string): { channelId: string; messageId: number } {
+  const separator = id.lastIndexOf(":");
+  return { channelId: id.slice(0, separator), messageId: Number(id.slice(separator + 1)) };
+}
+
+/**
+ * Bot API 聊天轉為頻道
+ */
+function toTelegramChannel(chat: BotApiChat, memberCount?: number): TelegramChannel {
+  return {
+    id: String(chat.id),
+    title: chat.title ?? chat.username ?? String(chat.id),
+    username: chat.username,
+    description: chat.description,
+    memberCount,
+    isPrivate: !chat.username,
+  };
+}
+
+/**
+ * Bot API 訊息轉為應用的訊息格式
+ */
+function toTelegramMessage(message: BotApiMessage): TelegramMessage {
+  const channelId = String(message.chat.id);
+  const { video, document } = message;
+  return {
+    id: toMessageKey(channelId, message.message_id),
+    messageId: message.message_id,
+    channelId,
+    text: message.text,
+    caption: message.caption,
+    timestamp: message.date * 1000,
+    video: video && {
+      fileId: video.file_id,
+      fileSize: video.file_size ?? 0,
+      duration: video.duration,
+      width: video.width,
+      height: video.height,
+      mimeType: video.mime_type ?? "video/mp4",
+      fileName: video.file_name,
+    },
+    document: document && {
+      fileId: document.file_id,
+      fileSize: document.file_size ?? 0,
+      fileName: document.file_name ?? "",
+      mimeType: document.mime_type ?? "application/octet-stream",
+    },
+  };
 }
 
 /**
@@ -48,35 +172,73 @@ export interface TelegramStreamConfig {
  */
 export class TelegramIntegrationManager {
   private config: TelegramStreamConfig;
+  private botApi: TelegramBotApi | null;
+  private gateway: TelegramGateway | null;
   private isAuthenticated: boolean = false;
   private userToken?: string;
+  private currentUser: TelegramGatewayUser | null = null;
+  private phoneCodeHashes: Map<string, string> = new Map();
+  // 需要兩步驟驗證密碼的手機號碼 → phoneCodeHash
+  private pendingPasswords: Map<string, string> = new Map();
   private cachedChannels: Map<string, TelegramChannel> = new Map();
+  // 機器人模式：Bot API 沒有歷史訊息查詢，頻道影片只能來自 getUpdates 收到並保存在快取的貼文
+  private cache: TelegramMessageCache | null = null;
+  private updateOffset?: number;
   private listeners: ((event: string, data: any) => void)[] = [];
 
   constructor(config: TelegramStreamConfig) {
     this.config = config;
+    this.gateway = config.gateway ?? null;
+    this.botApi = this.gateway
+      ? null
+      : new TelegramBotApi(config.botToken, {
+          apiEndpoint: config.apiEndpoint,
+          timeout: config.timeout,
+          maxRetries: config.maxRetries,
+        });
   }
 
   /**
-   * 驗證 Telegram 帳戶
+   * 目前模式
    */
-  async authenticate(phoneNumber: string): Promise<boolean> {
+  getMode(): TelegramMode {
+    return this.gateway ? "user" : "bot";
+  }
+
+  /**
+   * 以 Bot Token 連接（機器人模式）
+   */
+  async connectBot(): Promise<boolean> {
+    if (!this.botApi) {
+      throw new Error("使用者帳號模式請以手機號碼登入");
+    }
+
     try {
-      // 發送驗證碼請求
-      const response = await fetch(`${this.config.apiEndpoint}/auth/send-code`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ phoneNumber }),
-      });
+      await this.startBotSession();
+      return true;
+    } catch (err) {
+      console.error("連接機器人失敗:", err);
+      this.notifyListeners("auth-failed", { error: err });
+      return false;
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error("發送驗證碼失敗");
-      }
+  /**
+   * 驗證 Telegram 帳戶（發送驗證碼，使用者帳號模式）
+   */
+  async authenticate(phoneNumber: string): Promise<boolean> {
+    if (!this.gateway) {
+      throw new Error("機器人模式不需要手機驗證");
+    }
 
+    try {
+      const { phoneCodeHash } = await this.gateway.sendCode(phoneNumber);
+      this.phoneCodeHashes.set(phoneNumber, phoneCodeHash);
       this.notifyListeners("auth-code-sent", { phoneNumber });
       return true;
     } catch (err) {
       console.error("驗證失敗:", err);
+      this.notifyListeners("auth-failed", { error: err });
       return false;
     }
   }
@@ -84,29 +246,94 @@ export class TelegramIntegrationManager {
   /**
    * 驗證驗證碼
    */
-  async verifyCode(phoneNumber: string, code: string): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.config.apiEndpoint}/auth/verify-code`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ phoneNumber, code }),
-      });
+  async verifyCode(phoneNumber: string, code: string): Promise<TelegramSignInStatus> {
+    const phoneCodeHash = this.phoneCodeHashes.get(phoneNumber);
+    if (!this.gateway || !phoneCodeHash) {
+      throw new Error("請先發送驗證碼");
+    }
 
-      if (!response.ok) {
-        throw new Error("驗證碼驗證失敗");
+    try {
+      const authorization = await this.gateway.signIn(phoneNumber, code, phoneCodeHash);
+      this.phoneCodeHashes.delete(phoneNumber);
+      await this.startUserSession(authorization);
+      return "authenticated";
+    } catch (err) {
+      if (getTelegramErrorDescription(err) === "SESSION_PASSWORD_NEEDED") {
+        this.phoneCodeHashes.delete(phoneNumber);
+        this.pendingPasswords.set(phoneNumber, phoneCodeHash);
+        this.notifyListeners("password-required", { phoneNumber });
+        return "password-required";
       }
+      console.error("驗證碼驗證失敗:", err);
+      this.notifyListeners("auth-failed", { error: err });
+      return "failed";
+    }
+  }
+
+  /**
+   * 驗證兩步驟驗證密碼
+   */
+  async verifyPassword(phoneNumber: string, password: string): Promise<TelegramSignInStatus> {
+    const phoneCodeHash = this.pendingPasswords.get(phoneNumber);
+    if (!this.gateway || !phoneCodeHash) {
+      throw new Error("此帳號不需要兩步驟驗證密碼");
+    }
+
+    try {
+      const authorization = await this.gateway.checkPassword(phoneCodeHash, password);
+      this.pendingPasswords.delete(phoneNumber);
+      await this.startUserSession(authorization);
+      return "authenticated";
+    } catch (err) {
+      console.error("兩步驟驗證失敗:", err);
+      this.notifyListeners("auth-failed", { error: err });
+      return "failed";
+    }
+  }
 
-      const data = await response.json();
-      this.userToken = data.token;
-      this.isAuthenticated = true;
-      this.notifyListeners("authenticated", {});
+  /**
+   * 以保存的憑證還原登入，並向伺服器確認目前帳號（機器人模式為 getMe）
+   *
+   * @param session 使用者帳號模式的閘道憑證；機器人模式使用設定中的 Bot Token
+   * @returns 憑證有效；憑證已失效（被撤銷或 Token 錯誤）時為 false
+   * @throws 網路錯誤等無法確認的情況，保存的憑證應保留
+   */
+  async restoreSession(session?: string): Promise<boolean> {
+    try {
+      if (this.gateway) {
+        if (!session) return false;
+        this.gateway.setSession(session);
+        const user = await this.gateway.getSelf();
+        await this.startUserSession({ session, user });
+      } else {
+        await this.startBotSession();
+      }
       return true;
     } catch (err) {
-      console.error("驗證碼驗證失敗:", err);
-      return false;
+      this.gateway?.setSession(null);
+      const code = getTelegramErrorCode(err);
+      if (code !== null && code < 500 && code !== 429) {
+        this.notifyListeners("session-expired", { error: err });
+        return false;
+      }
+      throw err;
     }
   }
 
+  /**
+   * 目前登入的帳號
+   */
+  getCurrentUser(): TelegramGatewayUser | null {
+    return this.currentUser;
+  }
+
+  /**
+   * 目前的登入憑證（機器人模式為 Bot Token），用於保存登入狀態
+   */
+  getSession(): string | null {
+    return this.isLoggedIn() ? this.userToken! : null;
+  }
+
   /**
    * 檢查是否已驗證
    */
@@ -118,14 +345,72 @@ export class TelegramIntegrationManager {
    * 登出
    */
   logout(): void {
+    if (this.gateway && this.isAuthenticated) {
+      const gateway = this.gateway;
+      gateway
+        .logOut()
+        .catch((err) => console.error("登出 Telegram 失敗:", err))
+        .finally(() => gateway.setSession(null));
+    }
     this.isAuthenticated = false;
     this.userToken = undefined;
+    this.currentUser = null;
     this.cachedChannels.clear();
+    this.cache = null;
+    this.updateOffset = undefined;
     this.notifyListeners("logged-out", {});
   }
 
+  /**
+   * 讀取機器人收到的新貼文（機器人模式）
+   * getUpdates 以 offset 確認後伺服器即刪除，訊息只保存在本地
+   *
+   * @returns 新收到的影片訊息數（包含影片文件與分割檔）
+   */
+  async syncUpdates(): Promise<number> {
+    if (!this.botApi) return 0;
+
+    let received = 0;
+    let channelsChanged = false;
+    const receivedMessages = new Map<string, TelegramMessage[]>();
+    for (let page = 0; page < MAX_UPDATE_PAGES; page++) {
+      const updates = await this.botApi.getUpdates(this.updateOffset);
+      if (updates.length === 0) break;
+
+      for (const update of updates) {
+        this.updateOffset = update.update_id + 1;
+        const post = update.channel_post ?? update.edited_channel_post ?? update.message;
+        if (!post || post.chat.type === "private") continue;
+
+        const channelId = String(post.chat.id);
+        if (!this.cachedChannels.has(channelId)) {
+          this.cachedChannels.set(channelId, toTelegramChannel(post.chat));
+          channelsChanged = true;
+        }
+        const message = toTelegramMessage(post);
+        if (!isTelegramVideoMessage(message)) continue;
+
+        receivedMessages.set(channelId, [...(receivedMessages.get(channelId) ?? []), message]);
+        received++;
+      }
+    }
+
+    if (this.cache) {
+      for (const [channelId, messages] of receivedMessages) {
+        await this.cache.upsert(channelId, messages);
+      }
+      if (channelsChanged) {
+        await this.cache.setChannels(Array.from(this.cachedChannels.values()));
+      }
+    }
+
+    if (received > 0) this.notifyListeners("updates-received", { count: received });
+    return received;
+  }
+
   /**
    * 搜尋頻道
+   * 機器人模式只能以 @username 查詢公開頻道，或搜尋已收到貼文的頻道
    */
   async searchChannels(query: string): Promise<TelegramChannel[]> {
     if (!this.isLoggedIn()) {
@@ -133,25 +418,25 @@ export class TelegramIntegrationManager {
     }
 
     try {
-      const response = await fetch(`${this.config.apiEndpoint}/channels/search`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.userToken}`,
-        },
-        body: JSON.stringify({ query }),
-      });
-
-      if (!response.ok) {
-        throw new Error("搜尋失敗");
+      if (this.gateway) {
+        const channels = await this.gateway.searchChannels(query);
+        channels.forEach((ch) => this.cachedChannels.set(ch.id, ch));
+        return channels;
       }
 
-      const channels = await response.json();
-      channels.forEach((ch: TelegramChannel) => {
-        this.cachedChannels.set(ch.id, ch);
-      });
+      const keyword = query.trim().replace(/^@/, "").toLowerCase();
+      const results = Array.from(this.cachedChannels.values()).filter(
+        (ch) =>
+          ch.title.toLowerCase().includes(keyword) ||
+          ch.username?.toLowerCase().includes(keyword)
+      );
 
-      return channels;
+      // Telegram 使用者名稱：5-32 個字元，字母開頭
+      if (/^[a-z]\w{4,31}$/.test(keyword) && !results.some((ch) => ch.username?.toLowerCase() === keyword)) {
+        const channel = await this.lookupPublicChannel(keyword);
+        if (channel) results.unshift(channel);
+      }
+      return results;
     } catch (err) {
       console.error("搜尋頻道失敗:", err);
       return [];
@@ -167,23 +452,14 @@ export class TelegramIntegrationManager {
     }
 
     try {
-      const response = await fetch(`${this.config.apiEndpoint}/channels/list`, {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${this.userToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error("獲取頻道列表失敗");
+      if (this.gateway) {
+        const channels = await this.gateway.getDialogs();
+        channels.forEach((ch) => this.cachedChannels.set(ch.id, ch));
+        return channels;
       }
 
-      const channels = await response.json();
-      channels.forEach((ch: TelegramChannel) => {
-        this.cachedChannels.set(ch.id, ch);
-      });
-
-      return channels;
+      await this.syncUpdates();
+      return Array.from(this.cachedChannels.values());
     } catch (err) {
       console.error("獲取頻道列表失敗:", err);
       return [];
@@ -191,42 +467,101 @@ export class TelegramIntegrationManager {
   }
 
   /**
-   * 獲取頻道中的影片
+   * 只取得比快取中最新一則更新的影片（機器人模式為讀取新貼文）
+   *
+   * @returns 新取得的影片數
+   */
+  async syncChannel(channelId: string): Promise<number> {
+    if (!this.isLoggedIn() || !this.cache) {
+      throw new Error("未登入");
+    }
+    if (!this.gateway) {
+      return this.syncUpdates();
+    }
+
+    const newestId = await this.cache.getNewestMessageId(channelId);
+    // 尚未快取的頻道由 getChannelVideos 取得第一頁
+    if (newestId === null) return 0;
+
+    const fetched: TelegramMessage[] = [];
+    let offsetId = 0;
+    let contiguous = false;
+    for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+      const messages = await this.gateway.getHistory(channelId, {
+        limit: SYNC_PAGE_SIZE,
+        offsetId,
+        minId: newestId,
+        mediaOnly: true,
+      });
+      fetched.push(...messages.filter(isTelegramVideoMessage));
+      if (messages.length < SYNC_PAGE_SIZE) {
+        contiguous = true;
+        break;
+      }
+      offsetId = messages[messages.length - 1].messageId;
+    }
+
+    await this.cache.addNewer(channelId, fetched, contiguous);
+    if (fetched.length > 0) {
+      this.notifyListeners("channel-synced", { channelId, count: fetched.length });
+    }
+    return fetched.length;
+  }
+
+  /**
+   * 獲取頻道中的影片（由新到舊分頁，優先使用快取）
+   *
+   * @param beforeMessageId 上一頁的 nextCursor；未指定時取得最新一頁，並先同步新影片
    */
   async getChannelVideos(
     channelId: string,
     limit: number = 50,
-    offset: number = 0
-  ): Promise<TelegramMessage[]> {
-    if (!this.isLoggedIn()) {
+    beforeMessageId?: number
+  ): Promise<TelegramMessagePage> {
+    if (!this.isLoggedIn() || !this.cache) {
       throw new Error("未登入");
     }
+    const cache = this.cache;
 
     try {
-      const response = await fetch(
-        `${this.config.apiEndpoint}/channels/${channelId}/videos`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${this.userToken}`,
-          },
-        }
-      );
+      if (beforeMessageId === undefined) {
+        await this.syncChannel(channelId);
+      }
 
-      if (!response.ok) {
-        throw new Error("獲取影片失敗");
+      let messages = await cache.getMessages(channelId, limit, beforeMessageId);
+      const cached = await cache.getChannelCache(channelId);
+      if (this.gateway && messages.length < limit && !cached.reachedEnd) {
+        // 快取不足一頁時，從快取中最舊一則（或游標）往前取得
+        const oldestId = cached.messages[cached.messages.length - 1]?.messageId;
+        const offsetId = Math.min(oldestId ?? Infinity, beforeMessageId ?? Infinity);
+        const page = await this.gateway.getHistory(channelId, {
+          limit,
+          offsetId: Number.isFinite(offsetId) ? offsetId : 0,
+          mediaOnly: true,
+        });
+        await cache.addOlder(channelId, page.filter(isTelegramVideoMessage), page.length < limit);
+        messages = await cache.getMessages(channelId, limit, beforeMessageId);
       }
 
-      const messages = await response.json();
-      return messages.slice(offset, offset + limit);
+      const { messages: all, reachedEnd } = await cache.getChannelCache(channelId);
+      const last = messages[messages.length - 1];
+      const hasMore = !!last && (!reachedEnd || all[all.length - 1].messageId < last.messageId);
+      return { messages, nextCursor: hasMore ? last.messageId : null };
     } catch (err) {
+      // 離線時仍可瀏覽快取
       console.error("獲取頻道影片失敗:", err);
-      return [];
+      const messages = await cache.getMessages(channelId, limit, beforeMessageId);
+      const last = messages[messages.length - 1];
+      // 快取不足一頁代表已沒有更舊的快取，不再提供游標
+      return { messages, nextCursor: last && messages.length >= limit ? last.messageId : null };
     }
   }
 
   /**
    * 獲取影片串流 URL
+   *
+   * @param messageId TelegramMessage.id
+   * @param fileId 影片或文件的 fileId
    */
   async getVideoStreamUrl(messageId: string, fileId: string): Promise<string> {
     if (!this.isLoggedIn()) {
@@ -234,56 +569,132 @@ export class TelegramIntegrationManager {
     }
 
     try {
-      const response = await fetch(
-        `${this.config.apiEndpoint}/videos/stream-url`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${this.userToken}`,
-          },
-          body: JSON.stringify({ messageId, fileId }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("獲取串流 URL 失敗");
+      if (this.gateway) {
+        const { channelId, messageId: id } = parseMessageKey(messageId);
+        return await this.gateway.getFileUrl(channelId, id, fileId);
       }
 
-      const data = await response.json();
-      return data.url;
+      const file = await this.botApi!.getFile(fileId);
+      if (!file.file_path) {
+        throw new Error("無法取得檔案路徑");
+      }
+      return this.botApi!.getFileUrl(file.file_path);
     } catch (err) {
       console.error("獲取串流 URL 失敗:", err);
       throw err;
     }
   }
 
+  private async startBotSession(): Promise<void> {
+    const bot = await this.botApi!.getMe();
+    await this.openCache(`bot${bot.id}`);
+    this.userToken = this.config.botToken;
+    this.currentUser = { id: String(bot.id), firstName: bot.first_name, username: bot.username };
+    this.isAuthenticated = true;
+    this.notifyListeners("authenticated", { mode: "bot", user: this.currentUser });
+  }
+
+  private async startUserSession({ session, user }: TelegramAuthorization): Promise<void> {
+    this.gateway!.setSession(session);
+    await this.openCache(`user${user.id}`);
+    this.userToken = session;
+    this.currentUser = user;
+    this.isAuthenticated = true;
+    this.notifyListeners("authenticated", { mode: "user", user, session });
+  }
+
+  /**
+   * 登入後開啟該帳號的訊息快取，並載入保存的頻道列表
+   */
+  private async openCache(namespace: string): Promise<void> {
+    this.cache = new TelegramMessageCache(this.config.storage ?? createMemoryCacheStorage(), namespace);
+    const channels = await this.cache.getChannels();
+    channels.forEach((ch) => this.cachedChannels.set(ch.id, ch));
+  }
+
+  /**
+   * 以 @username 查詢公開頻道（機器人模式）
+   */
+  private async lookupPublicChannel(username: string): Promise<TelegramChannel | null> {
+    try {
+      const chat = await this.botApi!.getChat(`@${username}`);
+      if (chat.type === "private") return null;
+      const memberCount = await this.botApi!.getChatMemberCount(chat.id).catch(() => undefined);
+      const channel = toTelegramChannel(chat, memberCount);
+      this.cachedChannels.set(channel.id, channel);
+      return channel;
+    } catch {
+      // 找不到頻道
+      return null;
+    }
+  }
+
   /**
-   * 下載影片
+   * 下載影片到 savePath（分段下載，可中斷後繼續）
+   *
+   * @param signal 中止時暫停下載，再次呼叫會從中斷處繼續
    */
   async downloadVideo(
-    messageId: string,
-    fileId: string,
+    message: TelegramMessage,
+    savePath: string,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    return this.downloadItem(createTelegramVideoItem([message]), savePath, onProgress, signal);
+  }
+
+  /**
+   * 下載影片項目；分割檔依序合併為一個檔案，ZIP 只下載其中的影片
+   *
+   * @param savePath ZIP 會改為其中影片的副檔名
+   */
+  async downloadItem(
+    item: TelegramVideoItem,
     savePath: string,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<boolean> {
     if (!this.isLoggedIn()) {
       throw new Error("未登入");
     }
+    const downloader = this.config.downloader;
+    if (!downloader) {
+      throw new Error("未設定下載器");
+    }
+    const { message } = item;
+    const fileId = getTelegramMediaFile(message)?.fileId;
+    if (!fileId) {
+      throw new Error("訊息不包含影片");
+    }
+    if (!item.isComplete) {
+      throw new Error("分割檔尚未取得所有部分");
+    }
 
+    const { id: messageId } = message;
     try {
-      const streamUrl = await this.getVideoStreamUrl(messageId, fileId);
-      
-      // 實際下載邏輯應在原生層實現
       this.notifyListeners("download-started", { messageId, fileId });
-      
-      // 模擬下載進度
-      for (let i = 0; i <= 100; i += 10) {
-        onProgress?.(i);
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
+      const resolved = await this.resolveDownloadSources(item, savePath);
+      savePath = resolved.savePath;
+      const record = await downloader.download(
+        {
+          message,
+          fileId,
+          savePath,
+          resolveUrl: () => this.getVideoStreamUrl(messageId, fileId),
+          sources: resolved.sources,
+          parts: item.parts.length > 1 ? item.parts : undefined,
+        },
+        {
+          signal,
+          timeout: this.config.timeout,
+          maxRetries: this.config.maxRetries,
+          onProgress: ({ downloadedBytes, totalBytes }) => {
+            onProgress?.(totalBytes > 0 ? Math.floor((downloadedBytes / totalBytes) * 100) : 0);
+          },
+        }
+      );
 
-      this.notifyListeners("download-completed", { messageId, fileId, savePath });
+      this.notifyListeners("download-completed", { messageId, fileId, savePath, message, item, record });
       return true;
     } catch (err) {
       console.error("下載失敗:", err);
@@ -292,6 +703,79 @@ export class TelegramIntegrationManager {
     }
   }
 
+  /**
+   * 繼續上次中斷（App 被關閉或網路中斷）的下載
+   *
+   * @returns 繼續的下載數
+   */
+  async resumeDownloads(): Promise<number> {
+    const downloader = this.config.downloader;
+    if (!downloader || !this.isLoggedIn()) return 0;
+
+    await downloader.load();
+    const interrupted = downloader
+      .getDownloads()
+      .filter((record) => record.status === "paused" && !downloader.isActive(record.id));
+    interrupted.forEach((record) => {
+      this.downloadItem(createTelegramVideoItem(record.parts ?? [record.message]), record.savePath).catch(
+        (err) => {
+          console.error("繼續下載失敗:", err);
+          return downloader.markFailed(record.id, err instanceof Error ? err.message : String(err));
+        }
+      );
+    });
+    return interrupted.length;
+  }
+
+  /**
+   * 已下載完成的影片路徑
+   *
+   * @param id TelegramVideoItem.id
+   */
+  getDownloadedPath(id: string): string | null {
+    const record = this.config.downloader?.getDownload(id);
+    return record?.status === "completed" ? record.savePath : null;
+  }
+
+  /**
+   * 下載來源：每個部分的完整檔案；ZIP 則讀取目錄後只取其中影片的區段
+   */
+  private async resolveDownloadSources(
+    item: TelegramVideoItem,
+    savePath: string
+  ): Promise<{ sources: DownloadSource[]; savePath: string }> {
+    const sources = item.parts.map((part) => {
+      const file = getTelegramMediaFile(part);
+      if (!file) {
+        throw new Error("訊息不包含影片");
+      }
+      return {
+        fileId: file.fileId,
+        offset: 0,
+        length: file.fileSize,
+        resolveUrl: () => this.getVideoStreamUrl(part.id, file.fileId),
+      };
+    });
+    if (!item.isArchive) return { sources, savePath };
+
+    const read = (start: number, end: number) => readSources(sources, start, end, this.config.timeout);
+    const totalSize = sources.reduce((sum, source) => sum + source.length, 0);
+    const entry = pickArchiveVideoEntry(await readZipEntries(read, totalSize));
+    if (!entry) {
+      throw new Error("ZIP 中沒有影片");
+    }
+    if (entry.method !== ZIP_METHOD_STORED) {
+      throw new Error("ZIP 中的影片經過壓縮，無法直接讀取");
+    }
+
+    const dataOffset = await getZipEntryDataOffset(read, entry);
+    const extension = entry.name.slice(entry.name.lastIndexOf("."));
+    return {
+      sources: sliceSources(sources, dataOffset, entry.compressedSize),
+      savePath: `${savePath.replace(/\.[^./]+$/, "")}${extension}`,
+    };
+  }
+
   /**
    * 訂閱事件
    */
@@ -321,6 +805,7 @@ export class TelegramIntegrationManager {
    */
   clearCache(): void {
     this.cachedChannels.clear();
+    this.cache?.clear().catch((err) => console.error("清除訊息快取失敗:", err));
   }
 }
 
@@ -337,18 +822,16 @@ export class TelegramStreamPlayer {
   }
 
   /**
-   * 播放 Telegram 影片
+   * 播放 Telegram 影片（影片或影片文件）
    */
   async playMessage(message: TelegramMessage): Promise<string> {
-    if (!message.video) {
+    const file = getTelegramMediaFile(message);
+    if (!file) {
       throw new Error("訊息不包含影片");
     }
 
     try {
-      const streamUrl = await this.manager.getVideoStreamUrl(
-        message.id,
-        message.video.fileId
-      );
+      const streamUrl = await this.manager.getVideoStreamUrl(message.id, file.fileId);
       this.currentStreamUrl = streamUrl;
       this.currentMessage = message;
       return streamUrl;
@@ -358,6 +841,23 @@ export class TelegramStreamPlayer {
     }
   }
 
+  /**
+   * 播放影片項目；分割檔與 ZIP 需先下載，播放下載完成的檔案
+   */
+  async playItem(item: TelegramVideoItem): Promise<string> {
+    if (canStreamTelegramVideo(item)) {
+      return this.playMessage(item.message);
+    }
+
+    const path = this.manager.getDownloadedPath(item.id);
+    if (!path) {
+      throw new Error(item.isArchive ? "ZIP 中的影片需先下載才能播放" : "分割檔需先下載合併才能播放");
+    }
+    this.currentStreamUrl = path;
+    this.currentMessage = item.message;
+    return path;
+  }
+
   /**
    * 獲取當前播放的訊息
    */
@@ -385,13 +885,15 @@ export class TelegramStreamPlayer {
  * 建立 Telegram 集成管理器
  */
 export function createTelegramIntegration(
-  botToken: string
+  botToken: string,
+  options: Pick<TelegramStreamConfig, "gateway" | "downloader" | "storage"> = {}
 ): TelegramIntegrationManager {
   const config: TelegramStreamConfig = {
     botToken,
-    apiEndpoint: "https://api.telegram.org",
+    apiEndpoint: DEFAULT_BOT_API_ENDPOINT,
     maxRetries: 3,
     timeout: 30000,
+    ...options,
   };
 
   return new TelegramIntegrationManager(config);
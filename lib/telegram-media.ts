@@ -0,0 +1,233 @@
+/**
+ * Telegram 影片檔案辨識
+ * 頻道中的 3D/360° 影片多以文件（document）發佈，且常分割為 .001/.002 或包成 ZIP，
+ * 此處辨識可播放的訊息、將連續發佈的分割檔合併為一部影片，並從檔名與說明文字推斷排列
+ */
+
+import type { TelegramMessage } from "./telegram-integration";
+import type { ZipEntry } from "./zip-reader";
+import { detectVideoLayout, isSameLayout, DEFAULT_VIDEO_LAYOUT, type VideoLayout } from "./video-layout";
+
+export interface TelegramMediaFile {
+  fileId: string;
+  fileSize: number;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface SplitFilePart {
+  /** 合併後的檔名 */
+  baseName: string;
+  /** 分割編號（從 1 開始） */
+  index: number;
+}
+
+/**
+ * 頻道中的一部影片（一般影片、影片文件、分割檔或 ZIP）
+ */
+export interface TelegramVideoItem {
+  /** 第一個部分的 TelegramMessage.id */
+  id: string;
+  channelId: string;
+  /** 第一個部分 */
+  message: TelegramMessage;
+  /** 所有部分，依分割編號排序；非分割檔只有一個 */
+  parts: TelegramMessage[];
+  /** 合併後的檔名（去掉分割編號） */
+  fileName: string;
+  /** 所有部分的大小總和 */
+  fileSize: number;
+  /** 影片包在 ZIP 中 */
+  isArchive: boolean;
+  /** 分割檔的所有部分都已取得 */
+  isComplete: boolean;
+  layout: VideoLayout;
+}
+
+export const VIDEO_FILE_EXTENSIONS = ["mp4", "m4v", "mov", "mkv", "webm", "avi", "ts", "m2ts", "wmv"];
+
+/** 相鄰兩個分割檔之間最多相隔的訊息數（可夾雜說明或其他貼文） */
+export const MAX_PART_MESSAGE_GAP = 10;
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : "";
+}
+
+export function isVideoFileName(fileName: string): boolean {
+  return VIDEO_FILE_EXTENSIONS.includes(getExtension(fileName));
+}
+
+export function isArchiveFileName(fileName: string): boolean {
+  return getExtension(fileName) === "zip";
+}
+
+/**
+ * 訊息中的影片或文件
+ */
+export function getTelegramMediaFile(message: TelegramMessage): TelegramMediaFile | null {
+  const { video, document } = message;
+  if (video) {
+    return {
+      fileId: video.fileId,
+      fileSize: video.fileSize,
+      fileName: video.fileName ?? `video_${message.messageId}.mp4`,
+      mimeType: video.mimeType,
+    };
+  }
+  return document ? { ...document } : null;
+}
+
+/**
+ * 解析分割檔名
+ * - movie.mp4.001、movie.zip.001（7-Zip、HJSplit）
+ * - movie.part1.mp4、movie.part01.zip
+ *
+ * @returns 非分割檔時為 null
+ */
+export function parseSplitFileName(fileName: string): SplitFilePart | null {
+  const numbered = fileName.match(/^(.+\.[a-z0-9]+)\.(\d{3})$/i);
+  if (numbered) return { baseName: numbered[1], index: Number(numbered[2]) };
+
+  const part = fileName.match(/^(.+)\.part(\d{1,3})(\.[a-z0-9]+)$/i);
+  if (part) return { baseName: `${part[1]}${part[3]}`, index: Number(part[2]) };
+  return null;
+}
+
+/**
+ * 是否為可播放的影片訊息：影片、影片類型的文件、ZIP 或上述檔案的分割檔
+ */
+export function isTelegramVideoMessage(message: TelegramMessage): boolean {
+  if (message.video) return true;
+  const document = message.document;
+  if (!document) return false;
+
+  const split = parseSplitFileName(document.fileName);
+  const name = split?.baseName ?? document.fileName;
+  if (isVideoFileName(name) || isArchiveFileName(name)) return true;
+  return !split && (document.mimeType.startsWith("video/") || document.mimeType === "application/zip");
+}
+
+/**
+ * 偵測 Telegram 影片的投影與立體排列
+ * 依序參考檔名（分割檔以合併後的檔名）、說明文字，最後以 2:1 畫面比例判斷為 360° 全景
+ */
+export function detectTelegramVideoLayout(message: TelegramMessage): VideoLayout {
+  const fileName = message.video?.fileName ?? message.document?.fileName;
+  if (fileName) {
+    const layout = detectVideoLayout(parseSplitFileName(fileName)?.baseName ?? fileName);
+    if (!isSameLayout(layout, DEFAULT_VIDEO_LAYOUT)) return layout;
+  }
+
+  const caption = message.caption ?? message.text;
+  if (caption) {
+    const layout = detectVideoLayout(caption);
+    if (!isSameLayout(layout, DEFAULT_VIDEO_LAYOUT)) return layout;
+  }
+
+  const video = message.video;
+  if (video && video.height > 0 && video.width / video.height === 2) {
+    return { stereo: "mono", projection: "equirect-360" };
+  }
+  return { ...DEFAULT_VIDEO_LAYOUT };
+}
+
+/**
+ * 由一個或多個部分建立影片項目
+ *
+ * @param parts 依分割編號排序
+ */
+export function createTelegramVideoItem(parts: TelegramMessage[], isComplete: boolean = true): TelegramVideoItem {
+  const [first] = parts;
+  const fileName = getTelegramMediaFile(first)?.fileName ?? `video_${first.messageId}.mp4`;
+  const split = parseSplitFileName(fileName);
+  const name = split?.baseName ?? fileName;
+
+  // 說明文字可能在任何一個部分
+  const layout =
+    parts.map(detectTelegramVideoLayout).find((l) => !isSameLayout(l, DEFAULT_VIDEO_LAYOUT)) ??
+    detectTelegramVideoLayout(first);
+
+  return {
+    id: first.id,
+    channelId: first.channelId,
+    message: first,
+    parts,
+    fileName: name,
+    fileSize: parts.reduce((sum, part) => sum + (getTelegramMediaFile(part)?.fileSize ?? 0), 0),
+    isArchive: isArchiveFileName(name) || (!split && first.document?.mimeType === "application/zip"),
+    isComplete,
+    layout,
+  };
+}
+
+/**
+ * 是否可直接串流播放（分割檔與 ZIP 需下載合併後才能播放）
+ */
+export function canStreamTelegramVideo(item: TelegramVideoItem): boolean {
+  return item.parts.length === 1 && !item.isArchive && !parseSplitFileName(item.message.document?.fileName ?? "");
+}
+
+/**
+ * 將訊息整理為影片項目，連續發佈的分割檔合併為一項
+ *
+ * 同一頻道、同一檔名、編號連續且訊息 ID 相近的分割檔視為同一部影片。
+ * 從第 1 部分開始連續，且最後一部分小於第一部分（分割工具除最後一部分外大小相同）時，視為已取得所有部分；
+ * 之後有其他貼文不代表上傳完成（上傳中的部分可能晚於其他貼文出現），不作為判斷依據
+ *
+ * @param messages 任意順序
+ * @returns 依最後一部分的訊息 ID 由新到舊
+ */
+export function groupTelegramVideos(messages: TelegramMessage[]): TelegramVideoItem[] {
+  const sorted = messages
+    .filter(isTelegramVideoMessage)
+    .sort((a, b) => a.messageId - b.messageId);
+  const groups: { parts: TelegramMessage[]; indexes: number[] }[] = [];
+  // 頻道 + 檔名 → 正在收集的分割檔
+  const open = new Map<string, { parts: TelegramMessage[]; indexes: number[] }>();
+
+  for (const message of sorted) {
+    const split = parseSplitFileName(message.document?.fileName ?? "");
+    if (!split) {
+      groups.push({ parts: [message], indexes: [] });
+      continue;
+    }
+
+    const key = `${message.channelId}\n${split.baseName}`;
+    const group = open.get(key);
+    const last = group?.parts[group.parts.length - 1];
+    if (
+      group &&
+      last &&
+      split.index === group.indexes[group.indexes.length - 1] + 1 &&
+      message.messageId - last.messageId <= MAX_PART_MESSAGE_GAP
+    ) {
+      group.parts.push(message);
+      group.indexes.push(split.index);
+    } else {
+      const next = { parts: [message], indexes: [split.index] };
+      open.set(key, next);
+      groups.push(next);
+    }
+  }
+
+  return groups
+    .map(({ parts, indexes }) => {
+      if (indexes.length === 0) return createTelegramVideoItem(parts);
+
+      const first = parts[0];
+      const last = parts[parts.length - 1];
+      const lastIsShorter =
+        parts.length > 1 && (getTelegramMediaFile(last)?.fileSize ?? 0) < (getTelegramMediaFile(first)?.fileSize ?? 0);
+      return createTelegramVideoItem(parts, indexes[0] === 1 && lastIsShorter);
+    })
+    .sort((a, b) => b.parts[b.parts.length - 1].messageId - a.parts[a.parts.length - 1].messageId);
+}
+
+/**
+ * ZIP 中要播放的影片（最大的影片檔）
+ */
+export function pickArchiveVideoEntry(entries: ZipEntry[]): ZipEntry | null {
+  const videos = entries.filter((entry) => !entry.name.endsWith("/") && isVideoFileName(entry.name));
+  return videos.sort((a, b) => b.uncompressedSize - a.uncompressedSize)[0] ?? null;
+}
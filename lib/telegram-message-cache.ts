@@ -0,0 +1,222 @@
+/**
+ * Telegram 頻道訊息快取
+ * 每個頻道保存已看過的影片訊息（messageId 由新到舊的連續區段），
+ * 之後只需向伺服器取得比最新一則更新的訊息，往下捲動時才補取更舊的訊息
+ */
+
+import type { TelegramChannel, TelegramMessage } from "./telegram-integration";
+
+/**
+ * 鍵值儲存（與 AsyncStorage 相容）
+ */
+export interface TelegramCacheStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+export interface ChannelMessageCache {
+  /** 影片訊息，messageId 由新到舊，中間沒有缺漏 */
+  messages: TelegramMessage[];
+  /** 已取得到頻道最舊的訊息 */
+  reachedEnd: boolean;
+  /** 上次與伺服器同步的時間 */
+  syncedAt: number;
+}
+
+/** 每個頻道最多保存的訊息數，超過時捨棄最舊的訊息 */
+export const MAX_CACHED_MESSAGES_PER_CHANNEL = 2000;
+
+const STORAGE_PREFIX = "vr_telegram_cache";
+
+/**
+ * 記憶體儲存（未指定儲存時使用，App 關閉後即消失）
+ */
+export function createMemoryCacheStorage(): TelegramCacheStorage {
+  const data = new Map<string, string>();
+  return {
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+/**
+ * 依 messageId 由新到舊排序並去除重複（後出現的版本優先，例如已編輯的貼文）
+ */
+function mergeMessages(...groups: TelegramMessage[][]): TelegramMessage[] {
+  const byId = new Map<number, TelegramMessage>();
+  groups.forEach((group) => group.forEach((message) => byId.set(message.messageId, message)));
+  return Array.from(byId.values()).sort((a, b) => b.messageId - a.messageId);
+}
+
+/**
+ * 訊息快取
+ */
+export class TelegramMessageCache {
+  private storage: TelegramCacheStorage;
+  private prefix: string;
+  private channels: Map<string, ChannelMessageCache> = new Map();
+  private channelIds: Set<string> | null = null;
+
+  /**
+   * @param storage 鍵值儲存
+   * @param namespace 區分不同帳號或機器人的快取
+   */
+  constructor(storage: TelegramCacheStorage, namespace: string) {
+    this.storage = storage;
+    this.prefix = `${STORAGE_PREFIX}_${namespace}`;
+  }
+
+  /**
+   * 獲取頻道的快取（未快取時為空）
+   */
+  async getChannelCache(channelId: string): Promise<ChannelMessageCache> {
+    const cached = this.channels.get(channelId);
+    if (cached) return cached;
+
+    let cache: ChannelMessageCache = { messages: [], reachedEnd: false, syncedAt: 0 };
+    try {
+      const data = await this.storage.getItem(`${this.prefix}_messages_${channelId}`);
+      if (data) cache = JSON.parse(data);
+    } catch (err) {
+      console.error("載入訊息快取失敗:", err);
+    }
+    this.channels.set(channelId, cache);
+    return cache;
+  }
+
+  /**
+   * 獲取比 beforeMessageId 更舊的快取訊息
+   *
+   * @param beforeMessageId 未指定時從最新一則開始
+   */
+  async getMessages(channelId: string, limit: number, beforeMessageId?: number): Promise<TelegramMessage[]> {
+    const { messages } = await this.getChannelCache(channelId);
+    const older =
+      beforeMessageId === undefined
+        ? messages
+        : messages.filter((message) => message.messageId < beforeMessageId);
+    return older.slice(0, limit);
+  }
+
+  /**
+   * 加入比快取中最舊一則更舊的訊息（往下捲動取得的下一頁）
+   *
+   * @param reachedEnd 伺服器已沒有更舊的訊息
+   */
+  async addOlder(channelId: string, messages: TelegramMessage[], reachedEnd: boolean): Promise<void> {
+    const cache = await this.getChannelCache(channelId);
+    await this.save(channelId, {
+      messages: mergeMessages(cache.messages, messages),
+      reachedEnd,
+      syncedAt: cache.syncedAt || Date.now(),
+    });
+  }
+
+  /**
+   * 加入比快取中最新一則更新的訊息
+   *
+   * @param contiguous 是否已取得最新一則之後的所有訊息；否則捨棄舊快取以免中間缺漏
+   */
+  async addNewer(channelId: string, messages: TelegramMessage[], contiguous: boolean): Promise<void> {
+    const cache = await this.getChannelCache(channelId);
+    await this.save(channelId, {
+      messages: contiguous ? mergeMessages(cache.messages, messages) : mergeMessages(messages),
+      reachedEnd: contiguous && cache.reachedEnd,
+      syncedAt: Date.now(),
+    });
+  }
+
+  /**
+   * 加入或更新訊息（機器人模式收到的貼文即為頻道的全部訊息）
+   */
+  async upsert(channelId: string, messages: TelegramMessage[]): Promise<void> {
+    const cache = await this.getChannelCache(channelId);
+    await this.save(channelId, {
+      messages: mergeMessages(cache.messages, messages),
+      reachedEnd: true,
+      syncedAt: Date.now(),
+    });
+  }
+
+  /**
+   * 快取中最新一則訊息的 ID
+   */
+  async getNewestMessageId(channelId: string): Promise<number | null> {
+    const { messages } = await this.getChannelCache(channelId);
+    return messages[0]?.messageId ?? null;
+  }
+
+  /**
+   * 獲取保存的頻道列表
+   */
+  async getChannels(): Promise<TelegramChannel[]> {
+    try {
+      const data = await this.storage.getItem(`${this.prefix}_channels`);
+      return data ? JSON.parse(data) : [];
+    } catch (err) {
+      console.error("載入頻道快取失敗:", err);
+      return [];
+    }
+  }
+
+  async setChannels(channels: TelegramChannel[]): Promise<void> {
+    try {
+      await this.storage.setItem(`${this.prefix}_channels`, JSON.stringify(channels));
+    } catch (err) {
+      console.error("保存頻道快取失敗:", err);
+    }
+  }
+
+  /**
+   * 清除所有快取
+   */
+  async clear(): Promise<void> {
+    const channelIds = await this.getChannelIds();
+    this.channels.clear();
+    this.channelIds = new Set();
+    await Promise.all(
+      Array.from(channelIds).map((channelId) =>
+        this.storage.setItem(
+          `${this.prefix}_messages_${channelId}`,
+          JSON.stringify({ messages: [], reachedEnd: false, syncedAt: 0 })
+        )
+      )
+    );
+    await this.storage.setItem(`${this.prefix}_index`, "[]");
+    await this.setChannels([]);
+  }
+
+  private async getChannelIds(): Promise<Set<string>> {
+    if (!this.channelIds) {
+      try {
+        const data = await this.storage.getItem(`${this.prefix}_index`);
+        this.channelIds = new Set(data ? JSON.parse(data) : []);
+      } catch (err) {
+        console.error("載入訊息快取索引失敗:", err);
+        this.channelIds = new Set();
+      }
+    }
+    return this.channelIds;
+  }
+
+  private async save(channelId: string, cache: ChannelMessageCache): Promise<void> {
+    if (cache.messages.length > MAX_CACHED_MESSAGES_PER_CHANNEL) {
+      cache.messages = cache.messages.slice(0, MAX_CACHED_MESSAGES_PER_CHANNEL);
+      cache.reachedEnd = false;
+    }
+    this.channels.set(channelId, cache);
+
+    try {
+      const channelIds = await this.getChannelIds();
+      if (!channelIds.has(channelId)) {
+        channelIds.add(channelId);
+        await this.storage.setItem(`${this.prefix}_index`, JSON.stringify(Array.from(channelIds)));
+      }
+      await this.storage.setItem(`${this.prefix}_messages_${channelId}`, JSON.stringify(cache));
+    } catch (err) {
+      console.error("保存訊息快取失敗:", err);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Telegram 登入憑證保存
+ * Bot Token 與使用者帳號的閘道憑證存放在安全儲存（expo-secure-store），
+ * 支援多個帳號，App 重新啟動時還原上次使用的帳號
+ *
+ * 安全儲存的單一值在部分平台限制約 2 KB，每個帳號各自一個鍵，另以只有帳號 ID 的索引列出帳號
+ */
+
+import type { TelegramMode } from "./telegram-integration";
+
+/**
+ * 安全儲存介面（與 expo-secure-store 相容）
+ * 鍵只能包含英數字、"."、"-" 與 "_"
+ */
+export interface SecureKeyValueStore {
+  getItemAsync(key: string): Promise<string | null>;
+  setItemAsync(key: string, value: string): Promise<void>;
+  deleteItemAsync(key: string): Promise<void>;
+}
+
+export interface TelegramAccount {
+  /** 帳號 ID（bot_{機器人 ID} 或 user_{使用者 ID}） */
+  id: string;
+  mode: TelegramMode;
+  /** 顯示名稱 */
+  name: string;
+  username?: string;
+  /** 使用者帳號模式的閘道網址 */
+  gatewayUrl?: string;
+  addedAt: number;
+  lastUsedAt: number;
+}
+
+const ACCOUNT_INDEX_KEY = "vr_telegram_account_ids";
+const ACCOUNT_KEY_PREFIX = "vr_telegram_account_";
+const ACTIVE_ACCOUNT_KEY = "vr_telegram_active_account";
+const SECRET_KEY_PREFIX = "vr_telegram_secret_";
+
+/**
+ * 帳號 ID
+ */
+export function getTelegramAccountId(mode: TelegramMode, userId: string | number): string {
+  return `${mode}_${String(userId).replace(/[^A-Za-z0-9._-]/g, "_")}`;
+}
+
+/**
+ * 帳號與憑證保存
+ */
+export class TelegramSessionStore {
+  private store: SecureKeyValueStore;
+
+  constructor(store: SecureKeyValueStore) {
+    this.store = store;
+  }
+
+  /**
+   * 已連結的帳號（最近使用的在前）
+   */
+  async listAccounts(): Promise<TelegramAccount[]> {
+    try {
+      const ids = await this.readIndex();
+      const accounts = await Promise.all(ids.map((id) => this.readAccount(id)));
+      return accounts
+        .filter((account): account is TelegramAccount => account !== null)
+        .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    } catch (err) {
+      console.error("載入 Telegram 帳號失敗:", err);
+      return [];
+    }
+  }
+
+  /**
+   * 保存帳號與憑證，並設為目前使用的帳號
+   *
+   * @param secret Bot Token 或閘道憑證
+   */
+  async saveAccount(
+    account: Omit<TelegramAccount, "addedAt" | "lastUsedAt">,
+    secret: string
+  ): Promise<TelegramAccount> {
+    const existing = await this.readAccount(account.id);
+    const now = Date.now();
+    const saved: TelegramAccount = {
+      ...account,
+      addedAt: existing?.addedAt ?? now,
+      lastUsedAt: now,
+    };
+
+    await this.store.setItemAsync(`${SECRET_KEY_PREFIX}${account.id}`, secret);
+    await this.writeAccount(saved);
+    const ids = await this.readIndex();
+    if (!ids.includes(account.id)) {
+      await this.writeIndex([...ids, account.id]);
+    }
+    await this.store.setItemAsync(ACTIVE_ACCOUNT_KEY, account.id);
+    return saved;
+  }
+
+  /**
+   * 獲取帳號的憑證
+   */
+  async getSecret(accountId: string): Promise<string | null> {
+    try {
+      return await this.store.getItemAsync(`${SECRET_KEY_PREFIX}${accountId}`);
+    } catch (err) {
+      console.error("讀取 Telegram 憑證失敗:", err);
+      return null;
+    }
+  }
+
+  /**
+   * 目前使用的帳號
+   */
+  async getActiveAccount(): Promise<TelegramAccount | null> {
+    try {
+      const activeId = await this.store.getItemAsync(ACTIVE_ACCOUNT_KEY);
+      return activeId ? await this.readAccount(activeId) : null;
+    } catch (err) {
+      console.error("讀取目前 Telegram 帳號失敗:", err);
+      return null;
+    }
+  }
+
+  /**
+   * 切換目前使用的帳號
+   */
+  async setActiveAccount(accountId: string | null): Promise<void> {
+    if (accountId === null) {
+      await this.store.deleteItemAsync(ACTIVE_ACCOUNT_KEY);
+      return;
+    }
+
+    const account = await this.readAccount(accountId);
+    if (!account) {
+      throw new Error("找不到此 Telegram 帳號");
+    }
+    await this.writeAccount({ ...account, lastUsedAt: Date.now() });
+    await this.store.setItemAsync(ACTIVE_ACCOUNT_KEY, accountId);
+  }
+
+  /**
+   * 移除帳號與憑證（登出或憑證失效）
+   */
+  async removeAccount(accountId: string): Promise<void> {
+    await this.store.deleteItemAsync(`${SECRET_KEY_PREFIX}${accountId}`);
+    await this.store.deleteItemAsync(`${ACCOUNT_KEY_PREFIX}${accountId}`);
+    await this.writeIndex((await this.readIndex()).filter((id) => id !== accountId));
+    const activeId = await this.store.getItemAsync(ACTIVE_ACCOUNT_KEY);
+    if (activeId === accountId) {
+      await this.store.deleteItemAsync(ACTIVE_ACCOUNT_KEY);
+    }
+  }
+
+  private async readIndex(): Promise<string[]> {
+    const data = await this.store.getItemAsync(ACCOUNT_INDEX_KEY);
+    return data ? JSON.parse(data) : [];
+  }
+
+  private async writeIndex(ids: string[]): Promise<void> {
+    await this.store.setItemAsync(ACCOUNT_INDEX_KEY, JSON.stringify(ids));
+  }
+
+  private async readAccount(accountId: string): Promise<TelegramAccount | null> {
+    const data = await this.store.getItemAsync(`${ACCOUNT_KEY_PREFIX}${accountId}`);
+    return data ? JSON.parse(data) : null;
+  }
+
+  private async writeAccount(account: TelegramAccount): Promise<void> {
+    await this.store.setItemAsync(`${ACCOUNT_KEY_PREFIX}${account.id}`, JSON.stringify(account));
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * 2D 轉 3D 影片的時間平滑
+ * 逐幀估算的深度圖在動態畫面中會閃爍，轉換工作階段保留前一幀的深度，
+ * 以指數平滑穩定視差，並在偵測到場景切換時重置，避免前一個鏡頭的深度殘留
+ */
+
+import {
+  renderSBSFromDepth,
+  resolveDepthMap,
+  type PixelBuffer,
+  type SBSConversionOptions,
+} from "./video-processing";
+
+export interface TemporalSmoothingOptions {
+  /** 時間平滑強度 (0 - 1)：0 為不平滑，越大越穩定但反應越慢 */
+  smoothing: number;
+  /** 每幀深度最大變化量 (0 - 1)，限制平滑後仍殘留的跳動 */
+  maxDepthStep: number;
+  /** 場景切換門檻 (0 - 1)：亮度直方圖差異超過此值時重置 */
+  sceneCutThreshold: number;
+  /** 亮度直方圖分格數 */
+  histogramBins: number;
+}
+
+export const DEFAULT_TEMPORAL_SMOOTHING_OPTIONS: TemporalSmoothingOptions = {
+  smoothing: 0.8,
+  maxDepthStep: 0.08,
+  sceneCutThreshold: 0.4,
+  histogramBins: 32,
+};
+
+export interface TemporalFrameResult {
+  /** SBS 3D 影像（寬度加倍） */
+  frame: PixelBuffer;
+  /** 平滑後的深度圖 */
+  depth: Float32Array;
+  /** 此幀是否為新場景的第一幀 */
+  sceneCut: boolean;
+  /** 與前一幀的直方圖差異 (0 - 1) */
+  histogramDelta: number;
+}
+
+/**
+ * 計算正規化的亮度直方圖（總和為 1）
+ *
+ * @param image 影像數據
+ * @param bins 分格數
+ * @returns 直方圖
+ */
+export function computeLuminanceHistogram(image: PixelBuffer, bins: number): Float32Array {
+  const { data, width, height } = image;
+  const pixelCount = width * height;
+  const histogram = new Float32Array(bins);
+  if (pixelCount === 0) return histogram;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const idx = i * 4;
+    const luma = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+    histogram[Math.min(bins - 1, Math.floor((luma / 256) * bins))]++;
+  }
+  for (let i = 0; i < bins; i++) {
+    histogram[i] /= pixelCount;
+  }
+  return histogram;
+}
+
+/**
+ * 計算兩個直方圖的差異（L1 距離的一半）
+ *
+ * @returns 0 代表分佈相同，1 代表完全不重疊
+ */
+export function histogramDifference(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    throw new Error(`直方圖分格數不符：${a.length} 與 ${b.length}`);
+  }
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / 2;
+}
+
+/**
+ * 跨幀的 2D 轉 3D 轉換工作階段
+ *
+ * 每個影片（或每段連續的幀）使用一個工作階段，依顯示順序送入影格。
+ */
+export class TemporalDisparitySession {
+  private options: TemporalSmoothingOptions;
+  private previousDepth: Float32Array | null = null;
+  private previousHistogram: Float32Array | null = null;
+  private previousSize: { width: number; height: number } | null = null;
+  private frameCount = 0;
+  private sceneCount = 0;
+
+  constructor(options: Partial<TemporalSmoothingOptions> = {}) {
+    this.options = { ...DEFAULT_TEMPORAL_SMOOTHING_OPTIONS, ...options };
+  }
+
+  /**
+   * 轉換下一幀
+   *
+   * @param image 原始影像數據
+   * @param conversion 轉換選項（depthMode 為 uniform 或未指定時以估算深度處理）
+   * @returns SBS 影像與平滑後的深度圖
+   */
+  processFrame(image: PixelBuffer, conversion: SBSConversionOptions): TemporalFrameResult {
+    const depthOptions: SBSConversionOptions =
+      conversion.depthMode === "external" ? conversion : { ...conversion, depthMode: "estimated" };
+    const rawDepth = resolveDepthMap(image, depthOptions);
+    const histogram = computeLuminanceHistogram(image, this.options.histogramBins);
+
+    const sizeChanged =
+      !this.previousSize ||
+      this.previousSize.width !== image.width ||
+      this.previousSize.height !== image.height;
+    const histogramDelta =
+      this.previousHistogram && this.previousHistogram.length === histogram.length
+        ? histogramDifference(this.previousHistogram, histogram)
+        : 1;
+    const sceneCut =
+      sizeChanged || !this.previousDepth || histogramDelta > this.options.sceneCutThreshold;
+
+    const depth = sceneCut ? rawDepth : this.smoothDepth(this.previousDepth!, rawDepth);
+
+    this.previousDepth = depth;
+    this.previousHistogram = histogram;
+    this.previousSize = { width: image.width, height: image.height };
+    this.frameCount++;
+    if (sceneCut) this.sceneCount++;
+
+    return {
+      frame: renderSBSFromDepth(image, depth, depthOptions),
+      depth,
+      sceneCut,
+      histogramDelta,
+    };
+  }
+
+  /**
+   * 更新平滑選項，之後的幀立即生效
+   */
+  setOptions(options: Partial<TemporalSmoothingOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): TemporalSmoothingOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * 獲取統計資訊
+   */
+  getStats(): { frameCount: number; sceneCount: number } {
+    return { frameCount: this.frameCount, sceneCount: this.sceneCount };
+  }
+
+  /**
+   * 清除跨幀狀態（例如跳轉播放位置後）
+   */
+  reset(): void {
+    this.previousDepth = null;
+    this.previousHistogram = null;
+    this.previousSize = null;
+    this.frameCount = 0;
+    this.sceneCount = 0;
+  }
+
+  private smoothDepth(previous: Float32Array, current: Float32Array): Float32Array {
+    const { smoothing, maxDepthStep } = this.options;
+    const alpha = 1 - Math.max(0, Math.min(1, smoothing));
+    const smoothed = new Float32Array(current.length);
+
+    for (let i = 0; i < current.length; i++) {
+      const target = previous[i] + (current[i] - previous[i]) * alpha;
+      const step = Math.max(-maxDepthStep, Math.min(maxDepthStep, target - previous[i]));
+      smoothed[i] = previous[i] + step;
+    }
+    return smoothed;
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * 影片投影與立體排列模型
+ * 描述影格中左右眼畫面的排列方式，以及畫面對應的投影方式
+ */
+
+/**
+ * 立體排列方式
+ * - mono: 單眼（2D）
+ * - sbs: 左右並排，每眼為完整寬度
+ * - tb: 上下並排，每眼為完整高度
+ * - half-sbs: 左右並排，每眼水平壓縮一半
+ * - half-tb: 上下並排，每眼垂直壓縮一半
+ */
+export type StereoLayout = "mono" | "sbs" | "tb" | "half-sbs" | "half-tb";
+
+/**
+ * 投影方式
+ */
+export type ProjectionType = "flat" | "equirect-360" | "equirect-180" | "fisheye" | "cubemap";
+
+export interface VideoLayout {
+  stereo: StereoLayout;
+  projection: ProjectionType;
+}
+
+/**
+ * 影片分類（用於篩選與標籤顯示）
+ */
+export type VideoType = "2D" | "3D" | "360°";
+
+/**
+ * 單眼在影格中的區域（0-1 正規化座標）
+ */
+export interface EyeRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Eye = "left" | "right";
+
+export const DEFAULT_VIDEO_LAYOUT: VideoLayout = { stereo: "mono", projection: "flat" };
+
+export const STEREO_LAYOUT_LABELS: Record<StereoLayout, string> = {
+  mono: "單眼",
+  sbs: "左右",
+  tb: "上下",
+  "half-sbs": "半寬左右",
+  "half-tb": "半高上下",
+};
+
+export const PROJECTION_LABELS: Record<ProjectionType, string> = {
+  flat: "平面",
+  "equirect-360": "360°",
+  "equirect-180": "VR180",
+  fisheye: "魚眼",
+  cubemap: "立方體",
+};
+
+/**
+ * 常用的播放排列預設
+ */
+export const PLAYBACK_LAYOUT_PRESETS: { label: string; layout: VideoLayout }[] = [
+  { label: "2D", layout: { stereo: "mono", projection: "flat" } },
+  { label: "3D 左右", layout: { stereo: "sbs", projection: "flat" } },
+  { label: "3D 上下", layout: { stereo: "tb", projection: "flat" } },
+  { label: "360°", layout: { stereo: "mono", projection: "equirect-360" } },
+  { label: "360° 3D 上下", layout: { stereo: "tb", projection: "equirect-360" } },
+  { label: "VR180", layout: { stereo: "sbs", projection: "equirect-180" } },
+];
+
+/**
+ * 根據文件名偵測投影與立體排列
+ *
+ * 常見命名慣例：
+ * - 立體：_SBS、_LR、_TB、_OU、HSBS、3DH、Half-OU
+ * - 投影：360、VR180、180x180、Fisheye、EAC、Cubemap
+ *
+ * @param filename 文件名
+ * @returns 影片排列
+ */
+export function detectVideoLayout(filename: string): VideoLayout {
+  const lowerName = filename.toLowerCase().replace(/\.[a-z0-9]+$/, "");
+  const rawTokens = lowerName.split(/[^a-z0-9]+/).filter(Boolean);
+  const tokens = new Set(rawTokens);
+  rawTokens.forEach((token) => token.match(/[a-z]+|[0-9]+/g)?.forEach((t) => tokens.add(t)));
+  const compact = lowerName.replace(/[^a-z0-9]/g, "");
+
+  const hasToken = (...words: string[]) => words.some((word) => tokens.has(word));
+  const hasPhrase = (...phrases: string[]) => phrases.some((phrase) => compact.includes(phrase));
+
+  let projection: ProjectionType = "flat";
+  if (hasPhrase("fisheye")) {
+    projection = "fisheye";
+  } else if (hasToken("eac", "cube") || hasPhrase("cubemap")) {
+    projection = "cubemap";
+  } else if (hasToken("vr180", "180")) {
+    projection = "equirect-180";
+  } else if (
+    hasToken("360", "vr", "pano", "equirect") ||
+    hasPhrase("panorama", "equirectangular")
+  ) {
+    projection = "equirect-360";
+  }
+
+  let stereo: StereoLayout = "mono";
+  if (hasToken("hsbs", "3dh") || hasPhrase("halfsbs")) {
+    stereo = "half-sbs";
+  } else if (hasToken("htb", "hou") || hasPhrase("halfou", "halftb")) {
+    stereo = "half-tb";
+  } else if (hasToken("tb", "ou", "3dtb") || hasPhrase("overunder", "topbottom", "topandbottom")) {
+    stereo = "tb";
+  } else if (hasToken("sbs", "lr", "3d") || hasPhrase("sidebyside")) {
+    stereo = "sbs";
+  } else if (projection === "equirect-180") {
+    // VR180 幾乎都是左右並排
+    stereo = "sbs";
+  }
+
+  return { stereo, projection };
+}
+
+/**
+ * 將排列歸類為影片分類
+ */
+export function layoutToVideoType(layout: VideoLayout): VideoType {
+  if (layout.projection !== "flat") return "360°";
+  return layout.stereo === "mono" ? "2D" : "3D";
+}
+
+/**
+ * 將舊版影片分類轉換為排列
+ */
+export function videoTypeToLayout(type: VideoType): VideoLayout {
+  switch (type) {
+    case "3D":
+      return { stereo: "sbs", projection: "flat" };
+    case "360°":
+      return { stereo: "mono", projection: "equirect-360" };
+    default:
+      return { ...DEFAULT_VIDEO_LAYOUT };
+  }
+}
+
+/**
+ * 獲取某隻眼睛在影格中的取樣區域
+ *
+ * @param stereo 立體排列
+ * @param eye 左眼或右眼
+ * @returns 正規化區域；單眼影片兩眼皆為整個影格
+ */
+export function getEyeRegion(stereo: StereoLayout, eye: Eye): EyeRegion {
+  switch (stereo) {
+    case "sbs":
+    case "half-sbs":
+      return { x: eye === "left" ? 0 : 0.5, y: 0, width: 0.5, height: 1 };
+    case "tb":
+    case "half-tb":
+      return { x: 0, y: eye === "left" ? 0 : 0.5, width: 1, height: 0.5 };
+    default:
+      return { x: 0, y: 0, width: 1, height: 1 };
+  }
+}
+
+/**
+ * 獲取單眼畫面的顯示比例修正
+ * 半寬/半高格式的單眼畫面被壓縮，顯示時需拉伸回原比例
+ */
+export function getEyeAspectCorrection(stereo: StereoLayout): { scaleX: number; scaleY: number } {
+  switch (stereo) {
+    case "half-sbs":
+      return { scaleX: 2, scaleY: 1 };
+    case "half-tb":
+      return { scaleX: 1, scaleY: 2 };
+    default:
+      return { scaleX: 1, scaleY: 1 };
+  }
+}
+
+/**
+ * 計算還原比例後的單眼畫面寬高比
+ *
+ * @param stereo 立體排列
+ * @param frameWidth 影格寬度（像素）
+ * @param frameHeight 影格高度（像素）
+ */
+export function getEyeDisplayAspect(
+  stereo: StereoLayout,
+  frameWidth: number,
+  frameHeight: number
+): number {
+  const region = getEyeRegion(stereo, "left");
+  const { scaleX, scaleY } = getEyeAspectCorrection(stereo);
+  return (frameWidth * region.width * scaleX) / (frameHeight * region.height * scaleY);
+}
+
+/**
+ * 計算影格在眼睛視窗中的繪製矩形
+ * 單眼畫面依還原後的比例置中縮放至視窗內（不裁切），整個影格放大平移使該眼區域剛好落在顯示範圍；
+ * 影格需以拉伸方式繪製於此矩形，比例修正已包含在矩形尺寸中
+ *
+ * @param stereo 立體排列
+ * @param eye 左眼或右眼
+ * @param viewport 眼睛視窗尺寸
+ * @param frame 影格尺寸（像素）；尚未得知時單眼畫面填滿視窗
+ * @returns 影格相對於眼睛視窗的矩形
+ */
+export function getEyeFrameRect(
+  stereo: StereoLayout,
+  eye: Eye,
+  viewport: { width: number; height: number },
+  frame: { width: number; height: number } | null
+): EyeRegion {
+  const region = getEyeRegion(stereo, eye);
+
+  let width = viewport.width;
+  let height = viewport.height;
+  if (frame && frame.width > 0 && frame.height > 0) {
+    const aspect = getEyeDisplayAspect(stereo, frame.width, frame.height);
+    if (aspect > viewport.width / viewport.height) {
+      height = viewport.width / aspect;
+    } else {
+      width = viewport.height * aspect;
+    }
+  }
+
+  const frameWidth = width / region.width;
+  const frameHeight = height / region.height;
+  return {
+    x: (viewport.width - width) / 2 - region.x * frameWidth,
+    y: (viewport.height - height) / 2 - region.y * frameHeight,
+    width: frameWidth,
+    height: frameHeight,
+  };
+}
+
+/**
+ * 是否為立體排列
+ */
+export function isStereoLayout(stereo: StereoLayout): boolean {
+  return stereo !== "mono";
+}
+
+/**
+ * 是否為沉浸式投影（需要頭部追蹤與重投影）
+ */
+export function isImmersiveProjection(projection: ProjectionType): boolean {
+  return projection !== "flat";
+}
+
+/**
+ * 比較兩個排列是否相同
+ */
+export function isSameLayout(a: VideoLayout, b: VideoLayout): boolean {
+  return a.stereo === b.stereo && a.projection === b.projection;
+}
+
+/**
+ * 格式化排列為顯示文字
+ */
+export function formatVideoLayout(layout: VideoLayout): string {
+  const preset = PLAYBACK_LAYOUT_PRESETS.find((p) => isSameLayout(p.layout, layout));
+  if (preset) return preset.label;
+
+  const projection = layout.projection === "flat" ? "3D" : PROJECTION_LABELS[layout.projection];
+  return layout.stereo === "mono"
+    ? projection
+    : `${projection} ${STEREO_LAYOUT_LABELS[layout.stereo]}`;
+}
@@ -14,13 +14,65 @@ export interface VideoProcessingOptions {
   saturation: number;
 }
 
+/**
+ * 深度來源模式
+ * - uniform: 整張畫面使用相同位移（舊版行為）
+ * - estimated: 由亮度、邊緣、失焦等線索估算深度
+ * - external: 使用外部提供的深度圖
+ */
+export type DepthMode = "uniform" | "estimated" | "external";
+
+/**
+ * 深度估算各線索的權重
+ */
+export interface DepthCueWeights {
+  /** 亮度線索（越亮越近） */
+  luminance: number;
+  /** 邊緣強度線索（邊緣越銳利越近） */
+  edge: number;
+  /** 失焦線索（局部細節越多越近） */
+  defocus: number;
+  /** 畫面位置線索（越靠下越近） */
+  position: number;
+}
+
 export interface SBSConversionOptions extends VideoProcessingOptions {
   /** 分離強度 (0 - 1.0) */
   separationStrength: number;
   /** 視差調整 (0 - 100) */
   parallax: number;
+  /** 深度來源模式，預設為 uniform */
+  depthMode?: DepthMode;
+  /** 外部深度圖（0-1 浮點或 0-255 整數，數值越大越近），長度需為 width * height */
+  depthMap?: Float32Array | Uint8Array | Uint8ClampedArray;
+  /** 深度估算線索權重 */
+  depthCueWeights?: Partial<DepthCueWeights>;
+  /** 零視差平面所在的深度 (0 - 1.0)，預設 0.5 */
+  convergenceDepth?: number;
+  /** 深度圖平滑半徑 (像素)，預設 2 */
+  depthSmoothingRadius?: number;
 }
 
+/**
+ * 與 ImageData 相容的像素緩衝區
+ * 不依賴 DOM，方便在 Node 環境中測試
+ */
+export interface PixelBuffer {
+  data: Uint8ClampedArray<ArrayBuffer>;
+  width: number;
+  height: number;
+}
+
+/**
+ * 預設深度線索權重
+ */
+export const DEFAULT_DEPTH_CUE_WEIGHTS: DepthCueWeights = {
+  luminance: 0.2,
+  edge: 0.25,
+  defocus: 0.25,
+  position: 0.3,
+};
+
 /**
  * 2D 轉 3D (SBS - Side-by-Side) 轉換
  * 
@@ -29,6 +81,9 @@ export interface SBSConversionOptions extends VideoProcessingOptions {
  * 2. 根據瞳距和視差參數應用水平位移
  * 3. 左眼影像向左移動，右眼影像向右移動
  * 4. 根據分離強度調整位移量
+ *
+ * 若 depthMode 為 estimated 或 external，改用深度圖渲染（DIBR），
+ * 每個像素依其深度取得不同視差，詳見 convertPixelsTo3DWithDepth。
  * 
  * @param imageData 原始影像數據
  * @param options 轉換選項
@@ -38,14 +93,17 @@ export function convertTo2DTo3D(
   imageData: ImageData,
   options: SBSConversionOptions
 ): ImageData {
+  if (options.depthMode && options.depthMode !== "uniform") {
+    const sbs = convertPixelsTo3DWithDepth(imageData, options);
+    return new ImageData(sbs.data, sbs.width, sbs.height);
+  }
+
   const { width, height } = imageData;
   const sbsWidth = width * 2; // SBS 格式寬度加倍
   const sbsData = new Uint8ClampedArray(sbsWidth * height * 4);
 
   // 計算位移量（基於瞳距和視差）
-  const displacement = Math.round(
-    (options.pupilDistance / 65) * (options.parallax / 100) * 10
-  );
+  const displacement = calculateBaseDisplacement(options);
   const separation = options.separationStrength;
 
   // 處理每個像素
@@ -90,6 +148,395 @@ export function convertTo2DTo3D(
   return new ImageData(sbsData, sbsWidth, height);
 }
 
+/**
+ * 計算基礎水平位移量（像素）
+ *
+ * @param options 轉換選項
+ * @returns 位移量 (像素)
+ */
+export function calculateBaseDisplacement(options: SBSConversionOptions): number {
+  return Math.round((options.pupilDistance / 65) * (options.parallax / 100) * 10);
+}
+
+/**
+ * 估算每個像素的深度
+ *
+ * 演算法說明：
+ * 1. 亮度：較亮的區域通常較靠近觀看者
+ * 2. 邊緣：Sobel 梯度越強代表物體輪廓越清晰
+ * 3. 失焦：拉普拉斯能量越高代表越接近對焦平面（前景）
+ * 4. 位置：畫面下方通常為地面與前景
+ * 各線索正規化後依權重加總，再做平滑避免深度破碎
+ *
+ * @param image 原始影像數據
+ * @param weights 線索權重
+ * @param smoothingRadius 平滑半徑 (像素)
+ * @returns 深度圖 (0 = 最遠, 1 = 最近)
+ */
+export function estimateDepthMap(
+  image: PixelBuffer,
+  weights: Partial<DepthCueWeights> = {},
+  smoothingRadius: number = 2
+): Float32Array {
+  const { width, height, data } = image;
+  const pixelCount = width * height;
+  const cueWeights = { ...DEFAULT_DEPTH_CUE_WEIGHTS, ...weights };
+
+  // 亮度 (Rec. 601)
+  const luminance = new Float32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const idx = i * 4;
+    luminance[i] =
+      (0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2]) / 255;
+  }
+
+  // 邊緣強度 (Sobel) 與失焦程度 (拉普拉斯絕對值)
+  const edge = new Float32Array(pixelCount);
+  const laplacian = new Float32Array(pixelCount);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - 1);
+    const y1 = Math.min(height - 1, y + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - 1);
+      const x1 = Math.min(width - 1, x + 1);
+
+      const tl = luminance[y0 * width + x0];
+      const tc = luminance[y0 * width + x];
+      const tr = luminance[y0 * width + x1];
+      const ml = luminance[y * width + x0];
+      const mc = luminance[y * width + x];
+      const mr = luminance[y * width + x1];
+      const bl = luminance[y1 * width + x0];
+      const bc = luminance[y1 * width + x];
+      const br = luminance[y1 * width + x1];
+
+      const gx = tr + 2 * mr + br - tl - 2 * ml - bl;
+      const gy = bl + 2 * bc + br - tl - 2 * tc - tr;
+      edge[y * width + x] = Math.sqrt(gx * gx + gy * gy);
+      laplacian[y * width + x] = Math.abs(tc + ml + mr + bc - 4 * mc);
+    }
+  }
+
+  // 邊緣與細節向周圍擴散，讓整個物體表面都能取得深度
+  const cueRadius = Math.max(1, Math.round(Math.min(width, height) / 32));
+  const edgeCue = normalizeRange(boxBlur(edge, width, height, cueRadius));
+  const defocusCue = normalizeRange(boxBlur(laplacian, width, height, cueRadius));
+  const luminanceCue = normalizeRange(luminance);
+
+  const totalWeight =
+    cueWeights.luminance + cueWeights.edge + cueWeights.defocus + cueWeights.position || 1;
+
+  const depth = new Float32Array(pixelCount);
+  for (let y = 0; y < height; y++) {
+    const positionCue = height > 1 ? y / (height - 1) : 0.5;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      depth[i] =
+        (cueWeights.luminance * luminanceCue[i] +
+          cueWeights.edge * edgeCue[i] +
+          cueWeights.defocus * defocusCue[i] +
+          cueWeights.position * positionCue) /
+        totalWeight;
+    }
+  }
+
+  return normalizeRange(boxBlur(depth, width, height, smoothingRadius));
+}
+
+/**
+ * 將外部深度圖正規化為 0-1 浮點
+ *
+ * @param depthMap 外部深度圖（0-1 浮點或 0-255 整數）
+ * @param pixelCount 像素數量
+ * @returns 正規化深度圖
+ */
+export function normalizeDepthMap(
+  depthMap: Float32Array | Uint8Array | Uint8ClampedArray,
+  pixelCount: number
+): Float32Array {
+  if (depthMap.length !== pixelCount) {
+    throw new Error(`深度圖尺寸不符：預期 ${pixelCount}，實際 ${depthMap.length}`);
+  }
+
+  const scale = depthMap instanceof Float32Array ? 1 : 1 / 255;
+  const normalized = new Float32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    normalized[i] = Math.max(0, Math.min(1, depthMap[i] * scale));
+  }
+  return normalized;
+}
+
+/**
+ * 以深度圖渲染左右眼視圖 (DIBR - Depth-Image-Based Rendering)
+ *
+ * 演算法說明：
+ * 1. 每個像素的位移 = maxDisparity × (深度 - 零視差平面)
+ * 2. 左眼向右、右眼向左前向映射，近處物體產生凸出效果
+ * 3. 使用 Z-buffer，多個像素落在同一位置時保留較近者
+ * 4. 被遮擋區域（空洞）以兩側中較遠的像素填補，避免前景拉絲
+ *
+ * @param image 原始影像數據
+ * @param depth 深度圖 (0 = 最遠, 1 = 最近)
+ * @param maxDisparity 最大視差 (像素)
+ * @param convergenceDepth 零視差平面深度 (0 - 1.0)
+ * @param colorOptions 顏色調整選項
+ * @returns 左右眼影像
+ */
+export function renderStereoViewsFromDepth(
+  image: PixelBuffer,
+  depth: Float32Array,
+  maxDisparity: number,
+  convergenceDepth: number = 0.5,
+  colorOptions?: VideoProcessingOptions
+): { left: PixelBuffer; right: PixelBuffer } {
+  const { width, height } = image;
+  const source = colorOptions ? adjustPixelColors(image.data, colorOptions) : image.data;
+
+  return {
+    left: warpView(source, depth, width, height, maxDisparity, convergenceDepth, 1),
+    right: warpView(source, depth, width, height, maxDisparity, convergenceDepth, -1),
+  };
+}
+
+/**
+ * 以深度圖將 2D 影像轉換為 SBS 3D 影像
+ *
+ * @param image 原始影像數據
+ * @param options 轉換選項（depthMode 為 external 時需提供 depthMap）
+ * @returns SBS 3D 影像數據（寬度加倍）
+ */
+export function convertPixelsTo3DWithDepth(
+  image: PixelBuffer,
+  options: SBSConversionOptions
+): PixelBuffer {
+  return renderSBSFromDepth(image, resolveDepthMap(image, options), options);
+}
+
+/**
+ * 依深度模式取得影像的深度圖
+ * external 模式使用外部深度圖，其餘模式由影像估算
+ *
+ * @param image 原始影像數據
+ * @param options 轉換選項
+ * @returns 深度圖 (0 = 最遠, 1 = 最近)
+ */
+export function resolveDepthMap(image: PixelBuffer, options: SBSConversionOptions): Float32Array {
+  if (options.depthMode === "external") {
+    if (!options.depthMap) {
+      throw new Error("external 深度模式需要提供 depthMap");
+    }
+    return normalizeDepthMap(options.depthMap, image.width * image.height);
+  }
+  return estimateDepthMap(image, options.depthCueWeights, options.depthSmoothingRadius ?? 2);
+}
+
+/**
+ * 依已計算好的深度圖渲染 SBS 3D 影像
+ * 供需要在渲染前處理深度圖的呼叫端使用（例如跨幀的時間平滑）
+ *
+ * @param image 原始影像數據
+ * @param depth 深度圖 (0 = 最遠, 1 = 最近)
+ * @param options 轉換選項
+ * @returns SBS 3D 影像數據（寬度加倍）
+ */
+export function renderSBSFromDepth(
+  image: PixelBuffer,
+  depth: Float32Array,
+  options: SBSConversionOptions
+): PixelBuffer {
+  const { width, height } = image;
+  const maxDisparity = calculateBaseDisplacement(options) * options.separationStrength;
+  const { left, right } = renderStereoViewsFromDepth(
+    image,
+    depth,
+    maxDisparity,
+    options.convergenceDepth ?? 0.5,
+    options
+  );
+
+  const sbsWidth = width * 2;
+  const sbsData = new Uint8ClampedArray(sbsWidth * height * 4);
+  const rowBytes = width * 4;
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * rowBytes;
+    sbsData.set(left.data.subarray(rowStart, rowStart + rowBytes), y * sbsWidth * 4);
+    sbsData.set(
+      right.data.subarray(rowStart, rowStart + rowBytes),
+      y * sbsWidth * 4 + rowBytes
+    );
+  }
+
+  return { data: sbsData, width: sbsWidth, height };
+}
+
+/**
+ * 對整個緩衝區套用顏色調整
+ */
+function adjustPixelColors(
+  data: Uint8ClampedArray,
+  options: VideoProcessingOptions
+): Uint8ClampedArray {
+  const adjusted = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b] = applyColorAdjustments([data[i], data[i + 1], data[i + 2]], options);
+    adjusted[i] = r;
+    adjusted[i + 1] = g;
+    adjusted[i + 2] = b;
+    adjusted[i + 3] = data[i + 3];
+  }
+  return adjusted;
+}
+
+/**
+ * 前向映射單眼視圖並填補空洞
+ *
+ * @param direction 1 = 左眼（向右位移），-1 = 右眼（向左位移）
+ */
+function warpView(
+  source: Uint8ClampedArray,
+  depth: Float32Array,
+  width: number,
+  height: number,
+  maxDisparity: number,
+  convergenceDepth: number,
+  direction: 1 | -1
+): PixelBuffer {
+  const output = new Uint8ClampedArray(width * height * 4);
+  const zBuffer = new Float32Array(width).fill(-1);
+
+  for (let y = 0; y < height; y++) {
+    zBuffer.fill(-1);
+    const rowOffset = y * width;
+
+    for (let x = 0; x < width; x++) {
+      const d = depth[rowOffset + x];
+      const targetX = Math.round(x + direction * maxDisparity * (d - convergenceDepth));
+      if (targetX < 0 || targetX >= width || d <= zBuffer[targetX]) continue;
+
+      zBuffer[targetX] = d;
+      const srcIdx = (rowOffset + x) * 4;
+      const dstIdx = (rowOffset + targetX) * 4;
+      output[dstIdx] = source[srcIdx];
+      output[dstIdx + 1] = source[srcIdx + 1];
+      output[dstIdx + 2] = source[srcIdx + 2];
+      output[dstIdx + 3] = source[srcIdx + 3];
+    }
+
+    fillRowHoles(output, zBuffer, rowOffset, width);
+  }
+
+  return { data: output, width, height };
+}
+
+/**
+ * 填補單列中的遮擋空洞
+ * 空洞兩側取較遠（深度較小）的像素，背景延伸比前景拉伸自然
+ */
+function fillRowHoles(
+  output: Uint8ClampedArray,
+  zBuffer: Float32Array,
+  rowOffset: number,
+  width: number
+): void {
+  let x = 0;
+  while (x < width) {
+    if (zBuffer[x] >= 0) {
+      x++;
+      continue;
+    }
+
+    const start = x;
+    while (x < width && zBuffer[x] < 0) x++;
+    const end = x; // 空洞範圍 [start, end)
+
+    const leftX = start - 1;
+    const rightX = end < width ? end : -1;
+    let fillX: number;
+    if (leftX >= 0 && rightX >= 0) {
+      fillX = zBuffer[leftX] <= zBuffer[rightX] ? leftX : rightX;
+    } else if (leftX >= 0) {
+      fillX = leftX;
+    } else if (rightX >= 0) {
+      fillX = rightX;
+    } else {
+      continue;
+    }
+
+    const fillIdx = (rowOffset + fillX) * 4;
+    for (let hx = start; hx < end; hx++) {
+      const dstIdx = (rowOffset + hx) * 4;
+      output[dstIdx] = output[fillIdx];
+      output[dstIdx + 1] = output[fillIdx + 1];
+      output[dstIdx + 2] = output[fillIdx + 2];
+      output[dstIdx + 3] = output[fillIdx + 3];
+    }
+  }
+}
+
+/**
+ * 可分離的方框模糊
+ */
+function boxBlur(
+  input: Float32Array,
+  width: number,
+  height: number,
+  radius: number
+): Float32Array {
+  if (radius <= 0) return input.slice();
+
+  const horizontal = new Float32Array(input.length);
+  for (let y = 0; y < height; y++) {
+    const rowOffset = y * width;
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) {
+        sum += input[rowOffset + k];
+        count++;
+      }
+      horizontal[rowOffset + x] = sum / count;
+    }
+  }
+
+  const output = new Float32Array(input.length);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      let sum = 0;
+      let count = 0;
+      for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) {
+        sum += horizontal[k * width + x];
+        count++;
+      }
+      output[y * width + x] = sum / count;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * 將數值線性映射至 0-1；數值全部相同時回傳 0.5
+ */
+function normalizeRange(input: Float32Array): Float32Array {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] < min) min = input[i];
+    if (input[i] > max) max = input[i];
+  }
+
+  const output = new Float32Array(input.length);
+  const range = max - min;
+  if (range <= 1e-6) {
+    output.fill(0.5);
+    return output;
+  }
+  for (let i = 0; i < input.length; i++) {
+    output[i] = (input[i] - min) / range;
+  }
+  return output;
+}
+
 /**
  * 應用顏色調整（亮度、對比度、飽和度）
  * 
@@ -126,28 +573,6 @@ export function applyColorAdjustments(
   ];
 }
 
-/**
- * 計算瞳距調節的水平位移
- * 
- * @param pupilDistance 瞳距 (毫米)
- * @param screenWidth 螢幕寬度 (像素)
- * @param viewingDistance 觀看距離 (釐米)
- * @returns 位移量 (像素)
- */
-export function calculatePupilDistanceShift(
-  pupilDistance: number,
-  screenWidth: number,
-  viewingDistance: number = 50
-): number {
-  // 基於視角計算位移
-  // 標準瞳距 65mm，觀看距離 50cm
-  const standardPupilDistance = 65;
-  const basePupilShift = screenWidth * 0.02; // 基礎位移為螢幕寬度的 2%
-
-  const shift = (pupilDistance / standardPupilDistance) * basePupilShift;
-  return Math.round(shift);
-}
-
 /**
  * 驗證瞳距值是否在有效範圍內
  * 
@@ -201,19 +626,6 @@ export function calculatePanoramicTransform(
   ];
 }
 
-/**
- * 獲取預設的 VR 設備瞳距配置
- */
-export const VR_DEVICE_PUPIL_DISTANCES: Record<string, number> = {
-  "大朋 VR": 65,
-  "小米 VR": 62,
-  "魔風暴鏡": 64,
-  "千幻鏡": 63,
-  "精靈鏡": 65,
-  "小寨魔鏡": 64,
-  "標準 VR": 65,
-};
-
 /**
  * 播放速度預設值
  */
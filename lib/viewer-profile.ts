@@ -0,0 +1,265 @@
+/**
+ * VR 眼鏡（觀看器）參數模型
+ * 描述手機 VR 眼鏡的鏡片幾何與光學特性，內建常見眼鏡，
+ * 並可匯入/匯出 Google Cardboard QR Code 參數
+ */
+
+import {
+  createCardboardUri,
+  parseCardboardUri,
+  type CardboardDeviceParams,
+} from "./cardboard-params";
+import type { LensProfile } from "./lens-distortion";
+
+/**
+ * 眼鏡放置手機時鏡片對齊的位置
+ * - bottom: 鏡片中心距托盤（手機底邊）固定距離
+ * - center: 鏡片中心對齊螢幕中央
+ * - top: 鏡片中心距螢幕頂邊固定距離
+ */
+export type VerticalAlignment = "bottom" | "center" | "top";
+
+export type ViewerButton = "none" | "magnet" | "touch" | "indirect-touch";
+
+/**
+ * 單眼視角（度），以左眼為準，右眼左右鏡像
+ */
+export interface EyeFieldOfView {
+  /** 外側（遠離鼻樑） */
+  outer: number;
+  /** 內側（靠近鼻樑） */
+  inner: number;
+  top: number;
+  bottom: number;
+}
+
+export interface ViewerProfile {
+  id: string;
+  /** 顯示名稱 */
+  name: string;
+  vendor: string;
+  model: string;
+  /** 兩鏡片中心距離 (mm) */
+  interLensDistance: number;
+  /** 螢幕到鏡片距離 (mm) */
+  screenToLensDistance: number;
+  /** 托盤（手機底邊）到鏡片中心距離 (mm)，verticalAlignment 為 bottom / top 時使用 */
+  trayToLensDistance: number;
+  verticalAlignment: VerticalAlignment;
+  fieldOfView: EyeFieldOfView;
+  /** 徑向畸變係數 [k1, k2, ...] */
+  distortionCoefficients: number[];
+  /** 紅、藍通道相對綠色的放大倍率差 */
+  chromaticAberration: { red: number; blue: number };
+  primaryButton: ViewerButton;
+  /** 是否為內建參數（不可修改或刪除） */
+  builtIn: boolean;
+}
+
+export const DEFAULT_VIEWER_PROFILE_ID = "standard";
+
+const VERTICAL_ALIGNMENTS: VerticalAlignment[] = ["bottom", "center", "top"];
+const VIEWER_BUTTONS: ViewerButton[] = ["none", "magnet", "touch", "indirect-touch"];
+
+/**
+ * 建立內建眼鏡參數
+ */
+function builtIn(
+  id: string,
+  name: string,
+  interLensDistance: number,
+  fov: number,
+  distortionCoefficients: number[],
+  chromaticAberration: { red: number; blue: number }
+): ViewerProfile {
+  return {
+    id,
+    name,
+    vendor: name,
+    model: name,
+    interLensDistance,
+    screenToLensDistance: 39,
+    trayToLensDistance: 35,
+    verticalAlignment: "bottom",
+    fieldOfView: { outer: fov / 2, inner: fov / 2, top: fov / 2, bottom: fov / 2 },
+    distortionCoefficients,
+    chromaticAberration,
+    primaryButton: "touch",
+    builtIn: true,
+  };
+}
+
+/**
+ * 內建眼鏡參數
+ */
+export const BUILT_IN_VIEWER_PROFILES: ViewerProfile[] = [
+  builtIn("standard", "標準 VR", 65, 90, [0.34, 0.55], { red: -0.006, blue: 0.009 }),
+  builtIn("dapeng", "大朋 VR", 65, 96, [0.32, 0.48], { red: -0.008, blue: 0.012 }),
+  builtIn("xiaomi", "小米 VR", 62, 93, [0.3, 0.42], { red: -0.007, blue: 0.011 }),
+  builtIn("mofeng", "魔風暴鏡", 64, 90, [0.44, 0.16], { red: -0.01, blue: 0.015 }),
+  builtIn("qianhuan", "千幻鏡", 63, 88, [0.28, 0.36], { red: -0.006, blue: 0.01 }),
+  builtIn("jingling", "精靈鏡", 65, 90, [0.36, 0.3], { red: -0.008, blue: 0.012 }),
+  builtIn("xiaozhai", "小寨魔鏡", 64, 92, [0.4, 0.2], { red: -0.009, blue: 0.014 }),
+];
+
+/**
+ * 獲取所有眼鏡參數（內建 + 自訂）
+ */
+export function getAllViewerProfiles(customProfiles: ViewerProfile[] = []): ViewerProfile[] {
+  return [...BUILT_IN_VIEWER_PROFILES, ...customProfiles];
+}
+
+/**
+ * 依 ID 尋找眼鏡參數，找不到時使用標準 VR
+ */
+export function findViewerProfile(
+  id: string,
+  customProfiles: ViewerProfile[] = []
+): ViewerProfile {
+  return (
+    getAllViewerProfiles(customProfiles).find((profile) => profile.id === id) ??
+    BUILT_IN_VIEWER_PROFILES[0]
+  );
+}
+
+/**
+ * 依舊版設備名稱（selectedVRDevice）尋找內建眼鏡 ID
+ */
+export function getViewerProfileIdByName(name: string): string {
+  return (
+    BUILT_IN_VIEWER_PROFILES.find((profile) => profile.name === name)?.id ??
+    DEFAULT_VIEWER_PROFILE_ID
+  );
+}
+
+/**
+ * 以現有參數為基礎建立自訂眼鏡
+ */
+export function createCustomViewerProfile(
+  base: ViewerProfile,
+  overrides: Partial<Omit<ViewerProfile, "id" | "builtIn">> = {}
+): ViewerProfile {
+  return {
+    ...base,
+    fieldOfView: { ...base.fieldOfView },
+    distortionCoefficients: [...base.distortionCoefficients],
+    chromaticAberration: { ...base.chromaticAberration },
+    name: `${base.name}（自訂）`,
+    ...overrides,
+    id: `custom_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    builtIn: false,
+  };
+}
+
+/**
+ * 驗證眼鏡參數
+ */
+export function validateViewerProfile(profile: ViewerProfile): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!profile.name.trim()) {
+    errors.push("名稱不可為空");
+  }
+  if (profile.interLensDistance < 40 || profile.interLensDistance > 90) {
+    errors.push("鏡片間距應在 40-90mm 之間");
+  }
+  if (profile.screenToLensDistance < 10 || profile.screenToLensDistance > 100) {
+    errors.push("螢幕到鏡片距離應在 10-100mm 之間");
+  }
+  const angles = Object.values(profile.fieldOfView);
+  if (angles.some((angle) => angle <= 0 || angle >= 90)) {
+    errors.push("視角應在 0-90 度之間");
+  }
+  if (profile.distortionCoefficients.some((k) => !Number.isFinite(k))) {
+    errors.push("畸變係數必須為數字");
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * 取得鏡片畸變校正所需的參數
+ */
+export function toLensProfile(profile: ViewerProfile): LensProfile {
+  return {
+    distortionCoefficients: [...profile.distortionCoefficients],
+    chromaticAberration: { ...profile.chromaticAberration },
+    fieldOfView: profile.fieldOfView.outer + profile.fieldOfView.inner,
+  };
+}
+
+/**
+ * 由 Cardboard 參數建立自訂眼鏡
+ * Cardboard 沒有色差參數，使用標準 VR 的數值
+ */
+export function viewerProfileFromCardboard(params: CardboardDeviceParams): ViewerProfile {
+  const [outer, inner, top, bottom] = params.leftEyeFieldOfViewAngles;
+  const name = [params.vendor, params.model].filter(Boolean).join(" ") || "Cardboard";
+
+  return createCustomViewerProfile(BUILT_IN_VIEWER_PROFILES[0], {
+    name,
+    vendor: params.vendor,
+    model: params.model,
+    interLensDistance: roundMillimeters(params.interLensDistance),
+    screenToLensDistance: roundMillimeters(params.screenToLensDistance),
+    trayToLensDistance: roundMillimeters(params.trayToLensDistance),
+    verticalAlignment: VERTICAL_ALIGNMENTS[params.verticalAlignment] ?? "bottom",
+    fieldOfView: {
+      outer: roundFloat(outer),
+      inner: roundFloat(inner),
+      top: roundFloat(top),
+      bottom: roundFloat(bottom),
+    },
+    distortionCoefficients: params.distortionCoefficients.map(roundFloat),
+    primaryButton: VIEWER_BUTTONS[params.primaryButton] ?? "magnet",
+  });
+}
+
+/**
+ * 轉換為 Cardboard 參數
+ */
+export function viewerProfileToCardboard(profile: ViewerProfile): CardboardDeviceParams {
+  const { outer, inner, top, bottom } = profile.fieldOfView;
+  return {
+    vendor: profile.vendor,
+    model: profile.model,
+    screenToLensDistance: profile.screenToLensDistance / 1000,
+    interLensDistance: profile.interLensDistance / 1000,
+    leftEyeFieldOfViewAngles: [outer, inner, top, bottom],
+    trayToLensDistance: profile.trayToLensDistance / 1000,
+    distortionCoefficients: [...profile.distortionCoefficients],
+    verticalAlignment: VERTICAL_ALIGNMENTS.indexOf(profile.verticalAlignment),
+    primaryButton: VIEWER_BUTTONS.indexOf(profile.primaryButton),
+  };
+}
+
+/**
+ * 從 Cardboard QR Code 網址匯入眼鏡
+ */
+export function importViewerProfileFromUri(uri: string): ViewerProfile {
+  return viewerProfileFromCardboard(parseCardboardUri(uri));
+}
+
+/**
+ * 匯出為 Cardboard QR Code 網址
+ */
+export function exportViewerProfileToUri(profile: ViewerProfile): string {
+  return createCardboardUri(viewerProfileToCardboard(profile));
+}
+
+/**
+ * 公尺轉毫米，去除 float32 的尾數誤差
+ */
+function roundMillimeters(meters: number): number {
+  return Math.round(meters * 10000) / 10;
+}
+
+function roundFloat(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
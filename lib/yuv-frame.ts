@@ -0,0 +1,349 @@
+/**
+ * YUV 影格格式與色彩轉換
+ * 解碼器輸出的原生格式多為平面 (I420) 或半平面 (NV12) YUV，
+ * 直接在 YUV 平面上處理可省去 4K 影格轉 RGBA 再轉回的成本
+ */
+
+import type { PixelBuffer } from "./video-processing";
+
+/**
+ * YUV 4:2:0 排列方式
+ * - i420: Y 平面 + U 平面 + V 平面
+ * - nv12: Y 平面 + UV 交錯平面
+ */
+export type YUVPixelFormat = "i420" | "nv12";
+
+/**
+ * 色彩矩陣：BT.601 (SD) 或 BT.709 (HD)
+ */
+export type YUVColorMatrix = "bt601" | "bt709";
+
+/**
+ * 數值範圍
+ * - limited: Y 16-235、UV 16-240（影片常用）
+ * - full: 0-255（JPEG、部分手機錄影）
+ */
+export type YUVColorRange = "limited" | "full";
+
+export interface YUVColorSpace {
+  matrix: YUVColorMatrix;
+  range: YUVColorRange;
+}
+
+/**
+ * YUV 4:2:0 影格，各平面連續存放且無列填充
+ */
+export interface YUVFrame {
+  format: YUVPixelFormat;
+  width: number;
+  height: number;
+  data: Uint8Array;
+  colorSpace: YUVColorSpace;
+}
+
+/**
+ * 平面在緩衝區中的位置
+ */
+export interface YUVPlaneLayout {
+  /** 色度平面寬度（取樣數） */
+  chromaWidth: number;
+  /** 色度平面高度 */
+  chromaHeight: number;
+  /** U 樣本起始位置 */
+  uOffset: number;
+  /** V 樣本起始位置 */
+  vOffset: number;
+  /** 色度每列位元組數 */
+  chromaStride: number;
+  /** 同一列相鄰色度樣本的間距（I420 為 1，NV12 為 2） */
+  chromaStep: number;
+  /** 整個影格的位元組數 */
+  size: number;
+}
+
+export const DEFAULT_YUV_COLOR_SPACE: YUVColorSpace = { matrix: "bt601", range: "limited" };
+
+const MATRIX_COEFFICIENTS: Record<YUVColorMatrix, { kr: number; kb: number }> = {
+  bt601: { kr: 0.299, kb: 0.114 },
+  bt709: { kr: 0.2126, kb: 0.0722 },
+};
+
+/**
+ * 計算平面位置
+ *
+ * @param format YUV 排列方式
+ * @param width 影格寬度
+ * @param height 影格高度
+ * @returns 平面位置
+ */
+export function getYUVPlaneLayout(
+  format: YUVPixelFormat,
+  width: number,
+  height: number
+): YUVPlaneLayout {
+  const lumaSize = width * height;
+  const chromaWidth = Math.ceil(width / 2);
+  const chromaHeight = Math.ceil(height / 2);
+  const chromaSize = chromaWidth * chromaHeight;
+
+  if (format === "nv12") {
+    return {
+      chromaWidth,
+      chromaHeight,
+      uOffset: lumaSize,
+      vOffset: lumaSize + 1,
+      chromaStride: chromaWidth * 2,
+      chromaStep: 2,
+      size: lumaSize + chromaSize * 2,
+    };
+  }
+
+  return {
+    chromaWidth,
+    chromaHeight,
+    uOffset: lumaSize,
+    vOffset: lumaSize + chromaSize,
+    chromaStride: chromaWidth,
+    chromaStep: 1,
+    size: lumaSize + chromaSize * 2,
+  };
+}
+
+/**
+ * 計算 YUV 4:2:0 影格的位元組數（每像素約 1.5 位元組）
+ */
+export function getYUVFrameSize(width: number, height: number): number {
+  return getYUVPlaneLayout("i420", width, height).size;
+}
+
+/**
+ * 依解析度推測色彩空間
+ * 未標示色彩資訊的影片慣例上 HD (720p 以上) 使用 BT.709，SD 使用 BT.601
+ */
+export function guessYUVColorSpace(width: number, height: number): YUVColorSpace {
+  return {
+    matrix: width >= 1280 || height >= 720 ? "bt709" : "bt601",
+    range: "limited",
+  };
+}
+
+/**
+ * 計算 YUV 與 RGB 互轉所需的係數
+ */
+function getConversionCoefficients({ matrix, range }: YUVColorSpace) {
+  const { kr, kb } = MATRIX_COEFFICIENTS[matrix];
+  const kg = 1 - kr - kb;
+  const limited = range === "limited";
+
+  return {
+    kr,
+    kg,
+    kb,
+    lumaOffset: limited ? 16 : 0,
+    lumaScale: limited ? 219 : 255,
+    chromaScale: limited ? 224 : 255,
+    rv: 2 * (1 - kr),
+    gu: (2 * kb * (1 - kb)) / kg,
+    gv: (2 * kr * (1 - kr)) / kg,
+    bu: 2 * (1 - kb),
+  };
+}
+
+/**
+ * YUV 轉 RGBA
+ *
+ * @param frame YUV 影格
+ * @returns RGBA 像素緩衝區
+ */
+export function yuvToRGBA(frame: YUVFrame): PixelBuffer {
+  const { width, height, data } = frame;
+  const layout = getYUVPlaneLayout(frame.format, width, height);
+  const k = getConversionCoefficients(frame.colorSpace);
+  const output = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const chromaRow = (y >> 1) * layout.chromaStride;
+    for (let x = 0; x < width; x++) {
+      const chromaIdx = chromaRow + (x >> 1) * layout.chromaStep;
+      const luma = ((data[y * width + x] - k.lumaOffset) / k.lumaScale) * 255;
+      const pb = ((data[layout.uOffset + chromaIdx] - 128) / k.chromaScale) * 255;
+      const pr = ((data[layout.vOffset + chromaIdx] - 128) / k.chromaScale) * 255;
+
+      const idx = (y * width + x) * 4;
+      output[idx] = luma + k.rv * pr;
+      output[idx + 1] = luma - k.gu * pb - k.gv * pr;
+      output[idx + 2] = luma + k.bu * pb;
+      output[idx + 3] = 255;
+    }
+  }
+
+  return { data: output, width, height };
+}
+
+/**
+ * RGBA 轉 YUV
+ * 色度取 2x2 區塊的平均值
+ *
+ * @param pixels RGBA 像素緩衝區
+ * @param format 輸出排列方式
+ * @param colorSpace 輸出色彩空間
+ * @returns YUV 影格
+ */
+export function rgbaToYUV(
+  pixels: PixelBuffer,
+  format: YUVPixelFormat,
+  colorSpace: YUVColorSpace = DEFAULT_YUV_COLOR_SPACE
+): YUVFrame {
+  const { width, height, data } = pixels;
+  const layout = getYUVPlaneLayout(format, width, height);
+  const k = getConversionCoefficients(colorSpace);
+  const output = new Uint8Array(layout.size);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const luma = (k.kr * data[idx] + k.kg * data[idx + 1] + k.kb * data[idx + 2]) / 255;
+      output[y * width + x] = clampByte(k.lumaOffset + luma * k.lumaScale);
+    }
+  }
+
+  for (let cy = 0; cy < layout.chromaHeight; cy++) {
+    for (let cx = 0; cx < layout.chromaWidth; cx++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let count = 0;
+      for (let y = cy * 2; y < Math.min(height, cy * 2 + 2); y++) {
+        for (let x = cx * 2; x < Math.min(width, cx * 2 + 2); x++) {
+          const idx = (y * width + x) * 4;
+          r += data[idx];
+          g += data[idx + 1];
+          b += data[idx + 2];
+          count++;
+        }
+      }
+      r /= count * 255;
+      g /= count * 255;
+      b /= count * 255;
+
+      const luma = k.kr * r + k.kg * g + k.kb * b;
+      const pb = (b - luma) / k.bu;
+      const pr = (r - luma) / k.rv;
+
+      const chromaIdx = cy * layout.chromaStride + cx * layout.chromaStep;
+      output[layout.uOffset + chromaIdx] = clampByte(128 + pb * k.chromaScale);
+      output[layout.vOffset + chromaIdx] = clampByte(128 + pr * k.chromaScale);
+    }
+  }
+
+  return { format, width, height, data: output, colorSpace: { ...colorSpace } };
+}
+
+/**
+ * 轉換 YUV 排列方式（I420 ↔ NV12），樣本值不變
+ */
+export function convertYUVPixelFormat(frame: YUVFrame, format: YUVPixelFormat): YUVFrame {
+  if (frame.format === format) return frame;
+
+  const { width, height } = frame;
+  const src = getYUVPlaneLayout(frame.format, width, height);
+  const dst = getYUVPlaneLayout(format, width, height);
+  const output = new Uint8Array(dst.size);
+  output.set(frame.data.subarray(0, width * height));
+
+  for (let cy = 0; cy < src.chromaHeight; cy++) {
+    for (let cx = 0; cx < src.chromaWidth; cx++) {
+      const srcIdx = cy * src.chromaStride + cx * src.chromaStep;
+      const dstIdx = cy * dst.chromaStride + cx * dst.chromaStep;
+      output[dst.uOffset + dstIdx] = frame.data[src.uOffset + srcIdx];
+      output[dst.vOffset + dstIdx] = frame.data[src.vOffset + srcIdx];
+    }
+  }
+
+  return { ...frame, format, data: output };
+}
+
+/**
+ * 以最近鄰縮放 YUV 影格，各平面分別取樣
+ */
+export function resizeYUVFrame(frame: YUVFrame, targetWidth: number, targetHeight: number): YUVFrame {
+  const { width, height, data } = frame;
+  if (width === targetWidth && height === targetHeight) return frame;
+
+  const src = getYUVPlaneLayout(frame.format, width, height);
+  const dst = getYUVPlaneLayout(frame.format, targetWidth, targetHeight);
+  const output = new Uint8Array(dst.size);
+
+  for (let y = 0; y < targetHeight; y++) {
+    const srcY = Math.min(height - 1, Math.floor(((y + 0.5) * height) / targetHeight));
+    for (let x = 0; x < targetWidth; x++) {
+      const srcX = Math.min(width - 1, Math.floor(((x + 0.5) * width) / targetWidth));
+      output[y * targetWidth + x] = data[srcY * width + srcX];
+    }
+  }
+
+  for (let cy = 0; cy < dst.chromaHeight; cy++) {
+    const srcCy = Math.min(
+      src.chromaHeight - 1,
+      Math.floor(((cy + 0.5) * src.chromaHeight) / dst.chromaHeight)
+    );
+    for (let cx = 0; cx < dst.chromaWidth; cx++) {
+      const srcCx = Math.min(
+        src.chromaWidth - 1,
+        Math.floor(((cx + 0.5) * src.chromaWidth) / dst.chromaWidth)
+      );
+      const srcIdx = srcCy * src.chromaStride + srcCx * src.chromaStep;
+      const dstIdx = cy * dst.chromaStride + cx * dst.chromaStep;
+      output[dst.uOffset + dstIdx] = data[src.uOffset + srcIdx];
+      output[dst.vOffset + dstIdx] = data[src.vOffset + srcIdx];
+    }
+  }
+
+  return { ...frame, width: targetWidth, height: targetHeight, data: output };
+}
+
+/**
+ * 直接在 YUV 平面上產生 SBS 3D 影格（寬度翻倍）
+ *
+ * 與 RGBA 版本相同：左眼為原始影格，右眼水平位移。
+ * 亮度平面以全解析度位移；色度平面依對應的亮度位置取樣，位移量自然減半。
+ *
+ * @param frame 原始 YUV 影格
+ * @param shiftPixels 右眼水平位移（亮度像素）
+ * @returns SBS YUV 影格，排列方式與色彩空間同輸入
+ */
+export function convertYUVFrameToSBS(frame: YUVFrame, shiftPixels: number): YUVFrame {
+  const { width, height, data } = frame;
+  const outputWidth = width * 2;
+  const src = getYUVPlaneLayout(frame.format, width, height);
+  const dst = getYUVPlaneLayout(frame.format, outputWidth, height);
+  const output = new Uint8Array(dst.size);
+
+  // 輸出亮度位置對應的來源亮度位置
+  const sourceX = (x: number) =>
+    x < width ? x : Math.max(0, Math.min(width - 1, x - width + shiftPixels));
+
+  for (let y = 0; y < height; y++) {
+    const srcRow = y * width;
+    const dstRow = y * outputWidth;
+    output.set(data.subarray(srcRow, srcRow + width), dstRow);
+    for (let x = width; x < outputWidth; x++) {
+      output[dstRow + x] = data[srcRow + sourceX(x)];
+    }
+  }
+
+  for (let cy = 0; cy < dst.chromaHeight; cy++) {
+    for (let cx = 0; cx < dst.chromaWidth; cx++) {
+      const srcIdx = cy * src.chromaStride + (sourceX(cx * 2) >> 1) * src.chromaStep;
+      const dstIdx = cy * dst.chromaStride + cx * dst.chromaStep;
+      output[dst.uOffset + dstIdx] = data[src.uOffset + srcIdx];
+      output[dst.vOffset + dstIdx] = data[src.vOffset + srcIdx];
+    }
+  }
+
+  return { ...frame, width: outputWidth, data: output };
+}
+
+function clampByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
@@ -0,0 +1,145 @@
+/**
+ * ZIP 目錄讀取
+ * 只讀取檔案結尾的中央目錄與本地檔頭，不需下載整個壓縮檔即可找到項目資料的位置；
+ * 以「儲存」（不壓縮）方式加入的影片可直接以 Range 下載該區段
+ */
+
+/**
+ * 讀取 [start, end) 的位元組
+ */
+export type ZipRangeReader = (start: number, end: number) => Promise<Uint8Array>;
+
+export interface ZipEntry {
+  name: string;
+  /** 壓縮方式：0 為儲存（不壓縮），8 為 Deflate */
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  /** 本地檔頭在壓縮檔中的位置 */
+  localHeaderOffset: number;
+}
+
+/** 不壓縮 */
+export const ZIP_METHOD_STORED = 0;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+const EOCD_SIZE = 22;
+const ZIP64_EOCD_LOCATOR_SIZE = 20;
+const LOCAL_HEADER_SIZE = 30;
+// 結尾註解最長 65535 位元組
+const MAX_EOCD_SEARCH = EOCD_SIZE + 0xffff;
+const UINT32_MAX = 0xffffffff;
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function readUint64(data: DataView, offset: number): number {
+  return data.getUint32(offset, true) + data.getUint32(offset + 4, true) * 0x100000000;
+}
+
+/**
+ * 讀取中央目錄中的所有項目（支援 ZIP64）
+ *
+ * @param totalSize 壓縮檔總大小
+ */
+export async function readZipEntries(read: ZipRangeReader, totalSize: number): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, totalSize - MAX_EOCD_SEARCH);
+  const tail = await read(tailStart, totalSize);
+  const tailView = view(tail);
+
+  let eocd = -1;
+  for (let i = tail.length - EOCD_SIZE; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("不是有效的 ZIP 檔案");
+  }
+
+  let entryCount = tailView.getUint16(eocd + 10, true);
+  let directorySize = tailView.getUint32(eocd + 12, true);
+  let directoryOffset = tailView.getUint32(eocd + 16, true);
+
+  const locator = eocd - ZIP64_EOCD_LOCATOR_SIZE;
+  if (locator >= 0 && tailView.getUint32(locator, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const zip64Offset = readUint64(tailView, locator + 8);
+    const record = view(await read(zip64Offset, zip64Offset + 56));
+    if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error("ZIP64 目錄損毀");
+    }
+    entryCount = readUint64(record, 32);
+    directorySize = readUint64(record, 40);
+    directoryOffset = readUint64(record, 48);
+  }
+
+  const directory = await read(directoryOffset, directoryOffset + directorySize);
+  const directoryView = view(directory);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let position = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (directoryView.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("ZIP 目錄損毀");
+    }
+    const nameLength = directoryView.getUint16(position + 28, true);
+    const extraLength = directoryView.getUint16(position + 30, true);
+    const commentLength = directoryView.getUint16(position + 32, true);
+    const entry: ZipEntry = {
+      name: decoder.decode(directory.subarray(position + 46, position + 46 + nameLength)),
+      method: directoryView.getUint16(position + 10, true),
+      compressedSize: directoryView.getUint32(position + 20, true),
+      uncompressedSize: directoryView.getUint32(position + 24, true),
+      localHeaderOffset: directoryView.getUint32(position + 42, true),
+    };
+
+    // ZIP64 額外欄位依序只包含原本為 0xFFFFFFFF 的欄位
+    let extra = position + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directoryView.getUint16(extra, true);
+      const size = directoryView.getUint16(extra + 2, true);
+      if (id === ZIP64_EXTRA_FIELD) {
+        let field = extra + 4;
+        if (entry.uncompressedSize === UINT32_MAX) {
+          entry.uncompressedSize = readUint64(directoryView, field);
+          field += 8;
+        }
+        if (entry.compressedSize === UINT32_MAX) {
+          entry.compressedSize = readUint64(directoryView, field);
+          field += 8;
+        }
+        if (entry.localHeaderOffset === UINT32_MAX) {
+          entry.localHeaderOffset = readUint64(directoryView, field);
+        }
+      }
+      extra += 4 + size;
+    }
+
+    entries.push(entry);
+    position = extraEnd + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * 項目資料在壓縮檔中的位置（本地檔頭之後）
+ */
+export async function getZipEntryDataOffset(read: ZipRangeReader, entry: ZipEntry): Promise<number> {
+  const header = view(await read(entry.localHeaderOffset, entry.localHeaderOffset + LOCAL_HEADER_SIZE));
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error("ZIP 檔頭損毀");
+  }
+  const nameLength = header.getUint16(26, true);
+  const extraLength = header.getUint16(28, true);
+  return entry.localHeaderOffset + LOCAL_HEADER_SIZE + nameLength + extraLength;
+}
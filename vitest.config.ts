@@ -0,0 +1,9 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // 將 "@/" 對應到專案根目錄，讓 Hook 的測試可以載入 "@/lib/..."
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url).href) },
+  },
+});